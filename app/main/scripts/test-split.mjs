@@ -42,10 +42,12 @@ runTests('tests/avatar-*.test.ts', 'Avatar');
 runTests('tests/vrm*.test.ts', 'VRMA');
 runTests('tests/openai*.test.ts', 'OpenAI');
 runTests('tests/memory*.test.ts', 'Memory');
+runTests('tests/library-archive*.test.ts', 'Library Archive');
 runTests('tests/preload.test.ts', 'Preload');
 runTests('tests/main.test.ts', 'Main');
 runTests('tests/conversation*.test.ts', 'Conversation');
 runTests('tests/wake-word*.test.ts', 'Wake Word');
+runTests('tests/tool-*.test.ts', 'Tools');
 // NOTE: Porcupine tests are skipped in the automated suite due to heap exhaustion
 // from vi.resetModules() in test isolation. Run manually with:
 // NODE_OPTIONS=--max-old-space-size=4096 pnpm vitest run tests/porcupine-worker.test.ts
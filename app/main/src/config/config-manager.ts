@@ -8,12 +8,18 @@ type ConfigLogger = Pick<Console, 'debug' | 'info' | 'warn' | 'error'>;
 
 export type FeatureFlags = Record<string, boolean>;
 
+/** How the renderer reaches the realtime API: WebRTC media, or a WebSocket for networks that block UDP. */
+export type RealtimeTransportKind = 'webrtc' | 'websocket';
+
 export interface AppConfig {
   realtimeApiKey: string;
   audioInputDeviceId?: string;
   audioOutputDeviceId?: string;
   realtimeModel?: string;
   realtimeVoice?: string;
+  realtimeTransport: RealtimeTransportKind;
+  /** Talks to the renderer's scripted mock realtime server instead of the API, so no key or network is needed. */
+  realtimeMock: boolean;
   sessionInstructions?: string;
   vadTurnDetection?: 'none' | 'server_vad';
   vadThreshold?: number;
@@ -22,6 +28,8 @@ export interface AppConfig {
   featureFlags: FeatureFlags;
   wakeWord: WakeWordConfig;
   metrics: MetricsConfig;
+  conversationRetention: ConversationRetentionConfig;
+  conversationResume: ConversationResumeConfig;
 }
 
 export interface WakeWordConfig {
@@ -42,6 +50,21 @@ export interface MetricsConfig {
   path: string;
 }
 
+export type ConversationRetentionRole = 'system' | 'user' | 'assistant' | 'tool' | 'event';
+
+export interface ConversationRetentionConfig {
+  maxAgeDays?: number;
+  maxDatabaseBytes?: number;
+  roleRules: Array<{ role: ConversationRetentionRole; maxAgeDays: number }>;
+  intervalMs: number;
+}
+
+export interface ConversationResumeConfig {
+  windowMs: number;
+  maxMessages: number;
+  maxTokens: number;
+}
+
 export type RendererWakeWordConfig = Omit<WakeWordConfig, 'accessKey'> & {
   hasAccessKey: boolean;
 };
@@ -101,6 +124,24 @@ const MetricsSchema = z.object({
     .transform((value) => (value.startsWith('/') ? value : `/${value}`)),
 });
 
+const ConversationRetentionSchema = z.object({
+  maxAgeDays: z.number().positive().optional(),
+  maxDatabaseBytes: z.number().int().positive().optional(),
+  roleRules: z.array(
+    z.object({
+      role: z.enum(['system', 'user', 'assistant', 'tool', 'event']),
+      maxAgeDays: z.number().positive(),
+    }),
+  ),
+  intervalMs: z.number().int().min(60_000),
+});
+
+const ConversationResumeSchema = z.object({
+  windowMs: z.number().int().min(0),
+  maxMessages: z.number().int().min(1),
+  maxTokens: z.number().int().min(1),
+});
+
 const RealtimeApiKeySchema = z.string().min(1, 'Realtime API key is required');
 const WakeWordAccessKeySchema = z.string().min(1, 'Porcupine access key is required');
 
@@ -146,29 +187,16 @@ export class ConfigManager {
       );
     }
 
-    const audioInputDeviceId =
-      this.normalizeDeviceId(storedPreferences.audioInputDeviceId) ??
-      this.normalizeDeviceId(this.env.AUDIO_INPUT_DEVICE_ID);
-    const audioOutputDeviceId =
-      this.normalizeDeviceId(storedPreferences.audioOutputDeviceId) ??
-      this.normalizeDeviceId(this.env.AUDIO_OUTPUT_DEVICE_ID);
-
     const config: AppConfig = {
       realtimeApiKey: realtimeApiKey ?? '',
-      audioInputDeviceId,
-      audioOutputDeviceId,
-      realtimeModel: this.normalizeDeviceId(storedPreferences.realtimeModel),
-      realtimeVoice: this.normalizeDeviceId(storedPreferences.realtimeVoice),
-      sessionInstructions: typeof storedPreferences.sessionInstructions === 'string'
-        ? storedPreferences.sessionInstructions
-        : undefined,
-      vadTurnDetection: storedPreferences.vadTurnDetection,
-      vadThreshold: typeof storedPreferences.vadThreshold === 'number' ? storedPreferences.vadThreshold : undefined,
-      vadSilenceDurationMs: typeof storedPreferences.vadSilenceDurationMs === 'number' ? storedPreferences.vadSilenceDurationMs : undefined,
-      vadMinSpeechDurationMs: typeof storedPreferences.vadMinSpeechDurationMs === 'number' ? storedPreferences.vadMinSpeechDurationMs : undefined,
+      ...this.resolveStoredPreferences(storedPreferences),
+      realtimeTransport: this.parseRealtimeTransport(),
+      realtimeMock: this.parseRealtimeMock(),
       featureFlags: this.parseFeatureFlags(this.env.FEATURE_FLAGS),
       wakeWord: this.parseWakeWordConfig({ accessKey: wakeWordAccessKey }),
       metrics: this.parseMetricsConfig(),
+      conversationRetention: this.parseConversationRetentionConfig(),
+      conversationResume: this.parseConversationResumeConfig(),
     };
 
     this.config = config;
@@ -227,6 +255,28 @@ export class ConfigManager {
     return this.getRendererConfig();
   }
 
+  /**
+   * Switches the preferences store to another profile and replaces the device, voice and VAD settings
+   * with that profile's. `null` selects the default profile.
+   */
+  async switchPreferencesProfile(profileId: string | null): Promise<RendererConfig> {
+    if (!this.config) {
+      throw new Error('ConfigManager.load() must be called before switching preference profiles.');
+    }
+
+    this.preferencesStore?.switchProfile?.(profileId);
+    const storedPreferences = (await this.preferencesStore?.load()) ?? {};
+    this.config = { ...this.config, ...this.resolveStoredPreferences(storedPreferences) };
+    this.logger.info('Switched preference profile.', { profileId: profileId ?? 'default' });
+
+    return this.getRendererConfig();
+  }
+
+  /** Deletes a profile's stored preferences, e.g. when the profile itself is deleted. */
+  async removePreferencesProfile(profileId: string): Promise<void> {
+    await this.preferencesStore?.removeProfile?.(profileId);
+  }
+
   getConfig(): AppConfig {
     if (!this.config) {
       throw new Error('ConfigManager.load() must be called before accessing the config.');
@@ -476,6 +526,22 @@ export class ConfigManager {
     }
   }
 
+  private parseRealtimeTransport(): RealtimeTransportKind {
+    const value = this.env.REALTIME_TRANSPORT?.trim().toLowerCase();
+    if (!value) {
+      return 'webrtc';
+    }
+    if (value !== 'webrtc' && value !== 'websocket') {
+      throw new ConfigValidationError('REALTIME_TRANSPORT must be either "webrtc" or "websocket" if specified.');
+    }
+    return value;
+  }
+
+  private parseRealtimeMock(): boolean {
+    const value = this.env.REALTIME_MOCK?.trim().toLowerCase();
+    return value ? ['1', 'true', 'yes', 'on'].includes(value) : false;
+  }
+
   private parseMetricsConfig(): MetricsConfig {
     const enabledValue = this.env.METRICS_ENABLED?.trim();
     const enabled = enabledValue ? ['1', 'true', 'yes', 'on'].includes(enabledValue.toLowerCase()) : false;
@@ -491,6 +557,85 @@ export class ConfigManager {
     return MetricsSchema.parse({ enabled, host, port, path });
   }
 
+  private parseConversationRetentionConfig(): ConversationRetentionConfig {
+    const parseNumber = (name: string): number | undefined => {
+      const raw = this.env[name]?.trim();
+      if (!raw) {
+        return undefined;
+      }
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value <= 0) {
+        throw new ConfigValidationError(`${name} must be a positive number if specified.`);
+      }
+      return value;
+    };
+
+    const maxDatabaseMb = parseNumber('CONVERSATION_RETENTION_MAX_DB_MB');
+    const intervalMinutes = parseNumber('CONVERSATION_RETENTION_INTERVAL_MINUTES') ?? 60;
+
+    // Role rules are comma-separated `role=days` pairs, e.g. `system=7,user=90`.
+    const roleRules: Array<{ role: string; maxAgeDays: number }> = [];
+    for (const segment of this.env.CONVERSATION_RETENTION_ROLE_RULES?.split(',') ?? []) {
+      if (!segment.trim()) {
+        continue;
+      }
+      const [role, days] = segment.split('=').map((part) => part.trim());
+      const maxAgeDays = Number(days);
+      if (!role || !days || !Number.isFinite(maxAgeDays)) {
+        throw new ConfigValidationError(
+          `CONVERSATION_RETENTION_ROLE_RULES entry "${segment.trim()}" must look like role=days.`,
+        );
+      }
+      roleRules.push({ role, maxAgeDays });
+    }
+
+    const result = ConversationRetentionSchema.safeParse({
+      maxAgeDays: parseNumber('CONVERSATION_RETENTION_MAX_AGE_DAYS'),
+      maxDatabaseBytes: maxDatabaseMb === undefined ? undefined : Math.round(maxDatabaseMb * 1024 * 1024),
+      roleRules,
+      intervalMs: Math.round(intervalMinutes * 60_000),
+    });
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new ConfigValidationError(
+        `Invalid conversation retention configuration at ${issue?.path.join('.') ?? 'root'}: ${issue?.message ?? result.error.message}`,
+      );
+    }
+
+    return result.data;
+  }
+
+  private parseConversationResumeConfig(): ConversationResumeConfig {
+    const parseNumber = (name: string, fallback: number): number => {
+      const raw = this.env[name]?.trim();
+      if (!raw) {
+        return fallback;
+      }
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new ConfigValidationError(`${name} must be a non-negative number if specified.`);
+      }
+      return value;
+    };
+
+    // A window of 0 minutes turns resuming off: every wake word starts a fresh session.
+    const windowMinutes = parseNumber('CONVERSATION_RESUME_WINDOW_MINUTES', 10);
+
+    const result = ConversationResumeSchema.safeParse({
+      windowMs: Math.round(windowMinutes * 60_000),
+      maxMessages: parseNumber('CONVERSATION_RESUME_MAX_MESSAGES', 20),
+      maxTokens: parseNumber('CONVERSATION_RESUME_MAX_TOKENS', 2_000),
+    });
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new ConfigValidationError(
+        `Invalid conversation resume configuration at ${issue?.path.join('.') ?? 'root'}: ${issue?.message ?? result.error.message}`,
+      );
+    }
+
+    return result.data;
+  }
+
   private parseFeatureFlags(raw: string | undefined): FeatureFlags {
     if (!raw) {
       return {};
@@ -528,6 +673,27 @@ export class ConfigManager {
     return FeatureFlagsSchema.parse(flags);
   }
 
+  /** Maps stored preferences onto config fields; device ids fall back to the environment. */
+  private resolveStoredPreferences(storedPreferences: AudioDevicePreferences): AudioDevicePreferences {
+    return {
+      audioInputDeviceId:
+        this.normalizeDeviceId(storedPreferences.audioInputDeviceId) ??
+        this.normalizeDeviceId(this.env.AUDIO_INPUT_DEVICE_ID),
+      audioOutputDeviceId:
+        this.normalizeDeviceId(storedPreferences.audioOutputDeviceId) ??
+        this.normalizeDeviceId(this.env.AUDIO_OUTPUT_DEVICE_ID),
+      realtimeModel: this.normalizeDeviceId(storedPreferences.realtimeModel),
+      realtimeVoice: this.normalizeDeviceId(storedPreferences.realtimeVoice),
+      sessionInstructions: typeof storedPreferences.sessionInstructions === 'string'
+        ? storedPreferences.sessionInstructions
+        : undefined,
+      vadTurnDetection: storedPreferences.vadTurnDetection,
+      vadThreshold: typeof storedPreferences.vadThreshold === 'number' ? storedPreferences.vadThreshold : undefined,
+      vadSilenceDurationMs: typeof storedPreferences.vadSilenceDurationMs === 'number' ? storedPreferences.vadSilenceDurationMs : undefined,
+      vadMinSpeechDurationMs: typeof storedPreferences.vadMinSpeechDurationMs === 'number' ? storedPreferences.vadMinSpeechDurationMs : undefined,
+    };
+  }
+
   private normalizeDeviceId(value: unknown): string | undefined {
     if (typeof value !== 'string') {
       return undefined;
@@ -16,6 +16,19 @@ export interface AudioDevicePreferences {
 export interface PreferencesStore {
   load(): Promise<AudioDevicePreferences>;
   save(preferences: AudioDevicePreferences): Promise<void>;
+  /** Points later loads and saves at another profile's preferences. `null` selects the default profile. */
+  switchProfile?(profileId: string | null): void;
+  /** Forgets a profile's stored preferences. */
+  removeProfile?(profileId: string): Promise<void>;
+}
+
+// Profile ids become file names, so anything that could escape the profiles directory is rejected.
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function assertProfileId(profileId: string): void {
+  if (!PROFILE_ID_PATTERN.test(profileId)) {
+    throw new Error(`Invalid preferences profile id: ${profileId}`);
+  }
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -29,12 +42,30 @@ function hasErrnoCode(error: unknown): error is { code: string } {
   return typeof error.code === 'string';
 }
 
+/**
+ * Stores the default profile's preferences at `filePath` and every other profile's in a
+ * `profiles/<id>.json` file next to it.
+ */
 export class FilePreferencesStore implements PreferencesStore {
+  private profileId: string | null = null;
+
   constructor(private readonly filePath: string) { }
 
+  switchProfile(profileId: string | null): void {
+    if (profileId !== null) {
+      assertProfileId(profileId);
+    }
+    this.profileId = profileId;
+  }
+
+  async removeProfile(profileId: string): Promise<void> {
+    assertProfileId(profileId);
+    await fs.rm(this.resolvePath(profileId), { force: true });
+  }
+
   async load(): Promise<AudioDevicePreferences> {
     try {
-      const raw = await fs.readFile(this.filePath, 'utf8');
+      const raw = await fs.readFile(this.resolvePath(this.profileId), 'utf8');
       const parsed: unknown = JSON.parse(raw);
       if (!isRecord(parsed)) {
         return {};
@@ -50,10 +81,16 @@ export class FilePreferencesStore implements PreferencesStore {
   }
 
   async save(preferences: AudioDevicePreferences): Promise<void> {
-    const directory = path.dirname(this.filePath);
-    await fs.mkdir(directory, { recursive: true });
+    const filePath = this.resolvePath(this.profileId);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
     const payload = JSON.stringify(preferences, null, 2);
-    await fs.writeFile(this.filePath, payload, 'utf8');
+    await fs.writeFile(filePath, payload, 'utf8');
+  }
+
+  private resolvePath(profileId: string | null): string {
+    return profileId === null
+      ? this.filePath
+      : path.join(path.dirname(this.filePath), 'profiles', `${profileId}.json`);
   }
 
   private sanitize(input: Record<string, unknown>): AudioDevicePreferences {
@@ -143,13 +180,23 @@ export class FilePreferencesStore implements PreferencesStore {
 }
 
 export class InMemoryPreferencesStore implements PreferencesStore {
-  private preferences: AudioDevicePreferences = {};
+  private readonly preferences = new Map<string | null, AudioDevicePreferences>();
+
+  private profileId: string | null = null;
+
+  switchProfile(profileId: string | null): void {
+    this.profileId = profileId;
+  }
+
+  async removeProfile(profileId: string): Promise<void> {
+    this.preferences.delete(profileId);
+  }
 
   async load(): Promise<AudioDevicePreferences> {
-    return { ...this.preferences };
+    return { ...this.preferences.get(this.profileId) };
   }
 
   async save(preferences: AudioDevicePreferences): Promise<void> {
-    this.preferences = { ...preferences };
+    this.preferences.set(this.profileId, { ...preferences });
   }
 }
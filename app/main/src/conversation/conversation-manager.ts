@@ -1,18 +1,49 @@
 import { randomUUID } from 'node:crypto';
 import { EventEmitter } from 'node:events';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
 import type {
   ConversationAppendMessagePayload,
+  ConversationAttachAudioPayload,
+  ConversationAudioClip,
   ConversationHistory,
   ConversationMessage,
+  ConversationProfile,
+  ConversationProfileList,
+  ConversationPurgeRequest,
+  ConversationPurgeResult,
+  ConversationResumePolicy,
+  ConversationRetentionPolicy,
+  ConversationRetentionResult,
   ConversationRole,
+  ConversationSearchOptions,
+  ConversationSearchResult,
   ConversationSession,
+  ConversationSessionListOptions,
+  ConversationSessionPage,
+  ConversationSessionSummary,
   ConversationSessionWithMessages,
+  ConversationUpdateMessagePayload,
 } from './types.js';
-import type { MemoryStore, MessageRecord, SessionRecord } from '../memory/index.js';
+import type { ConversationSummaryRequest } from './conversation-summarizer.js';
+import { DEFAULT_PROFILE_ID, resolvePathInside } from '../memory/index.js';
+import type {
+  MemoryPurgeQuery,
+  MemoryStore,
+  MessageRecord,
+  MessageReference,
+  ProfileRecord,
+  SessionRecord,
+} from '../memory/index.js';
 
 type ConversationEventMap = {
   'session-started': (session: ConversationSession) => void;
   'message-appended': (message: ConversationMessage) => void;
+  'message-updated': (message: ConversationMessage) => void;
+  'session-summarized': (payload: ConversationSessionSummary) => void;
+  'session-updated': (session: ConversationSession) => void;
+  'profile-switched': (profile: ConversationProfile) => void;
+  'messages-purged': (result: ConversationPurgeResult) => void;
 };
 
 export interface ConversationManagerOptions {
@@ -24,13 +55,53 @@ export interface ConversationManagerOptions {
   };
   maxSessions?: number;
   maxMessagesPerSession?: number;
+  retention?: ConversationRetentionPolicy;
+  resume?: ConversationResumePolicy;
+  /** Profile to start with. Defaults to the profile that was active last, or the default profile. */
+  profileId?: string;
+  /**
+   * Where recorded turn audio is written. Audio attachments are rejected when unset, and clips are only
+   * ever read or deleted inside it.
+   */
+  audioDirectory?: string;
+  now?: () => number;
+  /** Deletes a recorded audio file once its message is pruned. Defaults to a forced `rm`. */
+  removeFile?: (filePath: string) => Promise<void>;
+  /**
+   * Condenses messages dropped by the per-session cap into the session's rolling summary. Without
+   * one, pruned messages are simply deleted.
+   */
+  summarizer?: { summarize: (request: ConversationSummaryRequest) => Promise<string> };
+  /** Names untitled sessions from their opening messages. Without one, sessions stay untitled. */
+  titleGenerator?: { generateTitle: (messages: MessageRecord[]) => Promise<string> };
+  /** How many user and assistant messages a session needs before it is titled. Defaults to 4. */
+  titleAfterMessages?: number;
 }
 
+// Session pointers are kept per profile; the active profile is shared by all of them.
 const CURRENT_SESSION_KEY = 'conversation:currentSessionId';
 const LAST_SESSION_KEY = 'conversation:lastSessionId';
+const ACTIVE_PROFILE_KEY = 'profiles.activeProfileId';
 
 const DEFAULT_MAX_SESSIONS = 50;
 const DEFAULT_MAX_MESSAGES_PER_SESSION = 200;
+const DEFAULT_TITLE_AFTER_MESSAGES = 4;
+const DEFAULT_SESSION_PAGE_SIZE = 20;
+const DEFAULT_RESUME_MAX_MESSAGES = 20;
+const DEFAULT_RESUME_MAX_TOKENS = 2_000;
+// Realtime wraps every conversation item in a few tokens of framing on top of its text.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const DEFAULT_RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_AUDIO_CLIP_BYTES = 20 * 1024 * 1024;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': '.webm',
+  'audio/ogg': '.ogg',
+  'audio/mp4': '.m4a',
+  'audio/mpeg': '.mp3',
+  'audio/wav': '.wav',
+};
 
 function sortSessionsDescending<T extends SessionRecord>(sessions: T[]): T[] {
   return [...sessions].sort((a, b) => {
@@ -50,12 +121,36 @@ function sortMessagesAscending(messages: MessageRecord[]): MessageRecord[] {
   });
 }
 
+const CONVERSATION_ROLES: readonly ConversationRole[] = ['system', 'user', 'assistant', 'tool', 'event'];
+
+function isConversationRole(role: string): role is ConversationRole {
+  return (CONVERSATION_ROLES as readonly string[]).includes(role);
+}
+
 function toConversationRole(role: string): ConversationRole {
-  if (role === 'system' || role === 'user' || role === 'assistant') {
-    return role;
-  }
-  // Default to 'assistant' for unknown roles
-  return 'assistant';
+  // Rows written by something newer than this build are shown as events rather than as assistant speech.
+  return isConversationRole(role) ? role : 'event';
+}
+
+function estimateTokens(message: MessageRecord): number {
+  return Math.ceil(message.content.length / 4) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function toConversationProfile(profile: ProfileRecord): ConversationProfile {
+  return { id: profile.id, name: profile.name, createdAt: profile.createdAt };
+}
+
+function toConversationMessage(message: MessageRecord): ConversationMessage {
+  return {
+    id: message.id,
+    sessionId: message.sessionId,
+    role: toConversationRole(message.role),
+    ts: message.ts,
+    content: message.content,
+    audioPath: message.audioPath,
+    metadata: message.metadata ?? null,
+    status: message.status ?? 'complete',
+  };
 }
 
 export class ConversationManager extends EventEmitter {
@@ -67,16 +162,56 @@ export class ConversationManager extends EventEmitter {
 
   private readonly maxMessagesPerSession: number;
 
+  private retention: ConversationRetentionPolicy;
+
+  private resume: ConversationResumePolicy;
+
+  private readonly audioDirectory: string | null;
+
+  private readonly now: () => number;
+
+  private readonly removeFile: (filePath: string) => Promise<void>;
+
+  private readonly summarizer: ConversationManagerOptions['summarizer'] | null;
+
+  private pendingSummary: Promise<void> = Promise.resolve();
+
+  private readonly titleGenerator: ConversationManagerOptions['titleGenerator'] | null;
+
+  private readonly titleAfterMessages: number;
+
+  /** Sessions that already have a title or have one being generated. */
+  private readonly titledSessionIds = new Set<string>();
+
+  private pendingTitle: Promise<void> = Promise.resolve();
+
+  /** Counts purges, so summaries and titles drafted from messages purged meanwhile are discarded. */
+  private purgeCount = 0;
+
+  private profileId: string;
+
   private currentSessionId: string | null = null;
 
+  private retentionTimer: NodeJS.Timeout | null = null;
+
   constructor(options: ConversationManagerOptions) {
     super();
     this.store = options.store;
     this.logger = options.logger;
     this.maxSessions = Math.max(1, options.maxSessions ?? DEFAULT_MAX_SESSIONS);
     this.maxMessagesPerSession = Math.max(1, options.maxMessagesPerSession ?? DEFAULT_MAX_MESSAGES_PER_SESSION);
+    this.retention = options.retention ?? {};
+    this.resume = options.resume ?? {};
+    this.audioDirectory = options.audioDirectory ?? null;
+    this.now = options.now ?? Date.now;
+    this.removeFile = options.removeFile ?? ((filePath) => rm(filePath, { force: true }));
+    this.summarizer = options.summarizer ?? null;
+    this.titleGenerator = options.titleGenerator ?? null;
+    this.titleAfterMessages = Math.max(1, options.titleAfterMessages ?? DEFAULT_TITLE_AFTER_MESSAGES);
+    this.profileId = this.resolveInitialProfile(options.profileId);
 
     this.initializeCurrentSession();
+    this.finalizeInterruptedMessages();
     this.pruneSessions();
   }
 
@@ -100,40 +235,223 @@ export class ConversationManager extends EventEmitter {
   }
 
   getHistory(limit = this.maxSessions): ConversationHistory {
-    const sessions = this.store.listSessions({ limit });
-    const hydrated: ConversationSessionWithMessages[] = [];
+    return {
+      currentSessionId: this.currentSessionId,
+      sessions: this.loadSessions(this.store.listSessions({ limit, profileId: this.profileId })),
+    };
+  }
 
-    for (const session of sessions) {
-      const loaded = this.store.getSessionWithMessages(session.id);
-      if (!loaded) {
-        continue;
-      }
+  /** Lists sessions newest first, one page at a time, for browsing past conversations. */
+  listSessions({ limit = DEFAULT_SESSION_PAGE_SIZE, offset = 0 }: ConversationSessionListOptions = {}): ConversationSessionPage {
+    const pageOffset = Math.max(0, Math.floor(offset));
+    const sessions = this.store.listSessions({
+      limit: Math.max(1, Math.floor(limit)),
+      offset: pageOffset,
+      profileId: this.profileId,
+    });
 
-      hydrated.push({
-        id: loaded.id,
-        startedAt: loaded.startedAt,
-        title: loaded.title,
-        messages: loaded.messages.map((message) => ({
-          id: message.id,
-          sessionId: message.sessionId,
-          role: toConversationRole(message.role),
-          ts: message.ts,
-          content: message.content,
-          audioPath: message.audioPath,
-        })),
-      });
+    return {
+      currentSessionId: this.currentSessionId,
+      sessions: this.loadSessions(sessions),
+      total: this.store.countSessions(this.profileId),
+      offset: pageOffset,
+    };
+  }
+
+  /** Loads one session of the active profile with all of its messages. */
+  getSession(sessionId: string): ConversationSessionWithMessages | null {
+    const session = this.getProfileSession(sessionId);
+    if (!session) {
+      return null;
     }
 
     return {
-      currentSessionId: this.currentSessionId,
-      sessions: hydrated,
+      id: session.id,
+      startedAt: session.startedAt,
+      title: session.title,
+      messages: session.messages.map(toConversationMessage),
+    };
+  }
+
+  /** Sets or clears a session's title. A cleared title may be generated again later. */
+  renameSession(sessionId: string, title: string | null): ConversationSession {
+    const session = this.getProfileSession(sessionId);
+    if (!session) {
+      throw new Error(`Conversation session "${sessionId}" was not found.`);
+    }
+
+    const trimmed = title?.trim() || null;
+    this.store.updateSessionTitle(sessionId, trimmed);
+    if (trimmed) {
+      this.titledSessionIds.add(sessionId);
+    } else {
+      this.titledSessionIds.delete(sessionId);
+    }
+
+    const updated: ConversationSession = { id: session.id, startedAt: session.startedAt, title: trimmed };
+    this.emit('session-updated', updated);
+    return updated;
+  }
+
+  /** Deletes a past session with its messages and recorded audio. The active session cannot be deleted. */
+  async deleteSession(sessionId: string): Promise<void> {
+    if (sessionId === this.currentSessionId) {
+      throw new Error('Cannot delete the active conversation session.');
+    }
+    if (!this.getProfileSession(sessionId)) {
+      throw new Error(`Conversation session "${sessionId}" was not found.`);
+    }
+
+    const audioPaths = this.deleteSessionWithAudio(sessionId);
+    this.titledSessionIds.delete(sessionId);
+    await this.removeAudioFiles(audioPaths);
+    this.logger?.info?.('Deleted conversation session', { sessionId });
+  }
+
+  /**
+   * Forgets matching messages of the active profile along with their recorded audio and the memory
+   * facts learned from them. The active session is kept even if nothing is left in it.
+   */
+  async purge(request: ConversationPurgeRequest): Promise<ConversationPurgeResult> {
+    this.purgeCount += 1;
+    const purged = await this.store.purge(this.toPurgeQuery(request), {
+      removeFile: (audioPath) => this.removeAudioFile(audioPath),
+    });
+
+    for (const sessionId of purged.sessionIds) {
+      this.titledSessionIds.delete(sessionId);
+    }
+    for (const sessionId of purged.clearedSessionIds) {
+      this.titledSessionIds.delete(sessionId);
+      const session = this.store.getSessionWithMessages(sessionId);
+      if (session) {
+        this.emit('session-updated', { id: session.id, startedAt: session.startedAt, title: null });
+        this.queueTitleGeneration(sessionId);
+      }
+    }
+    for (const audioPath of purged.failedAudioPaths) {
+      this.logger?.warn?.('Failed to delete purged conversation audio', { audioPath });
+    }
+
+    const result: ConversationPurgeResult = {
+      messageIds: purged.messageIds,
+      sessionIds: purged.sessionIds,
+      removedFacts: purged.factIds.length,
+      removedAudioFiles: purged.audioPaths.length,
+    };
+    this.emit('messages-purged', result);
+    this.logger?.info?.('Purged conversation history', {
+      removedMessages: result.messageIds.length,
+      removedSessions: result.sessionIds.length,
+      removedFacts: result.removedFacts,
+      removedAudioFiles: result.removedAudioFiles,
+    });
+
+    return result;
+  }
+
+  /** The store query a purge request runs, scoped to the active profile; backups are purged with it too. */
+  toPurgeQuery(request: ConversationPurgeRequest): MemoryPurgeQuery {
+    return {
+      from: request.from,
+      to: request.to,
+      containing: request.containing,
+      sessionIds: request.sessionIds,
+      profileId: this.profileId,
+      keepSessionIds: this.currentSessionId ? [this.currentSessionId] : [],
     };
   }
 
+  searchMessages(query: string, options?: ConversationSearchOptions): ConversationSearchResult[] {
+    return this.store.searchMessages(query, { ...options, profileId: this.profileId }).map((result) => ({
+      message: toConversationMessage(result.message),
+      snippet: result.snippet,
+      rank: result.rank,
+    }));
+  }
+
   getCurrentSessionId(): string | null {
     return this.currentSessionId;
   }
 
+  getActiveProfileId(): string {
+    return this.profileId;
+  }
+
+  listProfiles(): ConversationProfileList {
+    return {
+      activeProfileId: this.profileId,
+      profiles: this.store.listProfiles().map(toConversationProfile),
+    };
+  }
+
+  createProfile(name: string): ConversationProfile {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Profile name is required.');
+    }
+
+    const profile: ProfileRecord = { id: randomUUID(), name: trimmed, createdAt: this.now() };
+    this.store.createProfile(profile);
+    this.logger?.info?.('Created conversation profile', { profileId: profile.id });
+    return toConversationProfile(profile);
+  }
+
+  /**
+   * Makes another profile active. History, search and new sessions are scoped to it from then on, and
+   * its own current session (if any) becomes the current one.
+   */
+  switchProfile(profileId: string): ConversationProfile {
+    const profile = this.store.getProfile(profileId);
+    if (!profile) {
+      throw new Error(`Conversation profile "${profileId}" was not found.`);
+    }
+
+    this.profileId = profile.id;
+    this.store.setValue(ACTIVE_PROFILE_KEY, profile.id);
+    this.initializeCurrentSession();
+    this.emit('profile-switched', toConversationProfile(profile));
+    this.logger?.info?.('Switched conversation profile', { profileId: profile.id });
+
+    return toConversationProfile(profile);
+  }
+
+  /** Deletes a profile with its sessions and recorded audio. The active and default profiles cannot be deleted. */
+  async deleteProfile(profileId: string): Promise<void> {
+    if (profileId === this.profileId) {
+      throw new Error('Cannot delete the active profile.');
+    }
+    if (profileId === DEFAULT_PROFILE_ID) {
+      throw new Error('The default profile cannot be deleted.');
+    }
+    if (!this.store.getProfile(profileId)) {
+      throw new Error(`Conversation profile "${profileId}" was not found.`);
+    }
+
+    const audioPaths = this.store
+      .listSessions({ limit: Number.MAX_SAFE_INTEGER, profileId })
+      .flatMap((session) => this.store.listMessageReferences({ sessionId: session.id }))
+      .flatMap((message) => (message.audioPath ? [message.audioPath] : []));
+    this.store.deleteProfile(profileId);
+    await this.removeAudioFiles(audioPaths);
+    this.logger?.info?.('Deleted conversation profile', { profileId });
+  }
+
+  /** Returns the rolling summary of messages pruned from a session (the current one by default). */
+  getSessionSummary(sessionId = this.currentSessionId): string | null {
+    return sessionId ? this.store.getSessionSummary(sessionId) : null;
+  }
+
+  /** Resolves once every summarize-and-prune run queued so far has finished. */
+  whenSummariesSettled(): Promise<void> {
+    return this.pendingSummary;
+  }
+
+  /** Resolves once every title generation queued so far has finished. */
+  whenTitlesSettled(): Promise<void> {
+    return this.pendingTitle;
+  }
+
   startSession({
     id = randomUUID(),
     startedAt = Date.now(),
@@ -143,12 +461,13 @@ export class ConversationManager extends EventEmitter {
       id,
       startedAt,
       title,
+      profileId: this.profileId,
     };
 
     this.store.createSession(session);
     this.currentSessionId = session.id;
-    this.store.setValue(CURRENT_SESSION_KEY, session.id);
-    this.store.setValue(LAST_SESSION_KEY, session.id);
+    this.store.setValue(CURRENT_SESSION_KEY, session.id, this.profileId);
+    this.store.setValue(LAST_SESSION_KEY, session.id, this.profileId);
     this.emit('session-started', { id: session.id, startedAt: session.startedAt, title: session.title });
 
     this.pruneSessions();
@@ -156,11 +475,62 @@ export class ConversationManager extends EventEmitter {
     return { id: session.id, startedAt: session.startedAt, title: session.title };
   }
 
+  /**
+   * Continues the current session when its last message (or its start, if it has none) falls within
+   * the resume window before `startedAt`; otherwise starts a new session.
+   */
+  resumeOrStartSession({ startedAt = Date.now() }: { startedAt?: number } = {}): ConversationSession {
+    const windowMs = this.resume.windowMs ?? 0;
+    const current = this.currentSessionId ? this.store.getSessionWithMessages(this.currentSessionId) : null;
+    if (current && windowMs > 0) {
+      const lastActivity = current.messages.reduce((latest, message) => Math.max(latest, message.ts), current.startedAt);
+      if (startedAt - lastActivity <= windowMs) {
+        this.logger?.info?.('Resumed conversation session', { sessionId: current.id, idleMs: startedAt - lastActivity });
+        return { id: current.id, startedAt: current.startedAt, title: current.title };
+      }
+    }
+
+    return this.startSession({ startedAt });
+  }
+
+  /**
+   * Returns the most recent user and assistant messages of a session (the current one by default),
+   * oldest first, for replaying into a new realtime session. Stops at whichever of the message or
+   * token limits is reached first, so a long reply near the end may leave earlier turns out.
+   */
+  getResumeMessages(sessionId = this.currentSessionId): ConversationMessage[] {
+    if (!sessionId) {
+      return [];
+    }
+
+    const maxMessages = Math.max(0, this.resume.maxMessages ?? DEFAULT_RESUME_MAX_MESSAGES);
+    const maxTokens = Math.max(0, this.resume.maxTokens ?? DEFAULT_RESUME_MAX_TOKENS);
+    const candidates = sortMessagesAscending(this.store.listMessages(sessionId)).filter(
+      (message) => (message.role === 'user' || message.role === 'assistant') && message.content.trim().length > 0,
+    );
+
+    const selected: MessageRecord[] = [];
+    let tokens = 0;
+    for (let index = candidates.length - 1; index >= 0 && selected.length < maxMessages; index -= 1) {
+      const message = candidates[index];
+      tokens += estimateTokens(message);
+      if (tokens > maxTokens) {
+        break;
+      }
+      selected.push(message);
+    }
+
+    return selected.reverse().map(toConversationMessage);
+  }
+
   appendMessage(payload: ConversationAppendMessagePayload): ConversationMessage {
     const sessionId = payload.sessionId ?? this.currentSessionId;
     if (!sessionId) {
       throw new Error('Cannot append conversation message without an active session.');
     }
+    if (!isConversationRole(payload.role)) {
+      throw new Error(`Unsupported conversation role: ${String(payload.role)}`);
+    }
 
     const message: MessageRecord = {
       id: payload.id ?? randomUUID(),
@@ -168,40 +538,308 @@ export class ConversationManager extends EventEmitter {
       role: payload.role,
       ts: payload.ts ?? Date.now(),
       content: payload.content,
-      audioPath: payload.audioPath ?? null,
+      audioPath: payload.audioPath ? this.resolveAudioPath(payload.audioPath) : null,
+      metadata: payload.metadata ?? null,
+      status: payload.status ?? 'complete',
     };
 
     this.store.appendMessage(message);
     this.pruneMessages(sessionId);
-    this.emit('message-appended', {
-      id: message.id,
-      sessionId: message.sessionId,
-      role: toConversationRole(message.role),
-      ts: message.ts,
-      content: message.content,
-      audioPath: message.audioPath,
+    this.emit('message-appended', toConversationMessage(message));
+    if (message.status === 'complete') {
+      this.queueTitleGeneration(sessionId);
+    }
+
+    return toConversationMessage(message);
+  }
+
+  /**
+   * Extends or rewrites a streaming message as its text arrives, and finalizes it with
+   * `status: 'complete'`. Every change is stored before it is announced, so a crash mid-turn
+   * leaves the partial text in history.
+   */
+  updateMessage(payload: ConversationUpdateMessagePayload): ConversationMessage {
+    const message = this.store.getMessage(payload.messageId);
+    if (!message) {
+      throw new Error(`Conversation message "${payload.messageId}" was not found.`);
+    }
+    if (message.status !== 'streaming') {
+      throw new Error(`Conversation message "${payload.messageId}" is no longer streaming.`);
+    }
+
+    const content = payload.content ?? (payload.delta ? `${message.content}${payload.delta}` : undefined);
+    this.store.updateMessage(message.id, { content, metadata: payload.metadata, status: payload.status });
+
+    const updated = toConversationMessage({
+      ...message,
+      content: content ?? message.content,
+      metadata: payload.metadata !== undefined ? payload.metadata : message.metadata,
+      status: payload.status ?? message.status,
     });
+    this.emit('message-updated', updated);
+    if (updated.status === 'complete') {
+      this.queueTitleGeneration(message.sessionId);
+    }
 
-    return {
-      id: message.id,
-      sessionId: message.sessionId,
-      role: toConversationRole(message.role),
-      ts: message.ts,
-      content: message.content,
-      audioPath: message.audioPath,
+    return updated;
+  }
+
+  /**
+   * Stores a recorded clip for a message and links it through `audioPath`. A clip attached again
+   * replaces the previous recording.
+   */
+  async attachAudio(payload: ConversationAttachAudioPayload): Promise<ConversationMessage> {
+    if (!this.audioDirectory) {
+      throw new Error('Conversation audio storage is not configured.');
+    }
+
+    const mimeType = payload.mimeType.split(';')[0]?.trim().toLowerCase() ?? '';
+    const extension = AUDIO_EXTENSIONS[mimeType];
+    if (!extension) {
+      throw new Error(`Unsupported conversation audio type: ${payload.mimeType}`);
+    }
+
+    if (payload.data.byteLength === 0 || payload.data.byteLength > MAX_AUDIO_CLIP_BYTES) {
+      throw new Error(`Conversation audio clips must be between 1 byte and ${MAX_AUDIO_CLIP_BYTES} bytes.`);
+    }
+
+    // Message ids become file names, so anything that could escape the audio directory is rejected.
+    const message = /^[A-Za-z0-9_-]+$/.test(payload.messageId) ? this.store.getMessage(payload.messageId) : null;
+    if (!message) {
+      throw new Error(`Conversation message "${payload.messageId}" was not found.`);
+    }
+
+    const audioPath = path.join(this.audioDirectory, `${message.id}${extension}`);
+    await mkdir(this.audioDirectory, { recursive: true });
+    await writeFile(audioPath, payload.data);
+    this.store.updateMessageAudioPath(message.id, audioPath);
+
+    if (message.audioPath && message.audioPath !== audioPath) {
+      await this.removeAudioFiles([message.audioPath]);
+    }
+
+    return toConversationMessage({ ...message, audioPath });
+  }
+
+  /** Reads the clip linked to a message, or null when it has none or the file is gone. */
+  async readAudio(messageId: string): Promise<ConversationAudioClip | null> {
+    const storedPath = this.store.getMessage(messageId)?.audioPath;
+    if (!storedPath) {
+      return null;
+    }
+    const audioPath = this.resolveAudioPath(storedPath);
+    if (!audioPath) {
+      this.logger?.warn?.('Refusing to read conversation audio outside the audio directory', { messageId });
+      return null;
+    }
+
+    const extension = path.extname(audioPath).toLowerCase();
+    const mimeType = Object.keys(AUDIO_EXTENSIONS).find((type) => AUDIO_EXTENSIONS[type] === extension);
+
+    try {
+      const data = await readFile(audioPath);
+      return { mimeType: mimeType ?? 'application/octet-stream', data: new Uint8Array(data) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.warn?.('Failed to read conversation audio', { messageId, message });
+      return null;
+    }
+  }
+
+  /**
+   * Deletes conversation data that falls outside the retention policy: messages past the global or
+   * per-role age limits, sessions left empty by that, and then the oldest sessions until the
+   * database fits its size budget. The global age limit also clears the summaries of sessions started
+   * before it and deletes memory facts learned before it. No profile's current session is deleted,
+   * though its old messages may be. Audio recordings belonging to removed messages are deleted from disk.
+   */
+  async applyRetention(): Promise<ConversationRetentionResult> {
+    const now = this.now();
+    const expired = new Map<string, MessageReference>();
+    const collectExpired = (maxAgeDays: number | undefined, role?: string) => {
+      if (maxAgeDays === undefined) {
+        return;
+      }
+      for (const message of this.store.listMessageReferences({ role, before: now - maxAgeDays * DAY_MS })) {
+        expired.set(message.id, message);
+      }
     };
+
+    collectExpired(this.retention.maxAgeDays);
+    for (const rule of this.retention.roleRules ?? []) {
+      collectExpired(rule.maxAgeDays, rule.role);
+    }
+
+    const audioPaths = expired.size > 0 ? this.deleteMessagesWithAudio([...expired.values()]) : [];
+    const currentSessionIds = this.listCurrentSessionIds();
+    let removedSessions = 0;
+    let clearedSummaries = 0;
+    let removedMemoryFacts = 0;
+
+    if (this.retention.maxAgeDays !== undefined) {
+      const cutoff = now - this.retention.maxAgeDays * DAY_MS;
+      clearedSummaries = this.store.clearSessionSummariesBefore(cutoff);
+      removedMemoryFacts = this.store.deleteMemoryFactsBefore(cutoff);
+      for (const session of this.store.listSessions({ limit: Number.MAX_SAFE_INTEGER })) {
+        if (
+          !currentSessionIds.has(session.id) &&
+          session.startedAt < cutoff &&
+          this.store.listMessageReferences({ sessionId: session.id }).length === 0
+        ) {
+          this.store.deleteSession(session.id);
+          removedSessions += 1;
+        }
+      }
+    }
+
+    let databaseBytes: number | null = null;
+    if (this.retention.maxDatabaseBytes !== undefined) {
+      const sizeBudget = this.retention.maxDatabaseBytes;
+      let sizedOut = 0;
+      const oldestFirst = sortSessionsDescending(this.store.listSessions({ limit: Number.MAX_SAFE_INTEGER }))
+        .reverse()
+        .filter((session) => !currentSessionIds.has(session.id));
+
+      for (const session of oldestFirst) {
+        if (this.store.getDatabaseSize().usedBytes <= sizeBudget) {
+          break;
+        }
+        audioPaths.push(...this.deleteSessionWithAudio(session.id));
+        sizedOut += 1;
+      }
+
+      removedSessions += sizedOut;
+      // Deleted rows only free pages inside the file; compacting is what actually shrinks it.
+      if (expired.size > 0 || removedSessions > 0 || clearedSummaries > 0 || removedMemoryFacts > 0) {
+        this.store.compact();
+      }
+      databaseBytes = this.store.getDatabaseSize().totalBytes;
+      if (databaseBytes > sizeBudget) {
+        this.logger?.warn?.('Conversation database exceeds its size budget after retention', {
+          databaseBytes,
+          maxDatabaseBytes: sizeBudget,
+        });
+      }
+    }
+
+    const removedAudioFiles = await this.removeAudioFiles(audioPaths);
+    const result: ConversationRetentionResult = {
+      removedMessages: expired.size,
+      removedSessions,
+      removedAudioFiles,
+      clearedSummaries,
+      removedMemoryFacts,
+      databaseBytes,
+    };
+
+    if (
+      result.removedMessages > 0 ||
+      result.removedSessions > 0 ||
+      result.clearedSummaries > 0 ||
+      result.removedMemoryFacts > 0
+    ) {
+      this.logger?.info?.('Applied conversation retention policy', { ...result });
+    }
+
+    return result;
+  }
+
+  setRetentionPolicy(policy: ConversationRetentionPolicy): void {
+    this.retention = policy;
+  }
+
+  setResumePolicy(policy: ConversationResumePolicy): void {
+    this.resume = policy;
+  }
+
+  /** Applies the retention policy now and then on an interval until {@link stopRetentionSchedule}. */
+  startRetentionSchedule(intervalMs = DEFAULT_RETENTION_INTERVAL_MS): void {
+    if (this.retentionTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.applyRetention().catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.error?.('Failed to apply conversation retention policy', { message });
+      });
+    };
+
+    run();
+    this.retentionTimer = setInterval(run, Math.max(1_000, intervalMs));
+    this.retentionTimer.unref?.();
+  }
+
+  stopRetentionSchedule(): void {
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = null;
+    }
+  }
+
+  private loadSessions(sessions: SessionRecord[]): ConversationSessionWithMessages[] {
+    const hydrated: ConversationSessionWithMessages[] = [];
+
+    for (const session of sessions) {
+      const loaded = this.store.getSessionWithMessages(session.id);
+      if (!loaded) {
+        continue;
+      }
+
+      hydrated.push({
+        id: loaded.id,
+        startedAt: loaded.startedAt,
+        title: loaded.title,
+        messages: loaded.messages.map(toConversationMessage),
+      });
+    }
+
+    return hydrated;
+  }
+
+  /** Closes messages left streaming by a crash, keeping their partial text and marking them interrupted. */
+  private finalizeInterruptedMessages() {
+    const interrupted = this.store.listMessageReferences({ status: 'streaming' });
+    for (const reference of interrupted) {
+      const message = this.store.getMessage(reference.id);
+      this.store.updateMessage(reference.id, {
+        status: 'complete',
+        metadata: { ...(message?.metadata ?? {}), interrupted: true },
+      });
+    }
+
+    if (interrupted.length > 0) {
+      this.logger?.info?.('Finalized interrupted streaming messages', { count: interrupted.length });
+    }
+  }
+
+  private resolveInitialProfile(requested: string | undefined): string {
+    const candidates = [requested, this.store.getValue(ACTIVE_PROFILE_KEY)];
+    for (const candidate of candidates) {
+      if (candidate && this.store.getProfile(candidate)) {
+        return candidate;
+      }
+    }
+
+    return DEFAULT_PROFILE_ID;
+  }
+
+  /** Looks a session up only when it belongs to the active profile. */
+  private getProfileSession(sessionId: string) {
+    const session = this.store.getSessionWithMessages(sessionId);
+    return session && (session.profileId ?? DEFAULT_PROFILE_ID) === this.profileId ? session : null;
   }
 
   private initializeCurrentSession() {
-    const storedId = this.store.getValue(CURRENT_SESSION_KEY);
+    const storedId = this.store.getValue(CURRENT_SESSION_KEY, this.profileId);
     if (!storedId) {
       this.currentSessionId = null;
       return;
     }
 
-    const existing = this.store.getSessionWithMessages(storedId);
+    const existing = this.getProfileSession(storedId);
     if (!existing) {
-      this.store.deleteValue?.(CURRENT_SESSION_KEY);
+      this.store.deleteValue?.(CURRENT_SESSION_KEY, this.profileId);
       this.currentSessionId = null;
       return;
     }
@@ -209,8 +847,25 @@ export class ConversationManager extends EventEmitter {
     this.currentSessionId = existing.id;
   }
 
+  /** The sessions every profile would resume, which retention must leave in place. */
+  private listCurrentSessionIds(): Set<string> {
+    const sessionIds = new Set<string>();
+    for (const profile of this.store.listProfiles()) {
+      const sessionId = this.store.getValue(CURRENT_SESSION_KEY, profile.id);
+      if (sessionId) {
+        sessionIds.add(sessionId);
+      }
+    }
+    if (this.currentSessionId) {
+      sessionIds.add(this.currentSessionId);
+    }
+    return sessionIds;
+  }
+
   private pruneSessions() {
-    const sessions = sortSessionsDescending(this.store.listSessions({ limit: Number.MAX_SAFE_INTEGER }));
+    const sessions = sortSessionsDescending(
+      this.store.listSessions({ limit: Number.MAX_SAFE_INTEGER, profileId: this.profileId }),
+    );
     if (sessions.length <= this.maxSessions) {
       return;
     }
@@ -231,28 +886,197 @@ export class ConversationManager extends EventEmitter {
       if (keepIds.has(session.id)) {
         continue;
       }
-      this.store.deleteSession(session.id);
+      void this.removeAudioFiles(this.deleteSessionWithAudio(session.id));
       this.logger?.info?.('Pruned archived conversation session', { sessionId: session.id });
     }
   }
 
   private pruneMessages(sessionId: string) {
+    if (this.summarizer) {
+      const run = this.pendingSummary.then(() => this.summarizeAndPruneMessages(sessionId));
+      this.pendingSummary = run.catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.error?.('Failed to prune summarized conversation messages', { sessionId, message });
+      });
+      return;
+    }
+
     const messages = sortMessagesAscending(this.store.listMessages(sessionId));
     if (messages.length <= this.maxMessagesPerSession) {
       return;
     }
 
     const excess = messages.length - this.maxMessagesPerSession;
-    const toRemove = messages.slice(0, excess).map((message) => message.id);
+    const toRemove = messages.slice(0, excess);
     if (toRemove.length === 0) {
       return;
     }
 
-    this.store.deleteMessages(toRemove);
+    void this.removeAudioFiles(this.deleteMessagesWithAudio(toRemove));
     this.logger?.info?.('Pruned archived conversation messages', {
       sessionId,
       removedCount: toRemove.length,
     });
   }
+
+  /**
+   * Folds the oldest messages over the cap into the session summary before deleting them. Prunes at
+   * least a quarter of the cap at a time so a long session is not summarized on every new message.
+   */
+  private async summarizeAndPruneMessages(sessionId: string): Promise<void> {
+    const summarizer = this.summarizer;
+    const messages = sortMessagesAscending(this.store.listMessages(sessionId));
+    const excess = messages.length - this.maxMessagesPerSession;
+    if (!summarizer || excess <= 0) {
+      return;
+    }
+
+    const batchSize = Math.floor(this.maxMessagesPerSession / 4);
+    const toRemove = messages.slice(0, Math.min(messages.length - 1, Math.max(excess, batchSize)));
+
+    const purgeCount = this.purgeCount;
+    let summary: string | null = null;
+    try {
+      summary = await summarizer.summarize({
+        previousSummary: this.store.getSessionSummary(sessionId),
+        messages: toRemove,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.warn?.('Failed to summarize pruned conversation messages', { sessionId, message });
+    }
+
+    // The next message reschedules the run with what is left.
+    if (purgeCount !== this.purgeCount) {
+      this.logger?.info?.('Discarded conversation summary drafted before a purge', { sessionId });
+      return;
+    }
+
+    if (summary?.trim()) {
+      this.store.updateSessionSummary(sessionId, summary);
+      this.emit('session-summarized', { sessionId, summary: summary.trim() });
+    }
+
+    await this.removeAudioFiles(this.deleteMessagesWithAudio(toRemove));
+    this.logger?.info?.('Pruned archived conversation messages', {
+      sessionId,
+      removedCount: toRemove.length,
+      summarized: Boolean(summary?.trim()),
+    });
+  }
+
+  private queueTitleGeneration(sessionId: string) {
+    if (!this.titleGenerator || this.titledSessionIds.has(sessionId)) {
+      return;
+    }
+
+    const session = this.store.getSessionWithMessages(sessionId);
+    if (!session) {
+      return;
+    }
+    if (session.title) {
+      this.titledSessionIds.add(sessionId);
+      return;
+    }
+
+    const exchange = sortMessagesAscending(session.messages).filter(
+      (message) => message.role === 'user' || message.role === 'assistant',
+    );
+    if (exchange.length < this.titleAfterMessages) {
+      return;
+    }
+
+    this.titledSessionIds.add(sessionId);
+    const purgeCount = this.purgeCount;
+    const run = this.pendingTitle.then(() => this.generateSessionTitle(session, exchange, purgeCount));
+    this.pendingTitle = run.catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.error?.('Failed to store generated conversation title', { sessionId, message });
+    });
+  }
+
+  /**
+   * Titles a session from its opening exchange. A failed or empty result, or one drafted from messages
+   * a purge has since forgotten, leaves the session untitled so the next message retries. The title is
+   * dropped when the session was renamed or deleted while it was being generated.
+   */
+  private async generateSessionTitle(
+    session: SessionRecord,
+    messages: MessageRecord[],
+    purgeCount: number,
+  ): Promise<void> {
+    let title = '';
+    try {
+      title = (await this.titleGenerator?.generateTitle(messages))?.trim() ?? '';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.warn?.('Failed to generate conversation title', { sessionId: session.id, message });
+    }
+
+    if (purgeCount !== this.purgeCount) {
+      this.titledSessionIds.delete(session.id);
+      this.logger?.info?.('Discarded conversation title drafted before a purge', { sessionId: session.id });
+      return;
+    }
+
+    const current = this.store.getSessionWithMessages(session.id);
+    if (!current) {
+      this.titledSessionIds.delete(session.id);
+      return;
+    }
+    if (current.title) {
+      this.logger?.info?.('Kept the conversation title set while one was generated', { sessionId: session.id });
+      return;
+    }
+
+    if (!title) {
+      this.titledSessionIds.delete(session.id);
+      return;
+    }
+
+    this.store.updateSessionTitle(session.id, title);
+    this.emit('session-updated', { id: session.id, startedAt: session.startedAt, title });
+    this.logger?.info?.('Generated conversation session title', { sessionId: session.id });
+  }
+
+  private deleteSessionWithAudio(sessionId: string): string[] {
+    const audioPaths = this.store
+      .listMessageReferences({ sessionId })
+      .flatMap((message) => (message.audioPath ? [message.audioPath] : []));
+    this.store.deleteSession(sessionId);
+    return audioPaths;
+  }
+
+  private deleteMessagesWithAudio(messages: readonly Pick<MessageReference, 'id' | 'audioPath'>[]): string[] {
+    this.store.deleteMessages(messages.map((message) => message.id));
+    return messages.flatMap((message) => (message.audioPath ? [message.audioPath] : []));
+  }
+
+  /** Resolves a stored clip path, or returns null when it points outside the audio directory. */
+  private resolveAudioPath(audioPath: string): string | null {
+    return this.audioDirectory ? resolvePathInside(this.audioDirectory, audioPath) : null;
+  }
+
+  private async removeAudioFile(audioPath: string): Promise<void> {
+    const localPath = this.resolveAudioPath(audioPath);
+    if (!localPath) {
+      throw new Error(`Refusing to delete "${audioPath}" outside the conversation audio directory.`);
+    }
+    await this.removeFile(localPath);
+  }
+
+  private async removeAudioFiles(audioPaths: readonly string[]): Promise<number> {
+    let removed = 0;
+    for (const audioPath of new Set(audioPaths)) {
+      try {
+        await this.removeAudioFile(audioPath);
+        removed += 1;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.warn?.('Failed to delete pruned conversation audio', { audioPath, message });
+      }
+    }
+    return removed;
+  }
 }
 
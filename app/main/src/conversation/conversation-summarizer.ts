@@ -0,0 +1,229 @@
+import type OpenAI from 'openai';
+import type { ResponseInput } from 'openai/resources/responses/responses';
+import type { MessageRecord } from '../memory/index.js';
+
+export interface ConversationSummaryRequest {
+  /** Summary accumulated from earlier prunes of the same session, if any. */
+  previousSummary: string | null;
+  /** Messages about to be pruned, oldest first. */
+  messages: MessageRecord[];
+}
+
+export interface ConversationSummarizerOptions {
+  /** Returns an OpenAI client when an API key is configured; summaries fall back to local extraction otherwise. */
+  getClient?: () => OpenAI | null;
+  logger?: {
+    info?: (message: string, meta?: Record<string, unknown>) => void;
+    warn?: (message: string, meta?: Record<string, unknown>) => void;
+    error?: (message: string, meta?: Record<string, unknown>) => void;
+  };
+  model?: string;
+  maxSummaryCharacters?: number;
+}
+
+const DEFAULT_MODEL = 'gpt-4.1-mini';
+const DEFAULT_MAX_SUMMARY_CHARACTERS = 1_500;
+const MAX_TRANSCRIPT_CHARACTERS = 12_000;
+const MAX_EXTRACTED_SENTENCES = 6;
+const MIN_SENTENCE_WORDS = 4;
+
+const SUMMARY_SYSTEM_PROMPT = [
+  'You maintain a running summary of an ongoing conversation between a user and a voice assistant.',
+  'Older turns are being removed from the transcript, so the summary is the only record of them.',
+  '',
+  'Merge the existing summary (if any) with the removed turns into one updated summary:',
+  '- Keep topics discussed, decisions made, open questions, and anything the user asked to be remembered.',
+  '- Drop greetings, filler, and details that no longer matter.',
+  '- Write short plain sentences in the third person ("The user asked ..."); no headings or lists.',
+  'Return only the summary text.',
+].join('\n');
+
+const STOP_WORDS = new Set([
+  'about',
+  'after',
+  'also',
+  'been',
+  'could',
+  'from',
+  'have',
+  'just',
+  'like',
+  'that',
+  'them',
+  'then',
+  'there',
+  'they',
+  'this',
+  'what',
+  'when',
+  'which',
+  'will',
+  'with',
+  'would',
+  'your',
+]);
+
+function speakerLabel(role: string): string {
+  return role === 'user' ? 'User' : 'Assistant';
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).filter(
+    (word) => word.length > 3 && !STOP_WORDS.has(word),
+  );
+}
+
+/** Keeps the newest lines of a summary that fit within the character budget. */
+function clampSummary(lines: string[], maxCharacters: number): string {
+  const kept: string[] = [];
+  let length = 0;
+
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    const line = lines[index];
+    const nextLength = length + line.length + (kept.length > 0 ? 1 : 0);
+    if (nextLength > maxCharacters) {
+      if (kept.length === 0) {
+        kept.unshift(line.slice(line.length - maxCharacters));
+      }
+      break;
+    }
+    kept.unshift(line);
+    length = nextLength;
+  }
+
+  return kept.join('\n');
+}
+
+/**
+ * Builds a summary without a model by appending the most informative sentences of the pruned
+ * messages to the previous summary. Sentences are scored by how often their words recur across the
+ * pruned turns, which favours the topics the conversation kept returning to.
+ */
+export function summarizeExtractively(
+  request: ConversationSummaryRequest,
+  maxCharacters = DEFAULT_MAX_SUMMARY_CHARACTERS,
+): string {
+  const sentences = request.messages
+    .filter((message) => message.role === 'user' || message.role === 'assistant')
+    .flatMap((message) =>
+      message.content
+        .split(/(?<=[.!?])\s+/)
+        .map((sentence) => sentence.trim())
+        .filter((sentence) => sentence.split(/\s+/).length >= MIN_SENTENCE_WORDS)
+        .map((sentence) => ({ role: message.role, sentence, words: tokenize(sentence) })),
+    );
+
+  const frequencies = new Map<string, number>();
+  for (const { words } of sentences) {
+    for (const word of new Set(words)) {
+      frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+    }
+  }
+
+  const picked = sentences
+    .map((entry, index) => ({
+      ...entry,
+      index,
+      score:
+        entry.words.length === 0
+          ? 0
+          : entry.words.reduce((total, word) => total + (frequencies.get(word) ?? 0), 0) / entry.words.length,
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, MAX_EXTRACTED_SENTENCES)
+    .sort((a, b) => a.index - b.index)
+    .map((entry) => `${speakerLabel(entry.role)}: ${entry.sentence}`);
+
+  const previous = request.previousSummary?.trim();
+  return clampSummary([...(previous ? previous.split('\n') : []), ...picked], maxCharacters);
+}
+
+/**
+ * Condenses conversation turns that are about to be pruned into a rolling per-session summary so the
+ * assistant keeps the gist of long conversations. Uses the configured OpenAI client and falls back to
+ * {@link summarizeExtractively} when no client is available or the request fails.
+ */
+export class ConversationSummarizer {
+  private readonly getClient: () => OpenAI | null;
+  private readonly logger?: ConversationSummarizerOptions['logger'];
+  private readonly model: string;
+  private readonly maxSummaryCharacters: number;
+
+  constructor(options: ConversationSummarizerOptions = {}) {
+    this.getClient = options.getClient ?? (() => null);
+    this.logger = options.logger;
+    this.model = options.model ?? DEFAULT_MODEL;
+    this.maxSummaryCharacters = Math.max(200, options.maxSummaryCharacters ?? DEFAULT_MAX_SUMMARY_CHARACTERS);
+  }
+
+  async summarize(request: ConversationSummaryRequest): Promise<string> {
+    const client = this.getClient();
+    if (client) {
+      try {
+        return await this.summarizeWithModel(client, request);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.warn?.('Conversation summary via model failed; using local extraction.', { message });
+      }
+    }
+
+    return summarizeExtractively(request, this.maxSummaryCharacters);
+  }
+
+  private async summarizeWithModel(client: OpenAI, request: ConversationSummaryRequest): Promise<string> {
+    const input: ResponseInput = [
+      {
+        type: 'message',
+        role: 'system',
+        content: [{ type: 'input_text', text: SUMMARY_SYSTEM_PROMPT }],
+      },
+      {
+        type: 'message',
+        role: 'user',
+        content: [{ type: 'input_text', text: buildSummaryPrompt(request) }],
+      },
+    ];
+
+    const response = await (
+      client as unknown as {
+        responses: { create: (args: unknown) => Promise<{ output_text: string }> };
+      }
+    ).responses.create({
+      model: this.model,
+      input,
+      max_output_tokens: Math.ceil(this.maxSummaryCharacters / 3),
+    });
+
+    const summary = (response?.output_text ?? '').trim();
+    if (!summary) {
+      throw new Error('Conversation summary returned an empty response.');
+    }
+
+    return summary.length > this.maxSummaryCharacters ? summary.slice(0, this.maxSummaryCharacters) : summary;
+  }
+}
+
+function buildSummaryPrompt(request: ConversationSummaryRequest): string {
+  let transcript = request.messages
+    .filter((message) => message.content.trim().length > 0)
+    .map((message) => `${message.role}: ${message.content.trim()}`)
+    .join('\n');
+  if (transcript.length > MAX_TRANSCRIPT_CHARACTERS) {
+    transcript = transcript.slice(transcript.length - MAX_TRANSCRIPT_CHARACTERS);
+  }
+
+  return [
+    'Existing summary:',
+    request.previousSummary?.trim() || '(none)',
+    '',
+    'Removed turns:',
+    transcript || '(no text)',
+  ].join('\n');
+}
+
+/** Formats a session summary as realtime session instructions. */
+export function formatConversationSummaryInstructions(summary: string): string {
+  return ['Summary of earlier parts of this conversation (older turns are no longer in the transcript):', summary].join(
+    '\n',
+  );
+}
@@ -0,0 +1,217 @@
+import type OpenAI from 'openai';
+import type { ResponseInput } from 'openai/resources/responses/responses';
+import type { MessageRecord } from '../memory/index.js';
+
+export interface ConversationTitleGeneratorOptions {
+  /** Returns an OpenAI client when an API key is configured; titles fall back to keyword extraction otherwise. */
+  getClient?: () => OpenAI | null;
+  logger?: {
+    info?: (message: string, meta?: Record<string, unknown>) => void;
+    warn?: (message: string, meta?: Record<string, unknown>) => void;
+    error?: (message: string, meta?: Record<string, unknown>) => void;
+  };
+  model?: string;
+  maxTitleCharacters?: number;
+}
+
+const DEFAULT_MODEL = 'gpt-4.1-mini';
+const DEFAULT_MAX_TITLE_CHARACTERS = 60;
+const MAX_TRANSCRIPT_CHARACTERS = 4_000;
+const MAX_KEYWORDS = 4;
+
+const TITLE_SYSTEM_PROMPT = [
+  'You name conversations between a user and a voice assistant for a history list.',
+  'Reply with a short title of two to six words describing the main topic, in title case.',
+  'No quotes, no trailing punctuation, no prefixes like "Title:". Return only the title.',
+].join('\n');
+
+const STOP_WORDS = new Set([
+  'about',
+  'after',
+  'again',
+  'also',
+  'been',
+  'could',
+  'does',
+  'doing',
+  'from',
+  'going',
+  'have',
+  'hello',
+  'help',
+  'here',
+  'just',
+  'know',
+  'like',
+  'looking',
+  'make',
+  'maybe',
+  'much',
+  'need',
+  'please',
+  'really',
+  'should',
+  'some',
+  'sure',
+  'tell',
+  'thank',
+  'thanks',
+  'that',
+  'them',
+  'then',
+  'there',
+  'these',
+  'they',
+  'thing',
+  'think',
+  'this',
+  'want',
+  'what',
+  'when',
+  'where',
+  'which',
+  'will',
+  'with',
+  'would',
+  'your',
+]);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).filter(
+    (word) => word.length > 3 && !STOP_WORDS.has(word),
+  );
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/** Strips quotes, "Title:" prefixes and trailing punctuation that models like to add. */
+function cleanTitle(title: string, maxCharacters: number): string {
+  const cleaned = title
+    .split('\n')[0]
+    .replace(/^\s*title\s*:\s*/i, '')
+    .replace(/^["'“‘]+|["'”’]+$/g, '')
+    .replace(/[.!?:;,\s]+$/, '')
+    .trim();
+
+  if (cleaned.length <= maxCharacters) {
+    return cleaned;
+  }
+
+  // Cut at the last word boundary that fits, looking one character past the budget for a space.
+  const lastSpace = cleaned.slice(0, maxCharacters + 1).lastIndexOf(' ');
+  return (lastSpace > 0 ? cleaned.slice(0, lastSpace) : cleaned.slice(0, maxCharacters)).trim();
+}
+
+/**
+ * Builds a title without a model from the words the user used most in the opening messages, in the
+ * order they first appeared. Words from assistant replies count half, and only make the cut when
+ * repeated, since replies tend to pad the topic with filler. Returns an empty string when nothing
+ * distinctive was said.
+ */
+export function generateKeywordTitle(
+  messages: MessageRecord[],
+  maxCharacters = DEFAULT_MAX_TITLE_CHARACTERS,
+): string {
+  const scores = new Map<string, { score: number; firstSeen: number }>();
+  let position = 0;
+
+  for (const message of messages) {
+    const weight = message.role === 'user' ? 2 : message.role === 'assistant' ? 1 : 0;
+    if (weight === 0) {
+      continue;
+    }
+    for (const word of tokenize(message.content)) {
+      const entry = scores.get(word);
+      if (entry) {
+        entry.score += weight;
+      } else {
+        scores.set(word, { score: weight, firstSeen: position });
+      }
+      position += 1;
+    }
+  }
+
+  const keywords = [...scores.entries()]
+    .filter(([, entry]) => entry.score >= 2)
+    .sort((a, b) => b[1].score - a[1].score || a[1].firstSeen - b[1].firstSeen)
+    .slice(0, MAX_KEYWORDS)
+    .sort((a, b) => a[1].firstSeen - b[1].firstSeen)
+    .map(([word]) => capitalize(word));
+
+  return cleanTitle(keywords.join(' '), maxCharacters);
+}
+
+/**
+ * Names a conversation session from its first few exchanges so history lists show something more
+ * useful than a timestamp. Uses the configured OpenAI client and falls back to
+ * {@link generateKeywordTitle} when no client is available or the request fails.
+ */
+export class ConversationTitleGenerator {
+  private readonly getClient: () => OpenAI | null;
+  private readonly logger?: ConversationTitleGeneratorOptions['logger'];
+  private readonly model: string;
+  private readonly maxTitleCharacters: number;
+
+  constructor(options: ConversationTitleGeneratorOptions = {}) {
+    this.getClient = options.getClient ?? (() => null);
+    this.logger = options.logger;
+    this.model = options.model ?? DEFAULT_MODEL;
+    this.maxTitleCharacters = Math.max(16, options.maxTitleCharacters ?? DEFAULT_MAX_TITLE_CHARACTERS);
+  }
+
+  async generateTitle(messages: MessageRecord[]): Promise<string> {
+    const client = this.getClient();
+    if (client) {
+      try {
+        return await this.generateWithModel(client, messages);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.warn?.('Conversation title via model failed; using keyword extraction.', { message });
+      }
+    }
+
+    return generateKeywordTitle(messages, this.maxTitleCharacters);
+  }
+
+  private async generateWithModel(client: OpenAI, messages: MessageRecord[]): Promise<string> {
+    let transcript = messages
+      .filter((message) => message.role !== 'system' && message.content.trim().length > 0)
+      .map((message) => `${message.role}: ${message.content.trim()}`)
+      .join('\n');
+    if (transcript.length > MAX_TRANSCRIPT_CHARACTERS) {
+      transcript = transcript.slice(0, MAX_TRANSCRIPT_CHARACTERS);
+    }
+
+    const input: ResponseInput = [
+      {
+        type: 'message',
+        role: 'system',
+        content: [{ type: 'input_text', text: TITLE_SYSTEM_PROMPT }],
+      },
+      {
+        type: 'message',
+        role: 'user',
+        content: [{ type: 'input_text', text: transcript || '(no text)' }],
+      },
+    ];
+
+    const response = await (
+      client as unknown as {
+        responses: { create: (args: unknown) => Promise<{ output_text: string }> };
+      }
+    ).responses.create({
+      model: this.model,
+      input,
+      max_output_tokens: 32,
+    });
+
+    const title = cleanTitle(response?.output_text ?? '', this.maxTitleCharacters);
+    if (!title) {
+      throw new Error('Conversation title returned an empty response.');
+    }
+
+    return title;
+  }
+}
@@ -0,0 +1,177 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type {
+  ConversationMessage,
+  ConversationSession,
+  ConversationSessionWithMessages,
+  ConversationTranscriptExportResult,
+  ConversationTranscriptFormat,
+} from './types.js';
+
+export const CONVERSATION_TRANSCRIPT_EXTENSIONS: Record<ConversationTranscriptFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+};
+
+const MAX_FILE_NAME_SLUG_CHARACTERS = 40;
+
+const ROLE_LABELS: Record<ConversationMessage['role'], string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+  event: 'Event',
+};
+
+function toIso(value: number): string {
+  return new Date(value).toISOString();
+}
+
+function transcriptTitle(session: ConversationSession): string {
+  return session.title ?? `Conversation from ${toIso(session.startedAt)}`;
+}
+
+function audioUrl(audioPath: string): string {
+  return pathToFileURL(audioPath).href;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderMarkdown(session: ConversationSessionWithMessages): string {
+  const lines = [
+    `# ${transcriptTitle(session)}`,
+    '',
+    `- Session: \`${session.id}\``,
+    `- Started: ${toIso(session.startedAt)}`,
+    `- Messages: ${session.messages.length}`,
+  ];
+
+  for (const message of session.messages) {
+    lines.push('', `## ${ROLE_LABELS[message.role]} · ${toIso(message.ts)}`, '');
+    lines.push(message.content || '_Voice input_');
+    if (message.audioPath) {
+      lines.push('', `[Recorded audio](<${audioUrl(message.audioPath)}>)`);
+    }
+    if (message.metadata) {
+      lines.push('', '```json', JSON.stringify(message.metadata, null, 2), '```');
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function renderHtml(session: ConversationSessionWithMessages): string {
+  const title = escapeHtml(transcriptTitle(session));
+  const items = session.messages.map((message) => {
+    const parts = [
+      `<li class="message message--${message.role}">`,
+      `<p class="message__meta"><strong>${ROLE_LABELS[message.role]}</strong> · <time datetime="${toIso(message.ts)}">${toIso(message.ts)}</time></p>`,
+      message.content
+        ? `<p class="message__text">${escapeHtml(message.content)}</p>`
+        : '<p class="message__text"><em>Voice input</em></p>',
+    ];
+    if (message.audioPath) {
+      parts.push(`<p class="message__audio"><a href="${escapeHtml(audioUrl(message.audioPath))}">Recorded audio</a></p>`);
+    }
+    if (message.metadata) {
+      parts.push(`<pre class="message__metadata">${escapeHtml(JSON.stringify(message.metadata, null, 2))}</pre>`);
+    }
+    parts.push('</li>');
+    return parts.join('\n');
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    '<style>',
+    'body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }',
+    'ol { list-style: none; padding: 0; }',
+    '.message { border-top: 1px solid #ddd; padding: 0.75rem 0; }',
+    '.message__meta { color: #555; margin: 0; }',
+    '.message__text { white-space: pre-wrap; }',
+    '.message__metadata { background: #f5f5f5; padding: 0.5rem; overflow-x: auto; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    `<p>Started <time datetime="${toIso(session.startedAt)}">${toIso(session.startedAt)}</time> · ${session.messages.length} messages</p>`,
+    '<ol>',
+    ...items,
+    '</ol>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function renderJson(session: ConversationSessionWithMessages): string {
+  const payload = {
+    id: session.id,
+    title: session.title,
+    startedAt: toIso(session.startedAt),
+    messages: session.messages.map((message) => ({
+      id: message.id,
+      role: message.role,
+      ts: toIso(message.ts),
+      content: message.content,
+      audioPath: message.audioPath,
+      metadata: message.metadata,
+    })),
+  };
+
+  return `${JSON.stringify(payload, null, 2)}\n`;
+}
+
+/** Renders one session as Markdown, standalone HTML or JSON, with ISO timestamps and links to recorded audio. */
+export function renderConversationTranscript(
+  session: ConversationSessionWithMessages,
+  format: ConversationTranscriptFormat,
+): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(session);
+    case 'html':
+      return renderHtml(session);
+    case 'json':
+      return renderJson(session);
+    default:
+      throw new Error(`Unsupported transcript format: ${String(format)}`);
+  }
+}
+
+/** Suggests a file name such as `conversation-2024-01-01-trip-planning.md`. */
+export function getConversationTranscriptFileName(
+  session: ConversationSession,
+  format: ConversationTranscriptFormat,
+): string {
+  const date = toIso(session.startedAt).slice(0, 10);
+  const slug = (session.title ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_FILE_NAME_SLUG_CHARACTERS);
+  return `conversation-${date}${slug ? `-${slug}` : ''}.${CONVERSATION_TRANSCRIPT_EXTENSIONS[format]}`;
+}
+
+export async function writeConversationTranscript(
+  session: ConversationSessionWithMessages,
+  format: ConversationTranscriptFormat,
+  filePath: string,
+): Promise<ConversationTranscriptExportResult> {
+  const contents = renderConversationTranscript(session, format);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, contents, 'utf8');
+  return { filePath, format, messages: session.messages.length };
+}
@@ -1,2 +1,5 @@
 export * from './conversation-manager.js';
+export * from './conversation-summarizer.js';
+export * from './conversation-title-generator.js';
+export * from './conversation-transcript.js';
 export * from './types.js';
@@ -1,4 +1,32 @@
-export type ConversationRole = 'system' | 'user' | 'assistant';
+/**
+ * `tool` messages record a tool call together with its result; `event` messages record things that
+ * happened during a session, such as wake word detections, animation triggers and errors.
+ */
+export type ConversationRole = 'system' | 'user' | 'assistant' | 'tool' | 'event';
+
+/** Quality details recorded with an assistant turn, so per-turn latency and cost can be reported later. */
+export type ConversationTurnMetadata = {
+  /** Milliseconds from the wake word to the first assistant audio, and the steps in between. */
+  latency?: { wakeToCaptureMs?: number; captureToFirstAudioMs?: number; wakeToFirstAudioMs?: number };
+  /** Token usage reported by the realtime `response.done` event. */
+  usage?: { inputTokens?: number; outputTokens?: number; totalTokens?: number };
+  voice?: string;
+  model?: string;
+  /** True when the user spoke over the reply and cut it short. */
+  interrupted?: boolean;
+  /** Milliseconds of the reply's audio the user heard before cutting in. */
+  interruptedAtMs?: number;
+  /** Avatar tags the reply triggered, e.g. `animation:wave` or `pose:thinking`. */
+  avatarTags?: string[];
+  /** What produced the message, e.g. `realtime` for the voice session. */
+  source?: string;
+};
+
+/**
+ * Structured details for a message: `{ name, arguments, result }` for a tool call, or
+ * {@link ConversationTurnMetadata} for an assistant turn.
+ */
+export type ConversationMessageMetadata = ConversationTurnMetadata & Record<string, unknown>;
 
 export interface ConversationSession {
   id: string;
@@ -6,6 +34,9 @@ export interface ConversationSession {
   title: string | null;
 }
 
+/** `streaming` messages are still receiving text, e.g. an assistant reply whose transcript is arriving. */
+export type ConversationMessageStatus = 'streaming' | 'complete';
+
 export interface ConversationMessage {
   id: string;
   sessionId: string;
@@ -13,6 +44,8 @@ export interface ConversationMessage {
   ts: number;
   content: string;
   audioPath: string | null;
+  metadata: ConversationMessageMetadata | null;
+  status: ConversationMessageStatus;
 }
 
 export interface ConversationSessionWithMessages extends ConversationSession {
@@ -24,11 +57,153 @@ export interface ConversationHistory {
   sessions: ConversationSessionWithMessages[];
 }
 
+export interface ConversationSessionListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+/** One page of sessions, newest first, with the total across all pages. */
+export interface ConversationSessionPage extends ConversationHistory {
+  total: number;
+  offset: number;
+}
+
 export interface ConversationAppendMessagePayload {
   sessionId?: string;
   role: ConversationRole;
   content: string;
   ts?: number;
   audioPath?: string | null;
+  metadata?: ConversationMessageMetadata | null;
   id?: string;
+  /** Append as `streaming` to fill the text in with later updates. Defaults to `complete`. */
+  status?: ConversationMessageStatus;
+}
+
+/** Changes to a streaming message. `delta` is added to the text so far; `content` replaces it. */
+export interface ConversationUpdateMessagePayload {
+  messageId: string;
+  delta?: string;
+  content?: string;
+  metadata?: ConversationMessageMetadata | null;
+  /** `complete` finalizes the message; it cannot be updated afterwards. */
+  status?: ConversationMessageStatus;
+}
+
+export interface ConversationAudioClip {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface ConversationAttachAudioPayload extends ConversationAudioClip {
+  messageId: string;
+}
+
+export interface ConversationSessionSummary {
+  sessionId: string;
+  summary: string;
+}
+
+export interface ConversationSearchOptions {
+  sessionId?: string;
+  role?: ConversationRole;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+export interface ConversationSearchResult {
+  message: ConversationMessage;
+  snippet: string;
+  rank: number;
+}
+
+export interface ConversationRetentionRoleRule {
+  role: ConversationRole;
+  maxAgeDays: number;
+}
+
+export interface ConversationRetentionPolicy {
+  /**
+   * Messages older than this are deleted; sessions left empty are deleted with them. Session summaries,
+   * memory facts and pre-migration backups older than this are dropped as well.
+   */
+  maxAgeDays?: number;
+  /** Oldest sessions are deleted until the live database pages fit within this budget. */
+  maxDatabaseBytes?: number;
+  /** Per-role limits, e.g. `{ role: 'system', maxAgeDays: 7 }`, applied on top of `maxAgeDays`. */
+  roleRules?: ConversationRetentionRoleRule[];
+}
+
+export interface ConversationResumePolicy {
+  /** A wake word within this long of the last message continues the current session. 0 disables. */
+  windowMs?: number;
+  /** Most messages replayed into a reconnected realtime session. */
+  maxMessages?: number;
+  /** Rough token budget for the replayed messages, estimated at four characters per token. */
+  maxTokens?: number;
+}
+
+export interface ConversationRetentionResult {
+  removedMessages: number;
+  removedSessions: number;
+  removedAudioFiles: number;
+  /** Session summaries cleared because the session started before the age limit. */
+  clearedSummaries: number;
+  /** Memory facts deleted because they were learned before the age limit. */
+  removedMemoryFacts: number;
+  databaseBytes: number | null;
+}
+
+/**
+ * What to forget from the active profile's history. Messages must match every filter given; at least one
+ * is required.
+ */
+export interface ConversationPurgeRequest {
+  /** Earliest message timestamp to forget, inclusive. */
+  from?: number;
+  /** Latest message timestamp to forget, inclusive. */
+  to?: number;
+  /** Text the message must contain, compared case-insensitively. */
+  containing?: string;
+  sessionIds?: string[];
+}
+
+export interface ConversationPurgeResult {
+  messageIds: string[];
+  /** Sessions deleted because nothing was left in them. */
+  sessionIds: string[];
+  removedFacts: number;
+  removedAudioFiles: number;
+  /** Backup snapshots the purge was applied to as well. */
+  rewrittenBackups?: number;
+  /** Backup files deleted because the purge could not be applied to them. */
+  removedBackups?: number;
+}
+
+/** A person sharing the device. Each profile has its own sessions and preferences. */
+export interface ConversationProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface ConversationProfileList {
+  activeProfileId: string;
+  profiles: ConversationProfile[];
+}
+
+export type ConversationTranscriptFormat = 'markdown' | 'html' | 'json';
+
+export interface ConversationTranscriptExportRequest {
+  sessionId: string;
+  format: ConversationTranscriptFormat;
+  /** Destination path; when omitted the main process asks with a save dialog. */
+  filePath?: string;
+}
+
+export interface ConversationTranscriptExportResult {
+  filePath: string;
+  format: ConversationTranscriptFormat;
+  messages: number;
 }
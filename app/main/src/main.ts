@@ -16,12 +16,42 @@ import { createAppDiagnostics } from './logging/app-diagnostics.js';
 import { CrashGuard } from './crash-guard.js';
 import { WakeWordService } from './wake-word/wake-word-service.js';
 import { ConversationManager } from './conversation/conversation-manager.js';
+import {
+  ConversationSummarizer,
+  formatConversationSummaryInstructions,
+} from './conversation/conversation-summarizer.js';
+import { ConversationTitleGenerator } from './conversation/conversation-title-generator.js';
+import {
+  CONVERSATION_TRANSCRIPT_EXTENSIONS,
+  getConversationTranscriptFileName,
+  writeConversationTranscript,
+} from './conversation/conversation-transcript.js';
 import type {
   ConversationAppendMessagePayload,
+  ConversationAttachAudioPayload,
   ConversationMessage,
+  ConversationProfile,
+  ConversationPurgeRequest,
+  ConversationPurgeResult,
+  ConversationSearchOptions,
   ConversationSession,
+  ConversationSessionListOptions,
+  ConversationSessionSummary,
+  ConversationTranscriptExportRequest,
+  ConversationUpdateMessagePayload,
 } from './conversation/types.js';
-import { MemoryStore } from './memory/index.js';
+import {
+  applyPendingMemoryRestore,
+  DEFAULT_PROFILE_ID,
+  LibraryArchiveService,
+  MemoryBackupScheduler,
+  MemoryFactService,
+  MemoryKeyManager,
+  MemoryStore,
+  type LibraryArchiveExportRequest,
+  type LibraryArchiveImportRequest,
+  type MemorySessionContext,
+} from './memory/index.js';
 import { PrometheusCollector } from './metrics/prometheus-collector.js';
 import type { LatencyObservation } from './metrics/types.js';
 import type { RealtimeEphemeralTokenRequest, RealtimeEphemeralTokenResponse } from './realtime/types.js';
@@ -51,11 +81,14 @@ import {
   RuntimeResourceNotFoundError,
 } from './runtime-paths.js';
 import { getOpenAIClient } from './openai/client.js';
+import { createBuiltinTools, ToolRegistry, type ToolAvatarTag, type ToolCallRequest } from './tools/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const isProduction = app.isPackaged || process.env.NODE_ENV === 'production';
 const APP_NAME = 'AI Embodied Assistant';
+const MOCK_REALTIME_TOKEN_TTL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 interface CameraDetectionEventPayload {
   cue: string;
@@ -109,7 +142,11 @@ const diagnostics = createAppDiagnostics({ logger });
 let mainWindow: BrowserWindow | null = null;
 let wakeWordService: WakeWordService | null = null;
 let memoryStore: MemoryStore | null = null;
+let memoryKeyManager: MemoryKeyManager | null = null;
 let conversationManager: ConversationManager | null = null;
+let memoryFactService: MemoryFactService | null = null;
+let libraryArchiveService: LibraryArchiveService | null = null;
+let memoryBackupScheduler: MemoryBackupScheduler | null = null;
 let removeConversationListeners: (() => void) | null = null;
 let metricsCollector: PrometheusCollector | null = null;
 let autoLaunchManager: AutoLaunchManager | null = null;
@@ -123,6 +160,16 @@ let avatarDescriptionService: AvatarDescriptionService | null = null;
 let currentVrmaApiKey: string | null = null;
 let currentDescriptionApiKey: string | null = null;
 
+function emitToolAvatarTag(tag: ToolAvatarTag): boolean {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    logger.warn('Tool avatar tag dropped because main window is unavailable.', { ...tag });
+    return false;
+  }
+
+  mainWindow.webContents.send('tools:avatar-tag', tag);
+  return true;
+}
+
 function emitCameraDetection(event: CameraDetectionEventPayload): boolean {
   const cue = typeof event.cue === 'string' ? event.cue.trim() : '';
   if (!cue) {
@@ -264,6 +311,19 @@ const crashGuard = new CrashGuard({
   logger,
 });
 
+function extractPendingMemoryFacts(): void {
+  if (!memoryFactService) {
+    return;
+  }
+
+  memoryFactService
+    .extractPendingSessions(conversationManager?.getCurrentSessionId() ?? null)
+    .catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn('Failed to extract memory facts from finished sessions', { message });
+    });
+}
+
 async function refreshVrmaGenerationService(
   manager: ConfigManager,
   reason: 'startup' | 'secret-update' = 'startup',
@@ -383,6 +443,11 @@ async function refreshAvatarDescriptionService(
   }
 }
 
+/** The default profile keeps using the preferences file that predates profiles. */
+function toPreferencesProfileId(profileId: string): string | null {
+  return profileId === DEFAULT_PROFILE_ID ? null : profileId;
+}
+
 function registerIpcHandlers(
   manager: ConfigManager,
   conversation: ConversationManager | null,
@@ -390,6 +455,7 @@ function registerIpcHandlers(
   avatarModels: AvatarModelService | null,
   avatarAnimations: AvatarAnimationService | null,
   avatarPoses: AvatarPoseService | null,
+  memoryFacts: MemoryFactService | null,
 ) {
   // Preload diagnostics bridge: allow preload/renderer to forward logs to main logger
   try {
@@ -580,6 +646,11 @@ function registerIpcHandlers(
       throw new Error('Invalid realtime token request payload received.');
     }
 
+    // The mock realtime server accepts any token, so offline sessions never reach the API.
+    if (manager.getConfig().realtimeMock) {
+      return { value: 'mock-realtime-token', expiresAt: Date.now() + MOCK_REALTIME_TOKEN_TTL_MS };
+    }
+
     const apiKey = manager.getConfig().realtimeApiKey?.trim();
     if (!apiKey) {
       throw new Error('Realtime API key is not configured.');
@@ -687,12 +758,220 @@ function registerIpcHandlers(
     }
     return conversation.getHistory();
   });
+  ipcMain.handle('conversation:list-sessions', (_event, options?: ConversationSessionListOptions) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    return conversation.listSessions(options);
+  });
+  ipcMain.handle('conversation:rename-session', (_event, payload: { sessionId: string; title: string | null }) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    return conversation.renameSession(payload.sessionId, payload.title);
+  });
+  ipcMain.handle('conversation:delete-session', async (_event, payload: { sessionId: string }) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    await conversation.deleteSession(payload.sessionId);
+  });
+  ipcMain.handle('conversation:purge', async (_event, payload: ConversationPurgeRequest) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    const query = conversation.toPurgeQuery(payload);
+    const result = await conversation.purge(payload);
+    if (!memoryBackupScheduler) {
+      return result;
+    }
+    const backups = await memoryBackupScheduler.purgeBackups(query);
+    return { ...result, rewrittenBackups: backups.rewritten.length, removedBackups: backups.removed.length };
+  });
+  ipcMain.handle('conversation:get-resume-messages', () => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    return conversation.getResumeMessages();
+  });
   ipcMain.handle('conversation:append-message', (_event, payload: ConversationAppendMessagePayload) => {
     if (!conversation) {
       throw new Error('Conversation manager is not initialized.');
     }
     return conversation.appendMessage(payload);
   });
+  ipcMain.handle('conversation:update-message', (_event, payload: ConversationUpdateMessagePayload) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    return conversation.updateMessage(payload);
+  });
+  ipcMain.handle(
+    'conversation:search',
+    (_event, payload: { query: string; options?: ConversationSearchOptions }) => {
+      if (!conversation) {
+        throw new Error('Conversation manager is not initialized.');
+      }
+      return conversation.searchMessages(payload.query, payload.options);
+    },
+  );
+  ipcMain.handle('conversation:attach-audio', (_event, payload: ConversationAttachAudioPayload) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    return conversation.attachAudio(payload);
+  });
+  ipcMain.handle('conversation:get-audio', (_event, payload: { messageId: string }) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    return conversation.readAudio(payload.messageId);
+  });
+  ipcMain.handle('conversation:export-transcript', async (_event, payload: ConversationTranscriptExportRequest) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    const session = conversation.getSession(payload.sessionId);
+    if (!session) {
+      throw new Error(`Conversation session "${payload.sessionId}" was not found.`);
+    }
+    let filePath = payload.filePath;
+    if (!filePath) {
+      const options = {
+        title: 'Export conversation',
+        defaultPath: getConversationTranscriptFileName(session, payload.format),
+        filters: [{ name: 'Transcript', extensions: [CONVERSATION_TRANSCRIPT_EXTENSIONS[payload.format]] }],
+      };
+      const selection = mainWindow ? await dialog.showSaveDialog(mainWindow, options) : await dialog.showSaveDialog(options);
+      if (selection.canceled || !selection.filePath) {
+        return null;
+      }
+      filePath = selection.filePath;
+    }
+    return writeConversationTranscript(session, payload.format, filePath);
+  });
+  ipcMain.handle('profile:list', () => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    return conversation.listProfiles();
+  });
+  ipcMain.handle('profile:create', (_event, payload: { name: string }) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    return conversation.createProfile(payload.name);
+  });
+  ipcMain.handle('profile:switch', async (_event, payload: { profileId: string }) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    const profile = conversation.switchProfile(payload.profileId);
+    const config = await manager.switchPreferencesProfile(toPreferencesProfileId(profile.id));
+    return { profile, config };
+  });
+  ipcMain.handle('profile:delete', async (_event, payload: { profileId: string }) => {
+    if (!conversation) {
+      throw new Error('Conversation manager is not initialized.');
+    }
+    await conversation.deleteProfile(payload.profileId);
+    await manager.removePreferencesProfile(payload.profileId);
+  });
+  ipcMain.handle('memory:get-session-context', (): MemorySessionContext => {
+    const context: MemorySessionContext = memoryFacts
+      ? memoryFacts.getSessionContext(conversation?.getActiveProfileId() ?? DEFAULT_PROFILE_ID)
+      : { facts: [], instructions: '' };
+    const summary = conversation?.getSessionSummary() ?? null;
+    if (!summary) {
+      return context;
+    }
+    return {
+      ...context,
+      summary,
+      instructions: [context.instructions, formatConversationSummaryInstructions(summary)]
+        .filter((section) => section.length > 0)
+        .join('\n\n'),
+    };
+  });
+  ipcMain.handle('library:export-archive', async (_event, payload?: LibraryArchiveExportRequest) => {
+    if (!libraryArchiveService) {
+      throw new Error('Library archive service is not initialized.');
+    }
+    let filePath = payload?.filePath;
+    if (!filePath) {
+      const options = {
+        title: 'Export library',
+        defaultPath: `aiembodied-library-${new Date().toISOString().slice(0, 10)}.tar.gz`,
+        filters: [{ name: 'Library archive', extensions: ['tar.gz', 'tgz'] }],
+      };
+      const selection = mainWindow ? await dialog.showSaveDialog(mainWindow, options) : await dialog.showSaveDialog(options);
+      if (selection.canceled || !selection.filePath) {
+        return null;
+      }
+      filePath = selection.filePath;
+    }
+    return libraryArchiveService.exportArchive(filePath);
+  });
+  ipcMain.handle(
+    'library:import-archive',
+    async (_event, payload?: LibraryArchiveImportRequest) => {
+      if (!libraryArchiveService) {
+        throw new Error('Library archive service is not initialized.');
+      }
+      let filePath = payload?.filePath;
+      if (!filePath) {
+        const options = {
+          title: 'Import library',
+          properties: ['openFile' as const],
+          filters: [{ name: 'Library archive', extensions: ['tar.gz', 'tgz'] }],
+        };
+        const selection = mainWindow ? await dialog.showOpenDialog(mainWindow, options) : await dialog.showOpenDialog(options);
+        if (selection.canceled || selection.filePaths.length === 0) {
+          return null;
+        }
+        filePath = selection.filePaths[0];
+      }
+      return libraryArchiveService.importArchive(filePath, {
+        strategy: payload?.strategy,
+        conflictPolicy: payload?.conflictPolicy,
+        dryRun: payload?.dryRun,
+      });
+    },
+  );
+  ipcMain.handle('memory:list-backups', () => {
+    if (!memoryBackupScheduler) {
+      throw new Error('Memory backup scheduler is not initialized.');
+    }
+    return memoryBackupScheduler.listBackups();
+  });
+  ipcMain.handle('memory:create-backup', () => {
+    if (!memoryBackupScheduler) {
+      throw new Error('Memory backup scheduler is not initialized.');
+    }
+    return memoryBackupScheduler.backupNow('manual');
+  });
+  ipcMain.handle('memory:restore-backup', (_event, snapshotId: string) => {
+    if (!memoryBackupScheduler) {
+      throw new Error('Memory backup scheduler is not initialized.');
+    }
+    return memoryBackupScheduler.requestRestore(snapshotId);
+  });
+  ipcMain.handle('memory:inspect-schema', () => {
+    if (!memoryStore) {
+      throw new Error('Memory store is not initialized.');
+    }
+    return memoryStore.inspectSchema();
+  });
+  ipcMain.handle('memory:rotate-encryption-key', async () => {
+    if (!memoryStore || !memoryKeyManager) {
+      throw new Error('Memory encryption is not enabled.');
+    }
+    const keyId = await memoryKeyManager.rotate(memoryStore);
+    if (memoryBackupScheduler) {
+      await memoryKeyManager.pruneRetiredKeys(await memoryBackupScheduler.listSealingKeyIds());
+    }
+    return { keyId };
+  });
   ipcMain.handle('metrics:observe-latency', (_event, payload: LatencyObservation) => {
     if (!metrics) {
       return false;
@@ -909,6 +1188,31 @@ function registerIpcHandlers(
 
     return emitted;
   });
+
+  const toolRegistry = new ToolRegistry({ logger });
+  const builtinTools = createBuiltinTools({
+    searchMessages: (query, limit) => conversation?.searchMessages(query, { limit }) ?? [],
+    searchFacts: (query, limit) =>
+      memoryFacts?.searchFacts(query, conversation?.getActiveProfileId() ?? DEFAULT_PROFILE_ID, { limit }) ?? [],
+    listAnimations: async () => avatarAnimations?.listAnimations() ?? [],
+    listPoses: async () => avatarPoses?.listPoses() ?? [],
+    emitAvatarTag: emitToolAvatarTag,
+  });
+  for (const tool of builtinTools) {
+    toolRegistry.register(tool);
+  }
+  ipcMain.handle('tools:list', () => toolRegistry.list());
+  ipcMain.handle('tools:call', (_event, payload: ToolCallRequest) => {
+    if (!payload || typeof payload.callId !== 'string' || typeof payload.name !== 'string') {
+      throw new Error('Invalid tool call payload received.');
+    }
+
+    return toolRegistry.call({
+      callId: payload.callId,
+      name: payload.name,
+      arguments: typeof payload.arguments === 'string' ? payload.arguments : '',
+    });
+  });
 }
 
 function focusExistingWindow() {
@@ -939,32 +1243,85 @@ if (!gotLock) {
 }
 
 app.whenReady().then(async () => {
+  const preferencesStore = new FilePreferencesStore(path.join(app.getPath('userData'), 'preferences.json'));
   const manager = new ConfigManager({
     secretStore,
-    preferencesStore: new FilePreferencesStore(path.join(app.getPath('userData'), 'preferences.json')),
+    preferencesStore,
     logger,
     openAIClientFactory: getOpenAIClient,
   });
 
   try {
-    memoryStore = new MemoryStore({ filePath: path.join(app.getPath('userData'), 'memory.db') });
+    // Development builds keep secrets in memory only, so the data key would not survive a restart.
+    memoryKeyManager = isProduction ? new MemoryKeyManager({ secretStore, logger }) : null;
+    const memoryCipher = memoryKeyManager ? await memoryKeyManager.loadCipher() : null;
+    const memoryDatabasePath = path.join(app.getPath('userData'), 'memory.db');
+    const memoryBackupDirectory = path.join(app.getPath('userData'), 'memory-backups');
+    const conversationAudioDirectory = path.join(app.getPath('userData'), 'conversation-audio');
+    await applyPendingMemoryRestore({
+      databasePath: memoryDatabasePath,
+      backupDirectory: memoryBackupDirectory,
+      cipher: memoryCipher,
+      logger,
+    });
+    memoryStore = new MemoryStore({
+      filePath: memoryDatabasePath,
+      cipher: memoryCipher,
+      preMigrationBackupDirectory: memoryBackupDirectory,
+      audioDirectory: conversationAudioDirectory,
+    });
+    memoryBackupScheduler = new MemoryBackupScheduler({
+      store: memoryStore,
+      backupDirectory: memoryBackupDirectory,
+      databasePath: memoryDatabasePath,
+      logger,
+    });
+    memoryBackupScheduler.start();
+    if (memoryKeyManager) {
+      await memoryKeyManager.completePendingRotation(memoryStore);
+      await memoryKeyManager.pruneRetiredKeys(await memoryBackupScheduler.listSealingKeyIds());
+    }
+    const modelsDirectory = path.join(app.getPath('userData'), 'vrm-models');
+    const animationsDirectory = path.join(app.getPath('userData'), 'vrma-animations');
+    const posesDirectory = path.join(app.getPath('userData'), 'vrm-poses');
     avatarModelService = new AvatarModelService({
       store: memoryStore,
-      modelsDirectory: path.join(app.getPath('userData'), 'vrm-models'),
+      modelsDirectory,
       logger,
     });
     avatarAnimationService = new AvatarAnimationService({
       store: memoryStore,
-      animationsDirectory: path.join(app.getPath('userData'), 'vrma-animations'),
+      animationsDirectory,
       logger,
     });
     avatarPoseService = new AvatarPoseService({
       store: memoryStore,
-      posesDirectory: path.join(app.getPath('userData'), 'vrm-poses'),
+      posesDirectory,
+      logger,
+    });
+    libraryArchiveService = new LibraryArchiveService({
+      store: memoryStore,
+      modelsDirectory,
+      animationsDirectory,
+      posesDirectory,
+      audioDirectory: conversationAudioDirectory,
       logger,
     });
+    const getConfiguredClient = () => {
+      const apiKey = manager.getConfig().realtimeApiKey?.trim();
+      return apiKey ? getOpenAIClient(apiKey) : null;
+    };
     conversationManager = new ConversationManager({
       store: memoryStore,
+      audioDirectory: conversationAudioDirectory,
+      summarizer: new ConversationSummarizer({ getClient: getConfiguredClient, logger }),
+      titleGenerator: new ConversationTitleGenerator({ getClient: getConfiguredClient, logger }),
+      logger,
+    });
+    preferencesStore.switchProfile(toPreferencesProfileId(conversationManager.getActiveProfileId()));
+    memoryFactService = new MemoryFactService({
+      store: memoryStore,
+      getClient: getConfiguredClient,
       logger,
     });
 
@@ -994,8 +1351,19 @@ app.whenReady().then(async () => {
 
   const appConfig = manager.getConfig();
 
+  if (conversationManager) {
+    const { intervalMs, ...retentionPolicy } = appConfig.conversationRetention;
+    conversationManager.setRetentionPolicy(retentionPolicy);
+    memoryBackupScheduler?.setMaxSnapshotAge(
+      retentionPolicy.maxAgeDays === undefined ? null : retentionPolicy.maxAgeDays * DAY_MS,
+    );
+    conversationManager.startRetentionSchedule(intervalMs);
+    conversationManager.setResumePolicy(appConfig.conversationResume);
+  }
+
   await refreshVrmaGenerationService(manager);
   await refreshPoseGenerationService(manager);
+  extractPendingMemoryFacts();
 
   autoLaunchManager = new AutoLaunchManager({
     logger,
@@ -1063,7 +1431,7 @@ app.whenReady().then(async () => {
     let sessionId: string | null = null;
     if (conversationManager) {
       try {
-        const session = conversationManager.startSession({ startedAt: event.timestamp });
+        const session = conversationManager.resumeOrStartSession({ startedAt: event.timestamp });
         sessionId = session.id;
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
@@ -1114,6 +1482,7 @@ app.whenReady().then(async () => {
       avatarModelService,
       avatarAnimationService,
       avatarPoseService,
+      memoryFactService,
     );
   } catch (error) {
     const message =
@@ -1144,19 +1513,69 @@ app.whenReady().then(async () => {
       if (mainWindow && !mainWindow.isDestroyed()) {
         mainWindow.webContents.send('conversation:session-started', session);
       }
+      extractPendingMemoryFacts();
+    };
+
+    // Streamed replies carry their turn metadata once they are finalized.
+    const observeCompletedTurn = (message: ConversationMessage) => {
+      if (message.role === 'assistant' && message.status === 'complete' && message.metadata) {
+        metricsCollector?.observeTurn(message.metadata);
+      }
     };
 
     const messageListener = (message: ConversationMessage) => {
       if (mainWindow && !mainWindow.isDestroyed()) {
         mainWindow.webContents.send('conversation:message-appended', message);
       }
+      observeCompletedTurn(message);
+    };
+
+    const messageUpdateListener = (message: ConversationMessage) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('conversation:message-updated', message);
+      }
+      observeCompletedTurn(message);
+    };
+
+    const summaryListener = (payload: ConversationSessionSummary) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('conversation:session-summarized', payload);
+      }
+    };
+
+    const sessionUpdateListener = (session: ConversationSession) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('conversation:session-updated', session);
+      }
+    };
+
+    const purgeListener = (result: ConversationPurgeResult) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('conversation:messages-purged', result);
+      }
+    };
+
+    const profileListener = (profile: ConversationProfile) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('profile:switched', profile);
+      }
     };
 
     conversationManager.on('session-started', sessionListener);
     conversationManager.on('message-appended', messageListener);
+    conversationManager.on('message-updated', messageUpdateListener);
+    conversationManager.on('session-summarized', summaryListener);
+    conversationManager.on('session-updated', sessionUpdateListener);
+    conversationManager.on('profile-switched', profileListener);
+    conversationManager.on('messages-purged', purgeListener);
     removeConversationListeners = () => {
       conversationManager?.off('session-started', sessionListener);
       conversationManager?.off('message-appended', messageListener);
+      conversationManager?.off('message-updated', messageUpdateListener);
+      conversationManager?.off('session-summarized', summaryListener);
+      conversationManager?.off('session-updated', sessionUpdateListener);
+      conversationManager?.off('profile-switched', profileListener);
+      conversationManager?.off('messages-purged', purgeListener);
       removeConversationListeners = null;
     };
   }
@@ -1224,6 +1643,19 @@ app.on('before-quit', async (event) => {
     );
   }
 
+  conversationManager?.stopRetentionSchedule();
+
+  // The final backup gets a few seconds; one still running is aborted so the store below is never closed under it.
+  if (memoryBackupScheduler) {
+    memoryBackupScheduler.stop();
+    await Promise.race([
+      memoryBackupScheduler.backupNow('quit'),
+      new Promise((resolve) => setTimeout(resolve, 5000)),
+    ]);
+    await memoryBackupScheduler.abort();
+    memoryBackupScheduler = null;
+  }
+
   // Synchronous cleanup
   if (memoryStore) {
     try {
@@ -1239,6 +1671,9 @@ app.on('before-quit', async (event) => {
     removeConversationListeners();
   }
   conversationManager = null;
+  memoryFactService = null;
+  memoryKeyManager = null;
+  libraryArchiveService = null;
 
   if (developmentTray) {
     developmentTray.destroy();
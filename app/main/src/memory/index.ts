@@ -1 +1,8 @@
 export * from './memory-store.js';
+export * from './memory-export-schema.js';
+export * from './memory-cipher.js';
+export * from './memory-key-manager.js';
+export * from './memory-backup-scheduler.js';
+export * from './memory-fact-service.js';
+export * from './library-archive.js';
+export * from './types.js';
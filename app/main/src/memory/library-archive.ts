@@ -0,0 +1,381 @@
+import { createHash } from 'node:crypto';
+import { Buffer } from 'node:buffer';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import { resolvePathInside } from './memory-store.js';
+import type { MemoryStore, MemoryStoreExport, MemoryStoreImportOptions } from './memory-store.js';
+import { createTarArchive, readTarArchive, type TarEntry } from './tar-archive.js';
+import type {
+  LibraryArchiveConflict,
+  LibraryArchiveExportResult,
+  LibraryArchiveImportResult,
+  LibraryAssetKind,
+  MemoryStoreImportReport,
+} from './types.js';
+
+export interface LibraryArchiveServiceOptions {
+  store: MemoryStore;
+  modelsDirectory: string;
+  animationsDirectory: string;
+  posesDirectory: string;
+  /** Where recorded conversation clips live; exported clips are read from and imported clips written to it. */
+  audioDirectory: string;
+  now?: () => number;
+  logger?: {
+    info?: (message: string, meta?: Record<string, unknown>) => void;
+    warn?: (message: string, meta?: Record<string, unknown>) => void;
+    error?: (message: string, meta?: Record<string, unknown>) => void;
+  };
+}
+
+export const LIBRARY_ARCHIVE_FORMAT = 'aiembodied-library';
+export const LIBRARY_ARCHIVE_VERSION = 1;
+
+const MANIFEST_ENTRY = 'manifest.json';
+
+type AvatarAssetKind = Exclude<LibraryAssetKind, 'audioClip'>;
+
+const ASSET_LAYOUT: Record<AvatarAssetKind, { folder: string; extension: string }> = {
+  vrmModel: { folder: 'models', extension: '.vrm' },
+  vrmaAnimation: { folder: 'animations', extension: '.vrma' },
+  vrmPose: { folder: 'poses', extension: '.pose.json' },
+};
+
+/** Clips keep their local file name, which only ever holds the message id and the recording's extension. */
+const AUDIO_FOLDER = 'audio';
+const AUDIO_ENTRY_PATTERN = /^audio\/[A-Za-z0-9_-]+\.[A-Za-z0-9]+$/;
+
+const AssetRecordSchema = z.looseObject({
+  // Ids become file names, so anything that could escape the asset directories is rejected.
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/),
+  name: z.string(),
+  filePath: z.string(),
+  fileSha: z.string(),
+});
+
+const ManifestSchema = z.object({
+  format: z.literal(LIBRARY_ARCHIVE_FORMAT),
+  version: z.literal(LIBRARY_ARCHIVE_VERSION),
+  createdAt: z.number(),
+  files: z.record(z.string(), z.object({ sha256: z.string(), size: z.number().int().nonnegative() })),
+  data: z.looseObject({
+    sessions: z.array(z.unknown()),
+    messages: z.array(z.looseObject({ id: z.string(), audioPath: z.string().nullable().optional() })),
+    kv: z.record(z.string(), z.string()),
+    vrmModels: z.array(AssetRecordSchema),
+    vrmaAnimations: z.array(AssetRecordSchema),
+    vrmPoses: z.array(AssetRecordSchema),
+  }),
+});
+
+type ParsedLibraryArchiveManifest = z.infer<typeof ManifestSchema>;
+type LibraryArchiveManifest = Omit<ParsedLibraryArchiveManifest, 'data'> & { data: MemoryStoreExport };
+
+interface AssetRecord {
+  id: string;
+  name: string;
+  filePath: string;
+  fileSha: string;
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function entryNameFor(kind: AvatarAssetKind, id: string): string {
+  const { folder, extension } = ASSET_LAYOUT[kind];
+  return `${folder}/${id}${extension}`;
+}
+
+async function readOptionalFile(filePath: string): Promise<Buffer | null> {
+  try {
+    return await readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Packs the whole library (conversations with their recorded clips, settings and avatar asset binaries)
+ * into a single gzip-compressed tar with a JSON manifest, and restores it on another machine. Asset and
+ * clip paths are stored relative to the archive and rewritten into the local directories on import.
+ */
+export class LibraryArchiveService {
+  private readonly store: MemoryStore;
+  private readonly directories: Record<LibraryAssetKind, string>;
+  private readonly now: () => number;
+  private readonly logger?: LibraryArchiveServiceOptions['logger'];
+
+  constructor(options: LibraryArchiveServiceOptions) {
+    this.store = options.store;
+    this.directories = {
+      vrmModel: options.modelsDirectory,
+      vrmaAnimation: options.animationsDirectory,
+      vrmPose: options.posesDirectory,
+      audioClip: options.audioDirectory,
+    };
+    this.now = options.now ?? Date.now;
+    this.logger = options.logger;
+  }
+
+  async exportArchive(filePath: string): Promise<LibraryArchiveExportResult> {
+    const data = this.store.exportData();
+    const createdAt = this.now();
+    const entries: TarEntry[] = [];
+    const files: LibraryArchiveManifest['files'] = {};
+    const missingFiles: LibraryArchiveExportResult['missingFiles'] = [];
+
+    const packAssets = async <T extends AssetRecord>(kind: AvatarAssetKind, records: T[]): Promise<T[]> => {
+      const packed: T[] = [];
+      for (const record of records) {
+        const entryName = entryNameFor(kind, record.id);
+        const binary = await readOptionalFile(record.filePath);
+        if (binary) {
+          entries.push({ name: entryName, data: binary, mtime: createdAt });
+          files[entryName] = { sha256: sha256(binary), size: binary.length };
+        } else {
+          missingFiles.push({ kind, id: record.id, filePath: record.filePath });
+        }
+        packed.push({ ...record, filePath: entryName });
+      }
+      return packed;
+    };
+
+    const packAudio = async (messages: MemoryStoreExport['messages']): Promise<MemoryStoreExport['messages']> => {
+      const packed: MemoryStoreExport['messages'] = [];
+      for (const message of messages) {
+        if (!message.audioPath) {
+          packed.push(message);
+          continue;
+        }
+        const localPath = resolvePathInside(this.directories.audioClip, message.audioPath);
+        const binary = localPath ? await readOptionalFile(localPath) : null;
+        const entryName = localPath ? `${AUDIO_FOLDER}/${path.basename(localPath)}` : null;
+        if (!binary || !entryName || !AUDIO_ENTRY_PATTERN.test(entryName)) {
+          missingFiles.push({ kind: 'audioClip', id: message.id, filePath: message.audioPath });
+          packed.push({ ...message, audioPath: null });
+          continue;
+        }
+        entries.push({ name: entryName, data: binary, mtime: createdAt });
+        files[entryName] = { sha256: sha256(binary), size: binary.length };
+        packed.push({ ...message, audioPath: entryName });
+      }
+      return packed;
+    };
+
+    const manifest: LibraryArchiveManifest = {
+      format: LIBRARY_ARCHIVE_FORMAT,
+      version: LIBRARY_ARCHIVE_VERSION,
+      createdAt,
+      files,
+      data: {
+        ...data,
+        messages: await packAudio(data.messages),
+        vrmModels: await packAssets('vrmModel', data.vrmModels),
+        vrmaAnimations: await packAssets('vrmaAnimation', data.vrmaAnimations),
+        vrmPoses: await packAssets('vrmPose', data.vrmPoses),
+      },
+    };
+
+    entries.unshift({ name: MANIFEST_ENTRY, data: Buffer.from(JSON.stringify(manifest), 'utf8'), mtime: createdAt });
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, createTarArchive(entries));
+
+    if (missingFiles.length > 0) {
+      this.logger?.warn?.('Library archive exported without some asset files.', {
+        missing: missingFiles.map((entry) => entry.id),
+      });
+    }
+    this.logger?.info?.('Exported library archive.', { filePath, assets: Object.keys(files).length });
+
+    return {
+      filePath,
+      createdAt,
+      sessions: data.sessions.length,
+      messages: data.messages.length,
+      assets: Object.keys(files).length,
+      missingFiles,
+    };
+  }
+
+  /**
+   * Restores an archive produced by {@link exportArchive}. Asset binaries are verified against the
+   * manifest and the record's `fileSha`; records that fail verification are skipped, and assets the
+   * conflict policy resolves in favour of the local library are reported as `local-differs`.
+   * Merges default to `keep-local` so an archive never silently replaces local edits.
+   */
+  async importArchive(filePath: string, options?: MemoryStoreImportOptions): Promise<LibraryArchiveImportResult> {
+    const importOptions: MemoryStoreImportOptions = {
+      strategy: options?.strategy ?? 'merge',
+      conflictPolicy: options?.conflictPolicy ?? 'keep-local',
+    };
+    const dryRun = options?.dryRun ?? false;
+    const entries = readTarArchive(await readFile(filePath));
+    const manifest = this.parseManifest(entries.get(MANIFEST_ENTRY));
+    const conflicts: LibraryArchiveConflict[] = [];
+    const binaries = new Map<string, Buffer>();
+
+    const verifyAssets = <T extends AssetRecord>(kind: AvatarAssetKind, records: T[]): T[] => {
+      const verified: T[] = [];
+
+      for (const record of records) {
+        const entryName = entryNameFor(kind, record.id);
+        const binary = entries.get(entryName);
+        if (!binary || !manifest.files[entryName]) {
+          conflicts.push({ kind, id: record.id, name: record.name, reason: 'missing-file' });
+          continue;
+        }
+
+        const actualSha = sha256(binary);
+        if (actualSha !== manifest.files[entryName].sha256 || actualSha !== record.fileSha) {
+          conflicts.push({ kind, id: record.id, name: record.name, reason: 'checksum-mismatch' });
+          continue;
+        }
+
+        const targetPath = path.join(this.directories[kind], path.basename(entryName));
+        binaries.set(targetPath, binary);
+        verified.push({ ...record, filePath: targetPath });
+      }
+
+      return verified;
+    };
+
+    // A clip that is missing or fails verification is dropped; its message is still imported.
+    const verifyAudio = (messages: ParsedLibraryArchiveManifest['data']['messages']) =>
+      messages.map((message) => {
+        const entryName = message.audioPath;
+        if (!entryName) {
+          return message;
+        }
+
+        const binary = entries.get(entryName);
+        if (!AUDIO_ENTRY_PATTERN.test(entryName) || !binary || !manifest.files[entryName]) {
+          conflicts.push({ kind: 'audioClip', id: message.id, name: entryName, reason: 'missing-file' });
+          return { ...message, audioPath: null };
+        }
+        if (sha256(binary) !== manifest.files[entryName].sha256) {
+          conflicts.push({ kind: 'audioClip', id: message.id, name: entryName, reason: 'checksum-mismatch' });
+          return { ...message, audioPath: null };
+        }
+
+        const targetPath = path.join(this.directories.audioClip, path.basename(entryName));
+        binaries.set(targetPath, binary);
+        return { ...message, audioPath: targetPath };
+      });
+
+    const data = {
+      ...manifest.data,
+      messages: verifyAudio(manifest.data.messages),
+      vrmModels: verifyAssets('vrmModel', manifest.data.vrmModels),
+      vrmaAnimations: verifyAssets('vrmaAnimation', manifest.data.vrmaAnimations),
+      vrmPoses: verifyAssets('vrmPose', manifest.data.vrmPoses),
+    };
+
+    const plan = this.store.importData(data, { ...importOptions, dryRun: true });
+    const keptLocal = new Set<string>();
+    const assetEntities = [
+      ['vrmModel', data.vrmModels, plan.entities.vrmModels],
+      ['vrmaAnimation', data.vrmaAnimations, plan.entities.vrmaAnimations],
+      ['vrmPose', data.vrmPoses, plan.entities.vrmPoses],
+    ] as const;
+    for (const [kind, records, diff] of assetEntities) {
+      for (const record of records) {
+        if (diff.conflicting.includes(record.id)) {
+          conflicts.push({ kind, id: record.id, name: record.name, reason: 'local-differs' });
+          keptLocal.add(record.filePath);
+        }
+      }
+    }
+    // A clip is only written with its message, so a local message kept in a conflict keeps its own clip.
+    for (const message of data.messages) {
+      if (message.audioPath && plan.entities.messages.conflicting.includes(message.id)) {
+        keptLocal.add(message.audioPath);
+      }
+    }
+
+    if (dryRun) {
+      return this.buildImportResult(plan, conflicts);
+    }
+
+    // Binaries are staged next to their targets and only moved into place once the records are
+    // committed, so a failed import never replaces or deletes files already in the library.
+    const stagedFiles = new Map<string, string>();
+    const stagingSuffix = `.import-${this.now()}.tmp`;
+    try {
+      for (const [targetPath, binary] of binaries) {
+        if (keptLocal.has(targetPath)) {
+          continue;
+        }
+        const existing = await readOptionalFile(targetPath);
+        if (!existing || !existing.equals(binary)) {
+          const stagedPath = `${targetPath}${stagingSuffix}`;
+          await mkdir(path.dirname(targetPath), { recursive: true });
+          await writeFile(stagedPath, binary);
+          stagedFiles.set(stagedPath, targetPath);
+        }
+      }
+
+      const report = this.store.importData(data, importOptions);
+      for (const [stagedPath, targetPath] of stagedFiles) {
+        await rename(stagedPath, targetPath);
+        stagedFiles.delete(stagedPath);
+      }
+      const result = this.buildImportResult(report, conflicts);
+
+      if (conflicts.length > 0) {
+        this.logger?.warn?.('Library archive imported with conflicts.', {
+          conflicts: conflicts.map((conflict) => `${conflict.kind}:${conflict.id}:${conflict.reason}`),
+        });
+      }
+      this.logger?.info?.('Imported library archive.', { filePath, strategy: importOptions.strategy });
+
+      return result;
+    } catch (error) {
+      await Promise.all([...stagedFiles.keys()].map((stagedPath) => rm(stagedPath, { force: true })));
+      throw error;
+    }
+  }
+
+  private buildImportResult(
+    report: MemoryStoreImportReport,
+    conflicts: LibraryArchiveConflict[],
+  ): LibraryArchiveImportResult {
+    const written = (kind: keyof MemoryStoreImportReport['entities']) =>
+      report.entities[kind].new.length + report.entities[kind].updated.length;
+
+    return {
+      sessions: written('sessions'),
+      messages: written('messages'),
+      kvKeys: written('kv'),
+      vrmModels: written('vrmModels'),
+      vrmaAnimations: written('vrmaAnimations'),
+      vrmPoses: written('vrmPoses'),
+      conflicts,
+      report,
+    };
+  }
+
+  private parseManifest(raw: Buffer | undefined): ParsedLibraryArchiveManifest {
+    if (!raw) {
+      throw new Error('Library archive is missing its manifest.');
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw.toString('utf8'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Library archive manifest is not valid JSON: ${message}`);
+    }
+
+    const result = ManifestSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new Error(`Library archive manifest is invalid: ${result.error.message}`);
+    }
+
+    // Only the fields the archive itself relies on are checked here; importData validates the records.
+    return result.data;
+  }
+}
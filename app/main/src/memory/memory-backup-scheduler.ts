@@ -0,0 +1,464 @@
+import { copyFile, mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { MemoryCipher } from './memory-cipher.js';
+import { MemoryStore } from './memory-store.js';
+import type { MemoryPurgeQuery } from './memory-store.js';
+import type { MemoryBackupSnapshot } from './types.js';
+
+type BackupLogger = {
+  info?: (message: string, meta?: Record<string, unknown>) => void;
+  warn?: (message: string, meta?: Record<string, unknown>) => void;
+  error?: (message: string, meta?: Record<string, unknown>) => void;
+};
+
+export interface MemoryBackupSchedulerOptions {
+  store: MemoryStore;
+  backupDirectory: string;
+  /** The live database file. Copies a restore kept next to it are deleted by {@link MemoryBackupScheduler.purgeBackups}. */
+  databasePath?: string;
+  intervalMs?: number;
+  /** Number of verified snapshots to keep; older ones are deleted after each successful backup. */
+  maxBackups?: number;
+  now?: () => number;
+  logger?: BackupLogger;
+}
+
+export interface PendingMemoryRestoreOptions {
+  databasePath: string;
+  backupDirectory: string;
+  /** Cipher the database will be opened with; snapshots sealed with a key it does not hold are refused. */
+  cipher?: MemoryCipher | null;
+  now?: () => number;
+  logger?: BackupLogger;
+}
+
+export type MemoryBackupReason = 'interval' | 'quit' | 'manual' | 'purge';
+
+export interface MemoryBackupPurgeResult {
+  /** Snapshots the purge was applied to; they keep the rest of their history. */
+  rewritten: string[];
+  /**
+   * Files deleted because they could not be rewritten: snapshots that failed the purge, pre-migration
+   * snapshots (replaced by a fresh one) and the database copies kept by earlier restores.
+   */
+  removed: string[];
+}
+
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_MAX_BACKUPS = 5;
+const SNAPSHOT_PATTERN = /^memory-(\d+)\.db$/;
+/** Written by MemoryStore before it migrates a database; never rotated, but still holds old history. */
+const PRE_MIGRATION_SNAPSHOT_PATTERN = /^pre-migration-v\d+-(\d+)\.db$/;
+const RESTORE_MARKER = 'restore-pending.json';
+const PRE_RESTORE_SUFFIX = '.pre-restore-';
+
+function snapshotFileName(createdAt: number): string {
+  return `memory-${createdAt}.db`;
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return Boolean(error && typeof error === 'object' && (error as { code?: unknown }).code === 'ENOENT');
+}
+
+async function listSnapshots(backupDirectory: string): Promise<MemoryBackupSnapshot[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(backupDirectory);
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return [];
+    }
+    throw error;
+  }
+
+  const snapshots: MemoryBackupSnapshot[] = [];
+  for (const fileName of fileNames) {
+    const match = SNAPSHOT_PATTERN.exec(fileName);
+    if (!match) {
+      continue;
+    }
+    const stats = await stat(path.join(backupDirectory, fileName));
+    snapshots.push({ id: fileName, createdAt: Number(match[1]), sizeBytes: stats.size });
+  }
+
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Periodically snapshots the memory database with SQLite's online backup API. Each snapshot is
+ * checked with `PRAGMA integrity_check` before older copies are rotated out, so a corrupted source
+ * can never push the last good backups out of the directory.
+ */
+export class MemoryBackupScheduler {
+  private readonly store: MemoryStore;
+  private readonly backupDirectory: string;
+  private readonly databasePath: string | null;
+  private readonly intervalMs: number;
+  private readonly maxBackups: number;
+  private readonly now: () => number;
+  private readonly logger?: BackupLogger;
+  private maxSnapshotAgeMs: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly abortController = new AbortController();
+  private pending: Promise<MemoryBackupSnapshot | null> = Promise.resolve(null);
+
+  constructor(options: MemoryBackupSchedulerOptions) {
+    this.store = options.store;
+    this.backupDirectory = options.backupDirectory;
+    this.databasePath = options.databasePath ?? null;
+    this.intervalMs = Math.max(1_000, options.intervalMs ?? DEFAULT_INTERVAL_MS);
+    this.maxBackups = Math.max(1, options.maxBackups ?? DEFAULT_MAX_BACKUPS);
+    this.now = options.now ?? Date.now;
+    this.logger = options.logger;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.backupNow('interval');
+    }, this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Stops the schedule and cuts short a snapshot in progress, resolving once it has settled so the
+   * store can be closed. An aborted snapshot is discarded like a failed one; later backups fail.
+   */
+  async abort(): Promise<void> {
+    this.stop();
+    this.abortController.abort();
+    await this.pending;
+  }
+
+  /**
+   * Takes a snapshot and rotates old ones. Resolves to null (after logging) when the backup or its
+   * integrity check fails. Backups are serialized so overlapping triggers never interleave.
+   */
+  backupNow(reason: MemoryBackupReason = 'manual'): Promise<MemoryBackupSnapshot | null> {
+    const run = this.pending.then(() => this.runBackup(reason));
+    this.pending = run.catch(() => null);
+    return run;
+  }
+
+  /**
+   * Applies a purge of the live database to every snapshot, so forgotten history cannot come back through
+   * a restore while the rest of the backup history is kept. Snapshots that cannot be rewritten are
+   * deleted. Pre-migration snapshots predate the current schema and are replaced by a fresh copy at the
+   * current version; database copies kept by earlier restores are deleted. A fresh snapshot is taken last.
+   */
+  purgeBackups(query: MemoryPurgeQuery): Promise<MemoryBackupPurgeResult> {
+    const run = this.pending.then(() => this.runPurgeBackups(query));
+    this.pending = run.then(
+      () => null,
+      () => null,
+    );
+    return run;
+  }
+
+  /**
+   * Pre-migration snapshots older than this are deleted whenever backups rotate, so the conversation
+   * retention window also covers the history they hold. Null keeps them until a purge replaces them.
+   */
+  setMaxSnapshotAge(maxAgeMs: number | null): void {
+    this.maxSnapshotAgeMs = maxAgeMs;
+  }
+
+  listBackups(): Promise<MemoryBackupSnapshot[]> {
+    return listSnapshots(this.backupDirectory);
+  }
+
+  /** Lists the data keys any snapshot, pre-migration ones included, is sealed with. */
+  async listSealingKeyIds(): Promise<string[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(this.backupDirectory);
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const keyIds = new Set<string>();
+    for (const fileName of fileNames) {
+      if (!SNAPSHOT_PATTERN.test(fileName) && !PRE_MIGRATION_SNAPSHOT_PATTERN.test(fileName)) {
+        continue;
+      }
+      try {
+        MemoryStore.listSealingKeyIds(path.join(this.backupDirectory, fileName)).forEach((keyId) => keyIds.add(keyId));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.warn?.('Failed to read the data keys of a memory backup.', { snapshotId: fileName, message });
+      }
+    }
+    return [...keyIds];
+  }
+
+  /** Schedules a snapshot to replace the live database the next time the app starts. */
+  async requestRestore(snapshotId: string): Promise<MemoryBackupSnapshot> {
+    const snapshot = (await this.listBackups()).find((candidate) => candidate.id === snapshotId);
+    if (!snapshot) {
+      throw new Error(`Backup "${snapshotId}" was not found.`);
+    }
+
+    const snapshotPath = path.join(this.backupDirectory, snapshot.id);
+    const problems = MemoryStore.verifyIntegrity(snapshotPath);
+    if (problems.length > 0) {
+      throw new Error(`Backup "${snapshotId}" failed its integrity check: ${problems[0]}`);
+    }
+    const unknownKeyIds = MemoryStore.listSealingKeyIds(snapshotPath).filter((keyId) => !this.store.hasDataKey(keyId));
+    if (unknownKeyIds.length > 0) {
+      throw new Error(`Backup "${snapshotId}" is encrypted with a retired data key (${unknownKeyIds.join(', ')}).`);
+    }
+
+    await writeFile(
+      path.join(this.backupDirectory, RESTORE_MARKER),
+      JSON.stringify({ snapshotId: snapshot.id, requestedAt: this.now() }),
+    );
+    this.logger?.info?.('Memory database restore scheduled for next launch.', { snapshotId: snapshot.id });
+    return snapshot;
+  }
+
+  private async runBackup(reason: MemoryBackupReason): Promise<MemoryBackupSnapshot | null> {
+    const createdAt = this.now();
+    const fileName = snapshotFileName(createdAt);
+    const target = path.join(this.backupDirectory, fileName);
+    const temporary = `${target}.partial`;
+
+    try {
+      await mkdir(this.backupDirectory, { recursive: true });
+      await this.store.backup(temporary, { signal: this.abortController.signal });
+
+      const problems = MemoryStore.verifyIntegrity(temporary);
+      if (problems.length > 0) {
+        await rm(temporary, { force: true });
+        this.logger?.error?.('Memory database backup failed its integrity check; keeping previous backups.', {
+          reason,
+          problems: problems.slice(0, 5),
+        });
+        return null;
+      }
+
+      await rename(temporary, target);
+      const snapshot: MemoryBackupSnapshot = { id: fileName, createdAt, sizeBytes: (await stat(target)).size };
+      const removed = await this.rotate();
+
+      this.logger?.info?.('Memory database backed up.', { reason, snapshotId: fileName, removed });
+      return snapshot;
+    } catch (error) {
+      await rm(temporary, { force: true }).catch(() => undefined);
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.error?.('Failed to back up memory database.', { reason, message });
+      return null;
+    }
+  }
+
+  private async runPurgeBackups(query: MemoryPurgeQuery): Promise<MemoryBackupPurgeResult> {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(this.backupDirectory);
+    } catch (error) {
+      if (!isMissingFileError(error)) {
+        throw error;
+      }
+      fileNames = [];
+    }
+
+    const rewritten: string[] = [];
+    const removed: string[] = [];
+    for (const fileName of fileNames.filter((candidate) => SNAPSHOT_PATTERN.test(candidate))) {
+      const snapshotPath = path.join(this.backupDirectory, fileName);
+      try {
+        await this.store.purgeCopy(snapshotPath, query);
+        const problems = MemoryStore.verifyIntegrity(snapshotPath);
+        if (problems.length > 0) {
+          throw new Error(`Rewritten backup failed its integrity check: ${problems[0]}`);
+        }
+        rewritten.push(fileName);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.warn?.('Deleting memory backup that could not be purged.', { snapshotId: fileName, message });
+        await this.removeSnapshotFiles(snapshotPath);
+        removed.push(fileName);
+      }
+    }
+
+    const preMigration = fileNames.filter((fileName) => PRE_MIGRATION_SNAPSHOT_PATTERN.test(fileName));
+    for (const fileName of preMigration) {
+      await rm(path.join(this.backupDirectory, fileName), { force: true });
+    }
+    removed.push(...preMigration);
+
+    // A pending restore of a deleted snapshot could only fail at the next launch.
+    const marker = await this.readRestoreMarker();
+    if (marker && removed.includes(marker)) {
+      await rm(path.join(this.backupDirectory, RESTORE_MARKER), { force: true });
+    }
+
+    const fresh = await this.runBackup('purge');
+    if (fresh && preMigration.length > 0) {
+      const version = this.store.inspectSchema().version;
+      await copyFile(
+        path.join(this.backupDirectory, fresh.id),
+        path.join(this.backupDirectory, `pre-migration-v${version}-${fresh.createdAt}.db`),
+      );
+    }
+
+    removed.push(...(await this.removePreRestoreCopies()));
+    this.logger?.info?.('Purged memory backups.', { rewritten: rewritten.length, removed: removed.length });
+    return { rewritten, removed };
+  }
+
+  private async readRestoreMarker(): Promise<string | null> {
+    try {
+      const marker = JSON.parse(await readFile(path.join(this.backupDirectory, RESTORE_MARKER), 'utf8')) as {
+        snapshotId?: unknown;
+      };
+      return typeof marker.snapshotId === 'string' ? marker.snapshotId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async removeSnapshotFiles(snapshotPath: string): Promise<void> {
+    for (const suffix of ['', '-wal', '-shm']) {
+      await rm(`${snapshotPath}${suffix}`, { force: true });
+    }
+  }
+
+  private async removePreRestoreCopies(): Promise<string[]> {
+    if (!this.databasePath) {
+      return [];
+    }
+
+    const directory = path.dirname(this.databasePath);
+    const prefix = `${path.basename(this.databasePath)}${PRE_RESTORE_SUFFIX}`;
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(directory);
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const removed = fileNames.filter((fileName) => fileName.startsWith(prefix));
+    for (const fileName of removed) {
+      await rm(path.join(directory, fileName), { force: true });
+    }
+    return removed;
+  }
+
+  private async rotate(): Promise<string[]> {
+    const snapshots = await this.listBackups();
+    const expired = snapshots.slice(this.maxBackups);
+
+    for (const snapshot of expired) {
+      await rm(path.join(this.backupDirectory, snapshot.id), { force: true });
+    }
+
+    return [...expired.map((snapshot) => snapshot.id), ...(await this.removeExpiredPreMigrationSnapshots())];
+  }
+
+  private async removeExpiredPreMigrationSnapshots(): Promise<string[]> {
+    if (this.maxSnapshotAgeMs === null) {
+      return [];
+    }
+
+    const cutoff = this.now() - this.maxSnapshotAgeMs;
+    const expired = (await readdir(this.backupDirectory)).filter((fileName) => {
+      const match = PRE_MIGRATION_SNAPSHOT_PATTERN.exec(fileName);
+      return match !== null && Number(match[1]) < cutoff;
+    });
+    for (const fileName of expired) {
+      await rm(path.join(this.backupDirectory, fileName), { force: true });
+    }
+    return expired;
+  }
+}
+
+/**
+ * Swaps in a snapshot scheduled with {@link MemoryBackupScheduler.requestRestore}. Must run before the
+ * database is opened. The replaced database is kept next to it as `<name>.pre-restore-<timestamp>`.
+ * Returns the restored snapshot id, or null when no restore was pending or it could not be applied.
+ */
+export async function applyPendingMemoryRestore(options: PendingMemoryRestoreOptions): Promise<string | null> {
+  const markerPath = path.join(options.backupDirectory, RESTORE_MARKER);
+
+  let snapshotId: string;
+  try {
+    const marker = JSON.parse(await readFile(markerPath, 'utf8')) as { snapshotId?: unknown };
+    if (typeof marker.snapshotId !== 'string' || !SNAPSHOT_PATTERN.test(marker.snapshotId)) {
+      throw new Error('Restore marker does not name a backup snapshot.');
+    }
+    snapshotId = marker.snapshotId;
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return null;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    options.logger?.error?.('Ignoring invalid memory restore request.', { message });
+    await rm(markerPath, { force: true });
+    return null;
+  }
+
+  // The marker is consumed up front so a snapshot that keeps failing cannot block every launch.
+  await rm(markerPath, { force: true });
+
+  const snapshotPath = path.join(options.backupDirectory, snapshotId);
+  try {
+    const problems = MemoryStore.verifyIntegrity(snapshotPath);
+    if (problems.length > 0) {
+      throw new Error(`Backup failed its integrity check: ${problems[0]}`);
+    }
+    // Retired keys are forgotten once no snapshot uses them, so a restore marker can outlive its key.
+    const retiredKeyIds = MemoryStore.listSealingKeyIds(snapshotPath).filter(
+      (keyId) => !options.cipher?.hasKey(keyId),
+    );
+    if (retiredKeyIds.length > 0) {
+      throw new Error(`Backup is encrypted with a retired data key (${retiredKeyIds.join(', ')}).`);
+    }
+
+    const { databasePath } = options;
+    const preservedPath = `${databasePath}${PRE_RESTORE_SUFFIX}${(options.now ?? Date.now)()}`;
+    // The WAL files travel with the database so the preserved copy keeps uncheckpointed writes.
+    const moved: Array<[string, string]> = [];
+    for (const suffix of ['', '-wal', '-shm']) {
+      try {
+        await rename(`${databasePath}${suffix}`, `${preservedPath}${suffix}`);
+        moved.push([`${databasePath}${suffix}`, `${preservedPath}${suffix}`]);
+      } catch (error) {
+        if (!isMissingFileError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    try {
+      await copyFile(snapshotPath, databasePath);
+    } catch (error) {
+      for (const [original, preserved] of moved) {
+        await rename(preserved, original).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    options.logger?.warn?.('Restored memory database from backup.', { snapshotId, preservedPath });
+    return snapshotId;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    options.logger?.error?.('Failed to restore memory database from backup.', { snapshotId, message });
+    return null;
+  }
+}
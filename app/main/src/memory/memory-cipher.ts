@@ -0,0 +1,133 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'node:crypto';
+
+export interface MemoryDataKey {
+  id: string;
+  /** Base64-encoded 256-bit AES key. */
+  key: string;
+}
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/** Id of the data key a stored value is sealed with, or null for plaintext. */
+export function sealingKeyId(value: string): string | null {
+  if (!isEncryptedValue(value)) {
+    return null;
+  }
+  return value.slice(ENCRYPTED_PREFIX.length).split(':', 1)[0] ?? null;
+}
+
+function decodeKey(dataKey: MemoryDataKey): Buffer {
+  const key = Buffer.from(dataKey.key, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Memory data key "${dataKey.id}" must be ${KEY_BYTES} bytes.`);
+  }
+  return key;
+}
+
+/**
+ * AES-256-GCM envelope for values stored in the memory database. Ciphertexts are self-describing
+ * (`enc:v1:<keyId>:<iv>:<tag>:<data>`) so rows written under an older key stay readable while a
+ * rotation is in progress. The first key is used for new writes.
+ */
+export class MemoryCipher {
+  private readonly primaryKeyId: string;
+  private readonly keys = new Map<string, Buffer>();
+  private blindIndexKey: Buffer | null = null;
+
+  constructor(keys: readonly MemoryDataKey[]) {
+    if (keys.length === 0) {
+      throw new Error('MemoryCipher requires at least one data key.');
+    }
+
+    for (const dataKey of keys) {
+      if (!/^[0-9a-f]+$/i.test(dataKey.id)) {
+        throw new Error(`Memory data key id "${dataKey.id}" is invalid.`);
+      }
+      this.keys.set(dataKey.id, decodeKey(dataKey));
+    }
+
+    this.primaryKeyId = keys[0].id;
+  }
+
+  static generateKey(): MemoryDataKey {
+    return {
+      id: randomBytes(4).toString('hex'),
+      key: randomBytes(KEY_BYTES).toString('base64'),
+    };
+  }
+
+  get keyId(): string {
+    return this.primaryKeyId;
+  }
+
+  hasKey(keyId: string): boolean {
+    return this.keys.has(keyId);
+  }
+
+  encrypt(plaintext: string): string {
+    const key = this.keys.get(this.primaryKeyId);
+    if (!key) {
+      throw new Error('Primary memory data key is unavailable.');
+    }
+
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return `${ENCRYPTED_PREFIX}${this.primaryKeyId}:${iv.toString('base64')}:${tag.toString('base64')}:${data.toString('base64')}`;
+  }
+
+  /**
+   * Decrypts a stored value. Values without the encryption prefix are legacy plaintext and are
+   * returned unchanged.
+   */
+  decrypt(value: string): string {
+    if (!isEncryptedValue(value)) {
+      return value;
+    }
+
+    const [keyId, iv, tag, data] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    if (!keyId || !iv || !tag || data === undefined) {
+      throw new Error('Encrypted memory value is malformed.');
+    }
+
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Memory data key "${keyId}" is unavailable.`);
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Keyed hash of a value under the primary key, for equality lookups on data that is stored encrypted.
+   * It changes with the primary key, so whatever is looked up by it must be rehashed after a rotation.
+   */
+  blindIndex(value: string): string {
+    if (!this.blindIndexKey) {
+      const key = this.keys.get(this.primaryKeyId);
+      if (!key) {
+        throw new Error('Primary memory data key is unavailable.');
+      }
+      // A derived key keeps the hashes independent of the AES-GCM ciphertexts made with the same data key.
+      this.blindIndexKey = createHmac('sha256', key).update('memory-blind-index').digest();
+    }
+
+    return createHmac('sha256', this.blindIndexKey).update(value, 'utf8').digest('hex').slice(0, 32);
+  }
+
+  /** Returns true when the value is plaintext or sealed with a key other than the primary one. */
+  needsReencryption(value: string): boolean {
+    return !value.startsWith(`${ENCRYPTED_PREFIX}${this.primaryKeyId}:`);
+  }
+}
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import type { MemoryStoreExport } from './memory-store.js';
+
+const ProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  createdAt: z.number(),
+});
+
+const SessionSchema = z.object({
+  id: z.string().min(1),
+  startedAt: z.number(),
+  title: z.string().nullable().default(null),
+  summary: z.string().nullable().default(null),
+  profileId: z.string().min(1).default('default'),
+});
+
+const MessageSchema = z.object({
+  id: z.string().min(1),
+  sessionId: z.string().min(1),
+  role: z.string().min(1),
+  ts: z.number(),
+  content: z.string(),
+  audioPath: z.string().nullable().default(null),
+  metadata: z.record(z.string(), z.unknown()).nullable().default(null),
+  status: z.enum(['streaming', 'complete']).default('complete'),
+});
+
+const VrmModelSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  createdAt: z.number(),
+  filePath: z.string().min(1),
+  fileSha: z.string().min(1),
+  version: z.string(),
+  thumbnail: z.base64().nullable().default(null),
+  description: z.string().nullable().default(null),
+});
+
+const VrmAnimationSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  createdAt: z.number(),
+  filePath: z.string().min(1),
+  fileSha: z.string().min(1),
+  duration: z.number().nullable().default(null),
+  fps: z.number().nullable().default(null),
+});
+
+const VrmPoseSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  createdAt: z.number(),
+  filePath: z.string().min(1),
+  fileSha: z.string().min(1),
+});
+
+/**
+ * Shape of {@link MemoryStoreExport}; profile and asset lists default to empty for exports made before they existed,
+ * and their sessions belong to the default profile.
+ */
+export const MemoryStoreExportSchema = z.object({
+  profiles: z.array(ProfileSchema).default([]),
+  sessions: z.array(SessionSchema),
+  messages: z.array(MessageSchema),
+  kv: z.record(z.string(), z.string()),
+  profileKv: z.record(z.string(), z.record(z.string(), z.string())).default({}),
+  vrmModels: z.array(VrmModelSchema).default([]),
+  vrmaAnimations: z.array(VrmAnimationSchema).default([]),
+  vrmPoses: z.array(VrmPoseSchema).default([]),
+});
+
+export function parseMemoryStoreExport(data: unknown): MemoryStoreExport {
+  const result = MemoryStoreExportSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const location = issue && issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new Error(`Invalid memory export${location}: ${issue?.message ?? result.error.message}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,444 @@
+import { randomUUID } from 'node:crypto';
+import type OpenAI from 'openai';
+import type { ResponseInput } from 'openai/resources/responses/responses';
+import { z } from 'zod';
+import type { MemoryFactRecord, MemoryStore, MessageRecord } from './memory-store.js';
+import type { MemoryFactSummary, MemorySessionContext } from './types.js';
+
+export interface MemoryFactServiceOptions {
+  store: MemoryStore;
+  /** Returns an OpenAI client when an API key is configured; extraction falls back to local patterns otherwise. */
+  getClient?: () => OpenAI | null;
+  logger?: {
+    info?: (message: string, meta?: Record<string, unknown>) => void;
+    warn?: (message: string, meta?: Record<string, unknown>) => void;
+    error?: (message: string, meta?: Record<string, unknown>) => void;
+  };
+  maxContextFacts?: number;
+  minContextConfidence?: number;
+  now?: () => number;
+}
+
+interface ExtractedFact {
+  subject: string;
+  fact: string;
+  confidence: number;
+  sourceMessageId: string | null;
+}
+
+/** Start time of the last session extracted in full, written before extraction tracked each session. */
+const LEGACY_EXTRACTED_THROUGH_KEY = 'memory:factsExtractedThrough';
+/** JSON map of session id to the timestamp of the newest message facts were extracted from. */
+const EXTRACTED_THROUGH_KEY = 'memory:factsExtractedThroughBySession';
+
+const DEFAULT_MAX_CONTEXT_FACTS = 12;
+const DEFAULT_MIN_CONTEXT_CONFIDENCE = 0.4;
+const MAX_TRANSCRIPT_CHARACTERS = 12_000;
+
+const FACT_EXTRACTION_SYSTEM_PROMPT = [
+  'You extract durable long-term memory facts from a finished conversation between a user and a voice assistant.',
+  '',
+  'Only keep facts that will still be true and useful in future conversations, for example:',
+  '- Names, pronouns, and how the user likes to be addressed.',
+  '- Stable preferences (units, language, food, music, tone of replies).',
+  '- Ongoing projects, relationships, pets, places, routines, and important dates.',
+  '',
+  'Ignore small talk, one-off requests, questions, and anything the assistant said about itself.',
+  'Write each fact as a short standalone sentence in the third person (e.g. "User\'s name is Sam.").',
+  'Use the subject "user" for facts about the user; otherwise name the person or thing the fact is about.',
+  'Set confidence between 0 and 1 based on how explicitly the user stated it.',
+  'Set sourceMessageId to the id of the message the fact came from, or null if it spans several messages.',
+  'Return an empty list when nothing durable was said.',
+].join('\n');
+
+const FACT_EXTRACTION_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['facts'],
+  properties: {
+    facts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['subject', 'fact', 'confidence', 'sourceMessageId'],
+        properties: {
+          subject: { type: 'string' },
+          fact: { type: 'string' },
+          confidence: { type: 'number' },
+          sourceMessageId: { type: ['string', 'null'] },
+        },
+      },
+    },
+  },
+} as const;
+
+const ExtractionResultSchema = z.object({
+  facts: z.array(
+    z.object({
+      subject: z.string().trim().min(1),
+      fact: z.string().trim().min(1),
+      confidence: z.number().min(0).max(1),
+      sourceMessageId: z.string().nullable(),
+    }),
+  ),
+});
+
+interface FactPattern {
+  pattern: RegExp;
+  confidence: number;
+  format: (match: string) => string;
+}
+
+const FACT_PATTERNS: readonly FactPattern[] = [
+  {
+    pattern: /\b[Mm]y name(?:'s| is) ([A-Z][\w'-]*(?: [A-Z][\w'-]*)?)/,
+    confidence: 0.8,
+    format: (name) => `User's name is ${name}.`,
+  },
+  {
+    pattern: /\bcall me ([A-Z][\w'-]*)/i,
+    confidence: 0.7,
+    format: (name) => `User likes to be called ${name}.`,
+  },
+  {
+    pattern: /\bI live in ([^.!?,;]{2,40})/i,
+    confidence: 0.6,
+    format: (place) => `User lives in ${place}.`,
+  },
+  {
+    pattern: /\bI work (?:as|at|for) ([^.!?,;]{2,40})/i,
+    confidence: 0.6,
+    format: (work) => `User works as/at ${work}.`,
+  },
+  {
+    pattern: /\bI(?:'m| am) allergic to ([^.!?,;]{2,40})/i,
+    confidence: 0.7,
+    format: (allergen) => `User is allergic to ${allergen}.`,
+  },
+  {
+    pattern: /\bmy birthday is ([^.!?,;]{2,30})/i,
+    confidence: 0.7,
+    format: (date) => `User's birthday is ${date}.`,
+  },
+  {
+    pattern: /\bI (?:always |really )?prefer ([^.!?,;]{3,60})/i,
+    confidence: 0.5,
+    format: (preference) => `User prefers ${preference}.`,
+  },
+];
+
+/**
+ * Pulls durable facts out of finished conversation sessions into the `memory_facts` table and
+ * turns the most relevant ones into instructions for the next realtime session.
+ */
+export class MemoryFactService {
+  private readonly store: MemoryStore;
+  private readonly getClient: () => OpenAI | null;
+  private readonly logger?: MemoryFactServiceOptions['logger'];
+  private readonly maxContextFacts: number;
+  private readonly minContextConfidence: number;
+  private readonly now: () => number;
+  private pending: Promise<number> = Promise.resolve(0);
+
+  constructor(options: MemoryFactServiceOptions) {
+    this.store = options.store;
+    this.getClient = options.getClient ?? (() => null);
+    this.logger = options.logger;
+    this.maxContextFacts = Math.max(0, options.maxContextFacts ?? DEFAULT_MAX_CONTEXT_FACTS);
+    this.minContextConfidence = options.minContextConfidence ?? DEFAULT_MIN_CONTEXT_CONFIDENCE;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Extracts facts from the messages added to any session since it was last processed, skipping the
+   * still-active session. Runs are serialized so overlapping triggers never process a message twice.
+   */
+  extractPendingSessions(activeSessionId: string | null): Promise<number> {
+    const run = this.pending.then(() => this.runPendingExtraction(activeSessionId));
+    this.pending = run.catch(() => 0);
+    return run;
+  }
+
+  async extractFromSession(sessionId: string): Promise<MemoryFactRecord[]> {
+    const session = this.store.getSessionWithMessages(sessionId);
+    if (!session) {
+      return [];
+    }
+
+    return this.extractFromMessages(sessionId, session.profileId, session.messages);
+  }
+
+  /** Builds the instructions for a new session from the facts learned in `profileId`'s conversations. */
+  getSessionContext(profileId: string): MemorySessionContext {
+    const facts = this.store.listMemoryFacts({
+      limit: this.maxContextFacts,
+      minConfidence: this.minContextConfidence,
+      profileId,
+    });
+
+    if (facts.length === 0) {
+      return { facts: [], instructions: '' };
+    }
+
+    this.store.markMemoryFactsUsed(
+      facts.map((fact) => fact.id),
+      this.now(),
+    );
+
+    return {
+      facts: facts.map((fact) => ({
+        id: fact.id,
+        subject: fact.subject,
+        fact: fact.fact,
+        confidence: fact.confidence,
+      })),
+      instructions: [
+        'Things you remember from earlier conversations (use them naturally; do not recite them):',
+        ...facts.map((fact) => `- ${fact.fact}`),
+      ].join('\n'),
+    };
+  }
+
+  /**
+   * Finds `profileId`'s remembered facts mentioning any of the query's words, best matches first. Facts
+   * returned here count as used, like the ones placed in the session context.
+   */
+  searchFacts(query: string, profileId: string, options?: { limit?: number }): MemoryFactSummary[] {
+    const terms = Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? []));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const limit = Math.max(0, options?.limit ?? this.maxContextFacts);
+    const matches = this.store
+      .listMemoryFacts({ limit: Number.MAX_SAFE_INTEGER, profileId })
+      .map((fact) => {
+        const haystack = `${fact.subject} ${fact.fact}`.toLowerCase();
+        return { fact, score: terms.filter((term) => haystack.includes(term)).length };
+      })
+      .filter((match) => match.score > 0)
+      // Stable sort keeps the store's confidence and recency order among equal scores.
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((match) => match.fact);
+
+    if (matches.length > 0) {
+      this.store.markMemoryFactsUsed(
+        matches.map((fact) => fact.id),
+        this.now(),
+      );
+    }
+
+    return matches.map((fact) => ({
+      id: fact.id,
+      subject: fact.subject,
+      fact: fact.fact,
+      confidence: fact.confidence,
+    }));
+  }
+
+  private async runPendingExtraction(activeSessionId: string | null): Promise<number> {
+    const legacyWatermark = Number(this.store.getValue(LEGACY_EXTRACTED_THROUGH_KEY));
+    const previous = this.readExtractedThrough();
+    const sessions = this.store
+      .listSessions({ limit: Number.MAX_SAFE_INTEGER })
+      .sort((a, b) => a.startedAt - b.startedAt);
+
+    // Sessions that were deleted since no longer need an entry.
+    const extractedThrough = new Map<string, number>();
+    for (const session of sessions) {
+      const through = previous.get(session.id);
+      if (through !== undefined) {
+        extractedThrough.set(session.id, through);
+      }
+    }
+
+    let factCount = 0;
+
+    for (const session of sessions) {
+      if (session.id === activeSessionId) {
+        continue;
+      }
+
+      const messages = this.store.listMessages(session.id);
+      const latestTs = messages.at(-1)?.ts;
+      if (latestTs === undefined) {
+        continue;
+      }
+
+      // Sessions finished under the old single watermark were extracted in full.
+      const through =
+        extractedThrough.get(session.id) ??
+        (Number.isFinite(legacyWatermark) && session.startedAt <= legacyWatermark ? latestTs : null);
+      const pending = through === null ? messages : messages.filter((message) => message.ts > through);
+
+      if (pending.length > 0) {
+        try {
+          const facts = await this.extractFromMessages(session.id, session.profileId, pending);
+          factCount += facts.length;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger?.warn?.('Failed to extract memory facts from session.', { sessionId: session.id, message });
+        }
+      }
+
+      extractedThrough.set(session.id, latestTs);
+      this.store.setValue(EXTRACTED_THROUGH_KEY, JSON.stringify(Object.fromEntries(extractedThrough)));
+    }
+
+    this.store.setValue(EXTRACTED_THROUGH_KEY, JSON.stringify(Object.fromEntries(extractedThrough)));
+    this.store.deleteValue(LEGACY_EXTRACTED_THROUGH_KEY);
+    return factCount;
+  }
+
+  private readExtractedThrough(): Map<string, number> {
+    const extractedThrough = new Map<string, number>();
+    try {
+      const stored = JSON.parse(this.store.getValue(EXTRACTED_THROUGH_KEY) ?? '{}') as Record<string, unknown>;
+      for (const [sessionId, ts] of Object.entries(stored)) {
+        if (typeof ts === 'number' && Number.isFinite(ts)) {
+          extractedThrough.set(sessionId, ts);
+        }
+      }
+    } catch {
+      this.logger?.warn?.('Ignoring unreadable memory fact extraction progress.');
+    }
+    return extractedThrough;
+  }
+
+  private async extractFromMessages(
+    sessionId: string,
+    profileId: string | undefined,
+    messages: MessageRecord[],
+  ): Promise<MemoryFactRecord[]> {
+    if (messages.length === 0) {
+      return [];
+    }
+
+    const extracted = await this.extractFacts(messages);
+    const createdAt = this.now();
+    const stored: MemoryFactRecord[] = [];
+
+    for (const fact of extracted) {
+      stored.push(
+        this.store.upsertMemoryFact({
+          id: randomUUID(),
+          subject: fact.subject,
+          fact: fact.fact,
+          sourceMessageId: fact.sourceMessageId,
+          confidence: fact.confidence,
+          createdAt,
+          lastUsedAt: null,
+          profileId,
+        }),
+      );
+    }
+
+    if (stored.length > 0) {
+      this.logger?.info?.('Extracted memory facts from conversation session.', {
+        sessionId,
+        factCount: stored.length,
+      });
+    }
+
+    return stored;
+  }
+
+  private async extractFacts(messages: MessageRecord[]): Promise<ExtractedFact[]> {
+    const client = this.getClient();
+    if (client) {
+      try {
+        return await this.extractWithModel(client, messages);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.warn?.('Memory fact extraction via model failed; using local patterns.', { message });
+      }
+    }
+
+    return extractFactsWithPatterns(messages);
+  }
+
+  private async extractWithModel(client: OpenAI, messages: MessageRecord[]): Promise<ExtractedFact[]> {
+    const input: ResponseInput = [
+      {
+        type: 'message',
+        role: 'system',
+        content: [{ type: 'input_text', text: FACT_EXTRACTION_SYSTEM_PROMPT }],
+      },
+      {
+        type: 'message',
+        role: 'user',
+        content: [{ type: 'input_text', text: buildTranscript(messages) }],
+      },
+    ];
+
+    const response = await (
+      client as unknown as {
+        responses: { create: (args: unknown) => Promise<{ output_text: string }> };
+      }
+    ).responses.create({
+      model: 'gpt-4.1-mini',
+      input,
+      text: {
+        format: { type: 'json_schema', name: 'memory_facts', schema: FACT_EXTRACTION_JSON_SCHEMA },
+      },
+    });
+
+    const outputText = response?.output_text ?? '';
+    if (!outputText) {
+      throw new Error('Memory fact extraction returned an empty response.');
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(outputText);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Memory fact extraction returned invalid JSON: ${message}`);
+    }
+
+    const messageIds = new Set(messages.map((message) => message.id));
+    return ExtractionResultSchema.parse(parsed).facts.map((fact) => ({
+      subject: fact.subject,
+      fact: fact.fact,
+      confidence: fact.confidence,
+      sourceMessageId: fact.sourceMessageId && messageIds.has(fact.sourceMessageId) ? fact.sourceMessageId : null,
+    }));
+  }
+}
+
+function buildTranscript(messages: MessageRecord[]): string {
+  const lines = messages
+    .filter((message) => message.role === 'user' || message.role === 'assistant')
+    .map((message) => `[${message.id}] ${message.role}: ${message.content.trim()}`);
+
+  let transcript = lines.join('\n');
+  if (transcript.length > MAX_TRANSCRIPT_CHARACTERS) {
+    transcript = transcript.slice(transcript.length - MAX_TRANSCRIPT_CHARACTERS);
+  }
+
+  return transcript;
+}
+
+export function extractFactsWithPatterns(messages: MessageRecord[]): ExtractedFact[] {
+  const facts: ExtractedFact[] = [];
+
+  for (const message of messages) {
+    if (message.role !== 'user') {
+      continue;
+    }
+
+    for (const { pattern, confidence, format } of FACT_PATTERNS) {
+      const match = pattern.exec(message.content);
+      const value = match?.[1]?.trim();
+      if (!value) {
+        continue;
+      }
+
+      facts.push({ subject: 'user', fact: format(value), confidence, sourceMessageId: message.id });
+    }
+  }
+
+  return facts;
+}
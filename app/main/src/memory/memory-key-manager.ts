@@ -0,0 +1,176 @@
+import type { SecretStore } from '../config/secret-store.js';
+import { MemoryCipher, type MemoryDataKey } from './memory-cipher.js';
+import type { MemoryStore } from './memory-store.js';
+
+export interface MemoryKeyManagerOptions {
+  secretStore: SecretStore;
+  logger?: {
+    info?: (message: string, meta?: Record<string, unknown>) => void;
+    warn?: (message: string, meta?: Record<string, unknown>) => void;
+    error?: (message: string, meta?: Record<string, unknown>) => void;
+  };
+}
+
+const DATA_KEY_SECRET = 'memoryDataKey';
+const PENDING_DATA_KEY_SECRET = 'memoryDataKey:pending';
+const RETIRED_DATA_KEYS_SECRET = 'memoryDataKey:retired';
+
+/**
+ * Keeps the memory database data key in the OS secret store. A rotation first records the new key
+ * as pending so an interrupted re-encryption can be completed on the next launch without losing
+ * access to rows already sealed with either key. Replaced keys are kept as retired keys, which only
+ * decrypt, until no backup snapshot is sealed with them any more.
+ */
+export class MemoryKeyManager {
+  private readonly secretStore: SecretStore;
+  private readonly logger?: MemoryKeyManagerOptions['logger'];
+  private keys: MemoryDataKey[] = [];
+
+  constructor(options: MemoryKeyManagerOptions) {
+    this.secretStore = options.secretStore;
+    this.logger = options.logger;
+  }
+
+  /** Loads the data key (creating one on first run) and returns a cipher for the memory store. */
+  async loadCipher(): Promise<MemoryCipher> {
+    let primary = await this.readKey(DATA_KEY_SECRET);
+    if (!primary) {
+      primary = MemoryCipher.generateKey();
+      await this.writeKey(DATA_KEY_SECRET, primary);
+      this.logger?.info?.('Generated memory encryption key.', { keyId: primary.id });
+    }
+
+    const pending = await this.readKey(PENDING_DATA_KEY_SECRET);
+    const retired = await this.readRetiredKeys();
+    this.keys = uniqueKeys([...(pending ? [pending] : []), primary, ...retired]);
+    return new MemoryCipher(this.keys);
+  }
+
+  /**
+   * Forgets retired keys that no backup is sealed with any more. Resolves to the ids of the
+   * forgotten keys.
+   */
+  async pruneRetiredKeys(referencedKeyIds: Iterable<string>): Promise<string[]> {
+    const referenced = new Set(referencedKeyIds);
+    const retired = await this.readRetiredKeys();
+    const kept = retired.filter((key) => referenced.has(key.id));
+    if (kept.length === retired.length) {
+      return [];
+    }
+
+    await this.writeRetiredKeys(kept);
+    const pruned = retired.filter((key) => !referenced.has(key.id)).map((key) => key.id);
+    this.keys = this.keys.filter((key) => !pruned.includes(key.id));
+    this.logger?.info?.('Forgot retired memory encryption keys no backup uses.', { keyIds: pruned });
+    return pruned;
+  }
+
+  /** Finishes a rotation that was interrupted before the new key was promoted. */
+  async completePendingRotation(store: MemoryStore): Promise<boolean> {
+    const pending = await this.readKey(PENDING_DATA_KEY_SECRET);
+    if (!pending) {
+      return false;
+    }
+
+    const primary = await this.readKey(DATA_KEY_SECRET);
+    const keys = uniqueKeys([pending, ...(primary ? [primary] : []), ...(await this.readRetiredKeys())]);
+    await this.promote(store, keys);
+    this.logger?.warn?.('Completed interrupted memory encryption key rotation.', { keyId: pending.id });
+    return true;
+  }
+
+  /**
+   * Generates a new data key, re-encrypts every stored value with it, and retires the old key. Backups
+   * sealed with the old key stay restorable until {@link pruneRetiredKeys} finds none left.
+   */
+  async rotate(store: MemoryStore): Promise<string> {
+    if (this.keys.length === 0) {
+      await this.loadCipher();
+    }
+
+    const next = MemoryCipher.generateKey();
+    await this.writeKey(PENDING_DATA_KEY_SECRET, next);
+    await this.promote(store, [next, ...this.keys]);
+    this.logger?.info?.('Rotated memory encryption key.', { keyId: next.id });
+    return next.id;
+  }
+
+  private async promote(store: MemoryStore, keys: MemoryDataKey[]): Promise<void> {
+    store.rotateEncryption(new MemoryCipher(keys));
+
+    // Retired keys are saved before the new primary so a crash in between cannot lose the old one.
+    const [primary, ...retired] = keys;
+    await this.writeRetiredKeys(retired);
+    await this.writeKey(DATA_KEY_SECRET, primary);
+    await this.secretStore.deleteSecret(PENDING_DATA_KEY_SECRET);
+    this.keys = keys;
+  }
+
+  private async readRetiredKeys(): Promise<MemoryDataKey[]> {
+    const raw = await this.secretStore.getSecret(RETIRED_DATA_KEYS_SECRET);
+    if (!raw) {
+      return [];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error(`Stored memory data key "${RETIRED_DATA_KEYS_SECRET}" is not valid JSON.`);
+    }
+
+    if (!Array.isArray(parsed) || !parsed.every(isDataKey)) {
+      throw new Error(`Stored memory data key "${RETIRED_DATA_KEYS_SECRET}" is malformed.`);
+    }
+    return parsed.map(({ id, key }) => ({ id, key }));
+  }
+
+  private async writeRetiredKeys(keys: MemoryDataKey[]): Promise<void> {
+    if (keys.length === 0) {
+      await this.secretStore.deleteSecret(RETIRED_DATA_KEYS_SECRET);
+      return;
+    }
+    await this.secretStore.setSecret(
+      RETIRED_DATA_KEYS_SECRET,
+      JSON.stringify(keys.map((key) => ({ id: key.id, key: key.key }))),
+    );
+  }
+
+  private async readKey(name: string): Promise<MemoryDataKey | null> {
+    const raw = await this.secretStore.getSecret(name);
+    if (!raw) {
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error(`Stored memory data key "${name}" is not valid JSON.`);
+    }
+
+    if (!isDataKey(parsed)) {
+      throw new Error(`Stored memory data key "${name}" is malformed.`);
+    }
+
+    const { id, key } = parsed;
+    return { id, key };
+  }
+
+  private async writeKey(name: string, key: MemoryDataKey): Promise<void> {
+    await this.secretStore.setSecret(name, JSON.stringify({ id: key.id, key: key.key }));
+  }
+}
+
+function isDataKey(value: unknown): value is MemoryDataKey {
+  return (
+    Boolean(value) &&
+    typeof value === 'object' &&
+    typeof (value as { id?: unknown }).id === 'string' &&
+    typeof (value as { key?: unknown }).key === 'string'
+  );
+}
+
+function uniqueKeys(keys: MemoryDataKey[]): MemoryDataKey[] {
+  return keys.filter((key, index) => keys.findIndex((candidate) => candidate.id === key.id) === index);
+}
@@ -1,19 +1,74 @@
+import { createHash } from 'node:crypto';
 import { mkdirSync } from 'node:fs';
+import { rm } from 'node:fs/promises';
 import path from 'node:path';
 import DatabaseConstructor, { type Database as SqliteDatabase } from 'better-sqlite3';
 import { Buffer } from 'node:buffer';
+import { isEncryptedValue, sealingKeyId, type MemoryCipher } from './memory-cipher.js';
+import { parseMemoryStoreExport } from './memory-export-schema.js';
+import type {
+  ImportConflictPolicy,
+  ImportEntityDiff,
+  ImportEntityKind,
+  ImportStrategy,
+  MemorySchemaInfo,
+  MemorySchemaMigration,
+  MemoryStoreImportReport,
+} from './types.js';
 
 export interface MemoryStoreOptions {
   filePath: string;
   readOnly?: boolean;
+  /**
+   * Encrypts message content and metadata, session titles and summaries, profile names, kv values and
+   * memory facts at rest. Existing plaintext rows are encrypted when the store opens. The message search
+   * index and fact subject lookups only hold keyed hashes.
+   */
+  cipher?: MemoryCipher | null;
+  /**
+   * Where a snapshot of an existing database is written before pending migrations run. The snapshot is
+   * named `pre-migration-v<version>-<timestamp>.db`, so backup rotation never prunes it. Without one, no
+   * snapshot is taken.
+   */
+  preMigrationBackupDirectory?: string;
+  /**
+   * Where recorded clips are kept. Imported messages only keep an `audioPath` inside it, and purges only
+   * delete files inside it. Without one, imported audio paths are dropped and purges delete no files.
+   */
+  audioDirectory?: string;
+}
+
+/** The database was written by a newer app version, or its applied migrations differ from this build's. */
+export class MemorySchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemorySchemaError';
+  }
 }
 
 export interface SessionRecord {
   id: string;
   startedAt: number;
   title: string | null;
+  /** Rolling summary of messages that were pruned from the session. */
+  summary?: string | null;
+  /** Profile the session belongs to. Defaults to {@link DEFAULT_PROFILE_ID}. */
+  profileId?: string;
+}
+
+/** A person sharing the device; sessions and profile-scoped kv entries belong to exactly one profile. */
+export interface ProfileRecord {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
+/** Structured details stored alongside a message, such as a tool call's arguments and result. */
+export type MessageMetadata = Record<string, unknown>;
+
+/** `streaming` messages are still being written, e.g. an assistant reply whose transcript is arriving. */
+export type MessageStatus = 'streaming' | 'complete';
+
 export interface MessageRecord {
   id: string;
   sessionId: string;
@@ -21,6 +76,65 @@ export interface MessageRecord {
   ts: number;
   content: string;
   audioPath: string | null;
+  metadata?: MessageMetadata | null;
+  /** Defaults to `complete`. */
+  status?: MessageStatus;
+}
+
+/** Fields of a stored message that can change after it was appended. */
+export interface MessageUpdate {
+  content?: string;
+  metadata?: MessageMetadata | null;
+  status?: MessageStatus;
+}
+
+/** A message without its (possibly encrypted) content, used for housekeeping queries. */
+export type MessageReference = Omit<MessageRecord, 'content' | 'metadata'>;
+
+export interface MessageReferenceQuery {
+  sessionId?: string;
+  role?: string;
+  /** Only messages with a timestamp strictly before this value. */
+  before?: number;
+  status?: MessageStatus;
+}
+
+/**
+ * Selects what {@link MemoryStore.purge} forgets. Messages must match every filter that is given, and at
+ * least one of `from`, `to`, `containing` or `sessionIds` is required.
+ */
+export interface MemoryPurgeQuery {
+  /** Earliest message timestamp to forget, inclusive. */
+  from?: number;
+  /** Latest message timestamp to forget, inclusive. */
+  to?: number;
+  /** Text the message content must contain, compared case-insensitively. */
+  containing?: string;
+  sessionIds?: readonly string[];
+  /** Only purges sessions of this profile. */
+  profileId?: string;
+  /** Sessions kept even when the purge leaves them without messages, such as the one in progress. */
+  keepSessionIds?: readonly string[];
+}
+
+export interface MemoryPurgeResult {
+  messageIds: string[];
+  /** Sessions deleted because the purge left them without messages. */
+  sessionIds: string[];
+  factIds: string[];
+  /** Recorded audio files deleted from disk. */
+  audioPaths: string[];
+  /** Recorded audio files of purged messages that could not be deleted. */
+  failedAudioPaths: string[];
+  /** Sessions that kept messages but lost their title and summary, which may repeat what was forgotten. */
+  clearedSessionIds: string[];
+}
+
+export interface MemoryStoreSize {
+  /** Bytes allocated by the database file, including free pages. */
+  totalBytes: number;
+  /** Bytes occupied by live pages; this is what deleting rows reduces before a compaction. */
+  usedBytes: number;
 }
 
 export interface SessionWithMessages extends SessionRecord {
@@ -28,15 +142,55 @@ export interface SessionWithMessages extends SessionRecord {
 }
 
 export interface MemoryStoreExport {
+  profiles: ProfileRecord[];
   sessions: SessionRecord[];
   messages: MessageRecord[];
+  /** Entries shared by every profile. */
   kv: Record<string, string>;
+  /** Profile-scoped entries keyed by profile id. */
+  profileKv: Record<string, Record<string, string>>;
   vrmModels: SerializedVrmModel[];
   vrmaAnimations: VrmAnimationRecord[];
   vrmPoses: VrmPoseRecord[];
 }
 
-export type ImportStrategy = 'replace' | 'merge';
+export interface MemoryStoreImportOptions {
+  strategy?: ImportStrategy;
+  /**
+   * How merges resolve records that exist locally with different values, either for every entity
+   * kind or per kind. Defaults to `keep-incoming`. Ignored by the `replace` strategy.
+   */
+  conflictPolicy?: ImportConflictPolicy | Partial<Record<ImportEntityKind, ImportConflictPolicy>>;
+  /** Validates and plans the import without writing anything. */
+  dryRun?: boolean;
+}
+
+export interface MessageSearchOptions {
+  sessionId?: string;
+  profileId?: string;
+  role?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  message: MessageRecord;
+  snippet: string;
+  rank: number;
+}
+
+export interface MemoryFactRecord {
+  id: string;
+  subject: string;
+  fact: string;
+  sourceMessageId: string | null;
+  confidence: number;
+  createdAt: number;
+  lastUsedAt: number | null;
+  /** Profile the fact was learned from. Defaults to {@link DEFAULT_PROFILE_ID}. */
+  profileId?: string;
+}
 
 interface Migration {
   version: number;
@@ -81,6 +235,14 @@ interface SessionRow {
   id: string;
   startedAt: number;
   title: string | null;
+  summary?: string | null;
+  profileId?: string | null;
+}
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
 interface MessageRow {
@@ -90,6 +252,8 @@ interface MessageRow {
   ts: number;
   content: string;
   audioPath: string | null;
+  metadata: string | null;
+  status: string | null;
 }
 
 interface VrmModelRow {
@@ -121,7 +285,23 @@ interface VrmPoseRow {
   fileSha: string;
 }
 
+interface MessageSearchRow extends MessageRow {
+  rank: number;
+}
+
+interface MemoryFactRow {
+  id: string;
+  subject: string;
+  fact: string;
+  sourceMessageId: string | null;
+  confidence: number;
+  createdAt: number;
+  lastUsedAt: number | null;
+  profileId: string | null;
+}
+
 interface KvRow {
+  profileId: string;
   key: string;
   value: string;
 }
@@ -220,27 +400,287 @@ const MIGRATIONS: readonly Migration[] = [
       `CREATE INDEX IF NOT EXISTS vrm_poses_created_idx ON vrm_poses(created_at DESC, id DESC);`,
     ],
   },
+  {
+    version: 7,
+    statements: [
+      // messages has no INTEGER PRIMARY KEY, so its rowids are not stable across VACUUM; the index
+      // keeps its own copy of the content keyed by message id instead of using external content.
+      `CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        message_id UNINDEXED,
+        content,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );`,
+      `INSERT INTO messages_fts (message_id, content) SELECT id, content FROM messages;`,
+      `CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (message_id, content) VALUES (new.id, new.content);
+      END;`,
+      `CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+        DELETE FROM messages_fts WHERE message_id = old.id;
+      END;`,
+      `CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF id, content ON messages BEGIN
+        DELETE FROM messages_fts WHERE message_id = old.id;
+        INSERT INTO messages_fts (message_id, content) VALUES (new.id, new.content);
+      END;`,
+    ],
+  },
+  {
+    version: 8,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS memory_facts (
+        id TEXT PRIMARY KEY,
+        subject TEXT NOT NULL,
+        fact TEXT NOT NULL,
+        source_message_id TEXT NULL,
+        confidence REAL NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER NULL,
+        FOREIGN KEY (source_message_id) REFERENCES messages(id) ON DELETE SET NULL
+      );`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS memory_facts_subject_fact_idx
+        ON memory_facts(subject COLLATE NOCASE, fact COLLATE NOCASE);`,
+      `CREATE INDEX IF NOT EXISTS memory_facts_confidence_idx ON memory_facts(confidence DESC, created_at DESC);`,
+    ],
+  },
+  {
+    version: 9,
+    statements: [
+      // Encrypted content cannot be indexed by triggers, so the search index becomes contentless and is
+      // maintained by MemoryStore with plaintext tokens only; the message text itself is no longer copied.
+      `DROP TRIGGER IF EXISTS messages_fts_insert;`,
+      `DROP TRIGGER IF EXISTS messages_fts_delete;`,
+      `DROP TRIGGER IF EXISTS messages_fts_update;`,
+      `DROP TABLE IF EXISTS messages_fts;`,
+      `CREATE VIRTUAL TABLE messages_fts USING fts5(
+        content,
+        content = '',
+        contentless_delete = 1,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );`,
+      `CREATE TABLE IF NOT EXISTS messages_search_ids (
+        id INTEGER PRIMARY KEY,
+        message_id TEXT NOT NULL UNIQUE,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+      );`,
+      `CREATE TRIGGER IF NOT EXISTS messages_search_ids_delete AFTER DELETE ON messages_search_ids BEGIN
+        DELETE FROM messages_fts WHERE rowid = old.id;
+      END;`,
+      `INSERT INTO messages_search_ids (message_id) SELECT id FROM messages ORDER BY ts ASC, id ASC;`,
+      `INSERT INTO messages_fts (rowid, content)
+        SELECT s.id, m.content FROM messages_search_ids s JOIN messages m ON m.id = s.message_id;`,
+      // Encrypted facts cannot be compared in SQL; duplicates are detected by MemoryStore instead.
+      `DROP INDEX IF EXISTS memory_facts_subject_fact_idx;`,
+      `CREATE INDEX IF NOT EXISTS memory_facts_subject_idx ON memory_facts(subject COLLATE NOCASE);`,
+    ],
+  },
+  {
+    version: 10,
+    statements: [`ALTER TABLE sessions ADD COLUMN summary TEXT NULL;`],
+  },
+  {
+    version: 11,
+    statements: [`ALTER TABLE messages ADD COLUMN metadata TEXT NULL;`],
+  },
+  {
+    version: 12,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS profiles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );`,
+      `INSERT OR IGNORE INTO profiles (id, name, created_at)
+        VALUES ('default', 'Default', CAST(strftime('%s', 'now') AS INTEGER) * 1000);`,
+      `ALTER TABLE sessions ADD COLUMN profile_id TEXT NULL REFERENCES profiles(id) ON DELETE CASCADE;`,
+      `UPDATE sessions SET profile_id = 'default';`,
+      `CREATE INDEX IF NOT EXISTS sessions_profile_idx ON sessions(profile_id, started_at DESC);`,
+      // kv is keyed by (profile, key); an empty profile id marks entries shared by every profile. The
+      // conversation pointers written before profiles existed belong to the default profile.
+      `ALTER TABLE kv RENAME TO kv_legacy;`,
+      `CREATE TABLE kv (
+        profile_id TEXT NOT NULL DEFAULT '',
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (profile_id, key)
+      );`,
+      `INSERT INTO kv (profile_id, key, value)
+        SELECT CASE WHEN key LIKE 'conversation:%' THEN 'default' ELSE '' END, key, value FROM kv_legacy;`,
+      `DROP TABLE kv_legacy;`,
+    ],
+  },
+  {
+    version: 13,
+    statements: [`ALTER TABLE messages ADD COLUMN status TEXT NOT NULL DEFAULT 'complete';`],
+  },
+  {
+    version: 14,
+    // The 2D face avatar was removed; its tables from version 2 have been unused since.
+    statements: [
+      `DROP INDEX IF EXISTS face_components_face_idx;`,
+      `DROP INDEX IF EXISTS faces_created_idx;`,
+      `DROP TABLE IF EXISTS face_components;`,
+      `DROP TABLE IF EXISTS faces;`,
+    ],
+  },
+  {
+    version: 15,
+    // The search index held every message's words and fact subjects were stored in the clear, so a copied
+    // database still revealed what was said. MemoryStore refills both with keyed hashes, see refreshSearchIndex().
+    statements: [
+      `DROP TABLE IF EXISTS messages_fts;`,
+      `CREATE VIRTUAL TABLE messages_fts USING fts5(
+        content,
+        content = '',
+        contentless_delete = 1,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );`,
+      `CREATE TABLE IF NOT EXISTS search_index_state (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        key_id TEXT NOT NULL
+      );`,
+      `DROP INDEX IF EXISTS memory_facts_subject_idx;`,
+      `ALTER TABLE memory_facts ADD COLUMN subject_key TEXT NULL;`,
+      `CREATE INDEX IF NOT EXISTS memory_facts_subject_key_idx ON memory_facts(subject_key);`,
+    ],
+  },
+  {
+    version: 16,
+    // Facts were shared by every profile, so one person's memories reached another's conversations.
+    // Existing facts follow the session they were learned in; facts without a source stay with the default profile.
+    statements: [
+      `ALTER TABLE memory_facts ADD COLUMN profile_id TEXT NULL REFERENCES profiles(id) ON DELETE CASCADE;`,
+      `UPDATE memory_facts SET profile_id = coalesce(
+        (SELECT s.profile_id FROM messages m JOIN sessions s ON s.id = m.session_id
+         WHERE m.id = memory_facts.source_message_id),
+        'default'
+      );`,
+      `CREATE INDEX IF NOT EXISTS memory_facts_profile_idx ON memory_facts(profile_id, confidence DESC);`,
+    ],
+  },
 ];
 
-function runMigrations(db: SqliteDatabase) {
-  const currentVersion = Number(db.pragma('user_version', { simple: true }));
-  const pending = MIGRATIONS.filter((migration) => migration.version > currentVersion).sort(
-    (a, b) => a.version - b.version,
+const LATEST_SCHEMA_VERSION = Math.max(...MIGRATIONS.map((migration) => migration.version));
+
+/** Migrations are immutable once shipped; the checksum detects one that was edited afterwards. */
+function migrationChecksum(migration: Migration): string {
+  return createHash('sha256').update(migration.statements.join('\n')).digest('hex');
+}
+
+function readSchemaVersion(db: SqliteDatabase): number {
+  return Number(db.pragma('user_version', { simple: true }));
+}
+
+function assertSupportedSchema(db: SqliteDatabase) {
+  const version = readSchemaVersion(db);
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new MemorySchemaError(
+      `The memory database uses schema version ${version}, but this app only supports up to version ${LATEST_SCHEMA_VERSION}. ` +
+        'Update the app or restore an older backup.',
+    );
+  }
+}
+
+function hasMigrationLedger(db: SqliteDatabase): boolean {
+  return Boolean(
+    db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations';`).get(),
   );
+}
 
-  for (const migration of pending) {
-    const apply = db.transaction(() => {
-      for (const statement of migration.statements) {
-        db.prepare(statement).run();
-      }
+function readMigrationLedger(db: SqliteDatabase): Map<number, { checksum: string; appliedAt: number | null }> {
+  const ledger = new Map<number, { checksum: string; appliedAt: number | null }>();
+  if (!hasMigrationLedger(db)) {
+    return ledger;
+  }
 
-      db.pragma(`user_version = ${migration.version}`);
+  const rows = db
+    .prepare<[], { version: number; checksum: string; appliedAt: number | null }>(
+      `SELECT version, checksum, applied_at as appliedAt FROM schema_migrations;`,
+    )
+    .all();
+  for (const row of rows) {
+    ledger.set(Number(row.version), {
+      checksum: String(row.checksum),
+      appliedAt: typeof row.appliedAt === 'number' ? row.appliedAt : null,
     });
+  }
+  return ledger;
+}
 
-    apply();
+/**
+ * Checks the recorded checksum of every applied migration. Migrations applied before checksums were
+ * recorded are trusted and recorded without an apply time.
+ */
+function verifyMigrationChecksums(db: SqliteDatabase, currentVersion: number) {
+  db.prepare(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      checksum TEXT NOT NULL,
+      applied_at INTEGER NULL
+    );`,
+  ).run();
+
+  const ledger = readMigrationLedger(db);
+  const record = db.prepare(`INSERT INTO schema_migrations (version, checksum, applied_at) VALUES (?, ?, NULL);`);
+  for (const migration of MIGRATIONS) {
+    if (migration.version > currentVersion) {
+      continue;
+    }
+
+    const expected = migrationChecksum(migration);
+    const recorded = ledger.get(migration.version);
+    if (!recorded) {
+      record.run(migration.version, expected);
+    } else if (recorded.checksum !== expected) {
+      throw new MemorySchemaError(
+        `Memory database migration ${migration.version} differs from the one applied to this database. ` +
+          'Restore a backup or install the app version that created it.',
+      );
+    }
+  }
+}
+
+function runMigrations(db: SqliteDatabase, options: { backupDirectory?: string }) {
+  const currentVersion = readSchemaVersion(db);
+  verifyMigrationChecksums(db, currentVersion);
+
+  const pending = MIGRATIONS.filter((migration) => migration.version > currentVersion).sort(
+    (a, b) => a.version - b.version,
+  );
+  if (pending.length === 0) {
+    return;
+  }
+
+  // A fresh database has nothing to lose; an existing one is snapshotted in case a migration fails.
+  if (currentVersion > 0 && options.backupDirectory) {
+    mkdirSync(options.backupDirectory, { recursive: true });
+    db.prepare(`VACUUM INTO ?;`).run(path.join(options.backupDirectory, `pre-migration-v${currentVersion}-${Date.now()}.db`));
+  }
+
+  const record = db.prepare(`INSERT OR REPLACE INTO schema_migrations (version, checksum, applied_at) VALUES (?, ?, ?);`);
+  // Dropped tables can hold plaintext, like the search index before version 15, so freed pages are overwritten.
+  db.pragma('secure_delete = ON');
+  try {
+    for (const migration of pending) {
+      const apply = db.transaction(() => {
+        for (const statement of migration.statements) {
+          db.prepare(statement).run();
+        }
+
+        record.run(migration.version, migrationChecksum(migration), Date.now());
+        db.pragma(`user_version = ${migration.version}`);
+      });
+
+      apply();
+    }
+    db.pragma('wal_checkpoint(TRUNCATE)');
+  } finally {
+    db.pragma('secure_delete = OFF');
   }
 }
 
+function toMessageStatus(value: string | null | undefined): MessageStatus {
+  return value === 'streaming' ? 'streaming' : 'complete';
+}
+
 function normalizeTitle(title: string | null | undefined): string | null {
   if (typeof title !== 'string') {
     return null;
@@ -250,6 +690,28 @@ function normalizeTitle(title: string | null | undefined): string | null {
   return trimmed.length > 0 ? trimmed : null;
 }
 
+function clampConfidence(confidence: number): number {
+  if (!Number.isFinite(confidence)) {
+    return 0;
+  }
+
+  return Math.min(1, Math.max(0, confidence));
+}
+
+/**
+ * Resolves `filePath` against `directory` and returns it when it lies inside the directory, otherwise null.
+ * Stored audio paths come from imports too, so every read or delete of one goes through this check.
+ */
+export function resolvePathInside(directory: string, filePath: string): string | null {
+  const root = path.resolve(directory);
+  const resolved = path.resolve(root, filePath);
+  const relative = path.relative(root, resolved);
+  if (!relative || relative.split(path.sep)[0] === '..' || path.isAbsolute(relative)) {
+    return null;
+  }
+  return resolved;
+}
+
 function normalizeAudioPath(audioPath: string | null | undefined): string | null {
   if (typeof audioPath !== 'string') {
     return null;
@@ -259,10 +721,161 @@ function normalizeAudioPath(audioPath: string | null | undefined): string | null
   return trimmed.length > 0 ? trimmed : null;
 }
 
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+const SNIPPET_WORDS = 12;
+/** Longer words are indexed, and searched for, by their first characters only. */
+const MAX_INDEXED_PREFIX = 32;
+
+function normalizeSearchTerm(term: string): string {
+  return term.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Every prefix of every normalised word in the text. The index stores hashes, which FTS5 cannot
+ * prefix-match, so a word is indexed under each of its prefixes and queries look up whole tokens.
+ */
+function toSearchPrefixes(content: string): string[] {
+  const prefixes: string[] = [];
+  for (const [word] of content.matchAll(WORD_PATTERN)) {
+    const characters = Array.from(normalizeSearchTerm(word)).slice(0, MAX_INDEXED_PREFIX);
+    for (let length = 1; length <= characters.length; length += 1) {
+      prefixes.push(characters.slice(0, length).join(''));
+    }
+  }
+  return prefixes;
+}
+
+function toSearchQueryTerm(term: string): string {
+  return Array.from(normalizeSearchTerm(term)).slice(0, MAX_INDEXED_PREFIX).join('');
+}
+
+/**
+ * Builds a short excerpt around the first matching word with matches wrapped in brackets. The search
+ * index is contentless, so snippets are produced from the decrypted message instead of by FTS5.
+ */
+function buildSnippet(content: string, terms: readonly string[]): string {
+  const words = [...content.matchAll(WORD_PATTERN)];
+  if (words.length === 0) {
+    return content.trim();
+  }
+
+  const normalizedTerms = terms.map(normalizeSearchTerm);
+  const isMatch = (word: string) => {
+    const normalized = normalizeSearchTerm(word);
+    return normalizedTerms.some((term) => normalized.startsWith(term));
+  };
+
+  const firstMatch = Math.max(
+    0,
+    words.findIndex((word) => isMatch(word[0])),
+  );
+  const start = Math.max(0, Math.min(firstMatch - 3, words.length - SNIPPET_WORDS));
+  const end = Math.min(words.length, start + SNIPPET_WORDS);
+
+  let cursor = words[start].index ?? 0;
+  let snippet = '';
+  for (let index = start; index < end; index += 1) {
+    const word = words[index];
+    const wordStart = word.index ?? cursor;
+    snippet += content.slice(cursor, wordStart);
+    snippet += isMatch(word[0]) ? `[${word[0]}]` : word[0];
+    cursor = wordStart + word[0].length;
+  }
+  if (end === words.length) {
+    snippet += content.slice(cursor);
+  }
+
+  return `${start > 0 ? '…' : ''}${snippet.trim()}${end < words.length ? '…' : ''}`;
+}
+
+/** Serializes a value with object keys sorted, so equal metadata and buffers compare equal. */
+function toComparable(value: unknown): string | undefined {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : item,
+  );
+}
+
+function isSameRecord<T extends object>(a: T, b: T): boolean {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  return Object.keys(left).every(
+    (key) => left[key] === right[key] || toComparable(left[key] ?? null) === toComparable(right[key] ?? null),
+  );
+}
+
+/**
+ * Flattens shared and profile-scoped kv entries into importable records. Shared entries keep their key
+ * as id; profile-scoped ones are identified as `<profileId>/<key>`.
+ */
+function toKvEntries(data: MemoryStoreExport): Array<KvRow & { id: string }> {
+  return [
+    ...Object.entries(data.kv).map(([key, value]) => ({ id: key, profileId: SHARED_KV_PROFILE, key, value })),
+    ...Object.entries(data.profileKv).flatMap(([profileId, entries]) =>
+      Object.entries(entries).map(([key, value]) => ({ id: `${profileId}/${key}`, profileId, key, value })),
+    ),
+  ];
+}
+
+/**
+ * Sorts incoming records into the import diff buckets and returns the records to write. With
+ * `keep-newest`, ties keep the local record; entities without a timestamp behave like `keep-incoming`.
+ */
+function planImport<T extends { id: string }>(
+  incoming: readonly T[],
+  local: readonly T[],
+  policy: ImportConflictPolicy,
+  getTimestamp: ((record: T) => number) | null,
+  isImportable: (record: T) => boolean = () => true,
+): { diff: ImportEntityDiff; apply: T[] } {
+  const localById = new Map(local.map((record) => [record.id, record]));
+  const diff: ImportEntityDiff = { new: [], updated: [], conflicting: [], skipped: [] };
+  const apply: T[] = [];
+
+  for (const record of incoming) {
+    const existing = localById.get(record.id);
+
+    if (!isImportable(record)) {
+      diff.skipped.push(record.id);
+    } else if (!existing) {
+      diff.new.push(record.id);
+      apply.push(record);
+    } else if (isSameRecord(record, existing)) {
+      diff.skipped.push(record.id);
+    } else if (
+      policy === 'keep-incoming' ||
+      (policy === 'keep-newest' && (!getTimestamp || getTimestamp(record) > getTimestamp(existing)))
+    ) {
+      diff.updated.push(record.id);
+      apply.push(record);
+    } else {
+      diff.conflicting.push(record.id);
+    }
+  }
+
+  return { diff, apply };
+}
+
+/** The profile created with the profiles table. It holds history from before profiles existed and cannot be deleted. */
+export const DEFAULT_PROFILE_ID = 'default';
+
+const SHARED_KV_PROFILE = '';
 const ACTIVE_VRM_KEY = 'avatar.activeVrmId';
+/** Columns whose values are sealed by the cipher. */
+const ENCRYPTED_COLUMNS: Record<string, readonly string[]> = {
+  sessions: ['title', 'summary'],
+  messages: ['content', 'metadata'],
+  profiles: ['name'],
+  kv: ['value'],
+  memory_facts: ['subject', 'fact'],
+};
+const DEFAULT_SEARCH_LIMIT = 20;
 
 export class MemoryStore {
   private readonly db: SqliteDatabase;
+  private cipher: MemoryCipher | null;
+  private readonly audioDirectory: string | null;
   private disposed = false;
 
   constructor(options: MemoryStoreOptions) {
@@ -276,14 +889,182 @@ export class MemoryStore {
       fileMustExist: options.readOnly ?? false,
     });
 
-    db.pragma('journal_mode = WAL');
-    db.pragma('foreign_keys = ON');
+    try {
+      assertSupportedSchema(db);
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
 
-    if (!options.readOnly) {
-      runMigrations(db);
+      if (!options.readOnly) {
+        runMigrations(db, { backupDirectory: options.preMigrationBackupDirectory });
+      }
+    } catch (error) {
+      db.close();
+      throw error;
     }
 
     this.db = db;
+    this.cipher = options.cipher ?? null;
+    this.audioDirectory = options.audioDirectory ?? null;
+
+    if (!options.readOnly) {
+      if (this.cipher) {
+        this.reencryptStoredValues();
+      }
+      this.refreshSearchIndex();
+    }
+  }
+
+  /**
+   * Runs `PRAGMA integrity_check` against a database file without migrating it. Returns an empty list
+   * when the file is healthy, otherwise the problems SQLite reported.
+   */
+  static verifyIntegrity(filePath: string): string[] {
+    const db = new DatabaseConstructor(filePath, { readonly: true, fileMustExist: true });
+    try {
+      const rows = db.pragma('integrity_check') as Array<{ integrity_check: string }>;
+      return rows.map((row) => String(row.integrity_check)).filter((result) => result !== 'ok');
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Lists the ids of the data keys a database file's values are sealed with. Tables and columns the
+   * file's schema version lacks are skipped, so older snapshots can be checked too.
+   */
+  static listSealingKeyIds(filePath: string): string[] {
+    const db = new DatabaseConstructor(filePath, { readonly: true, fileMustExist: true });
+    try {
+      const keyIds = new Set<string>();
+      for (const [table, columns] of Object.entries(ENCRYPTED_COLUMNS)) {
+        const info = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+        const present = new Set(info.map((column) => column.name));
+        for (const column of columns.filter((candidate) => present.has(candidate))) {
+          const values = db
+            .prepare<[], { value: string }>(`SELECT ${column} AS value FROM ${table} WHERE ${column} LIKE 'enc:%';`)
+            .iterate();
+          for (const { value } of values) {
+            const keyId = sealingKeyId(String(value));
+            if (keyId) {
+              keyIds.add(keyId);
+            }
+          }
+        }
+      }
+      return [...keyIds];
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Writes a consistent snapshot of the open database using SQLite's online backup API. The copy is
+   * switched out of WAL mode so it is a single self-contained file. Aborting `signal` stops the copy
+   * between pages and rejects, leaving a partial file for the caller to remove.
+   */
+  async backup(destinationPath: string, options?: { signal?: AbortSignal }): Promise<void> {
+    this.ensureOpen();
+    const signal = options?.signal;
+    signal?.throwIfAborted();
+
+    await this.db.backup(destinationPath, {
+      progress: () => {
+        signal?.throwIfAborted();
+        // Pages copied per step, better-sqlite3's default.
+        return 100;
+      },
+    });
+    signal?.throwIfAborted();
+
+    const snapshot = new DatabaseConstructor(destinationPath, { fileMustExist: true });
+    try {
+      snapshot.pragma('journal_mode = DELETE');
+    } finally {
+      snapshot.close();
+    }
+  }
+
+  /**
+   * Applies a purge to another copy of this database, such as a backup snapshot, decrypting it with this
+   * store's cipher. The copy is migrated to the current schema and left as a single file without a WAL.
+   * Its recorded audio is not touched.
+   */
+  async purgeCopy(filePath: string, query: MemoryPurgeQuery): Promise<MemoryPurgeResult> {
+    this.ensureOpen();
+
+    const copy = new MemoryStore({ filePath, cipher: this.cipher });
+    let result: MemoryPurgeResult;
+    try {
+      result = await copy.purge(query);
+    } finally {
+      copy.dispose();
+    }
+
+    const snapshot = new DatabaseConstructor(filePath, { fileMustExist: true });
+    try {
+      snapshot.pragma('journal_mode = DELETE');
+    } finally {
+      snapshot.close();
+    }
+    return result;
+  }
+
+  /** Describes the schema version, the state of every migration and the tables with their row counts. */
+  inspectSchema(): MemorySchemaInfo {
+    this.ensureOpen();
+
+    const version = readSchemaVersion(this.db);
+    const ledger = readMigrationLedger(this.db);
+    const migrations: MemorySchemaMigration[] = MIGRATIONS.map((migration) => {
+      const checksum = migrationChecksum(migration);
+      const recorded = ledger.get(migration.version);
+      if (migration.version > version) {
+        return { version: migration.version, checksum, status: 'pending', appliedAt: null };
+      }
+      return {
+        version: migration.version,
+        checksum,
+        status: recorded && recorded.checksum !== checksum ? 'modified' : 'applied',
+        appliedAt: recorded?.appliedAt ?? null,
+      };
+    });
+
+    const objects = this.db
+      .prepare<[], { name: string; sql: string | null }>(
+        `SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name;`,
+      )
+      .all();
+    // Full-text indexes are virtual tables backed by shadow tables named after them.
+    const indexNames = objects
+      .filter((object) => object.sql?.toUpperCase().startsWith('CREATE VIRTUAL TABLE'))
+      .map((object) => object.name);
+    const tables = objects
+      .filter((object) => !indexNames.some((name) => object.name === name || object.name.startsWith(`${name}_`)))
+      .map((object) => {
+        const quoted = `"${object.name.replace(/"/g, '""')}"`;
+        const columns = this.db.pragma(`table_info(${quoted})`) as Array<{ name: string }>;
+        const count = this.db.prepare<[], { count: number }>(`SELECT COUNT(*) as count FROM ${quoted};`).get();
+        return { name: object.name, columns: columns.map((column) => String(column.name)), rows: Number(count?.count ?? 0) };
+      });
+
+    return { version, latestVersion: LATEST_SCHEMA_VERSION, migrations, tables };
+  }
+
+  /** Whether values sealed with the given data key can be decrypted by this store. */
+  hasDataKey(keyId: string): boolean {
+    return this.cipher?.hasKey(keyId) ?? false;
+  }
+
+  /**
+   * Switches to a new cipher and re-encrypts every protected value with its primary key. The cipher
+   * must still hold the previous key so existing rows can be decrypted.
+   */
+  rotateEncryption(cipher: MemoryCipher): void {
+    this.ensureOpen();
+
+    this.cipher = cipher;
+    this.reencryptStoredValues();
+    this.refreshSearchIndex();
   }
 
   dispose(): void {
@@ -295,18 +1076,68 @@ export class MemoryStore {
     this.disposed = true;
   }
 
+  createProfile(profile: ProfileRecord): void {
+    this.ensureOpen();
+
+    const stmt = this.db.prepare<ProfileRecord>(
+      `INSERT INTO profiles (id, name, created_at)
+       VALUES (@id, @name, @createdAt);`,
+    );
+
+    stmt.run({ id: profile.id, name: this.encryptValue(profile.name.trim()), createdAt: profile.createdAt });
+  }
+
+  listProfiles(): ProfileRecord[] {
+    this.ensureOpen();
+
+    const rows = this.db
+      .prepare<[], ProfileRow>(
+        `SELECT id, name, created_at as createdAt FROM profiles ORDER BY created_at ASC, id ASC;`,
+      )
+      .all();
+
+    return rows.map((row) => this.toProfileRecord(row));
+  }
+
+  getProfile(profileId: string): ProfileRecord | null {
+    this.ensureOpen();
+
+    const row = this.db
+      .prepare<[string], ProfileRow>(`SELECT id, name, created_at as createdAt FROM profiles WHERE id = ?;`)
+      .get(profileId);
+
+    return row ? this.toProfileRecord(row) : null;
+  }
+
+  /** Deletes a profile together with its sessions, messages, memory facts and kv entries. */
+  deleteProfile(profileId: string): void {
+    this.ensureOpen();
+
+    if (profileId === DEFAULT_PROFILE_ID) {
+      throw new Error('The default profile cannot be deleted.');
+    }
+
+    const run = this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM kv WHERE profile_id = ?;`).run(profileId);
+      this.db.prepare(`DELETE FROM profiles WHERE id = ?;`).run(profileId);
+    });
+
+    run();
+  }
+
   createSession(session: SessionRecord): void {
     this.ensureOpen();
 
-    const stmt = this.db.prepare<SessionRecord>(
-      `INSERT INTO sessions (id, started_at, title)
-       VALUES (@id, @startedAt, @title);`,
+    const stmt = this.db.prepare<SessionRow>(
+      `INSERT INTO sessions (id, started_at, title, profile_id)
+       VALUES (@id, @startedAt, @title, @profileId);`,
     );
 
     stmt.run({
       id: session.id,
       startedAt: session.startedAt,
-      title: normalizeTitle(session.title),
+      title: this.encryptNullable(normalizeTitle(session.title)),
+      profileId: session.profileId ?? DEFAULT_PROFILE_ID,
     });
   }
 
@@ -319,11 +1150,40 @@ export class MemoryStore {
     }>(`UPDATE sessions SET title = @title WHERE id = @id;`);
 
     stmt.run({
-      title: normalizeTitle(title),
+      title: this.encryptNullable(normalizeTitle(title)),
       id: sessionId,
     });
   }
 
+  getSessionSummary(sessionId: string): string | null {
+    this.ensureOpen();
+
+    const row = this.db
+      .prepare<[string], { summary: string | null }>(`SELECT summary FROM sessions WHERE id = ?;`)
+      .get(sessionId);
+
+    return row ? this.decryptNullable(row.summary) : null;
+  }
+
+  updateSessionSummary(sessionId: string, summary: string | null): void {
+    this.ensureOpen();
+
+    const trimmed = summary?.trim() ?? '';
+    const stmt = this.db.prepare(`UPDATE sessions SET summary = ? WHERE id = ?;`);
+    stmt.run(this.encryptNullable(trimmed.length > 0 ? trimmed : null), sessionId);
+  }
+
+  /**
+   * Clears the rolling summaries of sessions started before `cutoff`, since they may condense messages
+   * that old. Returns how many summaries were cleared.
+   */
+  clearSessionSummariesBefore(cutoff: number): number {
+    this.ensureOpen();
+
+    const stmt = this.db.prepare(`UPDATE sessions SET summary = NULL WHERE summary IS NOT NULL AND started_at < ?;`);
+    return stmt.run(cutoff).changes;
+  }
+
   deleteSession(sessionId: string): void {
     this.ensureOpen();
 
@@ -348,33 +1208,188 @@ export class MemoryStore {
     run(messageIds);
   }
 
-  listSessions(options?: { limit?: number; offset?: number }): SessionRecord[] {
+  /**
+   * Forgets the messages matching `query` together with their recorded audio and the memory facts
+   * learned from them. Without `sessionIds`, facts whose text contains `containing` are forgotten too,
+   * as are unsourced facts learned within the time range. Sessions left without messages are deleted,
+   * and the titles and rolling summaries of the others are cleared since they may repeat what was forgotten.
+   */
+  async purge(
+    query: MemoryPurgeQuery,
+    options: { removeFile?: (filePath: string) => Promise<void> } = {},
+  ): Promise<MemoryPurgeResult> {
+    this.ensureOpen();
+
+    const keyword = query.containing?.trim().toLowerCase() ?? '';
+    const from = query.from ?? null;
+    const to = query.to ?? null;
+    const requestedSessionIds = query.sessionIds ? [...new Set(query.sessionIds)] : null;
+    if (from === null && to === null && !keyword && !requestedSessionIds) {
+      throw new Error('A purge needs a time range, a keyword or session ids.');
+    }
+
+    const scope = {
+      from,
+      to,
+      profileId: query.profileId ?? null,
+      sessionIds: requestedSessionIds ? JSON.stringify(requestedSessionIds) : null,
+    };
+    const candidates = this.db
+      .prepare<typeof scope, Pick<MessageRow, 'id' | 'sessionId' | 'content' | 'audioPath'>>(
+        `SELECT m.id, m.session_id as sessionId, m.content, m.audio_path as audioPath
+         FROM messages m JOIN sessions s ON s.id = m.session_id
+         WHERE (@from IS NULL OR m.ts >= @from)
+           AND (@to IS NULL OR m.ts <= @to)
+           AND (@profileId IS NULL OR s.profile_id = @profileId)
+           AND (@sessionIds IS NULL OR m.session_id IN (SELECT value FROM json_each(@sessionIds)));`,
+      )
+      .all(scope);
+    const messages = keyword
+      ? candidates.filter((row) => this.decryptValue(String(row.content)).toLowerCase().includes(keyword))
+      : candidates;
+    const messageIds = messages.map((row) => String(row.id));
+
+    const factIds = new Set<string>();
+    const factRows = this.db
+      .prepare<
+        { profileId: string | null },
+        Pick<MemoryFactRow, 'id' | 'subject' | 'fact' | 'sourceMessageId' | 'createdAt'>
+      >(
+        `SELECT id, subject, fact, source_message_id as sourceMessageId, created_at as createdAt
+         FROM memory_facts WHERE @profileId IS NULL OR profile_id = @profileId;`,
+      )
+      .all({ profileId: scope.profileId });
+    const purgedMessageIds = new Set(messageIds);
+    for (const row of factRows) {
+      if (row.sourceMessageId && purgedMessageIds.has(row.sourceMessageId)) {
+        factIds.add(row.id);
+        continue;
+      }
+      if (requestedSessionIds) {
+        continue;
+      }
+      const createdAt = Number(row.createdAt);
+      if ((from !== null && createdAt < from) || (to !== null && createdAt > to)) {
+        continue;
+      }
+      const matches = keyword
+        ? `${this.decryptValue(String(row.subject))} ${this.decryptValue(String(row.fact))}`.toLowerCase().includes(keyword)
+        : row.sourceMessageId === null;
+      if (matches) {
+        factIds.add(row.id);
+      }
+    }
+
+    const touchedSessionIds = new Set([...messages.map((row) => String(row.sessionId)), ...(requestedSessionIds ?? [])]);
+    const keepSessionIds = new Set(query.keepSessionIds ?? []);
+    const deletedSessionIds: string[] = [];
+    const clearedSessionIds: string[] = [];
+    const apply = this.db.transaction(() => {
+      const deleteFact = this.db.prepare(`DELETE FROM memory_facts WHERE id = ?;`);
+      for (const factId of factIds) {
+        deleteFact.run(factId);
+      }
+      const deleteMessage = this.db.prepare(`DELETE FROM messages WHERE id = ?;`);
+      for (const messageId of messageIds) {
+        deleteMessage.run(messageId);
+      }
+
+      const session = this.db.prepare<[string], { profileId: string | null; messages: number }>(
+        `SELECT profile_id as profileId, (SELECT COUNT(*) FROM messages WHERE session_id = sessions.id) as messages
+         FROM sessions WHERE id = ?;`,
+      );
+      for (const sessionId of touchedSessionIds) {
+        const row = session.get(sessionId);
+        if (!row || (query.profileId !== undefined && (row.profileId ?? DEFAULT_PROFILE_ID) !== query.profileId)) {
+          continue;
+        }
+        if (Number(row.messages) === 0 && !keepSessionIds.has(sessionId)) {
+          this.db.prepare(`DELETE FROM sessions WHERE id = ?;`).run(sessionId);
+          deletedSessionIds.push(sessionId);
+        } else {
+          this.db.prepare(`UPDATE sessions SET title = NULL, summary = NULL WHERE id = ?;`).run(sessionId);
+          clearedSessionIds.push(sessionId);
+        }
+      }
+    });
+
+    // Overwrite the freed pages so forgotten text does not linger in the database file or its WAL.
+    this.db.pragma('secure_delete = ON');
+    try {
+      apply();
+      this.db.pragma('wal_checkpoint(TRUNCATE)');
+    } finally {
+      this.db.pragma('secure_delete = OFF');
+    }
+
+    const removeFile = options.removeFile ?? ((filePath: string) => rm(filePath, { force: true }));
+    const audioPaths: string[] = [];
+    const failedAudioPaths: string[] = [];
+    for (const audioPath of new Set(messages.flatMap((row) => (row.audioPath ? [row.audioPath] : [])))) {
+      const localPath = this.audioDirectory ? resolvePathInside(this.audioDirectory, audioPath) : null;
+      if (!localPath) {
+        failedAudioPaths.push(audioPath);
+        continue;
+      }
+      try {
+        await removeFile(localPath);
+        audioPaths.push(audioPath);
+      } catch {
+        failedAudioPaths.push(audioPath);
+      }
+    }
+
+    return {
+      messageIds,
+      sessionIds: deletedSessionIds,
+      factIds: [...factIds],
+      audioPaths,
+      failedAudioPaths,
+      clearedSessionIds,
+    };
+  }
+
+  /** Lists sessions newest first, across every profile unless `profileId` is given. */
+  listSessions(options?: { limit?: number; offset?: number; profileId?: string }): SessionRecord[] {
     this.ensureOpen();
 
     const limit = Math.max(0, options?.limit ?? 50);
     const offset = Math.max(0, options?.offset ?? 0);
 
-    const stmt = this.db.prepare<[number, number], SessionRow>(
-      `SELECT id, started_at as startedAt, title
+    const stmt = this.db.prepare<{ profileId: string | null; limit: number; offset: number }, SessionRow>(
+      `SELECT id, started_at as startedAt, title, profile_id as profileId
        FROM sessions
+       WHERE @profileId IS NULL OR profile_id = @profileId
        ORDER BY started_at DESC, id DESC
-       LIMIT ? OFFSET ?;`,
+       LIMIT @limit OFFSET @offset;`,
     );
 
-    const rows = stmt.all(limit, offset);
+    const rows = stmt.all({ profileId: options?.profileId ?? null, limit, offset });
 
     return rows.map((row) => ({
       id: String(row.id),
       startedAt: Number(row.startedAt),
-      title: typeof row.title === 'string' ? row.title : null,
+      title: this.decryptNullable(row.title),
+      profileId: row.profileId ?? DEFAULT_PROFILE_ID,
     }));
   }
 
+  countSessions(profileId?: string): number {
+    this.ensureOpen();
+
+    const row = this.db
+      .prepare<{ profileId: string | null }, { count: number }>(
+        `SELECT COUNT(*) as count FROM sessions WHERE @profileId IS NULL OR profile_id = @profileId;`,
+      )
+      .get({ profileId: profileId ?? null });
+    return Number(row?.count ?? 0);
+  }
+
   getSessionWithMessages(sessionId: string): SessionWithMessages | null {
     this.ensureOpen();
 
     const sessionStmt = this.db.prepare<[string], SessionRow>(
-      `SELECT id, started_at as startedAt, title
+      `SELECT id, started_at as startedAt, title, profile_id as profileId
        FROM sessions WHERE id = ?;`,
     );
 
@@ -389,7 +1404,8 @@ export class MemoryStore {
     return {
       id: String(session.id),
       startedAt: Number(session.startedAt),
-      title: typeof session.title === 'string' ? session.title : null,
+      title: this.decryptNullable(session.title),
+      profileId: session.profileId ?? DEFAULT_PROFILE_ID,
       messages,
     };
   }
@@ -398,7 +1414,7 @@ export class MemoryStore {
     this.ensureOpen();
 
     const stmt = this.db.prepare<[string], MessageRow>(
-      `SELECT id, session_id as sessionId, role, ts, content, audio_path as audioPath
+      `SELECT id, session_id as sessionId, role, ts, content, audio_path as audioPath, metadata, status
        FROM messages WHERE session_id = ?
        ORDER BY ts ASC, id ASC;`,
     );
@@ -410,26 +1426,228 @@ export class MemoryStore {
       sessionId: String(row.sessionId),
       role: String(row.role),
       ts: Number(row.ts),
-      content: String(row.content),
+      content: this.decryptValue(String(row.content)),
       audioPath: typeof row.audioPath === 'string' ? row.audioPath : null,
+      metadata: this.decryptMetadata(row.metadata),
+      status: toMessageStatus(row.status),
     }));
   }
 
+  listMessageReferences(query: MessageReferenceQuery = {}): MessageReference[] {
+    this.ensureOpen();
+
+    const clauses: string[] = [];
+    const params: Array<string | number> = [];
+    if (query.sessionId !== undefined) {
+      clauses.push('session_id = ?');
+      params.push(query.sessionId);
+    }
+    if (query.role !== undefined) {
+      clauses.push('role = ?');
+      params.push(query.role);
+    }
+    if (query.before !== undefined) {
+      clauses.push('ts < ?');
+      params.push(query.before);
+    }
+    if (query.status !== undefined) {
+      clauses.push('status = ?');
+      params.push(query.status);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const stmt = this.db.prepare<Array<string | number>, Omit<MessageRow, 'content' | 'metadata'>>(
+      `SELECT id, session_id as sessionId, role, ts, audio_path as audioPath, status
+       FROM messages ${where}
+       ORDER BY ts ASC, id ASC;`,
+    );
+
+    return stmt.all(...params).map((row) => ({
+      id: String(row.id),
+      sessionId: String(row.sessionId),
+      role: String(row.role),
+      ts: Number(row.ts),
+      audioPath: typeof row.audioPath === 'string' ? row.audioPath : null,
+      status: toMessageStatus(row.status),
+    }));
+  }
+
+  getDatabaseSize(): MemoryStoreSize {
+    this.ensureOpen();
+
+    const pageSize = Number(this.db.pragma('page_size', { simple: true }));
+    const pageCount = Number(this.db.pragma('page_count', { simple: true }));
+    const freePages = Number(this.db.pragma('freelist_count', { simple: true }));
+
+    return {
+      totalBytes: pageCount * pageSize,
+      usedBytes: (pageCount - freePages) * pageSize,
+    };
+  }
+
+  /** Rebuilds the database file so pages freed by deletions are returned to the file system. */
+  compact(): void {
+    this.ensureOpen();
+
+    this.db.exec('VACUUM;');
+  }
+
   appendMessage(message: MessageRecord): void {
     this.ensureOpen();
 
-    const stmt = this.db.prepare<MessageRecord>(
-      `INSERT INTO messages (id, session_id, role, ts, content, audio_path)
-       VALUES (@id, @sessionId, @role, @ts, @content, @audioPath);`,
+    const stmt = this.db.prepare<MessageRow>(
+      `INSERT INTO messages (id, session_id, role, ts, content, audio_path, metadata, status)
+       VALUES (@id, @sessionId, @role, @ts, @content, @audioPath, @metadata, @status);`,
     );
 
-    stmt.run({
-      id: message.id,
-      sessionId: message.sessionId,
-      role: message.role,
-      ts: message.ts,
-      content: message.content,
-      audioPath: normalizeAudioPath(message.audioPath),
+    const insert = this.db.transaction(() => {
+      stmt.run({
+        id: message.id,
+        sessionId: message.sessionId,
+        role: message.role,
+        ts: message.ts,
+        content: this.encryptValue(message.content),
+        audioPath: normalizeAudioPath(message.audioPath),
+        metadata: this.encryptMetadata(message.metadata),
+        status: message.status ?? 'complete',
+      });
+      this.indexMessage(message.id, message.content);
+    });
+
+    insert();
+  }
+
+  getMessage(messageId: string): MessageRecord | null {
+    this.ensureOpen();
+
+    const stmt = this.db.prepare<[string], MessageRow>(
+      `SELECT id, session_id as sessionId, role, ts, content, audio_path as audioPath, metadata, status
+       FROM messages WHERE id = ?;`,
+    );
+
+    const row = stmt.get(messageId);
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: String(row.id),
+      sessionId: String(row.sessionId),
+      role: String(row.role),
+      ts: Number(row.ts),
+      content: this.decryptValue(String(row.content)),
+      audioPath: typeof row.audioPath === 'string' ? row.audioPath : null,
+      metadata: this.decryptMetadata(row.metadata),
+      status: toMessageStatus(row.status),
+    };
+  }
+
+  updateMessageAudioPath(messageId: string, audioPath: string | null): void {
+    this.ensureOpen();
+
+    const stmt = this.db.prepare<{ id: string; audioPath: string | null }>(
+      `UPDATE messages SET audio_path = @audioPath WHERE id = @id;`,
+    );
+
+    stmt.run({ id: messageId, audioPath: normalizeAudioPath(audioPath) });
+  }
+
+  /** Rewrites the given fields of a message and refreshes its search entry when the content changed. */
+  updateMessage(messageId: string, update: MessageUpdate): void {
+    this.ensureOpen();
+
+    const assignments: string[] = [];
+    const params: Record<string, string | null> = { id: messageId };
+    if (update.content !== undefined) {
+      assignments.push('content = @content');
+      params.content = this.encryptValue(update.content);
+    }
+    if (update.metadata !== undefined) {
+      assignments.push('metadata = @metadata');
+      params.metadata = this.encryptMetadata(update.metadata);
+    }
+    if (update.status !== undefined) {
+      assignments.push('status = @status');
+      params.status = update.status;
+    }
+    if (assignments.length === 0) {
+      return;
+    }
+
+    const stmt = this.db.prepare(`UPDATE messages SET ${assignments.join(', ')} WHERE id = @id;`);
+    const apply = this.db.transaction(() => {
+      const result = stmt.run(params);
+      if (result.changes > 0 && update.content !== undefined) {
+        this.indexMessage(messageId, update.content);
+      }
+    });
+
+    apply();
+  }
+
+  searchMessages(query: string, options?: MessageSearchOptions): MessageSearchResult[] {
+    this.ensureOpen();
+
+    const terms = query.match(WORD_PATTERN) ?? [];
+    const limit = Math.max(0, options?.limit ?? DEFAULT_SEARCH_LIMIT);
+    if (terms.length === 0 || limit === 0) {
+      return [];
+    }
+
+    const stmt = this.db.prepare<
+      {
+        match: string;
+        sessionId: string | null;
+        profileId: string | null;
+        role: string | null;
+        from: number | null;
+        to: number | null;
+        limit: number;
+      },
+      MessageSearchRow
+    >(
+      `SELECT m.id, m.session_id as sessionId, m.role, m.ts, m.content, m.audio_path as audioPath, m.metadata,
+              m.status, bm25(messages_fts) as rank
+       FROM messages_fts
+       JOIN messages_search_ids s ON s.id = messages_fts.rowid
+       JOIN messages m ON m.id = s.message_id
+       WHERE messages_fts MATCH @match
+         AND (@sessionId IS NULL OR m.session_id = @sessionId)
+         AND (@profileId IS NULL OR m.session_id IN (SELECT id FROM sessions WHERE profile_id = @profileId))
+         AND (@role IS NULL OR m.role = @role)
+         AND (@from IS NULL OR m.ts >= @from)
+         AND (@to IS NULL OR m.ts <= @to)
+       ORDER BY rank ASC, m.ts DESC, m.id ASC
+       LIMIT @limit;`,
+    );
+
+    const rows = stmt.all({
+      // Tokens are hex hashes, so quoting them is only needed to keep FTS5 from reading them as operators.
+      match: terms.map((term) => `"${this.searchToken(toSearchQueryTerm(term))}"`).join(' '),
+      sessionId: options?.sessionId ?? null,
+      profileId: options?.profileId ?? null,
+      role: options?.role ?? null,
+      from: options?.from ?? null,
+      to: options?.to ?? null,
+      limit,
+    });
+
+    return rows.map((row) => {
+      const content = this.decryptValue(String(row.content));
+      return {
+        message: {
+          id: String(row.id),
+          sessionId: String(row.sessionId),
+          role: String(row.role),
+          ts: Number(row.ts),
+          content,
+          audioPath: typeof row.audioPath === 'string' ? row.audioPath : null,
+          metadata: this.decryptMetadata(row.metadata),
+          status: toMessageStatus(row.status),
+        },
+        snippet: buildSnippet(content, terms),
+        rank: Number(row.rank),
+      };
     });
   }
 
@@ -684,6 +1902,135 @@ export class MemoryStore {
     });
   }
 
+  /**
+   * Inserts a fact, or merges it into an existing fact with the same subject and text
+   * (case-insensitive), keeping the higher confidence and the original id.
+   */
+  upsertMemoryFact(fact: MemoryFactRecord): MemoryFactRecord {
+    this.ensureOpen();
+
+    const subject = fact.subject.trim();
+    const text = fact.fact.trim();
+    const confidence = clampConfidence(fact.confidence);
+    const profileId = fact.profileId ?? DEFAULT_PROFILE_ID;
+
+    const upsert = this.db.transaction((): string => {
+      const candidates = this.db
+        .prepare<[string, string], MemoryFactRow>(
+          `SELECT id, subject, fact, source_message_id as sourceMessageId, confidence,
+                  created_at as createdAt, last_used_at as lastUsedAt, profile_id as profileId
+           FROM memory_facts WHERE subject_key = ? AND profile_id = ?;`,
+        )
+        .all(this.subjectKey(subject), profileId);
+      const existing = candidates.find(
+        (candidate) => this.decryptValue(String(candidate.fact)).toLowerCase() === text.toLowerCase(),
+      );
+
+      if (existing) {
+        this.db
+          .prepare<{ id: string; confidence: number; sourceMessageId: string | null }>(
+            `UPDATE memory_facts SET
+               confidence = max(confidence, @confidence),
+               source_message_id = coalesce(source_message_id, @sourceMessageId)
+             WHERE id = @id;`,
+          )
+          .run({ id: existing.id, confidence, sourceMessageId: fact.sourceMessageId ?? null });
+        return existing.id;
+      }
+
+      this.db
+        .prepare<MemoryFactRecord & { subjectKey: string }>(
+          `INSERT INTO memory_facts
+             (id, subject, subject_key, fact, source_message_id, confidence, created_at, last_used_at, profile_id)
+           VALUES (@id, @subject, @subjectKey, @fact, @sourceMessageId, @confidence, @createdAt, @lastUsedAt, @profileId);`,
+        )
+        .run({
+          id: fact.id,
+          subject: this.encryptValue(subject),
+          subjectKey: this.subjectKey(subject),
+          fact: this.encryptValue(text),
+          sourceMessageId: fact.sourceMessageId ?? null,
+          confidence,
+          createdAt: fact.createdAt,
+          lastUsedAt: fact.lastUsedAt ?? null,
+          profileId,
+        });
+      return fact.id;
+    });
+
+    const storedId = upsert();
+    const stored = this.db
+      .prepare<[string], MemoryFactRow>(
+        `SELECT id, subject, fact, source_message_id as sourceMessageId, confidence,
+                created_at as createdAt, last_used_at as lastUsedAt, profile_id as profileId
+         FROM memory_facts WHERE id = ?;`,
+      )
+      .get(storedId);
+
+    if (!stored) {
+      throw new Error('Failed to persist memory fact.');
+    }
+
+    return this.toMemoryFactRecord(stored);
+  }
+
+  /**
+   * Lists facts ordered by relevance: highest confidence first, then most recently used or learned.
+   * Covers every profile unless `profileId` is given.
+   */
+  listMemoryFacts(options?: { limit?: number; minConfidence?: number; profileId?: string }): MemoryFactRecord[] {
+    this.ensureOpen();
+
+    const limit = Math.max(0, options?.limit ?? 50);
+    const minConfidence = clampConfidence(options?.minConfidence ?? 0);
+
+    const stmt = this.db.prepare<{ minConfidence: number; profileId: string | null; limit: number }, MemoryFactRow>(
+      `SELECT id, subject, fact, source_message_id as sourceMessageId, confidence,
+              created_at as createdAt, last_used_at as lastUsedAt, profile_id as profileId
+       FROM memory_facts
+       WHERE confidence >= @minConfidence
+         AND (@profileId IS NULL OR profile_id = @profileId)
+       ORDER BY confidence DESC, coalesce(last_used_at, created_at) DESC, id ASC
+       LIMIT @limit;`,
+    );
+
+    return stmt
+      .all({ minConfidence, profileId: options?.profileId ?? null, limit })
+      .map((row) => this.toMemoryFactRecord(row));
+  }
+
+  markMemoryFactsUsed(factIds: readonly string[], usedAt: number): void {
+    this.ensureOpen();
+
+    if (factIds.length === 0) {
+      return;
+    }
+
+    const stmt = this.db.prepare(`UPDATE memory_facts SET last_used_at = ? WHERE id = ?;`);
+    const run = this.db.transaction((ids: readonly string[]) => {
+      for (const id of ids) {
+        stmt.run(usedAt, id);
+      }
+    });
+
+    run(factIds);
+  }
+
+  deleteMemoryFact(factId: string): void {
+    this.ensureOpen();
+
+    const stmt = this.db.prepare(`DELETE FROM memory_facts WHERE id = ?;`);
+    stmt.run(factId);
+  }
+
+  /** Deletes the memory facts learned before `cutoff` across every profile. Returns how many were deleted. */
+  deleteMemoryFactsBefore(cutoff: number): number {
+    this.ensureOpen();
+
+    const stmt = this.db.prepare(`DELETE FROM memory_facts WHERE created_at < ?;`);
+    return stmt.run(cutoff).changes;
+  }
+
   getActiveVrmModelId(): string | null {
     return this.getValue(ACTIVE_VRM_KEY);
   }
@@ -697,47 +2044,52 @@ export class MemoryStore {
     this.setValue(ACTIVE_VRM_KEY, modelId);
   }
 
-  setValue(key: string, value: string): void {
+  /** Stores a value shared by every profile, or one scoped to `profileId` when given. */
+  setValue(key: string, value: string, profileId?: string): void {
     this.ensureOpen();
 
-    const stmt = this.db.prepare<{ key: string; value: string }>(
-      `INSERT INTO kv (key, value) VALUES (@key, @value)
-       ON CONFLICT(key) DO UPDATE SET value = excluded.value;`,
+    const stmt = this.db.prepare<KvRow>(
+      `INSERT INTO kv (profile_id, key, value) VALUES (@profileId, @key, @value)
+       ON CONFLICT(profile_id, key) DO UPDATE SET value = excluded.value;`,
     );
 
-    stmt.run({ key, value });
+    stmt.run({ profileId: profileId ?? SHARED_KV_PROFILE, key, value: this.encryptValue(value) });
   }
 
-  getValue(key: string): string | null {
+  getValue(key: string, profileId?: string): string | null {
     this.ensureOpen();
 
-    const stmt = this.db.prepare<[string], { value: string }>(
-      `SELECT value FROM kv WHERE key = ?;`,
+    const stmt = this.db.prepare<[string, string], { value: string }>(
+      `SELECT value FROM kv WHERE profile_id = ? AND key = ?;`,
     );
-    const row = stmt.get(key);
+    const row = stmt.get(profileId ?? SHARED_KV_PROFILE, key);
 
     if (!row) {
       return null;
     }
 
-    return row.value;
+    return this.decryptValue(row.value);
   }
 
-  deleteValue(key: string): void {
+  deleteValue(key: string, profileId?: string): void {
     this.ensureOpen();
 
-    const stmt = this.db.prepare(`DELETE FROM kv WHERE key = ?;`);
-    stmt.run(key);
+    const stmt = this.db.prepare(`DELETE FROM kv WHERE profile_id = ? AND key = ?;`);
+    stmt.run(profileId ?? SHARED_KV_PROFILE, key);
   }
 
   exportData(): MemoryStoreExport {
     this.ensureOpen();
 
+    const profilesStmt = this.db.prepare<[], ProfileRow>(
+      `SELECT id, name, created_at as createdAt FROM profiles ORDER BY created_at ASC, id ASC;`,
+    );
     const sessionsStmt = this.db.prepare<[], SessionRow>(
-      `SELECT id, started_at as startedAt, title FROM sessions ORDER BY started_at ASC, id ASC;`,
+      `SELECT id, started_at as startedAt, title, summary, profile_id as profileId
+       FROM sessions ORDER BY started_at ASC, id ASC;`,
     );
     const messagesStmt = this.db.prepare<[], MessageRow>(
-      `SELECT id, session_id as sessionId, role, ts, content, audio_path as audioPath
+      `SELECT id, session_id as sessionId, role, ts, content, audio_path as audioPath, metadata, status
        FROM messages ORDER BY ts ASC, id ASC;`,
     );
     const vrmModelsStmt = this.db.prepare<[], VrmModelRow>(
@@ -752,7 +2104,9 @@ export class MemoryStore {
       `SELECT id, name, created_at as createdAt, file_path as filePath, file_sha as fileSha
        FROM vrm_poses ORDER BY created_at ASC, id ASC;`,
     );
-    const kvStmt = this.db.prepare<[], KvRow>(`SELECT key, value FROM kv ORDER BY key ASC;`);
+    const kvStmt = this.db.prepare<[], KvRow>(
+      `SELECT profile_id as profileId, key, value FROM kv ORDER BY profile_id ASC, key ASC;`,
+    );
 
     const sessionRows = sessionsStmt.all();
 
@@ -765,16 +2119,21 @@ export class MemoryStore {
     const sessions = sessionRows.map((row) => ({
       id: String(row.id),
       startedAt: Number(row.startedAt),
-      title: typeof row.title === 'string' ? row.title : null,
+      title: this.decryptNullable(row.title),
+      summary: this.decryptNullable(row.summary ?? null),
+      profileId: row.profileId ?? DEFAULT_PROFILE_ID,
     }));
+    const profiles = profilesStmt.all().map((row) => this.toProfileRecord(row));
 
     const messages = messageRows.map((row) => ({
       id: String(row.id),
       sessionId: String(row.sessionId),
       role: String(row.role),
       ts: Number(row.ts),
-      content: String(row.content),
+      content: this.decryptValue(String(row.content)),
       audioPath: typeof row.audioPath === 'string' ? row.audioPath : null,
+      metadata: this.decryptMetadata(row.metadata),
+      status: toMessageStatus(row.status),
     }));
 
     const vrmModels: SerializedVrmModel[] = vrmModelRows.map((row) => ({
@@ -808,62 +2167,171 @@ export class MemoryStore {
 
     const kvEntries = kvStmt.all();
     const kv: Record<string, string> = {};
+    const profileKv: Record<string, Record<string, string>> = {};
 
     for (const entry of kvEntries) {
-      kv[entry.key] = entry.value;
+      const target = entry.profileId === SHARED_KV_PROFILE ? kv : (profileKv[entry.profileId] ??= {});
+      target[entry.key] = this.decryptValue(entry.value);
     }
 
-    return { sessions, messages, kv, vrmModels, vrmaAnimations, vrmPoses };
+    return { profiles, sessions, messages, kv, profileKv, vrmModels, vrmaAnimations, vrmPoses };
   }
 
-  importData(data: MemoryStoreExport, options?: { strategy?: ImportStrategy }): void {
+  /**
+   * Validates an export and imports it. `replace` clears the library first; `merge` compares every
+   * record with its local counterpart and resolves differences with the conflict policy. The report
+   * lists each id once: `new` and `updated` records are written, `conflicting` ones keep the local
+   * value, and `skipped` ones are identical locally or reference a session that does not exist.
+   */
+  importData(data: unknown, options?: MemoryStoreImportOptions): MemoryStoreImportReport {
     this.ensureOpen();
+
+    const parsed = parseMemoryStoreExport(data);
+    // Paths from another machine, or pointing anywhere but the local clips, must never be read or deleted later.
+    const incoming: MemoryStoreExport = {
+      ...parsed,
+      messages: parsed.messages.map((message) => ({ ...message, audioPath: this.toLocalAudioPath(message.audioPath) })),
+    };
     const strategy = options?.strategy ?? 'replace';
+    const dryRun = options?.dryRun ?? false;
+    const policyFor = (kind: ImportEntityKind): ImportConflictPolicy => {
+      const policy = options?.conflictPolicy;
+      return (typeof policy === 'string' ? policy : policy?.[kind]) ?? 'keep-incoming';
+    };
+
+    const local: MemoryStoreExport =
+      strategy === 'replace'
+        ? { profiles: [], sessions: [], messages: [], kv: {}, profileKv: {}, vrmModels: [], vrmaAnimations: [], vrmPoses: [] }
+        : this.exportData();
+
+    // The default profile survives a replace, so records that belong to it always have somewhere to go.
+    const knownProfileIds = new Set([
+      DEFAULT_PROFILE_ID,
+      ...local.profiles.map((profile) => profile.id),
+      ...incoming.profiles.map((profile) => profile.id),
+    ]);
+    const hasKnownProfile = (session: SessionRecord) => knownProfileIds.has(session.profileId ?? DEFAULT_PROFILE_ID);
+    const knownSessionIds = new Set([
+      ...local.sessions.map((session) => session.id),
+      ...incoming.sessions.filter(hasKnownProfile).map((session) => session.id),
+    ]);
+
+    const profiles = planImport(incoming.profiles, local.profiles, policyFor('profiles'), (profile) => profile.createdAt);
+    const sessions = planImport(
+      incoming.sessions,
+      local.sessions,
+      policyFor('sessions'),
+      (session) => session.startedAt,
+      hasKnownProfile,
+    );
+    const messages = planImport(
+      incoming.messages,
+      local.messages,
+      policyFor('messages'),
+      (message) => message.ts,
+      (message) => knownSessionIds.has(message.sessionId),
+    );
+    const kv = planImport(
+      toKvEntries(incoming),
+      toKvEntries(local),
+      policyFor('kv'),
+      null,
+      (entry) => entry.profileId === SHARED_KV_PROFILE || knownProfileIds.has(entry.profileId),
+    );
+    const vrmModels = planImport(incoming.vrmModels, local.vrmModels, policyFor('vrmModels'), (model) => model.createdAt);
+    const vrmaAnimations = planImport(
+      incoming.vrmaAnimations,
+      local.vrmaAnimations,
+      policyFor('vrmaAnimations'),
+      (animation) => animation.createdAt,
+    );
+    const vrmPoses = planImport(incoming.vrmPoses, local.vrmPoses, policyFor('vrmPoses'), (pose) => pose.createdAt);
+
+    const report: MemoryStoreImportReport = {
+      strategy,
+      dryRun,
+      entities: {
+        profiles: profiles.diff,
+        sessions: sessions.diff,
+        messages: messages.diff,
+        kv: kv.diff,
+        vrmModels: vrmModels.diff,
+        vrmaAnimations: vrmaAnimations.diff,
+        vrmPoses: vrmPoses.diff,
+      },
+    };
+
+    if (dryRun) {
+      return report;
+    }
 
     const runImport = this.db.transaction(() => {
       if (strategy === 'replace') {
         this.db.prepare(`DELETE FROM messages;`).run();
         this.db.prepare(`DELETE FROM sessions;`).run();
+        this.db.prepare(`DELETE FROM profiles WHERE id <> ?;`).run(DEFAULT_PROFILE_ID);
         this.db.prepare(`DELETE FROM kv;`).run();
         this.db.prepare(`DELETE FROM vrm_models;`).run();
         this.db.prepare(`DELETE FROM vrma_animations;`).run();
         this.db.prepare(`DELETE FROM vrm_poses;`).run();
       }
+      const insertProfile = this.db.prepare<ProfileRecord>(
+        `INSERT INTO profiles (id, name, created_at)
+         VALUES (@id, @name, @createdAt)
+         ON CONFLICT(id) DO UPDATE SET
+           name = excluded.name,
+           created_at = excluded.created_at;`,
+      );
+
+      for (const profile of profiles.apply) {
+        insertProfile.run({ id: profile.id, name: this.encryptValue(profile.name.trim()), createdAt: profile.createdAt });
+      }
 
-      const insertSession = this.db.prepare<SessionRecord>(
-        `INSERT INTO sessions (id, started_at, title)
-         VALUES (@id, @startedAt, @title)
-         ON CONFLICT(id) DO UPDATE SET started_at = excluded.started_at, title = excluded.title;`,
+      const insertSession = this.db.prepare<SessionRow>(
+        `INSERT INTO sessions (id, started_at, title, summary, profile_id)
+         VALUES (@id, @startedAt, @title, @summary, @profileId)
+         ON CONFLICT(id) DO UPDATE SET
+           started_at = excluded.started_at,
+           title = excluded.title,
+           summary = excluded.summary,
+           profile_id = excluded.profile_id;`,
       );
 
-      for (const session of data.sessions) {
+      for (const session of sessions.apply) {
         insertSession.run({
           id: session.id,
           startedAt: session.startedAt,
-          title: normalizeTitle(session.title),
+          title: this.encryptNullable(normalizeTitle(session.title)),
+          summary: this.encryptNullable(session.summary ?? null),
+          profileId: session.profileId ?? DEFAULT_PROFILE_ID,
         });
       }
 
-      const insertMessage = this.db.prepare<MessageRecord>(
-        `INSERT INTO messages (id, session_id, role, ts, content, audio_path)
-         VALUES (@id, @sessionId, @role, @ts, @content, @audioPath)
+      const insertMessage = this.db.prepare<MessageRow>(
+        `INSERT INTO messages (id, session_id, role, ts, content, audio_path, metadata, status)
+         VALUES (@id, @sessionId, @role, @ts, @content, @audioPath, @metadata, @status)
          ON CONFLICT(id) DO UPDATE SET
            session_id = excluded.session_id,
            role = excluded.role,
            ts = excluded.ts,
            content = excluded.content,
-           audio_path = excluded.audio_path;`,
+           audio_path = excluded.audio_path,
+           metadata = excluded.metadata,
+           status = excluded.status;`,
       );
 
-      for (const message of data.messages) {
+      for (const message of messages.apply) {
         insertMessage.run({
           id: message.id,
           sessionId: message.sessionId,
           role: message.role,
           ts: message.ts,
-          content: message.content,
+          content: this.encryptValue(message.content),
           audioPath: normalizeAudioPath(message.audioPath),
+          metadata: this.encryptMetadata(message.metadata),
+          status: message.status ?? 'complete',
         });
+        this.indexMessage(message.id, message.content);
       }
 
       const insertVrmModel = this.db.prepare<VrmModelRecord>(
@@ -879,7 +2347,7 @@ export class MemoryStore {
            description = excluded.description;`,
       );
 
-      for (const model of data.vrmModels ?? []) {
+      for (const model of vrmModels.apply) {
         insertVrmModel.run({
           id: model.id,
           name: model.name,
@@ -904,7 +2372,7 @@ export class MemoryStore {
            fps = excluded.fps;`,
       );
 
-      for (const animation of data.vrmaAnimations ?? []) {
+      for (const animation of vrmaAnimations.apply) {
         insertVrmAnimation.run({
           id: animation.id,
           name: animation.name,
@@ -926,7 +2394,7 @@ export class MemoryStore {
            file_sha = excluded.file_sha;`,
       );
 
-      for (const pose of data.vrmPoses) {
+      for (const pose of vrmPoses.apply) {
         insertVrmPose.run({
           id: pose.id,
           name: pose.name,
@@ -936,17 +2404,241 @@ export class MemoryStore {
         });
       }
 
-      const insertKv = this.db.prepare<{ key: string; value: string }>(
-        `INSERT INTO kv (key, value) VALUES (@key, @value)
-         ON CONFLICT(key) DO UPDATE SET value = excluded.value;`,
+      const insertKv = this.db.prepare<KvRow>(
+        `INSERT INTO kv (profile_id, key, value) VALUES (@profileId, @key, @value)
+         ON CONFLICT(profile_id, key) DO UPDATE SET value = excluded.value;`,
       );
 
-      for (const [key, value] of Object.entries(data.kv)) {
-        insertKv.run({ key, value });
+      for (const entry of kv.apply) {
+        insertKv.run({ profileId: entry.profileId, key: entry.key, value: this.encryptValue(entry.value) });
       }
     });
 
     runImport();
+    return report;
+  }
+
+  private encryptValue(value: string): string {
+    return this.cipher ? this.cipher.encrypt(value) : value;
+  }
+
+  private encryptNullable(value: string | null): string | null {
+    return value === null ? null : this.encryptValue(value);
+  }
+
+  private decryptValue(value: string): string {
+    if (this.cipher) {
+      return this.cipher.decrypt(value);
+    }
+
+    if (isEncryptedValue(value)) {
+      throw new Error('MemoryStore contains encrypted data but no encryption key was provided.');
+    }
+
+    return value;
+  }
+
+  private decryptNullable(value: string | null | undefined): string | null {
+    return typeof value === 'string' ? this.decryptValue(value) : null;
+  }
+
+  private encryptMetadata(metadata: MessageMetadata | null | undefined): string | null {
+    if (!metadata || Object.keys(metadata).length === 0) {
+      return null;
+    }
+
+    return this.encryptValue(JSON.stringify(metadata));
+  }
+
+  /** Metadata that no longer parses as a JSON object is dropped rather than failing the whole read. */
+  private decryptMetadata(value: string | null | undefined): MessageMetadata | null {
+    const json = this.decryptNullable(value);
+    if (json === null) {
+      return null;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(json);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as MessageMetadata) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private toLocalAudioPath(audioPath: string | null | undefined): string | null {
+    const normalized = normalizeAudioPath(audioPath);
+    return normalized && this.audioDirectory ? resolvePathInside(this.audioDirectory, normalized) : null;
+  }
+
+  private toProfileRecord(row: ProfileRow): ProfileRecord {
+    return { id: String(row.id), name: this.decryptValue(String(row.name)), createdAt: Number(row.createdAt) };
+  }
+
+  private toMemoryFactRecord(row: MemoryFactRow): MemoryFactRecord {
+    return {
+      id: String(row.id),
+      subject: this.decryptValue(String(row.subject)),
+      fact: this.decryptValue(String(row.fact)),
+      sourceMessageId: typeof row.sourceMessageId === 'string' ? row.sourceMessageId : null,
+      confidence: Number(row.confidence),
+      createdAt: Number(row.createdAt),
+      lastUsedAt: typeof row.lastUsedAt === 'number' ? row.lastUsedAt : null,
+      profileId: row.profileId ?? DEFAULT_PROFILE_ID,
+    };
+  }
+
+  /**
+   * Adds or replaces the search index entry for a message. The contentless index only holds keyed
+   * hashes of the message's word prefixes, so neither the text nor its words can be read back from it.
+   * Repeated hashes still show which messages share words; that is the price of searching encrypted text.
+   */
+  private indexMessage(messageId: string, content: string): void {
+    this.db.prepare(`INSERT OR IGNORE INTO messages_search_ids (message_id) VALUES (?);`).run(messageId);
+    const row = this.db
+      .prepare<[string], { id: number }>(`SELECT id FROM messages_search_ids WHERE message_id = ?;`)
+      .get(messageId);
+
+    if (!row) {
+      return;
+    }
+
+    this.db.prepare(`DELETE FROM messages_fts WHERE rowid = ?;`).run(row.id);
+    const tokens = toSearchPrefixes(content).map((prefix) => this.searchToken(prefix));
+    this.db.prepare(`INSERT INTO messages_fts (rowid, content) VALUES (?, ?);`).run(row.id, tokens.join(' '));
+  }
+
+  /** Hashes a search term or fact subject; without a cipher the store holds plaintext anyway, so it is unkeyed. */
+  private searchToken(value: string): string {
+    return this.cipher ? this.cipher.blindIndex(value) : createHash('sha256').update(value).digest('hex').slice(0, 32);
+  }
+
+  private subjectKey(subject: string): string {
+    return this.searchToken(`subject:${subject.trim().toLowerCase()}`);
+  }
+
+  /**
+   * Rehashes the search index and fact subject keys when they were built with another key than the
+   * current one, e.g. after a migration or key rotation.
+   */
+  private refreshSearchIndex(): void {
+    const keyId = this.cipher?.keyId ?? '';
+    const state = this.db
+      .prepare<[], { keyId: string }>(`SELECT key_id as keyId FROM search_index_state WHERE id = 1;`)
+      .get();
+    if (state?.keyId === keyId) {
+      return;
+    }
+
+    const readable = (value: string) => Boolean(this.cipher) || !isEncryptedValue(value);
+    const rebuild = this.db.transaction(() => {
+      this.db.prepare(`INSERT INTO messages_fts (messages_fts) VALUES ('delete-all');`).run();
+      const messages = this.db.prepare<[], { id: string; content: string }>(`SELECT id, content FROM messages;`).all();
+      for (const message of messages) {
+        // Without the key encrypted rows cannot be indexed; they are once the store opens with it.
+        if (readable(message.content)) {
+          this.indexMessage(message.id, this.decryptValue(message.content));
+        }
+      }
+
+      const facts = this.db.prepare<[], { id: string; subject: string }>(`SELECT id, subject FROM memory_facts;`).all();
+      const updateFact = this.db.prepare(`UPDATE memory_facts SET subject_key = ? WHERE id = ?;`);
+      for (const fact of facts) {
+        if (readable(fact.subject)) {
+          updateFact.run(this.subjectKey(this.decryptValue(fact.subject)), fact.id);
+        }
+      }
+
+      this.db.prepare(`INSERT OR REPLACE INTO search_index_state (id, key_id) VALUES (1, ?);`).run(keyId);
+    });
+
+    rebuild();
+  }
+
+  /** Encrypts plaintext values and re-encrypts values sealed with an older key. */
+  private reencryptStoredValues(): void {
+    const cipher = this.cipher;
+    if (!cipher) {
+      return;
+    }
+
+    const reseal = (value: string) => cipher.encrypt(cipher.decrypt(value));
+
+    const run = this.db.transaction(() => {
+      const sessions = this.db
+        .prepare<[], { id: string; title: string | null; summary: string | null }>(
+          `SELECT id, title, summary FROM sessions WHERE title IS NOT NULL OR summary IS NOT NULL;`,
+        )
+        .all();
+      const updateSession = this.db.prepare(`UPDATE sessions SET title = ?, summary = ? WHERE id = ?;`);
+      for (const session of sessions) {
+        const { title, summary } = session;
+        const titleStale = title !== null && cipher.needsReencryption(title);
+        const summaryStale = summary !== null && cipher.needsReencryption(summary);
+        if (titleStale || summaryStale) {
+          updateSession.run(
+            titleStale ? reseal(title) : title,
+            summaryStale ? reseal(summary) : summary,
+            session.id,
+          );
+        }
+      }
+
+      const messages = this.db
+        .prepare<[], { id: string; content: string; metadata: string | null }>(
+          `SELECT id, content, metadata FROM messages;`,
+        )
+        .all();
+      const updateMessage = this.db.prepare(`UPDATE messages SET content = ?, metadata = ? WHERE id = ?;`);
+      for (const message of messages) {
+        const { content, metadata } = message;
+        const contentStale = cipher.needsReencryption(content);
+        const metadataStale = metadata !== null && cipher.needsReencryption(metadata);
+        if (contentStale || metadataStale) {
+          updateMessage.run(
+            contentStale ? reseal(content) : content,
+            metadataStale ? reseal(metadata) : metadata,
+            message.id,
+          );
+        }
+      }
+
+      const profiles = this.db.prepare<[], { id: string; name: string }>(`SELECT id, name FROM profiles;`).all();
+      const updateProfile = this.db.prepare(`UPDATE profiles SET name = ? WHERE id = ?;`);
+      for (const profile of profiles) {
+        if (cipher.needsReencryption(profile.name)) {
+          updateProfile.run(reseal(profile.name), profile.id);
+        }
+      }
+
+      const entries = this.db
+        .prepare<[], KvRow>(`SELECT profile_id as profileId, key, value FROM kv;`)
+        .all();
+      const updateKv = this.db.prepare(`UPDATE kv SET value = ? WHERE profile_id = ? AND key = ?;`);
+      for (const entry of entries) {
+        if (cipher.needsReencryption(entry.value)) {
+          updateKv.run(reseal(entry.value), entry.profileId, entry.key);
+        }
+      }
+
+      const facts = this.db
+        .prepare<[], { id: string; subject: string; fact: string }>(`SELECT id, subject, fact FROM memory_facts;`)
+        .all();
+      const updateFact = this.db.prepare(`UPDATE memory_facts SET subject = ?, fact = ? WHERE id = ?;`);
+      for (const fact of facts) {
+        if (cipher.needsReencryption(fact.subject) || cipher.needsReencryption(fact.fact)) {
+          updateFact.run(reseal(fact.subject), reseal(fact.fact), fact.id);
+        }
+      }
+    });
+
+    // Plaintext and old-key ciphertext must not survive in freed pages or the WAL once the rows are resealed.
+    this.db.pragma('secure_delete = ON');
+    try {
+      run();
+      this.db.pragma('wal_checkpoint(TRUNCATE)');
+    } finally {
+      this.db.pragma('secure_delete = OFF');
+    }
   }
 
   private ensureOpen() {
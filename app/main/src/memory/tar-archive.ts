@@ -0,0 +1,117 @@
+import { Buffer } from 'node:buffer';
+import { gunzipSync, gzipSync } from 'node:zlib';
+
+export interface TarEntry {
+  name: string;
+  data: Buffer;
+  mtime?: number;
+}
+
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, `${value.toString(8).padStart(length - 1, '0')}\0`, offset, length);
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const raw = header.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf8');
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const value = readString(header, offset, length).trim();
+  return value ? Number.parseInt(value, 8) : 0;
+}
+
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let index = 0; index < BLOCK_SIZE; index += 1) {
+    // The checksum field itself counts as spaces.
+    sum += index >= 148 && index < 156 ? 0x20 : header[index];
+  }
+  return sum;
+}
+
+function createHeader(entry: TarEntry): Buffer {
+  if (Buffer.byteLength(entry.name) > NAME_LENGTH) {
+    throw new Error(`Archive entry name is too long: ${entry.name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, entry.name, 0, NAME_LENGTH);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, entry.data.length, 124, 12);
+  writeOctal(header, Math.floor((entry.mtime ?? Date.now()) / 1000), 136, 12);
+  header.write('0', 156, 'utf8');
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+  writeString(header, `${checksum(header).toString(8).padStart(6, '0')}\0 `, 148, 8);
+  return header;
+}
+
+/** Builds a gzip-compressed ustar archive containing regular files only. */
+export function createTarArchive(entries: readonly TarEntry[]): Buffer {
+  const chunks: Buffer[] = [];
+
+  for (const entry of entries) {
+    chunks.push(createHeader(entry), entry.data);
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      chunks.push(Buffer.alloc(padding));
+    }
+  }
+
+  chunks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(chunks));
+}
+
+/** Reads the regular files of a gzip-compressed ustar archive created by {@link createTarArchive}. */
+export function readTarArchive(archive: Buffer): Map<string, Buffer> {
+  let tar: Buffer;
+  try {
+    tar = gunzipSync(archive);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Archive is not a valid gzip file: ${message}`);
+  }
+
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    if (readOctal(header, 148, 8) !== checksum(header)) {
+      throw new Error('Archive header checksum mismatch.');
+    }
+
+    const name = readString(header, 0, NAME_LENGTH);
+    const size = readOctal(header, 124, 12);
+    const type = readString(header, 156, 1);
+    const dataStart = offset + BLOCK_SIZE;
+    const dataEnd = dataStart + size;
+
+    if (dataEnd > tar.length) {
+      throw new Error(`Archive entry is truncated: ${name}`);
+    }
+
+    if (type === '0' || type === '') {
+      entries.set(name, Buffer.from(tar.subarray(dataStart, dataEnd)));
+    }
+
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return entries;
+}
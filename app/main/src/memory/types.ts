@@ -0,0 +1,119 @@
+export interface MemoryFactSummary {
+  id: string;
+  subject: string;
+  fact: string;
+  confidence: number;
+}
+
+export interface MemorySessionContext {
+  facts: MemoryFactSummary[];
+  instructions: string;
+  /** Rolling summary of turns pruned from the current conversation session, when there is one. */
+  summary?: string;
+}
+
+export type ImportStrategy = 'replace' | 'merge';
+
+export type ImportConflictPolicy = 'keep-local' | 'keep-incoming' | 'keep-newest';
+
+export type ImportEntityKind = 'profiles' | 'sessions' | 'messages' | 'kv' | 'vrmModels' | 'vrmaAnimations' | 'vrmPoses';
+
+/**
+ * Ids of incoming records, each listed in exactly one bucket. `kv` lists shared keys as-is and
+ * profile-scoped ones as `<profileId>/<key>`.
+ */
+export interface ImportEntityDiff {
+  new: string[];
+  updated: string[];
+  conflicting: string[];
+  skipped: string[];
+}
+
+export interface MemoryStoreImportReport {
+  strategy: ImportStrategy;
+  dryRun: boolean;
+  entities: Record<ImportEntityKind, ImportEntityDiff>;
+}
+
+export interface MemoryBackupSnapshot {
+  /** Snapshot file name inside the backup directory. */
+  id: string;
+  createdAt: number;
+  sizeBytes: number;
+}
+
+export interface MemorySchemaMigration {
+  version: number;
+  /** This build's checksum of the migration. */
+  checksum: string;
+  /** `modified`: the checksum recorded when the migration was applied differs from this build's. */
+  status: 'applied' | 'pending' | 'modified';
+  /** Null for pending migrations and those applied before checksums were recorded. */
+  appliedAt: number | null;
+}
+
+export interface MemorySchemaTable {
+  name: string;
+  columns: string[];
+  rows: number;
+}
+
+export interface MemorySchemaInfo {
+  version: number;
+  /** Newest schema version this build can migrate to. */
+  latestVersion: number;
+  migrations: MemorySchemaMigration[];
+  /** Tables other than SQLite and full-text index internals. */
+  tables: MemorySchemaTable[];
+}
+
+/** `audioClip` entries are recorded conversation clips, identified by their message id. */
+export type LibraryAssetKind = 'vrmModel' | 'vrmaAnimation' | 'vrmPose' | 'audioClip';
+
+export interface LibraryArchiveConflict {
+  kind: LibraryAssetKind;
+  id: string;
+  name: string;
+  /**
+   * - `missing-file`: the archive has no binary for the record.
+   * - `checksum-mismatch`: the binary does not match the manifest checksum or the record's `fileSha`.
+   * - `local-differs`: a local record with the same id has different contents and was kept.
+   */
+  reason: 'missing-file' | 'checksum-mismatch' | 'local-differs';
+}
+
+export interface LibraryArchiveExportResult {
+  filePath: string;
+  createdAt: number;
+  sessions: number;
+  messages: number;
+  assets: number;
+  /** Assets whose binary could not be read locally; their records are exported without a file. */
+  missingFiles: Array<{ kind: LibraryAssetKind; id: string; filePath: string }>;
+}
+
+export interface LibraryArchiveImportResult {
+  /** Counts of records written (or, for a dry run, that would be written). */
+  sessions: number;
+  messages: number;
+  kvKeys: number;
+  vrmModels: number;
+  vrmaAnimations: number;
+  vrmPoses: number;
+  conflicts: LibraryArchiveConflict[];
+  report: MemoryStoreImportReport;
+}
+
+export interface LibraryArchiveExportRequest {
+  /** Destination path; when omitted the main process asks with a save dialog. */
+  filePath?: string;
+}
+
+export interface LibraryArchiveImportRequest {
+  /** Archive path; when omitted the main process asks with an open dialog. */
+  filePath?: string;
+  strategy?: ImportStrategy;
+  /** Defaults to `keep-local` for archive merges. */
+  conflictPolicy?: ImportConflictPolicy | Partial<Record<ImportEntityKind, ImportConflictPolicy>>;
+  dryRun?: boolean;
+}
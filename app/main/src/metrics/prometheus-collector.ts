@@ -1,5 +1,6 @@
 import http from 'node:http';
-import { collectDefaultMetrics, Histogram, Registry } from 'prom-client';
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+import type { ConversationTurnMetadata } from '../conversation/types.js';
 import type { LatencyMetricName } from './types.js';
 
 export interface PrometheusCollectorOptions {
@@ -32,6 +33,12 @@ export class PrometheusCollector {
 
   private readonly wakeToFirstAudio: Histogram<string>;
 
+  private readonly assistantTurns: Counter<'interrupted'>;
+
+  private readonly realtimeTokens: Counter<'direction'>;
+
+  private readonly avatarTags: Counter<'kind'>;
+
   constructor(options: PrometheusCollectorOptions = {}) {
     this.host = options.host ?? '127.0.0.1';
     this.port = options.port ?? 9477;
@@ -62,6 +69,27 @@ export class PrometheusCollector {
       buckets,
       registers: [this.registry],
     });
+
+    this.assistantTurns = new Counter({
+      name: 'aiembodied_assistant_turns_total',
+      help: 'Assistant turns recorded in the conversation, by whether the user interrupted them.',
+      labelNames: ['interrupted'],
+      registers: [this.registry],
+    });
+
+    this.realtimeTokens = new Counter({
+      name: 'aiembodied_realtime_tokens_total',
+      help: 'Realtime API tokens used by assistant turns, by direction.',
+      labelNames: ['direction'],
+      registers: [this.registry],
+    });
+
+    this.avatarTags = new Counter({
+      name: 'aiembodied_avatar_tags_total',
+      help: 'Avatar animation and pose tags executed by assistant turns.',
+      labelNames: ['kind'],
+      registers: [this.registry],
+    });
   }
 
   async start(): Promise<void> {
@@ -153,6 +181,22 @@ export class PrometheusCollector {
     }
   }
 
+  /** Counts an assistant turn along with the tokens it used and the avatar tags it ran. */
+  observeTurn(turn: ConversationTurnMetadata): void {
+    this.assistantTurns.inc({ interrupted: turn.interrupted ? 'true' : 'false' });
+
+    if (turn.usage?.inputTokens) {
+      this.realtimeTokens.inc({ direction: 'input' }, turn.usage.inputTokens);
+    }
+    if (turn.usage?.outputTokens) {
+      this.realtimeTokens.inc({ direction: 'output' }, turn.usage.outputTokens);
+    }
+
+    for (const tag of turn.avatarTags ?? []) {
+      this.avatarTags.inc({ kind: tag.split(':')[0] || 'unknown' });
+    }
+  }
+
   async metrics(): Promise<string> {
     return this.registry.metrics();
   }
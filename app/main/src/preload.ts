@@ -16,13 +16,37 @@ import type {
 } from './avatar/types.js';
 import type {
   ConversationAppendMessagePayload,
+  ConversationAttachAudioPayload,
+  ConversationAudioClip,
   ConversationHistory,
   ConversationMessage,
+  ConversationProfile,
+  ConversationProfileList,
+  ConversationPurgeRequest,
+  ConversationPurgeResult,
+  ConversationSearchOptions,
+  ConversationSearchResult,
   ConversationSession,
+  ConversationSessionListOptions,
+  ConversationSessionPage,
+  ConversationSessionSummary,
+  ConversationTranscriptExportRequest,
+  ConversationTranscriptExportResult,
+  ConversationUpdateMessagePayload,
 } from './conversation/types.js';
 import type { WakeWordDetectionEvent } from './wake-word/types.js';
+import type {
+  LibraryArchiveExportRequest,
+  LibraryArchiveExportResult,
+  LibraryArchiveImportRequest,
+  LibraryArchiveImportResult,
+  MemoryBackupSnapshot,
+  MemorySchemaInfo,
+  MemorySessionContext,
+} from './memory/types.js';
 import type { LatencyMetricName } from './metrics/types.js';
 import type { RealtimeEphemeralTokenRequest, RealtimeEphemeralTokenResponse } from './realtime/types.js';
+import type { ToolAvatarTag, ToolCallRequest, ToolCallResult, ToolDefinition } from './tools/types.js';
 
 function logPreloadMessage(
   level: 'info' | 'warn' | 'error',
@@ -124,9 +148,13 @@ export interface PreloadApi {
   realtime: RealtimeBridge;
   wakeWord: WakeWordBridge;
   conversation?: ConversationBridge;
+  profiles?: ProfileBridge;
+  memory?: MemoryBridge;
+  library?: LibraryBridge;
   metrics?: MetricsBridge;
   avatar?: AvatarBridge;
   camera?: CameraBridge;
+  tools?: ToolsBridge;
   ping(): string;
   __bridgeReady?: boolean;
   __bridgeVersion?: string;
@@ -138,9 +166,71 @@ export interface WakeWordBridge {
 
 export interface ConversationBridge {
   getHistory(): Promise<ConversationHistory>;
+  /** Pages through stored sessions, newest first, with their transcripts. */
+  listSessions(options?: ConversationSessionListOptions): Promise<ConversationSessionPage>;
+  /** Resolves to the renamed session; an empty title clears it. */
+  renameSession(sessionId: string, title: string | null): Promise<ConversationSession>;
+  /** Rejects for the active session, which cannot be deleted. */
+  deleteSession(sessionId: string): Promise<void>;
+  /** Forgets matching messages with their audio and the memory facts learned from them. */
+  purge(request: ConversationPurgeRequest): Promise<ConversationPurgeResult>;
+  /** Recent messages of the current session, oldest first, trimmed to the configured resume budget. */
+  getResumeMessages(): Promise<ConversationMessage[]>;
   appendMessage(message: ConversationAppendMessagePayload): Promise<ConversationMessage>;
+  /** Adds text to a streaming message or finalizes it; resolves to the updated message. */
+  updateMessage(payload: ConversationUpdateMessagePayload): Promise<ConversationMessage>;
+  search(query: string, options?: ConversationSearchOptions): Promise<ConversationSearchResult[]>;
+  /** Stores a recorded turn clip and links it to the message; resolves to the updated message. */
+  attachAudio(payload: ConversationAttachAudioPayload): Promise<ConversationMessage>;
+  /** Resolves to null when the message has no recording or the file is missing. */
+  getAudio(messageId: string): Promise<ConversationAudioClip | null>;
+  /** Saves one session as Markdown, HTML or JSON; resolves to null when the save dialog is cancelled. */
+  exportTranscript(request: ConversationTranscriptExportRequest): Promise<ConversationTranscriptExportResult | null>;
   onSessionStarted(listener: (session: ConversationSession) => void): () => void;
   onMessageAppended(listener: (message: ConversationMessage) => void): () => void;
+  /** Fires as a streaming message receives text and when it is finalized. */
+  onMessageUpdated(listener: (message: ConversationMessage) => void): () => void;
+  /** Fires when pruned messages were folded into a session's rolling summary. */
+  onSessionSummarized(listener: (payload: ConversationSessionSummary) => void): () => void;
+  /** Fires when a session's metadata changes, such as when it is given a generated title. */
+  onSessionUpdated(listener: (session: ConversationSession) => void): () => void;
+  /** Fires after messages were forgotten, so views can drop them. */
+  onMessagesPurged(listener: (result: ConversationPurgeResult) => void): () => void;
+}
+
+export interface ProfileSwitchResult {
+  profile: ConversationProfile;
+  /** Config with the new profile's device, voice and VAD preferences applied. */
+  config: RendererConfig;
+}
+
+export interface ProfileBridge {
+  list(): Promise<ConversationProfileList>;
+  create(name: string): Promise<ConversationProfile>;
+  /** Makes the profile active; history and preferences are that profile's from then on. */
+  switch(profileId: string): Promise<ProfileSwitchResult>;
+  /** Rejects for the active and default profiles, which cannot be deleted. */
+  delete(profileId: string): Promise<void>;
+  onSwitched(listener: (profile: ConversationProfile) => void): () => void;
+}
+
+export interface MemoryBridge {
+  getSessionContext(): Promise<MemorySessionContext>;
+  rotateEncryptionKey(): Promise<{ keyId: string }>;
+  listBackups(): Promise<MemoryBackupSnapshot[]>;
+  /** Resolves to null when the backup or its integrity check failed. */
+  createBackup(): Promise<MemoryBackupSnapshot | null>;
+  /** Schedules the snapshot to replace the database on the next launch. */
+  restoreBackup(snapshotId: string): Promise<MemoryBackupSnapshot>;
+  /** Schema version, migration states and table sizes, for diagnostics. */
+  inspectSchema(): Promise<MemorySchemaInfo>;
+}
+
+export interface LibraryBridge {
+  /** Resolves to null when the save dialog is cancelled. */
+  exportArchive(request?: LibraryArchiveExportRequest): Promise<LibraryArchiveExportResult | null>;
+  /** Resolves to null when the open dialog is cancelled. */
+  importArchive(request?: LibraryArchiveImportRequest): Promise<LibraryArchiveImportResult | null>;
 }
 
 export interface MetricsBridge {
@@ -188,6 +278,15 @@ export interface CameraBridge {
   emitDetection(event: CameraDetectionEvent): Promise<void>;
 }
 
+export interface ToolsBridge {
+  /** Tools to advertise in the realtime session. */
+  list(): Promise<ToolDefinition[]>;
+  /** Runs a function call from the model; failures resolve to an error output instead of rejecting. */
+  call(request: ToolCallRequest): Promise<ToolCallResult>;
+  /** Fires when a tool plays an animation or pose on the avatar. */
+  onAvatarTag(listener: (tag: ToolAvatarTag) => void): () => void;
+}
+
 const api: PreloadApi & { __bridgeReady: boolean; __bridgeVersion: string } = {
   config: {
     get: () => ipcRenderer.invoke('config:get') as Promise<RendererConfig>,
@@ -215,8 +314,27 @@ const api: PreloadApi & { __bridgeReady: boolean; __bridgeVersion: string } = {
   },
   conversation: {
     getHistory: () => ipcRenderer.invoke('conversation:get-history') as Promise<ConversationHistory>,
+    listSessions: (options) =>
+      ipcRenderer.invoke('conversation:list-sessions', options) as Promise<ConversationSessionPage>,
+    renameSession: (sessionId, title) =>
+      ipcRenderer.invoke('conversation:rename-session', { sessionId, title }) as Promise<ConversationSession>,
+    deleteSession: (sessionId) =>
+      ipcRenderer.invoke('conversation:delete-session', { sessionId }) as Promise<void>,
+    purge: (request) => ipcRenderer.invoke('conversation:purge', request) as Promise<ConversationPurgeResult>,
+    getResumeMessages: () =>
+      ipcRenderer.invoke('conversation:get-resume-messages') as Promise<ConversationMessage[]>,
     appendMessage: (message) =>
       ipcRenderer.invoke('conversation:append-message', message) as Promise<ConversationMessage>,
+    updateMessage: (payload) =>
+      ipcRenderer.invoke('conversation:update-message', payload) as Promise<ConversationMessage>,
+    search: (query, options) =>
+      ipcRenderer.invoke('conversation:search', { query, options }) as Promise<ConversationSearchResult[]>,
+    attachAudio: (payload) =>
+      ipcRenderer.invoke('conversation:attach-audio', payload) as Promise<ConversationMessage>,
+    getAudio: (messageId) =>
+      ipcRenderer.invoke('conversation:get-audio', { messageId }) as Promise<ConversationAudioClip | null>,
+    exportTranscript: (request) =>
+      ipcRenderer.invoke('conversation:export-transcript', request) as Promise<ConversationTranscriptExportResult | null>,
     onSessionStarted: (listener) => {
       const channel = 'conversation:session-started';
       const handler = (_event: unknown, payload: ConversationSession) => listener(payload);
@@ -233,6 +351,67 @@ const api: PreloadApi & { __bridgeReady: boolean; __bridgeVersion: string } = {
         ipcRenderer.removeListener(channel, handler);
       };
     },
+    onMessageUpdated: (listener) => {
+      const channel = 'conversation:message-updated';
+      const handler = (_event: unknown, payload: ConversationMessage) => listener(payload);
+      ipcRenderer.on(channel, handler);
+      return () => {
+        ipcRenderer.removeListener(channel, handler);
+      };
+    },
+    onSessionSummarized: (listener) => {
+      const channel = 'conversation:session-summarized';
+      const handler = (_event: unknown, payload: ConversationSessionSummary) => listener(payload);
+      ipcRenderer.on(channel, handler);
+      return () => {
+        ipcRenderer.removeListener(channel, handler);
+      };
+    },
+    onSessionUpdated: (listener) => {
+      const channel = 'conversation:session-updated';
+      const handler = (_event: unknown, session: ConversationSession) => listener(session);
+      ipcRenderer.on(channel, handler);
+      return () => {
+        ipcRenderer.removeListener(channel, handler);
+      };
+    },
+    onMessagesPurged: (listener) => {
+      const channel = 'conversation:messages-purged';
+      const handler = (_event: unknown, result: ConversationPurgeResult) => listener(result);
+      ipcRenderer.on(channel, handler);
+      return () => {
+        ipcRenderer.removeListener(channel, handler);
+      };
+    },
+  },
+  profiles: {
+    list: () => ipcRenderer.invoke('profile:list') as Promise<ConversationProfileList>,
+    create: (name) => ipcRenderer.invoke('profile:create', { name }) as Promise<ConversationProfile>,
+    switch: (profileId) => ipcRenderer.invoke('profile:switch', { profileId }) as Promise<ProfileSwitchResult>,
+    delete: (profileId) => ipcRenderer.invoke('profile:delete', { profileId }) as Promise<void>,
+    onSwitched: (listener) => {
+      const channel = 'profile:switched';
+      const handler = (_event: unknown, profile: ConversationProfile) => listener(profile);
+      ipcRenderer.on(channel, handler);
+      return () => {
+        ipcRenderer.removeListener(channel, handler);
+      };
+    },
+  },
+  memory: {
+    getSessionContext: () => ipcRenderer.invoke('memory:get-session-context') as Promise<MemorySessionContext>,
+    rotateEncryptionKey: () => ipcRenderer.invoke('memory:rotate-encryption-key') as Promise<{ keyId: string }>,
+    listBackups: () => ipcRenderer.invoke('memory:list-backups') as Promise<MemoryBackupSnapshot[]>,
+    createBackup: () => ipcRenderer.invoke('memory:create-backup') as Promise<MemoryBackupSnapshot | null>,
+    restoreBackup: (snapshotId) =>
+      ipcRenderer.invoke('memory:restore-backup', snapshotId) as Promise<MemoryBackupSnapshot>,
+    inspectSchema: () => ipcRenderer.invoke('memory:inspect-schema') as Promise<MemorySchemaInfo>,
+  },
+  library: {
+    exportArchive: (request) =>
+      ipcRenderer.invoke('library:export-archive', request) as Promise<LibraryArchiveExportResult | null>,
+    importArchive: (request) =>
+      ipcRenderer.invoke('library:import-archive', request) as Promise<LibraryArchiveImportResult | null>,
   },
   metrics: {
     observeLatency: async (metric, valueMs) => {
@@ -315,6 +494,18 @@ const api: PreloadApi & { __bridgeReady: boolean; __bridgeVersion: string } = {
       await ipcRenderer.invoke('camera:emit-detection', event);
     },
   },
+  tools: {
+    list: () => ipcRenderer.invoke('tools:list') as Promise<ToolDefinition[]>,
+    call: (request) => ipcRenderer.invoke('tools:call', request) as Promise<ToolCallResult>,
+    onAvatarTag: (listener) => {
+      const channel = 'tools:avatar-tag';
+      const handler = (_event: unknown, payload: ToolAvatarTag) => listener(payload);
+      ipcRenderer.on(channel, handler);
+      return () => {
+        ipcRenderer.removeListener(channel, handler);
+      };
+    },
+  },
   ping: () => 'pong',
   __bridgeReady: true,
   __bridgeVersion: '1.0.0',
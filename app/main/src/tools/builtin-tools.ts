@@ -0,0 +1,133 @@
+import type { AvatarAnimationSummary, AvatarPoseSummary } from '../avatar/types.js';
+import type { ConversationSearchResult } from '../conversation/types.js';
+import type { MemoryFactSummary } from '../memory/types.js';
+import type { Tool, ToolAvatarTag } from './types.js';
+
+export interface BuiltinToolOptions {
+  now?: () => number;
+  /** IANA time zone reported by the time tool; defaults to the system zone. */
+  timeZone?: string;
+  searchMessages?: (query: string, limit: number) => ConversationSearchResult[];
+  searchFacts?: (query: string, limit: number) => MemoryFactSummary[];
+  listAnimations?: () => Promise<AvatarAnimationSummary[]>;
+  listPoses?: () => Promise<AvatarPoseSummary[]>;
+  /** Forwards an animation or pose to the renderer; resolves to false when no window can play it. */
+  emitAvatarTag?: (tag: ToolAvatarTag) => boolean;
+}
+
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 10;
+
+/** Same slug rules as the renderer's in-text avatar tags, so both paths accept the same names. */
+export function toAvatarSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+}
+
+export function createBuiltinTools(options: BuiltinToolOptions = {}): Tool[] {
+  const now = options.now ?? Date.now;
+  const timeZone = options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const triggerAvatarTag = (tag: ToolAvatarTag) => {
+    if (!options.emitAvatarTag?.(tag)) {
+      throw new Error('The avatar is not available right now.');
+    }
+  };
+
+  return [
+    {
+      name: 'get_current_time',
+      description: 'Returns the current local date, time, weekday and time zone of the user.',
+      parameters: { type: 'object', properties: {}, additionalProperties: false },
+      handler: async () => {
+        const date = new Date(now());
+        const format = (formatOptions: Intl.DateTimeFormatOptions) =>
+          new Intl.DateTimeFormat('en-US', { timeZone, ...formatOptions }).format(date);
+        return {
+          iso: date.toISOString(),
+          date: format({ year: 'numeric', month: 'long', day: 'numeric' }),
+          time: format({ hour: '2-digit', minute: '2-digit', hour12: false }),
+          weekday: format({ weekday: 'long' }),
+          timeZone,
+        };
+      },
+    },
+    {
+      name: 'search_memory',
+      description:
+        'Searches what you remember about the user and earlier conversations. Use it when the user refers to something said before.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Keywords to look for.' },
+          limit: {
+            type: 'integer',
+            description: `Maximum results per kind (default ${DEFAULT_SEARCH_LIMIT}).`,
+            minimum: 1,
+            maximum: MAX_SEARCH_LIMIT,
+          },
+        },
+        required: ['query'],
+        additionalProperties: false,
+      },
+      handler: async (args) => {
+        const query = (args.query as string).trim();
+        if (!query) {
+          throw new Error('The search query is empty.');
+        }
+        const limit = typeof args.limit === 'number' ? args.limit : DEFAULT_SEARCH_LIMIT;
+        const facts = options.searchFacts?.(query, limit) ?? [];
+        const messages = options.searchMessages?.(query, limit) ?? [];
+        return {
+          facts: facts.map((fact) => ({ subject: fact.subject, fact: fact.fact })),
+          messages: messages.map((result) => ({
+            role: result.message.role,
+            at: new Date(result.message.ts).toISOString(),
+            excerpt: result.snippet,
+          })),
+        };
+      },
+    },
+    {
+      name: 'play_animation',
+      description: 'Plays one of your available body animations, listed as slugs in your instructions.',
+      parameters: {
+        type: 'object',
+        properties: { slug: { type: 'string', description: 'Animation slug, e.g. happy-wave.' } },
+        required: ['slug'],
+        additionalProperties: false,
+      },
+      handler: async (args) => {
+        const slug = toAvatarSlug(args.slug as string);
+        const animations = (await options.listAnimations?.()) ?? [];
+        if (!animations.some((animation) => toAvatarSlug(animation.name.trim() || animation.id) === slug)) {
+          throw new Error(`No animation named "${slug}".`);
+        }
+        triggerAvatarTag({ type: 'anim', slug });
+        return { played: slug };
+      },
+    },
+    {
+      name: 'apply_pose',
+      description: 'Moves your body into one of your available poses, listed as slugs in your instructions.',
+      parameters: {
+        type: 'object',
+        properties: { slug: { type: 'string', description: 'Pose slug, e.g. power-stance.' } },
+        required: ['slug'],
+        additionalProperties: false,
+      },
+      handler: async (args) => {
+        const slug = toAvatarSlug(args.slug as string);
+        const poses = (await options.listPoses?.()) ?? [];
+        if (!poses.some((pose) => toAvatarSlug(pose.name) === slug)) {
+          throw new Error(`No pose named "${slug}".`);
+        }
+        triggerAvatarTag({ type: 'pose', slug });
+        return { applied: slug };
+      },
+    },
+  ];
+}
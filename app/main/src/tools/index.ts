@@ -0,0 +1,3 @@
+export * from './builtin-tools.js';
+export * from './tool-registry.js';
+export * from './types.js';
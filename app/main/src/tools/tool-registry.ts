@@ -0,0 +1,154 @@
+import type {
+  Tool,
+  ToolCallRequest,
+  ToolCallResult,
+  ToolDefinition,
+  ToolParameterSchema,
+  ToolPropertySchema,
+} from './types.js';
+
+export interface ToolRegistryOptions {
+  logger?: {
+    info?: (message: string, meta?: Record<string, unknown>) => void;
+    warn?: (message: string, meta?: Record<string, unknown>) => void;
+  };
+}
+
+// The realtime API rejects function names outside this pattern.
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, Tool>();
+  private readonly logger: ToolRegistryOptions['logger'];
+
+  constructor(options: ToolRegistryOptions = {}) {
+    this.logger = options.logger;
+  }
+
+  register(tool: Tool): void {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(`Invalid tool name "${tool.name}".`);
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`A tool named "${tool.name}" is already registered.`);
+    }
+
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /** Definitions of every registered tool, in registration order, ready to advertise to the model. */
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values(), ({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters,
+    }));
+  }
+
+  /**
+   * Runs a function call from the model. Unknown tools, malformed arguments and handler failures are
+   * reported back as an error output rather than thrown, so the model can recover in conversation.
+   */
+  async call(request: ToolCallRequest): Promise<ToolCallResult> {
+    const { callId, name } = request;
+    const tool = this.tools.get(name);
+    if (!tool) {
+      this.logger?.warn?.('Realtime model called an unknown tool.', { name, callId });
+      return toErrorResult(request, `Unknown tool "${name}".`);
+    }
+
+    let args: Record<string, unknown>;
+    try {
+      args = parseArguments(request.arguments, tool.parameters);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.warn?.('Rejected tool call with invalid arguments.', { name, callId, message });
+      return toErrorResult(request, message);
+    }
+
+    try {
+      const result = await tool.handler(args);
+      this.logger?.info?.('Tool call completed.', { name, callId });
+      return { callId, name, output: JSON.stringify(result ?? null), isError: false };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.warn?.('Tool call failed.', { name, callId, message });
+      return toErrorResult(request, message);
+    }
+  }
+}
+
+function toErrorResult(request: ToolCallRequest, message: string): ToolCallResult {
+  return {
+    callId: request.callId,
+    name: request.name,
+    output: JSON.stringify({ error: message }),
+    isError: true,
+  };
+}
+
+function parseArguments(raw: string, schema: ToolParameterSchema): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = raw.trim() ? JSON.parse(raw) : {};
+  } catch {
+    throw new Error('Tool arguments are not valid JSON.');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Tool arguments must be a JSON object.');
+  }
+
+  const args = parsed as Record<string, unknown>;
+  for (const key of schema.required ?? []) {
+    if (args[key] === undefined || args[key] === null) {
+      throw new Error(`Missing required argument "${key}".`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(args)) {
+    const property = schema.properties[key];
+    if (!property) {
+      if (schema.additionalProperties === false) {
+        throw new Error(`Unexpected argument "${key}".`);
+      }
+      continue;
+    }
+    if (value !== undefined && value !== null) {
+      validateProperty(key, value, property);
+    }
+  }
+
+  return args;
+}
+
+function validateProperty(key: string, value: unknown, property: ToolPropertySchema): void {
+  const matchesType =
+    property.type === 'integer'
+      ? typeof value === 'number' && Number.isInteger(value)
+      : typeof value === property.type && (property.type !== 'number' || Number.isFinite(value));
+  if (!matchesType) {
+    throw new Error(`Argument "${key}" must be of type ${property.type}.`);
+  }
+
+  if (property.enum && !property.enum.includes(value as string | number)) {
+    throw new Error(`Argument "${key}" must be one of: ${property.enum.join(', ')}.`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof property.minimum === 'number' && value < property.minimum) {
+      throw new Error(`Argument "${key}" must be at least ${property.minimum}.`);
+    }
+    if (typeof property.maximum === 'number' && value > property.maximum) {
+      throw new Error(`Argument "${key}" must be at most ${property.maximum}.`);
+    }
+  }
+}
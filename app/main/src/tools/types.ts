@@ -0,0 +1,54 @@
+/**
+ * JSON schema describing a tool's arguments. Only the subset the registry validates is typed; any
+ * other keywords are passed through to the model untouched.
+ */
+export interface ToolParameterSchema {
+  type: 'object';
+  properties: Record<string, ToolPropertySchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface ToolPropertySchema {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+}
+
+/** What the model is told about a tool when it is advertised in the realtime session. */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+/** Receives validated arguments and resolves to a JSON-serializable result for the model. */
+export type ToolHandler = (args: Record<string, unknown>) => Promise<unknown>;
+
+export interface Tool extends ToolDefinition {
+  handler: ToolHandler;
+}
+
+export interface ToolCallRequest {
+  /** Id the realtime API assigned to the function call; echoed back with the output. */
+  callId: string;
+  name: string;
+  /** Arguments as the raw JSON string the model produced. */
+  arguments: string;
+}
+
+export interface ToolCallResult {
+  callId: string;
+  name: string;
+  /** JSON string sent back to the model as the function call output. */
+  output: string;
+  isError: boolean;
+}
+
+/** Avatar animation or pose a tool asked the renderer to play, in the same shape as the in-text tags. */
+export interface ToolAvatarTag {
+  type: 'anim' | 'pose';
+  slug: string;
+}
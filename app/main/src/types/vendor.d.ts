@@ -42,6 +42,19 @@ declare module 'prom-client' {
     observe(value: number): void;
     observe(labels: Record<T, string>, value: number): void;
   }
+
+  export interface CounterConfiguration<T extends string = string> {
+    name: string;
+    help: string;
+    labelNames?: T[];
+    registers?: Registry[];
+  }
+
+  export class Counter<T extends string = string> {
+    constructor(configuration: CounterConfiguration<T>);
+    inc(value?: number): void;
+    inc(labels: Record<T, string>, value?: number): void;
+  }
 }
 
 declare module 'three/examples/jsm/loaders/GLTFLoader.js' {
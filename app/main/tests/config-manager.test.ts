@@ -117,6 +117,103 @@ describe('ConfigManager', () => {
     });
   });
 
+  it('parses conversation retention rules from environment variables', async () => {
+    const manager = new ConfigManager({
+      env: {
+        REALTIME_API_KEY: 'key',
+        PORCUPINE_ACCESS_KEY: 'wake-key',
+        CONVERSATION_RETENTION_MAX_AGE_DAYS: '90',
+        CONVERSATION_RETENTION_MAX_DB_MB: '1.5',
+        CONVERSATION_RETENTION_ROLE_RULES: 'system=7, assistant=30',
+        CONVERSATION_RETENTION_INTERVAL_MINUTES: '15',
+      } as NodeJS.ProcessEnv,
+    });
+
+    const config = await manager.load();
+    expect(config.conversationRetention).toEqual({
+      maxAgeDays: 90,
+      maxDatabaseBytes: 1_572_864,
+      roleRules: [
+        { role: 'system', maxAgeDays: 7 },
+        { role: 'assistant', maxAgeDays: 30 },
+      ],
+      intervalMs: 900_000,
+    });
+  });
+
+  it('rejects conversation retention rules for unknown roles', async () => {
+    const manager = new ConfigManager({
+      env: {
+        REALTIME_API_KEY: 'key',
+        PORCUPINE_ACCESS_KEY: 'wake-key',
+        CONVERSATION_RETENTION_ROLE_RULES: 'narrator=7',
+      } as NodeJS.ProcessEnv,
+    });
+
+    await expect(manager.load()).rejects.toBeInstanceOf(ConfigValidationError);
+  });
+
+  it('parses conversation resume limits with defaults', async () => {
+    const defaults = await new ConfigManager({
+      env: { REALTIME_API_KEY: 'key', PORCUPINE_ACCESS_KEY: 'wake-key' } as NodeJS.ProcessEnv,
+    }).load();
+    expect(defaults.conversationResume).toEqual({ windowMs: 600_000, maxMessages: 20, maxTokens: 2_000 });
+
+    const manager = new ConfigManager({
+      env: {
+        REALTIME_API_KEY: 'key',
+        PORCUPINE_ACCESS_KEY: 'wake-key',
+        CONVERSATION_RESUME_WINDOW_MINUTES: '0',
+        CONVERSATION_RESUME_MAX_MESSAGES: '8',
+        CONVERSATION_RESUME_MAX_TOKENS: '500',
+      } as NodeJS.ProcessEnv,
+    });
+    const config = await manager.load();
+    expect(config.conversationResume).toEqual({ windowMs: 0, maxMessages: 8, maxTokens: 500 });
+  });
+
+  it('rejects fractional conversation resume message limits', async () => {
+    const manager = new ConfigManager({
+      env: {
+        REALTIME_API_KEY: 'key',
+        PORCUPINE_ACCESS_KEY: 'wake-key',
+        CONVERSATION_RESUME_MAX_MESSAGES: '2.5',
+      } as NodeJS.ProcessEnv,
+    });
+
+    await expect(manager.load()).rejects.toBeInstanceOf(ConfigValidationError);
+  });
+
+  it('selects the realtime transport from the environment', async () => {
+    const defaults = await new ConfigManager({
+      env: { REALTIME_API_KEY: 'key', PORCUPINE_ACCESS_KEY: 'wake-key' } as NodeJS.ProcessEnv,
+    }).load();
+    expect(defaults.realtimeTransport).toBe('webrtc');
+
+    const websocket = await new ConfigManager({
+      env: { REALTIME_API_KEY: 'key', PORCUPINE_ACCESS_KEY: 'wake-key', REALTIME_TRANSPORT: ' WebSocket ' } as NodeJS.ProcessEnv,
+    }).load();
+    expect(websocket.realtimeTransport).toBe('websocket');
+
+    const invalid = new ConfigManager({
+      env: { REALTIME_API_KEY: 'key', PORCUPINE_ACCESS_KEY: 'wake-key', REALTIME_TRANSPORT: 'udp' } as NodeJS.ProcessEnv,
+    });
+    await expect(invalid.load()).rejects.toBeInstanceOf(ConfigValidationError);
+  });
+
+  it('enables the mock realtime server from the environment', async () => {
+    const defaults = await new ConfigManager({
+      env: { PORCUPINE_ACCESS_KEY: 'wake-key' } as NodeJS.ProcessEnv,
+    }).load();
+    expect(defaults.realtimeMock).toBe(false);
+
+    const manager = new ConfigManager({
+      env: { PORCUPINE_ACCESS_KEY: 'wake-key', REALTIME_MOCK: 'true' } as NodeJS.ProcessEnv,
+    });
+    await manager.load();
+    expect(manager.getRendererConfig()).toMatchObject({ realtimeMock: true, hasRealtimeApiKey: false });
+  });
+
   it('throws a validation error when the wake word access key is missing', async () => {
     const manager = new ConfigManager({
       env: { REALTIME_API_KEY: 'key' } as NodeJS.ProcessEnv,
@@ -237,6 +334,39 @@ describe('ConfigManager', () => {
     });
   });
 
+  it('switches device, voice and VAD preferences with the profile', async () => {
+    const preferencesStore = new InMemoryPreferencesStore();
+    await preferencesStore.save({ realtimeVoice: 'alloy', vadThreshold: 0.6 });
+    const manager = new ConfigManager({
+      env: {
+        REALTIME_API_KEY: 'api',
+        PORCUPINE_ACCESS_KEY: 'wake',
+        WAKE_WORD_BUILTIN: 'porcupine',
+        AUDIO_INPUT_DEVICE_ID: 'env-mic',
+      } as NodeJS.ProcessEnv,
+      preferencesStore,
+    });
+
+    await manager.load();
+
+    preferencesStore.switchProfile('ana');
+    await preferencesStore.save({ realtimeVoice: 'verse', audioInputDeviceId: 'ana-mic' });
+    preferencesStore.switchProfile(null);
+
+    const anaConfig = await manager.switchPreferencesProfile('ana');
+    expect(anaConfig).toMatchObject({ realtimeVoice: 'verse', audioInputDeviceId: 'ana-mic' });
+    expect(anaConfig.vadThreshold).toBeUndefined();
+
+    await manager.setAudioDevicePreferences({ audioInputDeviceId: 'ana-mic', vadThreshold: 0.3 });
+
+    const defaultConfig = await manager.switchPreferencesProfile(null);
+    expect(defaultConfig).toMatchObject({ realtimeVoice: 'alloy', vadThreshold: 0.6, audioInputDeviceId: 'env-mic' });
+
+    await manager.removePreferencesProfile('ana');
+    preferencesStore.switchProfile('ana');
+    await expect(preferencesStore.load()).resolves.toEqual({});
+  });
+
   it('updates secrets securely and refreshes renderer config state', async () => {
     const secretStore = new InMemorySecretStore();
     const manager = new ConfigManager({
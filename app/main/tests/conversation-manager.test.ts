@@ -1,3 +1,6 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 import { describe, expect, it, vi } from 'vitest';
 import { ConversationManager } from '../src/conversation/conversation-manager.js';
 import type {
@@ -7,17 +10,24 @@ import type {
 import type {
   MemoryStore,
   MessageRecord,
+  ProfileRecord,
   SessionRecord,
   SessionWithMessages,
 } from '../src/memory/memory-store.js';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 function createStoreDouble() {
+  const profiles: ProfileRecord[] = [{ id: 'default', name: 'Default', createdAt: 0 }];
   const sessions: SessionRecord[] = [];
   const messages: MessageRecord[] = [];
   const kv = new Map<string, string>();
+  const kvKey = (key: string, profileId?: string) => `${profileId ?? ''}:${key}`;
+  const profileOf = (session: SessionRecord) => session.profileId ?? 'default';
 
-  const listSessions = ({ limit = 50, offset = 0 } = {}): SessionRecord[] => {
-    const sorted = [...sessions].sort((a, b) => {
+  const listSessions = ({ limit = 50, offset = 0, profileId }: { limit?: number; offset?: number; profileId?: string } = {}): SessionRecord[] => {
+    const scoped = sessions.filter((session) => profileId === undefined || profileOf(session) === profileId);
+    const sorted = [...scoped].sort((a, b) => {
       if (a.startedAt === b.startedAt) {
         return a.id > b.id ? -1 : a.id < b.id ? 1 : 0;
       }
@@ -39,10 +49,36 @@ function createStoreDouble() {
   };
 
   const store: MemoryStore = {
+    createProfile: (profile) => {
+      profiles.push({ ...profile });
+    },
+    listProfiles: () => profiles.map((profile) => ({ ...profile })),
+    getProfile: (profileId) => profiles.find((profile) => profile.id === profileId) ?? null,
+    deleteProfile: (profileId) => {
+      profiles.splice(
+        profiles.findIndex((profile) => profile.id === profileId),
+        1,
+      );
+      for (const session of sessions.filter((item) => profileOf(item) === profileId)) {
+        store.deleteSession(session.id);
+      }
+    },
     createSession: (session) => {
       sessions.push({ ...session });
     },
-    updateSessionTitle: () => {},
+    updateSessionTitle: (sessionId, title) => {
+      const session = sessions.find((item) => item.id === sessionId);
+      if (session) {
+        session.title = title ?? null;
+      }
+    },
+    getSessionSummary: (sessionId) => sessions.find((session) => session.id === sessionId)?.summary ?? null,
+    updateSessionSummary: (sessionId, summary) => {
+      const session = sessions.find((item) => item.id === sessionId);
+      if (session) {
+        session.summary = summary;
+      }
+    },
     deleteSession: (sessionId) => {
       const index = sessions.findIndex((session) => session.id === sessionId);
       if (index >= 0) {
@@ -55,6 +91,7 @@ function createStoreDouble() {
       }
     },
     listSessions,
+    countSessions: (profileId) => listSessions({ limit: Number.MAX_SAFE_INTEGER, profileId }).length,
     getSessionWithMessages: (sessionId) => {
       const session = sessions.find((item) => item.id === sessionId);
       if (!session) {
@@ -65,13 +102,53 @@ function createStoreDouble() {
         id: session.id,
         startedAt: session.startedAt,
         title: session.title,
+        profileId: profileOf(session),
         messages: listMessages(sessionId),
       } satisfies SessionWithMessages;
     },
     listMessages,
+    getMessage: (messageId) => {
+      const message = messages.find((item) => item.id === messageId);
+      return message ? { ...message } : null;
+    },
+    updateMessageAudioPath: (messageId, audioPath) => {
+      const message = messages.find((item) => item.id === messageId);
+      if (message) {
+        message.audioPath = audioPath;
+      }
+    },
     appendMessage: (message) => {
       messages.push({ ...message });
     },
+    updateMessage: (messageId, update) => {
+      const message = messages.find((item) => item.id === messageId);
+      if (message) {
+        Object.assign(
+          message,
+          Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)),
+        );
+      }
+    },
+    listMessageReferences: ({ sessionId, role, before, status } = {}) =>
+      messages
+        .filter(
+          (message) =>
+            (sessionId === undefined || message.sessionId === sessionId) &&
+            (role === undefined || message.role === role) &&
+            (before === undefined || message.ts < before) &&
+            (status === undefined || (message.status ?? 'complete') === status),
+        )
+        .map(({ content: _content, ...reference }) => reference),
+    clearSessionSummariesBefore: (cutoff) => {
+      const summarized = sessions.filter((session) => session.summary && session.startedAt < cutoff);
+      for (const session of summarized) {
+        session.summary = null;
+      }
+      return summarized.length;
+    },
+    deleteMemoryFactsBefore: vi.fn().mockReturnValue(0),
+    getDatabaseSize: () => ({ totalBytes: messages.length * 100, usedBytes: messages.length * 100 }),
+    compact: vi.fn(),
     deleteMessages: (ids) => {
       for (let i = messages.length - 1; i >= 0; i -= 1) {
         if (ids.includes(messages[i]?.id)) {
@@ -79,19 +156,19 @@ function createStoreDouble() {
         }
       }
     },
-    setValue: (key, value) => {
-      kv.set(key, value);
+    setValue: (key, value, profileId) => {
+      kv.set(kvKey(key, profileId), value);
     },
-    getValue: (key) => kv.get(key) ?? null,
-    deleteValue: (key) => {
-      kv.delete(key);
+    getValue: (key, profileId) => kv.get(kvKey(key, profileId)) ?? null,
+    deleteValue: (key, profileId) => {
+      kv.delete(kvKey(key, profileId));
     },
     exportData: () => ({ sessions: [], messages: [], kv: {} }),
     importData: () => {},
     dispose: () => {},
   };
 
-  return { store, state: { sessions, messages, kv } };
+  return { store, state: { profiles, sessions, messages, kv } };
 }
 
 describe('ConversationManager', () => {
@@ -135,6 +212,87 @@ describe('ConversationManager', () => {
     expect(appended).toHaveLength(3);
   });
 
+  it('streams a message as its text arrives and finalizes it', () => {
+    const { store, state } = createStoreDouble();
+    const manager = new ConversationManager({ store });
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    const updates: ConversationMessage[] = [];
+    manager.on('message-updated', (message) => updates.push(message));
+
+    const message = manager.appendMessage({ role: 'assistant', content: 'The weather', status: 'streaming' });
+    expect(message.status).toBe('streaming');
+
+    manager.updateMessage({ messageId: message.id, delta: ' is' });
+    manager.updateMessage({ messageId: message.id, delta: ' sunny' });
+    expect(state.messages[0]).toMatchObject({ content: 'The weather is sunny', status: 'streaming' });
+
+    manager.updateMessage({
+      messageId: message.id,
+      content: 'The weather is sunny.',
+      metadata: { interrupted: false },
+      status: 'complete',
+    });
+
+    expect(updates.map((update) => [update.content, update.status])).toEqual([
+      ['The weather is', 'streaming'],
+      ['The weather is sunny', 'streaming'],
+      ['The weather is sunny.', 'complete'],
+    ]);
+    expect(state.messages[0]).toMatchObject({ metadata: { interrupted: false }, status: 'complete' });
+    expect(() => manager.updateMessage({ messageId: message.id, delta: '!' })).toThrow('is no longer streaming');
+    expect(() => manager.updateMessage({ messageId: 'missing', delta: '!' })).toThrow('was not found');
+  });
+
+  it('finalizes messages left streaming by a crash as interrupted', () => {
+    const { store, state } = createStoreDouble();
+    store.createSession({ id: 'session-1', startedAt: 1, title: null });
+    store.appendMessage({
+      id: 'partial',
+      sessionId: 'session-1',
+      role: 'assistant',
+      ts: 2,
+      content: 'Half a reply',
+      audioPath: null,
+      metadata: { voice: 'alloy' },
+      status: 'streaming',
+    });
+
+    new ConversationManager({ store });
+
+    expect(state.messages[0]).toMatchObject({
+      content: 'Half a reply',
+      metadata: { voice: 'alloy', interrupted: true },
+      status: 'complete',
+    });
+  });
+
+  it('keeps tool and event roles with their metadata and rejects unknown roles', () => {
+    const { store, state } = createStoreDouble();
+    const manager = new ConversationManager({ store });
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+
+    const tool = manager.appendMessage({
+      role: 'tool',
+      content: 'get_weather',
+      ts: 1,
+      metadata: { name: 'get_weather', arguments: { city: 'Lisbon' }, result: { tempC: 21 } },
+    });
+    manager.appendMessage({ role: 'event', content: 'Wake word detected', ts: 2, metadata: { type: 'wake-word' } });
+
+    expect(tool).toMatchObject({ role: 'tool', metadata: { name: 'get_weather' } });
+    expect(() =>
+      manager.appendMessage({ role: 'narrator' as ConversationMessage['role'], content: 'Once upon a time' }),
+    ).toThrow('Unsupported conversation role: narrator');
+
+    state.messages.push({ id: 'm3', sessionId: 'session-1', role: 'narrator', ts: 3, content: 'Legacy', audioPath: null });
+    const [session] = manager.getHistory().sessions;
+    expect(session?.messages.map((message) => [message.role, message.metadata])).toEqual([
+      ['tool', { name: 'get_weather', arguments: { city: 'Lisbon' }, result: { tempC: 21 } }],
+      ['event', { type: 'wake-word' }],
+      ['event', null],
+    ]);
+  });
+
   it('prunes the oldest sessions while keeping the active conversation', () => {
     const { store, state } = createStoreDouble();
     const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
@@ -157,5 +315,509 @@ describe('ConversationManager', () => {
 
     expect(() => manager.appendMessage({ role: 'system', content: 'orphan message' })).toThrow();
   });
-});
 
+  it('prunes messages past the age and role limits and deletes their audio', async () => {
+    const { store, state } = createStoreDouble();
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const removeFile = vi.fn().mockResolvedValue(undefined);
+    const now = 100 * DAY_MS;
+    const manager = new ConversationManager({
+      store,
+      logger,
+      now: () => now,
+      audioDirectory: '/audio',
+      removeFile,
+      retention: { maxAgeDays: 30, roleRules: [{ role: 'system', maxAgeDays: 7 }] },
+    });
+
+    manager.startSession({ id: 'session-old', startedAt: now - 60 * DAY_MS });
+    manager.appendMessage({ role: 'user', content: 'Ancient', ts: now - 60 * DAY_MS, audioPath: '/audio/old.wav' });
+    manager.startSession({ id: 'session-current', startedAt: now - 40 * DAY_MS });
+    manager.appendMessage({ role: 'user', content: 'Stale', ts: now - 40 * DAY_MS });
+    manager.appendMessage({ role: 'system', content: 'Old prompt', ts: now - 10 * DAY_MS, audioPath: '/audio/sys.wav' });
+    manager.appendMessage({ role: 'user', content: 'Recent', ts: now - 10 * DAY_MS });
+    store.updateSessionSummary('session-current', 'The user called something stale.');
+
+    const result = await manager.applyRetention();
+
+    expect(result).toMatchObject({ removedMessages: 3, removedSessions: 1, removedAudioFiles: 2, clearedSummaries: 1 });
+    expect(store.deleteMemoryFactsBefore).toHaveBeenCalledWith(now - 30 * DAY_MS);
+    expect(state.sessions.map((session) => session.id)).toEqual(['session-current']);
+    expect(state.sessions[0]?.summary).toBeNull();
+    expect(state.messages.map((message) => message.content)).toEqual(['Recent']);
+    expect(removeFile.mock.calls.map(([filePath]) => filePath as string).sort()).toEqual([
+      '/audio/old.wav',
+      '/audio/sys.wav',
+    ]);
+    expect(logger.info).toHaveBeenCalledWith(
+      'Applied conversation retention policy',
+      expect.objectContaining({ removedMessages: 3 }),
+    );
+  });
+
+  it('drops the oldest sessions until the database fits its size budget', async () => {
+    const { store, state } = createStoreDouble();
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const manager = new ConversationManager({
+      store,
+      logger,
+      removeFile: vi.fn().mockResolvedValue(undefined),
+      retention: { maxDatabaseBytes: 300 },
+    });
+
+    for (const [index, id] of ['session-a', 'session-b', 'session-c'].entries()) {
+      manager.startSession({ id, startedAt: index + 1 });
+      manager.appendMessage({ role: 'user', content: `${id} one`, ts: index * 10 + 1 });
+      manager.appendMessage({ role: 'assistant', content: `${id} two`, ts: index * 10 + 2 });
+    }
+
+    const result = await manager.applyRetention();
+
+    expect(result.removedSessions).toBe(2);
+    expect(result.databaseBytes).toBe(200);
+    expect(state.sessions.map((session) => session.id)).toEqual(['session-c']);
+    expect(store.compact).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the current session of every profile when sizing out sessions', async () => {
+    const { store, state } = createStoreDouble();
+    const manager = new ConversationManager({
+      store,
+      removeFile: vi.fn().mockResolvedValue(undefined),
+      retention: { maxDatabaseBytes: 100 },
+    });
+
+    manager.startSession({ id: 'session-default', startedAt: 1 });
+    manager.appendMessage({ role: 'user', content: 'Default profile', ts: 1 });
+    const other = manager.createProfile('Other');
+    manager.switchProfile(other.id);
+    manager.startSession({ id: 'session-other-old', startedAt: 2 });
+    manager.appendMessage({ role: 'user', content: 'Other profile, old', ts: 2 });
+    manager.startSession({ id: 'session-other', startedAt: 3 });
+    manager.appendMessage({ role: 'user', content: 'Other profile', ts: 3 });
+
+    const result = await manager.applyRetention();
+
+    expect(result.removedSessions).toBe(1);
+    expect(state.sessions.map((session) => session.id).sort()).toEqual(['session-default', 'session-other']);
+  });
+
+  it('deletes audio recordings of messages removed by count-based pruning', async () => {
+    const { store } = createStoreDouble();
+    const removeFile = vi.fn().mockResolvedValue(undefined);
+    const manager = new ConversationManager({
+      store,
+      maxSessions: 5,
+      maxMessagesPerSession: 1,
+      audioDirectory: '/audio',
+      removeFile,
+    });
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    manager.appendMessage({ role: 'user', content: 'First', ts: 1, audioPath: '/audio/first.wav' });
+    manager.appendMessage({ role: 'user', content: 'Second', ts: 2, audioPath: '/audio/second.wav' });
+    await Promise.resolve();
+
+    expect(removeFile).toHaveBeenCalledTimes(1);
+    expect(removeFile).toHaveBeenCalledWith('/audio/first.wav');
+  });
+
+  it('folds pruned messages into the rolling session summary before deleting them', async () => {
+    const { store, state } = createStoreDouble();
+    const summarize = vi
+      .fn()
+      .mockImplementation(async ({ previousSummary, messages }: { previousSummary: string | null; messages: MessageRecord[] }) =>
+        [previousSummary, ...messages.map((message) => message.content)].filter(Boolean).join(' '),
+      );
+    const manager = new ConversationManager({ store, maxSessions: 5, maxMessagesPerSession: 4, summarizer: { summarize } });
+    const summaries: string[] = [];
+    manager.on('session-summarized', ({ summary }) => {
+      summaries.push(summary);
+    });
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    for (let index = 1; index <= 6; index += 1) {
+      manager.appendMessage({ role: 'user', content: `m${index}`, ts: index });
+      await manager.whenSummariesSettled();
+    }
+
+    expect(summarize).toHaveBeenCalledTimes(2);
+    expect(summarize.mock.calls[0][0]).toMatchObject({ previousSummary: null });
+    expect(summarize.mock.calls[1][0]).toMatchObject({ previousSummary: 'm1' });
+    expect(state.messages.map((message) => message.content)).toEqual(['m3', 'm4', 'm5', 'm6']);
+    expect(manager.getSessionSummary()).toBe('m1 m2');
+    expect(summaries).toEqual(['m1', 'm1 m2']);
+  });
+
+  it('still prunes messages when summarizing fails', async () => {
+    const { store, state } = createStoreDouble();
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const summarize = vi.fn().mockRejectedValue(new Error('offline'));
+    const manager = new ConversationManager({ store, logger, maxMessagesPerSession: 1, summarizer: { summarize } });
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    manager.appendMessage({ role: 'user', content: 'First', ts: 1 });
+    manager.appendMessage({ role: 'user', content: 'Second', ts: 2 });
+    await manager.whenSummariesSettled();
+
+    expect(state.messages.map((message) => message.content)).toEqual(['Second']);
+    expect(manager.getSessionSummary()).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to summarize pruned conversation messages',
+      expect.objectContaining({ message: 'offline' }),
+    );
+  });
+
+  it('titles a session once its opening exchange is long enough', async () => {
+    const { store, state } = createStoreDouble();
+    const generateTitle = vi.fn().mockResolvedValue('Lisbon Trip');
+    const manager = new ConversationManager({ store, titleGenerator: { generateTitle }, titleAfterMessages: 2 });
+    const updates: ConversationSession[] = [];
+    manager.on('session-updated', (session) => {
+      updates.push(session);
+    });
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    manager.appendMessage({ role: 'system', content: 'Be brief.', ts: 1 });
+    manager.appendMessage({ role: 'user', content: 'Plan a trip to Lisbon', ts: 2 });
+    await manager.whenTitlesSettled();
+    expect(generateTitle).not.toHaveBeenCalled();
+
+    manager.appendMessage({ role: 'assistant', content: 'Happy to help.', ts: 3 });
+    manager.appendMessage({ role: 'user', content: 'In spring', ts: 4 });
+    await manager.whenTitlesSettled();
+
+    expect(generateTitle).toHaveBeenCalledTimes(1);
+    expect(generateTitle.mock.calls[0][0].map((message: MessageRecord) => message.content)).toEqual([
+      'Plan a trip to Lisbon',
+      'Happy to help.',
+    ]);
+    expect(state.sessions[0]?.title).toBe('Lisbon Trip');
+    expect(updates).toEqual([{ id: 'session-1', startedAt: 1, title: 'Lisbon Trip' }]);
+  });
+
+  it('retries titling on the next message when no title could be generated', async () => {
+    const { store, state } = createStoreDouble();
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const generateTitle = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValueOnce('Weather Forecast');
+    const manager = new ConversationManager({ store, logger, titleGenerator: { generateTitle }, titleAfterMessages: 1 });
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    manager.appendMessage({ role: 'user', content: 'What is the weather forecast?', ts: 1 });
+    await manager.whenTitlesSettled();
+    expect(state.sessions[0]?.title).toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Failed to generate conversation title',
+      expect.objectContaining({ message: 'offline' }),
+    );
+
+    manager.appendMessage({ role: 'assistant', content: 'Sunny all week.', ts: 2 });
+    await manager.whenTitlesSettled();
+
+    expect(state.sessions[0]?.title).toBe('Weather Forecast');
+    expect(generateTitle).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps manual titles and skips deleted sessions when a generated title arrives', async () => {
+    const { store, state } = createStoreDouble();
+    const titles: Array<(title: string) => void> = [];
+    const generateTitle = vi.fn(
+      () =>
+        new Promise<string>((resolve) => {
+          titles.push(resolve);
+        }),
+    );
+    const manager = new ConversationManager({ store, titleGenerator: { generateTitle }, titleAfterMessages: 1 });
+    const updates: ConversationSession[] = [];
+    manager.on('session-updated', (session) => {
+      updates.push(session);
+    });
+
+    manager.startSession({ id: 'session-renamed', startedAt: 1 });
+    manager.appendMessage({ role: 'user', content: 'Plan a trip to Lisbon', ts: 1 });
+    manager.startSession({ id: 'session-deleted', startedAt: 2 });
+    manager.appendMessage({ role: 'user', content: 'Plan a trip to Porto', ts: 2 });
+    manager.startSession({ id: 'session-current', startedAt: 3 });
+
+    await vi.waitFor(() => expect(titles).toHaveLength(1));
+    manager.renameSession('session-renamed', 'My Lisbon notes');
+    titles[0]?.('Lisbon Trip');
+    await vi.waitFor(() => expect(titles).toHaveLength(2));
+    await manager.deleteSession('session-deleted');
+    titles[1]?.('Porto Trip');
+    await manager.whenTitlesSettled();
+
+    expect(state.sessions.map((session) => session.id)).toEqual(['session-renamed', 'session-current']);
+    expect(state.sessions[0]?.title).toBe('My Lisbon notes');
+    expect(updates).toEqual([{ id: 'session-renamed', startedAt: 1, title: 'My Lisbon notes' }]);
+  });
+
+  it('pages through sessions newest first with their transcripts', () => {
+    const { store } = createStoreDouble();
+    const manager = new ConversationManager({ store });
+
+    for (let index = 1; index <= 3; index += 1) {
+      manager.startSession({ id: `session-${index}`, startedAt: index });
+      manager.appendMessage({ role: 'user', content: `Hello ${index}`, ts: index });
+    }
+
+    const firstPage = manager.listSessions({ limit: 2 });
+    expect(firstPage).toMatchObject({ currentSessionId: 'session-3', total: 3, offset: 0 });
+    expect(firstPage.sessions.map((session) => session.id)).toEqual(['session-3', 'session-2']);
+    expect(firstPage.sessions[0]?.messages.map((message) => message.content)).toEqual(['Hello 3']);
+
+    const secondPage = manager.listSessions({ limit: 2, offset: 2 });
+    expect(secondPage.sessions.map((session) => session.id)).toEqual(['session-1']);
+  });
+
+  it('renames sessions and announces the change', () => {
+    const { store, state } = createStoreDouble();
+    const manager = new ConversationManager({ store });
+    const updates: ConversationSession[] = [];
+    manager.on('session-updated', (session) => {
+      updates.push(session);
+    });
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+
+    expect(manager.renameSession('session-1', '  Trip planning  ')).toEqual({
+      id: 'session-1',
+      startedAt: 1,
+      title: 'Trip planning',
+    });
+    expect(state.sessions[0]?.title).toBe('Trip planning');
+    expect(manager.renameSession('session-1', '   ').title).toBeNull();
+    expect(updates.map((session) => session.title)).toEqual(['Trip planning', null]);
+    expect(() => manager.renameSession('missing', 'Title')).toThrow('Conversation session "missing" was not found.');
+  });
+
+  it('deletes past sessions with their audio but refuses the active one', async () => {
+    const { store, state } = createStoreDouble();
+    const removeFile = vi.fn().mockResolvedValue(undefined);
+    const manager = new ConversationManager({ store, audioDirectory: '/audio', removeFile });
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    manager.appendMessage({ role: 'user', content: 'Recorded', ts: 1, audioPath: '/audio/one.webm' });
+    manager.startSession({ id: 'session-2', startedAt: 2 });
+
+    await expect(manager.deleteSession('session-2')).rejects.toThrow('Cannot delete the active conversation session.');
+    await expect(manager.deleteSession('missing')).rejects.toThrow('Conversation session "missing" was not found.');
+
+    await manager.deleteSession('session-1');
+
+    expect(state.sessions.map((session) => session.id)).toEqual(['session-2']);
+    expect(state.messages).toHaveLength(0);
+    expect(removeFile).toHaveBeenCalledWith('/audio/one.webm');
+  });
+
+  it('purges the active profile\'s history while keeping the active session', async () => {
+    const { store } = createStoreDouble();
+    const removeFile = vi.fn().mockResolvedValue(undefined);
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    store.purge = vi.fn().mockResolvedValue({
+      messageIds: ['m1', 'm2'],
+      sessionIds: ['session-old'],
+      factIds: ['fact-1'],
+      audioPaths: ['/audio/m1.webm'],
+      failedAudioPaths: ['/audio/m2.webm'],
+      clearedSessionIds: ['session-1'],
+    });
+    const manager = new ConversationManager({ store, audioDirectory: '/audio', removeFile, logger });
+    const purged = vi.fn();
+    const updated = vi.fn();
+    manager.on('messages-purged', purged);
+    manager.on('session-updated', updated);
+    manager.startSession({ id: 'session-1', startedAt: 1, title: 'My PIN' });
+
+    const result = await manager.purge({ from: 100, to: 400 });
+
+    expect(store.purge).toHaveBeenCalledWith(
+      {
+        from: 100,
+        to: 400,
+        containing: undefined,
+        sessionIds: undefined,
+        profileId: 'default',
+        keepSessionIds: ['session-1'],
+      },
+      { removeFile: expect.any(Function) },
+    );
+    expect(result).toEqual({ messageIds: ['m1', 'm2'], sessionIds: ['session-old'], removedFacts: 1, removedAudioFiles: 1 });
+    expect(purged).toHaveBeenCalledWith(result);
+    expect(updated).toHaveBeenCalledWith({ id: 'session-1', startedAt: 1, title: null });
+    expect(logger.warn).toHaveBeenCalledWith('Failed to delete purged conversation audio', { audioPath: '/audio/m2.webm' });
+  });
+
+  it('discards titles and summaries drafted from messages a purge forgot meanwhile', async () => {
+    const { store, state } = createStoreDouble();
+    let finishTitle: (title: string) => void = () => undefined;
+    let finishSummary: (summary: string) => void = () => undefined;
+    const generateTitle = vi.fn(() => new Promise<string>((resolve) => (finishTitle = resolve)));
+    const summarize = vi.fn(() => new Promise<string>((resolve) => (finishSummary = resolve)));
+    store.purge = vi.fn(async () => {
+      state.messages.splice(
+        state.messages.findIndex((message) => message.id === 'pin'),
+        1,
+      );
+      return { messageIds: ['pin'], sessionIds: [], factIds: [], audioPaths: [], failedAudioPaths: [], clearedSessionIds: [] };
+    });
+    const manager = new ConversationManager({
+      store,
+      maxMessagesPerSession: 1,
+      summarizer: { summarize },
+      titleGenerator: { generateTitle },
+      titleAfterMessages: 1,
+    });
+    const summarized = vi.fn();
+    manager.on('session-summarized', summarized);
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    manager.appendMessage({ id: 'pin', role: 'user', content: 'My PIN is 1234', ts: 1 });
+    manager.appendMessage({ role: 'user', content: 'Thanks', ts: 2 });
+    await vi.waitFor(() => expect(summarize).toHaveBeenCalledTimes(1));
+
+    await manager.purge({ containing: 'pin' });
+    finishTitle('PIN 1234');
+    finishSummary('The user shared PIN 1234.');
+    await manager.whenTitlesSettled();
+    await manager.whenSummariesSettled();
+
+    expect(state.sessions[0]?.title).toBeNull();
+    expect(manager.getSessionSummary()).toBeNull();
+    expect(summarized).not.toHaveBeenCalled();
+  });
+
+  it('keeps each profile\'s sessions and current session apart', async () => {
+    const { store, state } = createStoreDouble();
+    const removeFile = vi.fn().mockResolvedValue(undefined);
+    const manager = new ConversationManager({ store, audioDirectory: '/audio', removeFile });
+    const switched: string[] = [];
+    manager.on('profile-switched', (profile) => switched.push(profile.name));
+
+    manager.startSession({ id: 'shared', startedAt: 1 });
+    const ana = manager.createProfile('  Ana ');
+    expect(() => manager.createProfile('   ')).toThrow('Profile name is required.');
+
+    manager.switchProfile(ana.id);
+    expect(manager.getCurrentSessionId()).toBeNull();
+    expect(manager.getHistory().sessions).toEqual([]);
+    expect(() => manager.renameSession('shared', 'Not mine')).toThrow('was not found');
+    expect(manager.getSession('shared')).toBeNull();
+
+    manager.startSession({ id: 'ana-1', startedAt: 2 });
+    manager.appendMessage({ role: 'user', content: 'Hi', ts: 2, audioPath: '/audio/ana.webm' });
+    expect(manager.listSessions().sessions.map((session) => session.id)).toEqual(['ana-1']);
+    expect(new ConversationManager({ store }).getActiveProfileId()).toBe(ana.id);
+
+    manager.switchProfile('default');
+    expect(manager.getCurrentSessionId()).toBe('shared');
+    expect(manager.getSession('shared')).toEqual({ id: 'shared', startedAt: 1, title: null, messages: [] });
+    expect(manager.listSessions()).toMatchObject({ total: 1, sessions: [{ id: 'shared' }] });
+    expect(switched).toEqual(['Ana', 'Default']);
+
+    await expect(manager.deleteProfile('default')).rejects.toThrow('Cannot delete the active profile.');
+    await manager.deleteProfile(ana.id);
+    expect(manager.listProfiles()).toEqual({
+      activeProfileId: 'default',
+      profiles: [{ id: 'default', name: 'Default', createdAt: 0 }],
+    });
+    expect(state.sessions.map((session) => session.id)).toEqual(['shared']);
+    expect(removeFile).toHaveBeenCalledWith('/audio/ana.webm');
+  });
+
+  it('resumes the current session when woken within the resume window', () => {
+    const { store } = createStoreDouble();
+    const manager = new ConversationManager({ store, resume: { windowMs: 60_000 } });
+
+    manager.startSession({ id: 'session-1', startedAt: 1_000 });
+    manager.appendMessage({ role: 'user', content: 'Hello', ts: 10_000 });
+
+    expect(manager.resumeOrStartSession({ startedAt: 70_000 }).id).toBe('session-1');
+    expect(manager.resumeOrStartSession({ startedAt: 70_001 }).id).not.toBe('session-1');
+
+    manager.setResumePolicy({ windowMs: 0 });
+    const current = manager.getCurrentSessionId();
+    expect(manager.resumeOrStartSession({ startedAt: 70_002 }).id).not.toBe(current);
+  });
+
+  it('selects the newest messages that fit the resume budget, oldest first', () => {
+    const { store } = createStoreDouble();
+    const manager = new ConversationManager({ store, resume: { maxMessages: 3, maxTokens: 20 } });
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    manager.appendMessage({ role: 'user', content: 'An opening question that is long enough to fall out', ts: 1 });
+    manager.appendMessage({ role: 'assistant', content: 'Short answer', ts: 2 });
+    manager.appendMessage({ role: 'system', content: 'Hidden', ts: 3 });
+    manager.appendMessage({ role: 'user', content: '', ts: 4 });
+    manager.appendMessage({ role: 'user', content: 'Follow up', ts: 5 });
+
+    expect(manager.getResumeMessages().map((message) => message.content)).toEqual(['Short answer', 'Follow up']);
+
+    manager.setResumePolicy({ maxMessages: 1, maxTokens: 1_000 });
+    expect(manager.getResumeMessages().map((message) => message.content)).toEqual(['Follow up']);
+    expect(manager.getResumeMessages('missing')).toEqual([]);
+  });
+
+  it('stores attached audio clips and reads them back', async () => {
+    const { store, state } = createStoreDouble();
+    const audioDirectory = await mkdtemp(path.join(tmpdir(), 'conversation-audio-'));
+    const removeFile = vi.fn().mockResolvedValue(undefined);
+    const manager = new ConversationManager({ store, audioDirectory, removeFile });
+
+    try {
+      manager.startSession({ id: 'session-1', startedAt: 1 });
+      const message = manager.appendMessage({ id: 'message-1', role: 'user', content: '', ts: 1 });
+
+      const updated = await manager.attachAudio({
+        messageId: message.id,
+        mimeType: 'audio/webm;codecs=opus',
+        data: new Uint8Array([1, 2, 3]),
+      });
+
+      const expectedPath = path.join(audioDirectory, 'message-1.webm');
+      expect(updated.audioPath).toBe(expectedPath);
+      expect(state.messages[0]?.audioPath).toBe(expectedPath);
+      expect([...(await readFile(expectedPath))]).toEqual([1, 2, 3]);
+      await expect(manager.readAudio('message-1')).resolves.toEqual({
+        mimeType: 'audio/webm',
+        data: new Uint8Array([1, 2, 3]),
+      });
+
+      await manager.attachAudio({ messageId: 'message-1', mimeType: 'audio/ogg', data: new Uint8Array([4]) });
+      expect(removeFile).toHaveBeenCalledWith(expectedPath);
+
+      await expect(
+        manager.attachAudio({ messageId: '../escape', mimeType: 'audio/webm', data: new Uint8Array([1]) }),
+      ).rejects.toThrow('was not found');
+      await expect(
+        manager.attachAudio({ messageId: 'message-1', mimeType: 'video/mp4', data: new Uint8Array([1]) }),
+      ).rejects.toThrow('Unsupported conversation audio type');
+      await expect(manager.readAudio('missing')).resolves.toBeNull();
+    } finally {
+      await rm(audioDirectory, { recursive: true, force: true });
+    }
+  });
+
+  it('never reads or deletes audio outside the audio directory', async () => {
+    const { store, state } = createStoreDouble();
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const removeFile = vi.fn().mockResolvedValue(undefined);
+    const manager = new ConversationManager({ store, logger, audioDirectory: '/audio', removeFile });
+
+    manager.startSession({ id: 'session-1', startedAt: 1 });
+    const message = manager.appendMessage({ id: 'message-1', role: 'user', content: 'Hi', ts: 1, audioPath: '/audio/ok.webm' });
+    expect(message.audioPath).toBe('/audio/ok.webm');
+    expect(manager.appendMessage({ role: 'user', content: 'Hey', ts: 2, audioPath: '/etc/passwd' }).audioPath).toBeNull();
+
+    state.messages[0]!.audioPath = '/audio/../home/user/.ssh/id_rsa.webm';
+    await expect(manager.readAudio('message-1')).resolves.toBeNull();
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Refusing to read conversation audio outside the audio directory',
+      expect.objectContaining({ messageId: 'message-1' }),
+    );
+
+    manager.startSession({ id: 'session-2', startedAt: 3 });
+    await manager.deleteSession('session-1');
+    expect(removeFile).not.toHaveBeenCalled();
+  });
+});
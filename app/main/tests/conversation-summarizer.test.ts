@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import type OpenAI from 'openai';
+import { ConversationSummarizer, summarizeExtractively } from '../src/conversation/conversation-summarizer.js';
+import type { MessageRecord } from '../src/memory/memory-store.js';
+
+function message(id: string, role: string, content: string): MessageRecord {
+  return { id, sessionId: 'session-1', role, ts: Number(id.replace(/\D/g, '')), content, audioPath: null };
+}
+
+const messages = [
+  message('m1', 'user', 'Hi there.'),
+  message('m2', 'user', 'I am planning a trip to Lisbon in the spring with my sister.'),
+  message('m3', 'assistant', 'Lisbon in the spring is lovely, and trams are the easiest way around Lisbon.'),
+  message('m4', 'system', 'Remember to keep replies short and friendly.'),
+];
+
+describe('summarizeExtractively', () => {
+  it('appends the most informative sentences to the previous summary', () => {
+    const summary = summarizeExtractively({ previousSummary: 'The user introduced themselves as Sam.', messages });
+
+    const lines = summary.split('\n');
+    expect(lines[0]).toBe('The user introduced themselves as Sam.');
+    expect(lines).toContain('User: I am planning a trip to Lisbon in the spring with my sister.');
+    expect(lines).toContain('Assistant: Lisbon in the spring is lovely, and trams are the easiest way around Lisbon.');
+    expect(summary).not.toContain('Hi there');
+    expect(summary).not.toContain('replies short');
+  });
+
+  it('drops the oldest lines once the summary outgrows its budget', () => {
+    const previousSummary = ['Old line one about nothing much.', 'Old line two about something else.'].join('\n');
+    const summary = summarizeExtractively({ previousSummary, messages }, 150);
+
+    expect(summary.length).toBeLessThanOrEqual(150);
+    expect(summary).not.toContain('Old line one');
+    expect(summary).toContain('Lisbon');
+  });
+});
+
+describe('ConversationSummarizer', () => {
+  it('summarizes with the configured model', async () => {
+    const create = vi.fn().mockResolvedValue({ output_text: ' The user is planning a spring trip to Lisbon. ' });
+    const client = { responses: { create } } as unknown as OpenAI;
+    const summarizer = new ConversationSummarizer({ getClient: () => client });
+
+    await expect(summarizer.summarize({ previousSummary: 'Earlier summary.', messages })).resolves.toBe(
+      'The user is planning a spring trip to Lisbon.',
+    );
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4.1-mini' }));
+    const prompt = JSON.stringify(create.mock.calls[0][0]);
+    expect(prompt).toContain('Earlier summary.');
+    expect(prompt).toContain('planning a trip to Lisbon');
+  });
+
+  it('falls back to a local summary when the model request fails', async () => {
+    const create = vi.fn().mockRejectedValue(new Error('network down'));
+    const client = { responses: { create } } as unknown as OpenAI;
+    const logger = { warn: vi.fn() };
+    const summarizer = new ConversationSummarizer({ getClient: () => client, logger });
+
+    const summary = await summarizer.summarize({ previousSummary: null, messages });
+
+    expect(summary).toContain('User: I am planning a trip to Lisbon');
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Conversation summary via model failed; using local extraction.',
+      expect.objectContaining({ message: 'network down' }),
+    );
+  });
+
+  it('summarizes locally when no client is configured', async () => {
+    const summarizer = new ConversationSummarizer();
+
+    await expect(summarizer.summarize({ previousSummary: null, messages: [] })).resolves.toBe('');
+  });
+});
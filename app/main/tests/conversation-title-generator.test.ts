@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import type OpenAI from 'openai';
+import {
+  ConversationTitleGenerator,
+  generateKeywordTitle,
+} from '../src/conversation/conversation-title-generator.js';
+import type { MessageRecord } from '../src/memory/memory-store.js';
+
+function message(id: string, role: string, content: string): MessageRecord {
+  return { id, sessionId: 'session-1', role, ts: Number(id.replace(/\D/g, '')), content, audioPath: null };
+}
+
+const messages = [
+  message('m1', 'user', 'Hi there.'),
+  message('m2', 'user', 'I am planning a trip to Lisbon in the spring with my sister.'),
+  message('m3', 'assistant', 'Lisbon in the spring is lovely, and trams are the easiest way around Lisbon.'),
+  message('m4', 'system', 'Remember to keep replies short and friendly.'),
+];
+
+describe('generateKeywordTitle', () => {
+  it('titles a conversation from its most repeated user keywords', () => {
+    expect(generateKeywordTitle(messages)).toBe('Planning Trip Lisbon Spring');
+  });
+
+  it('returns an empty title when nothing distinctive was said', () => {
+    expect(generateKeywordTitle([message('m1', 'user', 'Hello, can you help?'), message('m2', 'assistant', 'Sure.')])).toBe(
+      '',
+    );
+  });
+
+  it('keeps titles within the character budget', () => {
+    expect(generateKeywordTitle(messages, 20)).toBe('Planning Trip Lisbon');
+  });
+});
+
+describe('ConversationTitleGenerator', () => {
+  it('titles with the configured model and strips decoration', async () => {
+    const create = vi.fn().mockResolvedValue({ output_text: 'Title: "Spring Trip to Lisbon."' });
+    const client = { responses: { create } } as unknown as OpenAI;
+    const generator = new ConversationTitleGenerator({ getClient: () => client });
+
+    await expect(generator.generateTitle(messages)).resolves.toBe('Spring Trip to Lisbon');
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4.1-mini' }));
+    const prompt = JSON.stringify(create.mock.calls[0][0]);
+    expect(prompt).toContain('planning a trip to Lisbon');
+    expect(prompt).not.toContain('replies short');
+  });
+
+  it('falls back to keywords when the model request fails', async () => {
+    const create = vi.fn().mockRejectedValue(new Error('network down'));
+    const client = { responses: { create } } as unknown as OpenAI;
+    const logger = { warn: vi.fn() };
+    const generator = new ConversationTitleGenerator({ getClient: () => client, logger });
+
+    await expect(generator.generateTitle(messages)).resolves.toBe('Planning Trip Lisbon Spring');
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Conversation title via model failed; using keyword extraction.',
+      expect.objectContaining({ message: 'network down' }),
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  getConversationTranscriptFileName,
+  renderConversationTranscript,
+  writeConversationTranscript,
+} from '../src/conversation/conversation-transcript.js';
+import type { ConversationSessionWithMessages } from '../src/conversation/types.js';
+
+const startedAt = Date.UTC(2024, 0, 1, 9, 30);
+
+const session: ConversationSessionWithMessages = {
+  id: 'session-1',
+  startedAt,
+  title: 'Trip <planning>',
+  messages: [
+    {
+      id: 'm1',
+      sessionId: 'session-1',
+      role: 'user',
+      ts: startedAt,
+      content: 'Is Lisbon nice in spring?',
+      audioPath: '/audio/m1.webm',
+      metadata: null,
+    },
+    {
+      id: 'm2',
+      sessionId: 'session-1',
+      role: 'assistant',
+      ts: startedAt + 2_000,
+      content: 'Yes & the trams run often.',
+      audioPath: null,
+      metadata: { voice: 'alloy' },
+    },
+  ],
+};
+
+describe('renderConversationTranscript', () => {
+  it('renders Markdown with timestamps, roles and audio links', () => {
+    const markdown = renderConversationTranscript(session, 'markdown');
+
+    expect(markdown).toContain('# Trip <planning>');
+    expect(markdown).toContain('## User · 2024-01-01T09:30:00.000Z');
+    expect(markdown).toContain('[Recorded audio](<file:///audio/m1.webm>)');
+    expect(markdown).toContain('## Assistant · 2024-01-01T09:30:02.000Z');
+    expect(markdown).toContain('"voice": "alloy"');
+  });
+
+  it('renders standalone HTML with escaped content', () => {
+    const html = renderConversationTranscript(session, 'html');
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Trip &lt;planning&gt;</title>');
+    expect(html).toContain('Yes &amp; the trams run often.');
+    expect(html).toContain('<a href="file:///audio/m1.webm">Recorded audio</a>');
+    expect(html).toContain('<time datetime="2024-01-01T09:30:02.000Z">');
+  });
+
+  it('renders JSON with every message field', () => {
+    const parsed = JSON.parse(renderConversationTranscript(session, 'json'));
+
+    expect(parsed).toMatchObject({ id: 'session-1', title: 'Trip <planning>', startedAt: '2024-01-01T09:30:00.000Z' });
+    expect(parsed.messages[0]).toEqual({
+      id: 'm1',
+      role: 'user',
+      ts: '2024-01-01T09:30:00.000Z',
+      content: 'Is Lisbon nice in spring?',
+      audioPath: '/audio/m1.webm',
+      metadata: null,
+    });
+  });
+});
+
+describe('writeConversationTranscript', () => {
+  it('suggests a file name and writes the rendered transcript', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'conversation-transcript-'));
+    try {
+      const fileName = getConversationTranscriptFileName(session, 'markdown');
+      expect(fileName).toBe('conversation-2024-01-01-trip-planning.md');
+
+      const filePath = path.join(root, 'exports', fileName);
+      const result = await writeConversationTranscript(session, 'markdown', filePath);
+
+      expect(result).toEqual({ filePath, format: 'markdown', messages: 2 });
+      expect(await readFile(filePath, 'utf8')).toBe(renderConversationTranscript(session, 'markdown'));
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
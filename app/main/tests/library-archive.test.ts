@@ -0,0 +1,294 @@
+import { createHash } from 'node:crypto';
+import { Buffer } from 'node:buffer';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LibraryArchiveService } from '../src/memory/library-archive.js';
+import { MemoryStore } from '../src/memory/memory-store.js';
+import { createTarArchive, readTarArchive } from '../src/memory/tar-archive.js';
+
+const tempDirs: string[] = [];
+const stores: MemoryStore[] = [];
+
+interface Library {
+  root: string;
+  store: MemoryStore;
+  service: LibraryArchiveService;
+  modelsDirectory: string;
+  animationsDirectory: string;
+  posesDirectory: string;
+  audioDirectory: string;
+}
+
+async function createLibrary(): Promise<Library> {
+  const root = await mkdtemp(path.join(tmpdir(), 'library-archive-'));
+  tempDirs.push(root);
+  const audioDirectory = path.join(root, 'conversation-audio');
+  const store = new MemoryStore({ filePath: path.join(root, 'memory.db'), audioDirectory });
+  stores.push(store);
+  const modelsDirectory = path.join(root, 'vrm-models');
+  const animationsDirectory = path.join(root, 'vrma-animations');
+  const posesDirectory = path.join(root, 'vrm-poses');
+  const service = new LibraryArchiveService({
+    store,
+    modelsDirectory,
+    animationsDirectory,
+    posesDirectory,
+    audioDirectory,
+    now: () => 1_000,
+  });
+  return { root, store, service, modelsDirectory, animationsDirectory, posesDirectory, audioDirectory };
+}
+
+function sha256(data: Buffer) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+async function addModel(library: Library, id: string, contents: string) {
+  const data = Buffer.from(contents);
+  const filePath = path.join(library.modelsDirectory, `${id}.vrm`);
+  await mkdir(library.modelsDirectory, { recursive: true });
+  await writeFile(filePath, data);
+  library.store.createVrmModel({
+    id,
+    name: `Model ${id}`,
+    createdAt: 1,
+    filePath,
+    fileSha: sha256(data),
+    version: '1.0',
+    thumbnail: Buffer.from('thumb'),
+    description: null,
+  });
+}
+
+afterEach(async () => {
+  while (stores.length > 0) {
+    stores.pop()?.dispose();
+  }
+
+  while (tempDirs.length > 0) {
+    const directory = tempDirs.pop();
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('tar archive', () => {
+  it('round-trips entries larger than a block', () => {
+    const big = Buffer.alloc(1_500, 7);
+    const entries = readTarArchive(
+      createTarArchive([
+        { name: 'manifest.json', data: Buffer.from('{}') },
+        { name: 'models/a.vrm', data: big },
+      ]),
+    );
+
+    expect([...entries.keys()]).toEqual(['manifest.json', 'models/a.vrm']);
+    expect(entries.get('models/a.vrm')?.equals(big)).toBe(true);
+  });
+
+  it('rejects data that is not a gzip archive', () => {
+    expect(() => readTarArchive(Buffer.from('nope'))).toThrow(/not a valid gzip/);
+  });
+});
+
+describe('LibraryArchiveService', () => {
+  it('exports binaries and restores them into the local asset directories', async () => {
+    const source = await createLibrary();
+    source.store.createSession({ id: 'session-1', startedAt: 1, title: 'Hello' });
+    source.store.appendMessage({
+      id: 'message-1',
+      sessionId: 'session-1',
+      role: 'user',
+      ts: 2,
+      content: 'Hi there',
+      audioPath: path.join(source.audioDirectory, 'message-1.webm'),
+    });
+    await mkdir(source.audioDirectory, { recursive: true });
+    await writeFile(path.join(source.audioDirectory, 'message-1.webm'), 'clip-binary');
+    await addModel(source, 'model-1', 'vrm-binary');
+    const animationData = Buffer.from('vrma-binary');
+    const animationPath = path.join(source.animationsDirectory, 'anim-1.vrma');
+    await mkdir(source.animationsDirectory, { recursive: true });
+    await writeFile(animationPath, animationData);
+    source.store.createVrmAnimation({
+      id: 'anim-1',
+      name: 'Wave',
+      createdAt: 2,
+      filePath: animationPath,
+      fileSha: sha256(animationData),
+      duration: 1.5,
+      fps: 30,
+    });
+    source.store.setActiveVrmModel('model-1');
+
+    const archivePath = path.join(source.root, 'exports', 'library.tar.gz');
+    const exported = await source.service.exportArchive(archivePath);
+    expect(exported).toMatchObject({ filePath: archivePath, sessions: 1, messages: 1, assets: 3, missingFiles: [] });
+
+    const target = await createLibrary();
+    const result = await target.service.importArchive(archivePath);
+
+    expect(result).toMatchObject({ sessions: 1, messages: 1, vrmModels: 1, vrmaAnimations: 1, vrmPoses: 0, conflicts: [] });
+    const model = target.store.getVrmModel('model-1');
+    expect(model?.filePath).toBe(path.join(target.modelsDirectory, 'model-1.vrm'));
+    expect(model?.thumbnail?.toString()).toBe('thumb');
+    expect((await readFile(path.join(target.modelsDirectory, 'model-1.vrm'))).toString()).toBe('vrm-binary');
+    expect(target.store.getVrmAnimation('anim-1')?.filePath).toBe(path.join(target.animationsDirectory, 'anim-1.vrma'));
+    expect(target.store.getActiveVrmModelId()).toBe('model-1');
+    expect(target.store.listMessages('session-1')[0]).toMatchObject({
+      content: 'Hi there',
+      audioPath: path.join(target.audioDirectory, 'message-1.webm'),
+    });
+    expect((await readFile(path.join(target.audioDirectory, 'message-1.webm'))).toString()).toBe('clip-binary');
+  });
+
+  it('reports missing files, checksum mismatches and local conflicts', async () => {
+    const source = await createLibrary();
+    await addModel(source, 'model-ok', 'ok');
+    await addModel(source, 'model-local', 'incoming');
+    await addModel(source, 'model-missing', 'gone');
+    await rm(path.join(source.modelsDirectory, 'model-missing.vrm'));
+
+    const archivePath = path.join(source.root, 'library.tar.gz');
+    const exported = await source.service.exportArchive(archivePath);
+    expect(exported.missingFiles).toEqual([
+      expect.objectContaining({ kind: 'vrmModel', id: 'model-missing' }),
+    ]);
+
+    // Tamper with one record's checksum so it no longer matches its binary.
+    const entries = readTarArchive(await readFile(archivePath));
+    const manifest = JSON.parse(entries.get('manifest.json')?.toString() ?? '{}') as {
+      data: { vrmModels: Array<{ id: string; fileSha: string }> };
+    };
+    const tampered = manifest.data.vrmModels.find((model) => model.id === 'model-ok');
+    if (tampered) {
+      tampered.fileSha = 'deadbeef';
+    }
+    const tamperedPath = path.join(source.root, 'tampered.tar.gz');
+    await writeFile(
+      tamperedPath,
+      createTarArchive(
+        [...entries].map(([name, data]) => ({
+          name,
+          data: name === 'manifest.json' ? Buffer.from(JSON.stringify(manifest)) : data,
+        })),
+      ),
+    );
+
+    const target = await createLibrary();
+    await addModel(target, 'model-local', 'local');
+
+    const result = await target.service.importArchive(tamperedPath);
+
+    expect(result.vrmModels).toBe(0);
+    expect(result.conflicts).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: 'model-ok', reason: 'checksum-mismatch' }),
+        expect.objectContaining({ id: 'model-local', reason: 'local-differs' }),
+        expect.objectContaining({ id: 'model-missing', reason: 'missing-file' }),
+      ]),
+    );
+    expect(target.store.getVrmModel('model-ok')).toBeNull();
+    expect((await readFile(path.join(target.modelsDirectory, 'model-local.vrm'))).toString()).toBe('local');
+
+    const overwrite = await target.service.importArchive(archivePath, { conflictPolicy: 'keep-incoming', dryRun: true });
+    expect(overwrite.report.entities.vrmModels).toMatchObject({ new: ['model-ok'], updated: ['model-local'] });
+    expect(overwrite.conflicts).toEqual([expect.objectContaining({ id: 'model-missing', reason: 'missing-file' })]);
+    expect((await readFile(path.join(target.modelsDirectory, 'model-local.vrm'))).toString()).toBe('local');
+
+    await target.service.importArchive(archivePath, { conflictPolicy: 'keep-incoming' });
+    expect((await readFile(path.join(target.modelsDirectory, 'model-local.vrm'))).toString()).toBe('incoming');
+  });
+
+  it('skips clips outside the audio directory and entries that name other paths', async () => {
+    const source = await createLibrary();
+    source.store.createSession({ id: 'session-1', startedAt: 1, title: null });
+    for (const id of ['message-1', 'message-2']) {
+      source.store.appendMessage({
+        id,
+        sessionId: 'session-1',
+        role: 'user',
+        ts: 2,
+        content: id,
+        audioPath: path.join(source.audioDirectory, `${id}.wav`),
+      });
+    }
+    await mkdir(source.audioDirectory, { recursive: true });
+    await writeFile(path.join(source.audioDirectory, 'message-1.wav'), 'clip');
+
+    const archivePath = path.join(source.root, 'library.tar.gz');
+    const exported = await source.service.exportArchive(archivePath);
+    expect(exported.missingFiles).toEqual([expect.objectContaining({ kind: 'audioClip', id: 'message-2' })]);
+
+    const entries = readTarArchive(await readFile(archivePath));
+    const manifest = JSON.parse(entries.get('manifest.json')?.toString() ?? '{}') as {
+      files: Record<string, { sha256: string; size: number }>;
+      data: { messages: Array<{ id: string; audioPath: string | null }> };
+    };
+    const escaping = '../escaped.wav';
+    manifest.files[escaping] = manifest.files['audio/message-1.wav'];
+    for (const message of manifest.data.messages) {
+      message.audioPath = message.id === 'message-2' ? escaping : message.audioPath;
+    }
+    const tamperedPath = path.join(source.root, 'tampered.tar.gz');
+    await writeFile(
+      tamperedPath,
+      createTarArchive([
+        ...[...entries].map(([name, data]) => ({
+          name,
+          data: name === 'manifest.json' ? Buffer.from(JSON.stringify(manifest)) : data,
+        })),
+        { name: escaping, data: Buffer.from('clip') },
+      ]),
+    );
+
+    const target = await createLibrary();
+    const result = await target.service.importArchive(tamperedPath);
+
+    expect(result.conflicts).toEqual([expect.objectContaining({ kind: 'audioClip', id: 'message-2', reason: 'missing-file' })]);
+    expect(target.store.listMessages('session-1').map((message) => message.audioPath)).toEqual([
+      path.join(target.audioDirectory, 'message-1.wav'),
+      null,
+    ]);
+    expect(await readdir(target.root)).not.toContain('escaped.wav');
+  });
+
+  it('leaves local files untouched when the import fails', async () => {
+    const source = await createLibrary();
+    await addModel(source, 'model-local', 'incoming');
+    await addModel(source, 'model-new', 'new');
+    const archivePath = path.join(source.root, 'library.tar.gz');
+    await source.service.exportArchive(archivePath);
+
+    const target = await createLibrary();
+    await addModel(target, 'model-local', 'local');
+    const importData = target.store.importData.bind(target.store);
+    vi.spyOn(target.store, 'importData').mockImplementation((data, options) => {
+      if (!options?.dryRun) {
+        throw new Error('disk full');
+      }
+      return importData(data, options);
+    });
+
+    await expect(
+      target.service.importArchive(archivePath, { conflictPolicy: 'keep-incoming' }),
+    ).rejects.toThrow('disk full');
+
+    expect((await readFile(path.join(target.modelsDirectory, 'model-local.vrm'))).toString()).toBe('local');
+    expect(await readdir(target.modelsDirectory)).toEqual(['model-local.vrm']);
+  });
+
+  it('rejects archives without a valid manifest', async () => {
+    const library = await createLibrary();
+    const archivePath = path.join(library.root, 'invalid.tar.gz');
+    await writeFile(
+      archivePath,
+      createTarArchive([{ name: 'manifest.json', data: Buffer.from(JSON.stringify({ format: 'other' })) }]),
+    );
+
+    await expect(library.service.importArchive(archivePath)).rejects.toThrow(/manifest is invalid/);
+  });
+});
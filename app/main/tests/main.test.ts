@@ -86,10 +86,13 @@ vi.mock('../src/config/secret-store.js', () => ({
   InMemorySecretStore: vi.fn(),
 }));
 
-const FilePreferencesStoreMock = vi.fn(() => ({
+const switchPreferencesProfileMock = vi.fn();
+const createFilePreferencesStoreInstance = () => ({
   load: loadPreferencesMock,
   save: savePreferencesMock,
-}));
+  switchProfile: switchPreferencesProfileMock,
+});
+const FilePreferencesStoreMock = vi.fn(createFilePreferencesStoreInstance);
 
 vi.mock('../src/config/preferences-store.js', () => ({
   FilePreferencesStore: FilePreferencesStoreMock,
@@ -108,6 +111,7 @@ const deleteValueMock = vi.fn();
 const exportDataMock = vi.fn();
 const importDataMock = vi.fn();
 const memoryStoreDisposeMock = vi.fn();
+const memoryPurgeMock = vi.fn();
 
 const MemoryStoreMock = vi.fn(() => ({
   createSession: createSessionMock,
@@ -117,6 +121,11 @@ const MemoryStoreMock = vi.fn(() => ({
   getSessionWithMessages: getSessionWithMessagesMock,
   deleteSession: deleteSessionMock,
   deleteMessages: deleteMessagesMock,
+  listMessageReferences: vi.fn(() => []),
+  getSessionSummary: vi.fn(() => null),
+  updateSessionSummary: vi.fn(),
+  getDatabaseSize: vi.fn(() => ({ totalBytes: 0, usedBytes: 0 })),
+  compact: vi.fn(),
   setValue: setValueMock,
   getValue: getValueMock,
   deleteValue: deleteValueMock,
@@ -126,11 +135,62 @@ const MemoryStoreMock = vi.fn(() => ({
   createVrmPose: vi.fn(),
   getVrmPose: vi.fn(() => null),
   deleteVrmPose: vi.fn(),
+  inspectSchema: vi.fn(() => ({ version: 14, latestVersion: 14, migrations: [], tables: [] })),
+  searchMessages: vi.fn(() => []),
+  purge: memoryPurgeMock,
   dispose: memoryStoreDisposeMock,
 }));
 
+const extractPendingSessionsMock = vi.fn();
+const getSessionContextMock = vi.fn();
+const searchFactsMock = vi.fn(() => []);
+
+const MemoryFactServiceMock = vi.fn(() => ({
+  extractPendingSessions: extractPendingSessionsMock,
+  getSessionContext: getSessionContextMock,
+  searchFacts: searchFactsMock,
+}));
+
+const MemoryKeyManagerMock = vi.fn(() => ({
+  loadCipher: vi.fn().mockResolvedValue(null),
+  completePendingRotation: vi.fn().mockResolvedValue(false),
+  rotate: vi.fn().mockResolvedValue('key-id'),
+  pruneRetiredKeys: vi.fn().mockResolvedValue([]),
+}));
+
+const exportArchiveMock = vi.fn();
+const importArchiveMock = vi.fn();
+const LibraryArchiveServiceMock = vi.fn(() => ({
+  exportArchive: exportArchiveMock,
+  importArchive: importArchiveMock,
+}));
+
+const applyPendingMemoryRestoreMock = vi.fn();
+const backupNowMock = vi.fn();
+const abortBackupMock = vi.fn(async () => undefined);
+const listBackupsMock = vi.fn();
+const purgeBackupsMock = vi.fn();
+const requestRestoreMock = vi.fn();
+const MemoryBackupSchedulerMock = vi.fn(() => ({
+  start: vi.fn(),
+  stop: vi.fn(),
+  backupNow: backupNowMock,
+  abort: abortBackupMock,
+  listBackups: listBackupsMock,
+  requestRestore: requestRestoreMock,
+  purgeBackups: purgeBackupsMock,
+  listSealingKeyIds: vi.fn().mockResolvedValue([]),
+  setMaxSnapshotAge: vi.fn(),
+}));
+
 vi.mock('../src/memory/index.js', () => ({
   MemoryStore: MemoryStoreMock,
+  MemoryFactService: MemoryFactServiceMock,
+  MemoryKeyManager: MemoryKeyManagerMock,
+  LibraryArchiveService: LibraryArchiveServiceMock,
+  MemoryBackupScheduler: MemoryBackupSchedulerMock,
+  applyPendingMemoryRestore: applyPendingMemoryRestoreMock,
+  DEFAULT_PROFILE_ID: 'default',
 }));
 
 const resolvePreloadScriptPathMock = vi.fn();
@@ -387,6 +447,8 @@ describe('main process bootstrap', () => {
     loadPreferencesMock.mockReset();
     savePreferencesMock.mockReset();
     FilePreferencesStoreMock.mockReset();
+    FilePreferencesStoreMock.mockImplementation(createFilePreferencesStoreInstance);
+    switchPreferencesProfileMock.mockReset();
     ConfigManagerMock.mockClear();
 
     WakeWordServiceMock.mockReset();
@@ -464,10 +526,28 @@ describe('main process bootstrap', () => {
     exportDataMock.mockReset();
     importDataMock.mockReset();
     memoryStoreDisposeMock.mockReset();
+    memoryPurgeMock.mockReset();
     listSessionsMock.mockReturnValue([]);
     listMessagesMock.mockReturnValue([]);
     getSessionWithMessagesMock.mockReturnValue(null);
     getValueMock.mockReturnValue(null);
+    MemoryFactServiceMock.mockClear();
+    MemoryKeyManagerMock.mockClear();
+    LibraryArchiveServiceMock.mockClear();
+    MemoryBackupSchedulerMock.mockClear();
+    applyPendingMemoryRestoreMock.mockReset();
+    applyPendingMemoryRestoreMock.mockResolvedValue(null);
+    backupNowMock.mockReset();
+    backupNowMock.mockResolvedValue(null);
+    listBackupsMock.mockReset();
+    requestRestoreMock.mockReset();
+    purgeBackupsMock.mockReset();
+    exportArchiveMock.mockReset();
+    importArchiveMock.mockReset();
+    extractPendingSessionsMock.mockReset();
+    getSessionContextMock.mockReset();
+    extractPendingSessionsMock.mockResolvedValue(0);
+    getSessionContextMock.mockReturnValue({ facts: [], instructions: '' });
 
     AutoLaunchManagerMock.mockClear();
     autoLaunchSyncMock.mockReset();
@@ -493,6 +573,8 @@ describe('main process bootstrap', () => {
 
     const config = {
       realtimeApiKey: 'rt-key',
+      realtimeTransport: 'webrtc',
+      realtimeMock: false,
       featureFlags: {},
       wakeWord: {
         accessKey: 'access',
@@ -508,6 +590,15 @@ describe('main process bootstrap', () => {
         port: 9477,
         path: '/metrics',
       },
+      conversationRetention: {
+        roleRules: [],
+        intervalMs: 3_600_000,
+      },
+      conversationResume: {
+        windowMs: 600_000,
+        maxMessages: 20,
+        maxTokens: 2_000,
+      },
     } as const;
 
     loadMock.mockResolvedValue(config);
@@ -531,6 +622,8 @@ describe('main process bootstrap', () => {
       realtimeApiKey: 'rt-key',
       audioInputDeviceId: undefined,
       audioOutputDeviceId: undefined,
+      realtimeTransport: 'webrtc',
+      realtimeMock: false,
       featureFlags: {},
       wakeWord: {
         accessKey: 'access',
@@ -548,6 +641,15 @@ describe('main process bootstrap', () => {
         port: 9477,
         path: '/metrics',
       },
+      conversationRetention: {
+        roleRules: [],
+        intervalMs: 3_600_000,
+      },
+      conversationResume: {
+        windowMs: 600_000,
+        maxMessages: 20,
+        maxTokens: 2_000,
+      },
     } as const;
 
     let currentConfig = { ...baseConfig };
@@ -694,7 +796,103 @@ describe('main process bootstrap', () => {
     expect(typeof handleEntries.get('realtime:mint-ephemeral-token')).toBe('function');
 
     expect(typeof handleEntries.get('conversation:get-history')).toBe('function');
+    expect(typeof handleEntries.get('conversation:list-sessions')).toBe('function');
+    expect(typeof handleEntries.get('conversation:rename-session')).toBe('function');
+    expect(typeof handleEntries.get('conversation:delete-session')).toBe('function');
+    expect(typeof handleEntries.get('conversation:purge')).toBe('function');
+    // The spoken "forget the last minutes" command purges a time range. Backups get the same purge
+    // instead of being wiped, so the rest of their history can still be restored.
+    memoryPurgeMock.mockResolvedValueOnce({
+      messageIds: ['message-1'],
+      sessionIds: [],
+      factIds: [],
+      audioPaths: [],
+      failedAudioPaths: [],
+      clearedSessionIds: [],
+    });
+    purgeBackupsMock.mockResolvedValueOnce({ rewritten: ['memory-1.db', 'memory-2.db'], removed: ['pre-migration-v14-1.db'] });
+    await expect(handleEntries.get('conversation:purge')?.({}, { from: 100, to: 400 })).resolves.toMatchObject({
+      messageIds: ['message-1'],
+      rewrittenBackups: 2,
+      removedBackups: 1,
+    });
+    expect(purgeBackupsMock).toHaveBeenCalledWith(expect.objectContaining({ from: 100, to: 400, profileId: 'default' }));
+    expect(memoryPurgeMock).toHaveBeenCalledWith(purgeBackupsMock.mock.calls[0]?.[0], expect.anything());
+    expect(typeof handleEntries.get('conversation:get-resume-messages')).toBe('function');
+    expect(typeof handleEntries.get('conversation:export-transcript')).toBe('function');
+    expect(typeof handleEntries.get('profile:list')).toBe('function');
+    expect(typeof handleEntries.get('profile:create')).toBe('function');
+    expect(typeof handleEntries.get('profile:switch')).toBe('function');
+    expect(typeof handleEntries.get('profile:delete')).toBe('function');
     expect(typeof handleEntries.get('conversation:append-message')).toBe('function');
+    expect(typeof handleEntries.get('conversation:update-message')).toBe('function');
+    expect(typeof handleEntries.get('conversation:search')).toBe('function');
+    expect(typeof handleEntries.get('conversation:attach-audio')).toBe('function');
+    expect(typeof handleEntries.get('conversation:get-audio')).toBe('function');
+    const memoryContextHandler = handleEntries.get('memory:get-session-context');
+    expect(typeof memoryContextHandler).toBe('function');
+    getSessionContextMock.mockReturnValueOnce({
+      facts: [{ id: 'fact-1', subject: 'user', fact: "User's name is Sam.", confidence: 0.8 }],
+      instructions: "- User's name is Sam.",
+    });
+    expect(memoryContextHandler?.({})).toMatchObject({ instructions: "- User's name is Sam." });
+    expect(getSessionContextMock).toHaveBeenCalledWith('default');
+    expect(extractPendingSessionsMock).toHaveBeenCalledWith(null);
+    const rotateKeyHandler = handleEntries.get('memory:rotate-encryption-key');
+    expect(typeof rotateKeyHandler).toBe('function');
+    await expect(rotateKeyHandler?.({})).rejects.toThrow('Memory encryption is not enabled.');
+    expect(MemoryKeyManagerMock).not.toHaveBeenCalled();
+    expect(LibraryArchiveServiceMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        modelsDirectory: expect.stringContaining('vrm-models'),
+        animationsDirectory: expect.stringContaining('vrma-animations'),
+        posesDirectory: expect.stringContaining('vrm-poses'),
+      }),
+    );
+    expect(applyPendingMemoryRestoreMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        databasePath: expect.stringContaining('memory.db'),
+        backupDirectory: expect.stringContaining('memory-backups'),
+      }),
+    );
+    expect(applyPendingMemoryRestoreMock.mock.invocationCallOrder[0]).toBeLessThan(
+      MemoryStoreMock.mock.invocationCallOrder[0],
+    );
+    expect(MemoryStoreMock).toHaveBeenCalledWith(
+      expect.objectContaining({ preMigrationBackupDirectory: expect.stringContaining('memory-backups') }),
+    );
+    expect(handleEntries.get('memory:inspect-schema')?.({})).toMatchObject({ version: 14, latestVersion: 14 });
+    const toolDefinitions = handleEntries.get('tools:list')?.({}) as Array<{ name: string }>;
+    expect(toolDefinitions.map((tool) => tool.name)).toEqual([
+      'get_current_time',
+      'search_memory',
+      'play_animation',
+      'apply_pose',
+    ]);
+    searchFactsMock.mockReturnValueOnce([{ id: 'fact-1', subject: 'user', fact: "User's name is Sam.", confidence: 0.9 }]);
+    await expect(
+      handleEntries.get('tools:call')?.({}, { callId: 'call-1', name: 'search_memory', arguments: '{"query":"name"}' }),
+    ).resolves.toMatchObject({ callId: 'call-1', isError: false, output: expect.stringContaining('Sam') });
+    expect(searchFactsMock).toHaveBeenCalledWith('name', 'default', { limit: 5 });
+    expect(() => handleEntries.get('tools:call')?.({}, null)).toThrow('Invalid tool call payload received.');
+    const scheduler = MemoryBackupSchedulerMock.mock.results[0]?.value as { start: ReturnType<typeof vi.fn> };
+    expect(scheduler.start).toHaveBeenCalledTimes(1);
+    listBackupsMock.mockResolvedValueOnce([{ id: 'memory-1.db', createdAt: 1, sizeBytes: 10 }]);
+    await expect(handleEntries.get('memory:list-backups')?.({})).resolves.toHaveLength(1);
+    await handleEntries.get('memory:create-backup')?.({});
+    expect(backupNowMock).toHaveBeenCalledWith('manual');
+    await handleEntries.get('memory:restore-backup')?.({}, 'memory-1.db');
+    expect(requestRestoreMock).toHaveBeenCalledWith('memory-1.db');
+    const exportArchiveHandler = handleEntries.get('library:export-archive');
+    exportArchiveMock.mockResolvedValueOnce({ filePath: '/tmp/library.tar.gz' });
+    await expect(exportArchiveHandler?.({}, { filePath: '/tmp/library.tar.gz' })).resolves.toEqual({
+      filePath: '/tmp/library.tar.gz',
+    });
+    expect(exportArchiveMock).toHaveBeenCalledWith('/tmp/library.tar.gz');
+    const importArchiveHandler = handleEntries.get('library:import-archive');
+    importArchiveMock.mockResolvedValueOnce({ conflicts: [] });
+    await importArchiveHandler?.({}, { filePath: '/tmp/library.tar.gz', strategy: 'replace' });
+    expect(importArchiveMock).toHaveBeenCalledWith('/tmp/library.tar.gz', { strategy: 'replace' });
     const metricsHandler = handleEntries.get('metrics:observe-latency');
     expect(typeof metricsHandler).toBe('function');
     const metricsResult = metricsHandler?.({}, { metric: 'wake_to_capture_ms', valueMs: 100 });
@@ -827,8 +1025,9 @@ describe('main process bootstrap', () => {
     wakeWordService.emit('wake', wakePayload);
     const createdSessionId = createSessionMock.mock.calls[0]?.[0]?.id;
     expect(createdSessionId).toBeDefined();
-    expect(setValueMock).toHaveBeenCalledWith('conversation:currentSessionId', createdSessionId);
-    expect(setValueMock).toHaveBeenCalledWith('conversation:lastSessionId', createdSessionId);
+    expect(extractPendingSessionsMock).toHaveBeenLastCalledWith(createdSessionId);
+    expect(setValueMock).toHaveBeenCalledWith('conversation:currentSessionId', createdSessionId, 'default');
+    expect(setValueMock).toHaveBeenCalledWith('conversation:lastSessionId', createdSessionId, 'default');
     expect(mainWindow.webContents.send).toHaveBeenCalledWith(
       'conversation:session-started',
       expect.objectContaining({ id: createdSessionId }),
@@ -889,6 +1088,9 @@ describe('main process bootstrap', () => {
     expect(diagnosticsTrackWindowMock).toHaveBeenCalledWith(activationWindow);
 
     appEmitter.emit('before-quit', { preventDefault: vi.fn() });
+    await flushPromises();
+    expect(backupNowMock).toHaveBeenCalledWith('quit');
+    expect(abortBackupMock.mock.invocationCallOrder[0]).toBeLessThan(memoryStoreDisposeMock.mock.invocationCallOrder[0]);
     expect(crashGuardInstances[0].notifyAppQuitting).toHaveBeenCalledTimes(1);
     expect(diagnosticsDisposeMock).toHaveBeenCalledTimes(1);
     expect(wakeWordService.dispose).toHaveBeenCalledTimes(1);
@@ -933,6 +1135,8 @@ describe('main process bootstrap', () => {
       realtimeApiKey: 'rt-key',
       audioInputDeviceId: undefined,
       audioOutputDeviceId: undefined,
+      realtimeTransport: 'webrtc',
+      realtimeMock: false,
       featureFlags: {},
       wakeWord: {
         accessKey: 'access',
@@ -948,6 +1152,15 @@ describe('main process bootstrap', () => {
         port: 9477,
         path: '/metrics',
       },
+      conversationRetention: {
+        roleRules: [],
+        intervalMs: 3_600_000,
+      },
+      conversationResume: {
+        windowMs: 600_000,
+        maxMessages: 20,
+        maxTokens: 2_000,
+      },
     } as const;
 
     loadMock.mockResolvedValue(baseConfig);
@@ -995,6 +1208,8 @@ describe('main process bootstrap', () => {
       realtimeApiKey: 'rt-key',
       audioInputDeviceId: undefined,
       audioOutputDeviceId: undefined,
+      realtimeTransport: 'webrtc',
+      realtimeMock: false,
       featureFlags: {},
       wakeWord: {
         accessKey: 'access',
@@ -1012,6 +1227,15 @@ describe('main process bootstrap', () => {
         port: 9477,
         path: '/metrics',
       },
+      conversationRetention: {
+        roleRules: [],
+        intervalMs: 3_600_000,
+      },
+      conversationResume: {
+        windowMs: 600_000,
+        maxMessages: 20,
+        maxTokens: 2_000,
+      },
     } as const;
 
     loadMock.mockResolvedValue(config);
@@ -0,0 +1,231 @@
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryBackupScheduler, applyPendingMemoryRestore } from '../src/memory/memory-backup-scheduler.js';
+import { MemoryCipher } from '../src/memory/memory-cipher.js';
+import { MemoryStore } from '../src/memory/memory-store.js';
+
+const tempDirs: string[] = [];
+const stores: MemoryStore[] = [];
+
+async function createFixture(options?: { maxBackups?: number; cipher?: MemoryCipher }) {
+  const root = await mkdtemp(path.join(tmpdir(), 'memory-backups-'));
+  tempDirs.push(root);
+  const databasePath = path.join(root, 'memory.db');
+  const backupDirectory = path.join(root, 'backups');
+  const store = new MemoryStore({ filePath: databasePath, cipher: options?.cipher });
+  stores.push(store);
+  let clock = 1_000;
+  const scheduler = new MemoryBackupScheduler({
+    store,
+    backupDirectory,
+    databasePath,
+    maxBackups: options?.maxBackups,
+    now: () => (clock += 1_000),
+  });
+  return { root, databasePath, backupDirectory, store, scheduler };
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+
+  while (stores.length > 0) {
+    stores.pop()?.dispose();
+  }
+
+  while (tempDirs.length > 0) {
+    const directory = tempDirs.pop();
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('MemoryBackupScheduler', () => {
+  it('writes verified snapshots and keeps only the newest copies', async () => {
+    const { store, scheduler, backupDirectory } = await createFixture({ maxBackups: 2 });
+    store.createSession({ id: 'session-1', startedAt: 1, title: 'First' });
+    await mkdir(backupDirectory, { recursive: true });
+    await writeFile(path.join(backupDirectory, 'pre-migration-v2-500.db'), 'snapshot');
+
+    const first = await scheduler.backupNow();
+    await scheduler.backupNow('interval');
+    const third = await scheduler.backupNow('quit');
+
+    expect(first).toMatchObject({ id: 'memory-2000.db', createdAt: 2_000 });
+    expect(third?.sizeBytes).toBeGreaterThan(0);
+    expect((await scheduler.listBackups()).map((snapshot) => snapshot.id)).toEqual(['memory-4000.db', 'memory-3000.db']);
+    expect((await readdir(backupDirectory)).sort()).toEqual(['memory-3000.db', 'memory-4000.db', 'pre-migration-v2-500.db']);
+    expect(MemoryStore.verifyIntegrity(path.join(backupDirectory, 'memory-4000.db'))).toEqual([]);
+
+    const snapshot = new MemoryStore({ filePath: path.join(backupDirectory, 'memory-4000.db') });
+    stores.push(snapshot);
+    expect(snapshot.listSessions().map((session) => session.id)).toEqual(['session-1']);
+  });
+
+  it('applies a purge to every snapshot and keeps the rest of their history', async () => {
+    const cipher = new MemoryCipher([MemoryCipher.generateKey()]);
+    const { root, store, scheduler, backupDirectory } = await createFixture({ cipher });
+    store.createSession({ id: 'session-1', startedAt: 1, title: 'Errands' });
+    store.appendMessage({ id: 'm1', sessionId: 'session-1', role: 'user', ts: 10, content: 'My PIN is 1234', audioPath: null });
+    store.appendMessage({ id: 'm2', sessionId: 'session-1', role: 'user', ts: 20, content: 'Book a table', audioPath: null });
+    await scheduler.backupNow();
+    await scheduler.backupNow();
+    await writeFile(path.join(backupDirectory, 'memory-1500.db'), 'not a database');
+    await writeFile(path.join(backupDirectory, 'pre-migration-v2-500.db'), 'snapshot');
+    await writeFile(path.join(root, 'memory.db.pre-restore-900'), 'old database');
+    await writeFile(path.join(root, 'memory.db.pre-restore-900-wal'), 'old log');
+    await scheduler.requestRestore('memory-2000.db');
+
+    await store.purge({ containing: 'pin' });
+    const result = await scheduler.purgeBackups({ containing: 'pin' });
+
+    expect(result.rewritten.sort()).toEqual(['memory-2000.db', 'memory-3000.db']);
+    expect(result.removed.sort()).toEqual([
+      'memory-1500.db',
+      'memory.db.pre-restore-900',
+      'memory.db.pre-restore-900-wal',
+      'pre-migration-v2-500.db',
+    ]);
+    const version = store.inspectSchema().version;
+    expect((await readdir(backupDirectory)).sort()).toEqual([
+      'memory-2000.db',
+      'memory-3000.db',
+      'memory-5000.db',
+      `pre-migration-v${version}-5000.db`,
+      'restore-pending.json',
+    ]);
+    expect((await readdir(root)).filter((fileName) => fileName.includes('pre-restore'))).toEqual([]);
+
+    for (const fileName of ['memory-2000.db', `pre-migration-v${version}-5000.db`]) {
+      const snapshotPath = path.join(backupDirectory, fileName);
+      expect(MemoryStore.verifyIntegrity(snapshotPath)).toEqual([]);
+      const copy = new MemoryStore({ filePath: snapshotPath, cipher });
+      stores.push(copy);
+      expect(copy.listMessages('session-1').map((message) => message.content)).toEqual(['Book a table']);
+    }
+  });
+
+  it('aborts a snapshot in progress and discards the partial copy', async () => {
+    const { store, scheduler, backupDirectory } = await createFixture();
+    store.createSession({ id: 'session-1', startedAt: 1, title: 'First' });
+    const error = vi.fn();
+    const logged = new MemoryBackupScheduler({ store, backupDirectory, logger: { error } });
+
+    const backup = logged.backupNow('quit');
+    await logged.abort();
+
+    await expect(backup).resolves.toBeNull();
+    expect(error).toHaveBeenCalledWith('Failed to back up memory database.', expect.objectContaining({ reason: 'quit' }));
+    expect(await readdir(backupDirectory)).toEqual([]);
+    await expect(scheduler.backupNow()).resolves.not.toBeNull();
+  });
+
+  it('backs up on the configured interval until stopped', async () => {
+    vi.useFakeTimers();
+    const { store, backupDirectory } = await createFixture();
+    const scheduler = new MemoryBackupScheduler({ store, backupDirectory, intervalMs: 60_000 });
+    const backupNow = vi.spyOn(scheduler, 'backupNow').mockResolvedValue(null);
+
+    scheduler.start();
+    vi.advanceTimersByTime(120_000);
+    scheduler.stop();
+    vi.advanceTimersByTime(120_000);
+
+    expect(backupNow).toHaveBeenCalledTimes(2);
+    expect(backupNow).toHaveBeenCalledWith('interval');
+  });
+
+  it('swaps in a requested snapshot on the next launch', async () => {
+    const { store, scheduler, databasePath, backupDirectory, root } = await createFixture();
+    store.createSession({ id: 'before', startedAt: 1, title: null });
+    const snapshot = await scheduler.backupNow();
+    store.createSession({ id: 'after', startedAt: 2, title: null });
+
+    await expect(scheduler.requestRestore('memory-missing.db')).rejects.toThrow(/not found/);
+    await scheduler.requestRestore(snapshot?.id ?? '');
+
+    stores.pop()?.dispose();
+    const restored = await applyPendingMemoryRestore({ databasePath, backupDirectory, now: () => 42 });
+
+    expect(restored).toBe(snapshot?.id);
+    const reopened = new MemoryStore({ filePath: databasePath });
+    stores.push(reopened);
+    expect(reopened.listSessions().map((session) => session.id)).toEqual(['before']);
+    expect(await readdir(root)).toContain('memory.db.pre-restore-42');
+    await expect(applyPendingMemoryRestore({ databasePath, backupDirectory })).resolves.toBeNull();
+  });
+
+  it('refuses snapshots sealed with a data key that has since been retired', async () => {
+    const retiredKey = MemoryCipher.generateKey();
+    const { store, scheduler, databasePath, backupDirectory } = await createFixture({
+      cipher: new MemoryCipher([retiredKey]),
+    });
+    store.createSession({ id: 'session-1', startedAt: 1, title: 'Sealed title' });
+    const snapshot = await scheduler.backupNow();
+    await scheduler.requestRestore(snapshot?.id ?? '');
+    stores.pop()?.dispose();
+    const error = vi.fn();
+
+    const cipher = new MemoryCipher([MemoryCipher.generateKey()]);
+    await expect(applyPendingMemoryRestore({ databasePath, backupDirectory, cipher, logger: { error } })).resolves.toBeNull();
+
+    expect(error).toHaveBeenCalledWith(
+      'Failed to restore memory database from backup.',
+      expect.objectContaining({ message: expect.stringContaining(retiredKey.id) }),
+    );
+    expect(MemoryStore.listSealingKeyIds(databasePath)).toEqual([retiredKey.id]);
+    expect((await readdir(path.dirname(databasePath))).some((name) => name.includes('pre-restore'))).toBe(false);
+  });
+
+  it('deletes pre-migration snapshots older than the retention window when rotating', async () => {
+    const { scheduler, backupDirectory } = await createFixture();
+    await mkdir(backupDirectory, { recursive: true });
+    await writeFile(path.join(backupDirectory, 'pre-migration-v2-500.db'), 'snapshot');
+    await writeFile(path.join(backupDirectory, 'pre-migration-v3-1500.db'), 'snapshot');
+
+    await scheduler.backupNow();
+    expect(await readdir(backupDirectory)).toContain('pre-migration-v2-500.db');
+
+    scheduler.setMaxSnapshotAge(3_000);
+    await scheduler.backupNow();
+
+    expect((await readdir(backupDirectory)).sort()).toEqual([
+      'memory-2000.db',
+      'memory-3000.db',
+      'pre-migration-v3-1500.db',
+    ]);
+  });
+
+  it('lists the keys snapshots are sealed with and refuses to schedule ones it cannot decrypt', async () => {
+    const retiredKey = MemoryCipher.generateKey();
+    const { root, store, scheduler, backupDirectory } = await createFixture({ cipher: new MemoryCipher([retiredKey]) });
+    store.createSession({ id: 'session-1', startedAt: 1, title: 'Sealed title' });
+    const snapshot = await scheduler.backupNow();
+    expect(await scheduler.listSealingKeyIds()).toEqual([retiredKey.id]);
+
+    const rotated = new MemoryStore({
+      filePath: path.join(root, 'rotated.db'),
+      cipher: new MemoryCipher([MemoryCipher.generateKey()]),
+    });
+    stores.push(rotated);
+    const rotatedScheduler = new MemoryBackupScheduler({ store: rotated, backupDirectory });
+
+    await expect(rotatedScheduler.requestRestore(snapshot?.id ?? '')).rejects.toThrow(retiredKey.id);
+    expect(await readdir(backupDirectory)).toEqual([snapshot?.id]);
+  });
+
+  it('ignores restore markers that do not name a snapshot', async () => {
+    const { databasePath, backupDirectory, store } = await createFixture();
+    store.createSession({ id: 'kept', startedAt: 1, title: null });
+    await mkdir(backupDirectory, { recursive: true });
+    await writeFile(path.join(backupDirectory, 'restore-pending.json'), JSON.stringify({ snapshotId: '../memory.db' }));
+    const error = vi.fn();
+
+    await expect(applyPendingMemoryRestore({ databasePath, backupDirectory, logger: { error } })).resolves.toBeNull();
+    expect(error).toHaveBeenCalledWith('Ignoring invalid memory restore request.', expect.any(Object));
+    expect(await readdir(backupDirectory)).toEqual([]);
+    expect(store.listSessions().map((session) => session.id)).toEqual(['kept']);
+  });
+});
@@ -0,0 +1,234 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { tmpdir } from 'node:os';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type OpenAI from 'openai';
+import { MemoryFactService } from '../src/memory/memory-fact-service.js';
+import { MemoryStore } from '../src/memory/memory-store.js';
+
+const tempDirs: string[] = [];
+const stores: MemoryStore[] = [];
+
+async function createStore() {
+  const directory = await mkdtemp(path.join(tmpdir(), 'memory-facts-'));
+  tempDirs.push(directory);
+  const store = new MemoryStore({ filePath: path.join(directory, 'memory.db') });
+  stores.push(store);
+  return store;
+}
+
+function createClient(outputText: string) {
+  const create = vi.fn<[unknown], Promise<{ output_text: string }>>().mockResolvedValue({ output_text: outputText });
+  const client = { responses: { create } } as unknown as OpenAI;
+  return { client, create };
+}
+
+function seedSession(
+  store: MemoryStore,
+  id: string,
+  startedAt: number,
+  messages: Array<[string, string]>,
+  profileId?: string,
+) {
+  store.createSession({ id, startedAt, title: null, profileId });
+  messages.forEach(([role, content], index) => {
+    store.appendMessage({
+      id: `${id}-m${index}`,
+      sessionId: id,
+      role,
+      ts: startedAt + index,
+      content,
+      audioPath: null,
+    });
+  });
+}
+
+afterEach(async () => {
+  while (stores.length > 0) {
+    stores.pop()?.dispose();
+  }
+
+  while (tempDirs.length > 0) {
+    const directory = tempDirs.pop();
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('MemoryFactService', () => {
+  it('extracts facts with local patterns when no client is available', async () => {
+    const store = await createStore();
+    seedSession(store, 'session-1', 1_000, [
+      ['user', 'Hi, my name is Sam and I live in Melbourne.'],
+      ['assistant', 'Nice to meet you, Sam.'],
+      ['user', 'I prefer metric units, please.'],
+    ]);
+
+    const service = new MemoryFactService({ store, now: () => 5_000 });
+    const facts = await service.extractFromSession('session-1');
+
+    expect(facts.map((fact) => fact.fact)).toEqual([
+      "User's name is Sam.",
+      'User lives in Melbourne.',
+      'User prefers metric units.',
+    ]);
+    expect(facts[0]).toMatchObject({ subject: 'user', sourceMessageId: 'session-1-m0', createdAt: 5_000 });
+  });
+
+  it('uses the model when available and drops unknown source message ids', async () => {
+    const store = await createStore();
+    seedSession(store, 'session-1', 1_000, [['user', 'Remember that my dog is called Biscuit.']]);
+    const { client, create } = createClient(
+      JSON.stringify({
+        facts: [
+          { subject: 'user', fact: 'User has a dog called Biscuit.', confidence: 0.9, sourceMessageId: 'session-1-m0' },
+          { subject: 'Biscuit', fact: 'Biscuit is a dog.', confidence: 0.6, sourceMessageId: 'missing' },
+        ],
+      }),
+    );
+
+    const service = new MemoryFactService({ store, getClient: () => client });
+    const facts = await service.extractFromSession('session-1');
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(facts).toEqual([
+      expect.objectContaining({ fact: 'User has a dog called Biscuit.', sourceMessageId: 'session-1-m0' }),
+      expect.objectContaining({ subject: 'Biscuit', sourceMessageId: null }),
+    ]);
+  });
+
+  it('falls back to local patterns when the model response is invalid', async () => {
+    const store = await createStore();
+    seedSession(store, 'session-1', 1_000, [['user', 'Call me Alex.']]);
+    const { client } = createClient('not json');
+    const warn = vi.fn();
+
+    const service = new MemoryFactService({ store, getClient: () => client, logger: { warn } });
+    const facts = await service.extractFromSession('session-1');
+
+    expect(facts.map((fact) => fact.fact)).toEqual(['User likes to be called Alex.']);
+    expect(warn).toHaveBeenCalledWith(
+      'Memory fact extraction via model failed; using local patterns.',
+      expect.objectContaining({ message: expect.stringContaining('invalid JSON') }),
+    );
+  });
+
+  it('processes each finished session once and skips the active session', async () => {
+    const store = await createStore();
+    seedSession(store, 'session-1', 1_000, [['user', 'My name is Sam.']]);
+    seedSession(store, 'session-2', 2_000, [['user', 'I live in Hobart.']]);
+
+    const service = new MemoryFactService({ store });
+
+    await expect(service.extractPendingSessions('session-2')).resolves.toBe(1);
+    await expect(service.extractPendingSessions('session-2')).resolves.toBe(0);
+    await expect(service.extractPendingSessions(null)).resolves.toBe(1);
+
+    expect(store.listMemoryFacts().map((fact) => fact.fact)).toEqual([
+      "User's name is Sam.",
+      'User lives in Hobart.',
+    ]);
+  });
+
+  it('extracts messages added to a session after it was processed', async () => {
+    const store = await createStore();
+    seedSession(store, 'session-1', 1_000, [['user', 'My name is Sam.']]);
+    seedSession(store, 'session-2', 2_000, [['user', 'I live in Hobart.']]);
+    store.setValue('memory:factsExtractedThrough', '1000');
+
+    const service = new MemoryFactService({ store });
+    await expect(service.extractPendingSessions(null)).resolves.toBe(1);
+    expect(store.getValue('memory:factsExtractedThrough')).toBeNull();
+
+    store.appendMessage({
+      id: 'session-1-m9',
+      sessionId: 'session-1',
+      role: 'user',
+      ts: 3_000,
+      content: 'I am allergic to peanuts.',
+      audioPath: null,
+    });
+    await expect(service.extractPendingSessions(null)).resolves.toBe(1);
+    await expect(service.extractPendingSessions(null)).resolves.toBe(0);
+
+    expect(store.listMemoryFacts().map((fact) => fact.fact).sort()).toEqual([
+      'User is allergic to peanuts.',
+      'User lives in Hobart.',
+    ]);
+  });
+
+  it('builds session instructions from the most relevant facts and marks them used', async () => {
+    const store = await createStore();
+    store.upsertMemoryFact({
+      id: 'fact-1',
+      subject: 'user',
+      fact: "User's name is Sam.",
+      sourceMessageId: null,
+      confidence: 0.9,
+      createdAt: 1,
+      lastUsedAt: null,
+    });
+    store.upsertMemoryFact({
+      id: 'fact-2',
+      subject: 'user',
+      fact: 'User might like jazz.',
+      sourceMessageId: null,
+      confidence: 0.2,
+      createdAt: 2,
+      lastUsedAt: null,
+    });
+
+    const service = new MemoryFactService({ store, now: () => 99 });
+    const context = service.getSessionContext('default');
+
+    expect(context.facts.map((fact) => fact.id)).toEqual(['fact-1']);
+    expect(context.instructions).toContain("- User's name is Sam.");
+    expect(context.instructions).not.toContain('jazz');
+    expect(store.listMemoryFacts()[0]).toMatchObject({ id: 'fact-1', lastUsedAt: 99 });
+  });
+
+  it('returns an empty context when nothing is remembered', async () => {
+    const store = await createStore();
+    const service = new MemoryFactService({ store });
+
+    expect(service.getSessionContext('default')).toEqual({ facts: [], instructions: '' });
+  });
+
+  it('searches remembered facts by keyword, best matches first', async () => {
+    const store = await createStore();
+    const facts: Array<[string, string, number]> = [
+      ['fact-1', "User's dog is called Rex.", 0.9],
+      ['fact-2', 'User walks the dog in the park every morning.', 0.5],
+      ['fact-3', 'User prefers metric units.', 0.8],
+    ];
+    for (const [id, fact, confidence] of facts) {
+      store.upsertMemoryFact({ id, subject: 'user', fact, sourceMessageId: null, confidence, createdAt: 1, lastUsedAt: null });
+    }
+
+    const service = new MemoryFactService({ store, now: () => 42 });
+
+    expect(service.searchFacts('Which park does the dog like?', 'default').map((fact) => fact.id)).toEqual(['fact-2', 'fact-1']);
+    expect(service.searchFacts('dog', 'default', { limit: 1 }).map((fact) => fact.id)).toEqual(['fact-1']);
+    expect(service.searchFacts('?', 'default')).toEqual([]);
+    expect(store.listMemoryFacts().find((fact) => fact.id === 'fact-2')?.lastUsedAt).toBe(42);
+    expect(store.listMemoryFacts().find((fact) => fact.id === 'fact-3')?.lastUsedAt).toBeNull();
+  });
+
+  it('keeps facts with the profile whose conversation they came from', async () => {
+    const store = await createStore();
+    store.createProfile({ id: 'guest', name: 'Guest', createdAt: 1 });
+    seedSession(store, 'session-1', 1_000, [['user', 'My name is Sam.']]);
+    seedSession(store, 'session-2', 2_000, [['user', 'My name is Alex.']], 'guest');
+
+    const service = new MemoryFactService({ store });
+    await service.extractPendingSessions(null);
+
+    expect(service.getSessionContext('default').facts.map((fact) => fact.fact)).toEqual(["User's name is Sam."]);
+    expect(service.getSessionContext('guest').facts.map((fact) => fact.fact)).toEqual(["User's name is Alex."]);
+    expect(service.searchFacts('name', 'guest').map((fact) => fact.fact)).toEqual(["User's name is Alex."]);
+
+    store.deleteProfile('guest');
+    expect(store.listMemoryFacts().map((fact) => fact.profileId)).toEqual(['default']);
+  });
+});
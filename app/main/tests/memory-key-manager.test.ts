@@ -0,0 +1,127 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { InMemorySecretStore } from '../src/config/secret-store.js';
+import { MemoryCipher, isEncryptedValue } from '../src/memory/memory-cipher.js';
+import { MemoryKeyManager } from '../src/memory/memory-key-manager.js';
+import { MemoryStore } from '../src/memory/memory-store.js';
+
+const tempDirs: string[] = [];
+const stores: MemoryStore[] = [];
+
+async function createStore(cipher: MemoryCipher) {
+  const directory = await mkdtemp(path.join(tmpdir(), 'memory-keys-'));
+  tempDirs.push(directory);
+  const store = new MemoryStore({ filePath: path.join(directory, 'memory.db'), cipher });
+  stores.push(store);
+  return store;
+}
+
+afterEach(async () => {
+  while (stores.length > 0) {
+    stores.pop()?.dispose();
+  }
+
+  while (tempDirs.length > 0) {
+    const directory = tempDirs.pop();
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('MemoryCipher', () => {
+  it('round-trips values and passes legacy plaintext through', () => {
+    const cipher = new MemoryCipher([MemoryCipher.generateKey()]);
+    const sealed = cipher.encrypt('hello world');
+
+    expect(isEncryptedValue(sealed)).toBe(true);
+    expect(sealed).not.toContain('hello');
+    expect(cipher.encrypt('hello world')).not.toBe(sealed);
+    expect(cipher.decrypt(sealed)).toBe('hello world');
+    expect(cipher.decrypt('plain text')).toBe('plain text');
+    expect(cipher.needsReencryption(sealed)).toBe(false);
+    expect(cipher.needsReencryption('plain text')).toBe(true);
+  });
+
+  it('rejects tampered values and unknown keys', () => {
+    const cipher = new MemoryCipher([MemoryCipher.generateKey()]);
+    const other = new MemoryCipher([MemoryCipher.generateKey()]);
+    const sealed = cipher.encrypt('secret');
+    const tampered = `${sealed.slice(0, -2)}${sealed.endsWith('A') ? 'B' : 'A'}=`;
+
+    expect(() => other.decrypt(sealed)).toThrow(/unavailable/);
+    expect(() => cipher.decrypt(tampered)).toThrow();
+    expect(() => new MemoryCipher([])).toThrow();
+  });
+});
+
+describe('MemoryKeyManager', () => {
+  it('creates a data key on first use and reuses it afterwards', async () => {
+    const secretStore = new InMemorySecretStore();
+    const first = await new MemoryKeyManager({ secretStore }).loadCipher();
+    const second = await new MemoryKeyManager({ secretStore }).loadCipher();
+
+    expect(second.keyId).toBe(first.keyId);
+    expect(second.decrypt(first.encrypt('value'))).toBe('value');
+    expect(await secretStore.getSecret('memoryDataKey')).toContain(first.keyId);
+  });
+
+  it('rotates the data key and re-encrypts stored values', async () => {
+    const secretStore = new InMemorySecretStore();
+    const manager = new MemoryKeyManager({ secretStore });
+    const store = await createStore(await manager.loadCipher());
+    store.setValue('greeting', 'hello');
+
+    const keyId = await manager.rotate(store);
+
+    expect(await secretStore.getSecret('memoryDataKey:pending')).toBeNull();
+    const reloaded = await new MemoryKeyManager({ secretStore }).loadCipher();
+    expect(reloaded.keyId).toBe(keyId);
+    expect(store.getValue('greeting')).toBe('hello');
+  });
+
+  it('keeps retired keys until no backup is sealed with them', async () => {
+    const secretStore = new InMemorySecretStore();
+    const manager = new MemoryKeyManager({ secretStore });
+    const original = await manager.loadCipher();
+    const sealedBeforeRotation = original.encrypt('old backup value');
+    const store = await createStore(original);
+
+    const keyId = await manager.rotate(store);
+
+    const reloaded = await new MemoryKeyManager({ secretStore }).loadCipher();
+    expect(reloaded.keyId).toBe(keyId);
+    expect(reloaded.decrypt(sealedBeforeRotation)).toBe('old backup value');
+
+    await expect(manager.pruneRetiredKeys([keyId, original.keyId])).resolves.toEqual([]);
+    await expect(manager.pruneRetiredKeys([keyId])).resolves.toEqual([original.keyId]);
+    expect(await secretStore.getSecret('memoryDataKey:retired')).toBeNull();
+    const pruned = await new MemoryKeyManager({ secretStore }).loadCipher();
+    expect(pruned.hasKey(original.keyId)).toBe(false);
+    expect(() => pruned.decrypt(sealedBeforeRotation)).toThrow(/unavailable/);
+  });
+
+  it('completes a rotation that was interrupted before promotion', async () => {
+    const secretStore = new InMemorySecretStore();
+    const original = MemoryCipher.generateKey();
+    const pending = MemoryCipher.generateKey();
+    await secretStore.setSecret('memoryDataKey', JSON.stringify(original));
+    await secretStore.setSecret('memoryDataKey:pending', JSON.stringify(pending));
+
+    const manager = new MemoryKeyManager({ secretStore });
+    const cipher = await manager.loadCipher();
+    expect(cipher.keyId).toBe(pending.id);
+
+    const store = await createStore(new MemoryCipher([original]));
+    store.setValue('greeting', 'hello');
+    store.rotateEncryption(cipher);
+
+    await expect(manager.completePendingRotation(store)).resolves.toBe(true);
+    expect(await secretStore.getSecret('memoryDataKey:pending')).toBeNull();
+    expect(JSON.parse((await secretStore.getSecret('memoryDataKey')) ?? '{}')).toEqual(pending);
+    expect(store.getValue('greeting')).toBe('hello');
+    await expect(manager.completePendingRotation(store)).resolves.toBe(false);
+  });
+});
@@ -1,8 +1,12 @@
-import { mkdtemp, rm } from 'node:fs/promises';
+import { readFileSync } from 'node:fs';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import path from 'node:path';
+import DatabaseConstructor from 'better-sqlite3';
 import { afterEach, describe, expect, it } from 'vitest';
+import { MemoryCipher } from '../src/memory/memory-cipher.js';
 import {
+  MemorySchemaError,
   MemoryStore,
   type MemoryStoreExport,
   type VrmModelRecord,
@@ -12,15 +16,30 @@ import {
 const tempDirs: string[] = [];
 const stores: MemoryStore[] = [];
 
-async function createStore(): Promise<MemoryStore> {
+async function createFilePath(): Promise<string> {
   const directory = await mkdtemp(path.join(tmpdir(), 'memory-store-'));
   tempDirs.push(directory);
-  const filePath = path.join(directory, 'memory.db');
-  const store = new MemoryStore({ filePath });
+  return path.join(directory, 'memory.db');
+}
+
+async function createStore(cipher?: MemoryCipher, filePath?: string, audioDirectory?: string): Promise<MemoryStore> {
+  const store = new MemoryStore({ filePath: filePath ?? (await createFilePath()), cipher, audioDirectory });
   stores.push(store);
   return store;
 }
 
+function readRawColumn(filePath: string, sql: string): string[] {
+  const db = new DatabaseConstructor(filePath, { readonly: true });
+  try {
+    return db
+      .prepare<[], { value: string }>(sql)
+      .all()
+      .map((row) => row.value);
+  } finally {
+    db.close();
+  }
+}
+
 async function cleanup() {
   while (stores.length > 0) {
     const store = stores.pop();
@@ -88,11 +107,101 @@ describe('MemoryStore', () => {
     const sessions = store.listSessions();
     expect(sessions.map((session) => session.id)).toEqual(['session-newer', 'session-older']);
     expect(sessions[1].title).toBeNull();
+    expect(store.listSessions({ limit: 1, offset: 1 }).map((session) => session.id)).toEqual(['session-older']);
+    expect(store.countSessions()).toBe(2);
 
     const older = store.getSessionWithMessages('session-older');
     expect(older?.title).toBeNull();
   });
 
+  it('stores rolling session summaries encrypted and carries them through exports', async () => {
+    const cipher = new MemoryCipher([MemoryCipher.generateKey()]);
+    const filePath = await createFilePath();
+    const store = await createStore(cipher, filePath);
+
+    store.createSession({ id: 'session-1', startedAt: 1, title: null });
+    expect(store.getSessionSummary('session-1')).toBeNull();
+
+    store.updateSessionSummary('session-1', '  The user is planning a trip to Lisbon.  ');
+    expect(store.getSessionSummary('session-1')).toBe('The user is planning a trip to Lisbon.');
+    expect(readRawColumn(filePath, 'SELECT summary AS value FROM sessions')[0]).toMatch(
+      new RegExp(`^enc:v1:${cipher.keyId}:`),
+    );
+
+    const exported = store.exportData();
+    expect(exported.sessions[0]).toMatchObject({ summary: 'The user is planning a trip to Lisbon.' });
+
+    const target = await createStore();
+    target.importData(exported, { strategy: 'replace' });
+    expect(target.getSessionSummary('session-1')).toBe('The user is planning a trip to Lisbon.');
+
+    store.updateSessionSummary('session-1', '   ');
+    expect(store.getSessionSummary('session-1')).toBeNull();
+    expect(store.getSessionSummary('missing')).toBeNull();
+  });
+
+  it('stores message metadata encrypted and carries it through exports', async () => {
+    const cipher = new MemoryCipher([MemoryCipher.generateKey()]);
+    const filePath = await createFilePath();
+    const store = await createStore(cipher, filePath);
+    const metadata = { name: 'get_weather', arguments: { city: 'Lisbon' }, result: { tempC: 21 } };
+
+    store.createSession({ id: 'session-1', startedAt: 1, title: null });
+    store.appendMessage({
+      id: 'tool-1',
+      sessionId: 'session-1',
+      role: 'tool',
+      ts: 1,
+      content: 'get_weather',
+      audioPath: null,
+      metadata,
+    });
+    store.appendMessage({ id: 'user-1', sessionId: 'session-1', role: 'user', ts: 2, content: 'Hi', audioPath: null });
+
+    expect(store.getMessage('tool-1')?.metadata).toEqual(metadata);
+    expect(store.getMessage('user-1')?.metadata).toBeNull();
+    expect(readRawColumn(filePath, 'SELECT metadata AS value FROM messages WHERE metadata IS NOT NULL')).toEqual([
+      expect.stringMatching(new RegExp(`^enc:v1:${cipher.keyId}:`)),
+    ]);
+
+    const target = await createStore();
+    target.importData(store.exportData(), { strategy: 'replace' });
+    expect(target.listMessages('session-1').map((message) => message.metadata)).toEqual([metadata, null]);
+  });
+
+  it('updates streaming messages in place and keeps them searchable', async () => {
+    const store = await createStore(new MemoryCipher([MemoryCipher.generateKey()]));
+
+    store.createSession({ id: 'session-1', startedAt: 1, title: null });
+    store.appendMessage({
+      id: 'reply-1',
+      sessionId: 'session-1',
+      role: 'assistant',
+      ts: 1,
+      content: 'The forecast',
+      audioPath: null,
+      status: 'streaming',
+    });
+
+    expect(store.listMessageReferences({ status: 'streaming' }).map((reference) => reference.id)).toEqual(['reply-1']);
+
+    store.updateMessage('reply-1', { content: 'The forecast says sunshine' });
+    expect(store.getMessage('reply-1')).toMatchObject({ content: 'The forecast says sunshine', status: 'streaming' });
+    expect(store.searchMessages('sunshine').map((result) => result.message.id)).toEqual(['reply-1']);
+
+    store.updateMessage('reply-1', { metadata: { voice: 'alloy' }, status: 'complete' });
+    expect(store.getMessage('reply-1')).toMatchObject({
+      content: 'The forecast says sunshine',
+      metadata: { voice: 'alloy' },
+      status: 'complete',
+    });
+    expect(store.listMessageReferences({ status: 'streaming' })).toEqual([]);
+
+    const target = await createStore();
+    target.importData(store.exportData(), { strategy: 'replace' });
+    expect(target.getMessage('reply-1')?.status).toBe('complete');
+  });
+
   it('supports key-value storage and deletion', async () => {
     const store = await createStore();
 
@@ -108,6 +217,250 @@ describe('MemoryStore', () => {
     expect(store.getValue('last-session')).toBeNull();
   });
 
+  it('scopes sessions, search and kv entries to profiles', async () => {
+    const store = await createStore();
+    store.createProfile({ id: 'ana', name: ' Ana ', createdAt: Date.now() + 1_000 });
+    store.createSession({ id: 'shared-device', startedAt: 1, title: null });
+    store.createSession({ id: 'ana-session', startedAt: 2, title: null, profileId: 'ana' });
+    store.appendMessage({ id: 'm-1', sessionId: 'shared-device', role: 'user', ts: 3, content: 'Pizza night', audioPath: null });
+    store.appendMessage({ id: 'm-2', sessionId: 'ana-session', role: 'user', ts: 4, content: 'Pizza lunch', audioPath: null });
+    store.setValue('conversation:currentSessionId', 'ana-session', 'ana');
+    store.setValue('avatar.activeVrmId', 'vrm-1');
+
+    expect(store.listProfiles().map((profile) => profile.name)).toEqual(['Default', 'Ana']);
+    expect(store.listSessions({ profileId: 'ana' }).map((session) => session.id)).toEqual(['ana-session']);
+    expect(store.countSessions('default')).toBe(1);
+    expect(store.countSessions()).toBe(2);
+    expect(store.getSessionWithMessages('shared-device')?.profileId).toBe('default');
+    expect(store.searchMessages('pizza', { profileId: 'ana' }).map((result) => result.message.id)).toEqual(['m-2']);
+    expect(store.getValue('conversation:currentSessionId')).toBeNull();
+    expect(store.getValue('conversation:currentSessionId', 'ana')).toBe('ana-session');
+
+    const exported = store.exportData();
+    expect(exported.kv).toEqual({ 'avatar.activeVrmId': 'vrm-1' });
+    expect(exported.profileKv).toEqual({ ana: { 'conversation:currentSessionId': 'ana-session' } });
+
+    const copy = await createStore();
+    const report = copy.importData(exported, { strategy: 'replace' });
+    expect(report.entities.profiles.new).toEqual(['default', 'ana']);
+    expect(report.entities.kv.new).toEqual(['avatar.activeVrmId', 'ana/conversation:currentSessionId']);
+    expect(copy.listSessions({ profileId: 'ana' }).map((session) => session.id)).toEqual(['ana-session']);
+
+    expect(() => store.deleteProfile('default')).toThrow(/default profile cannot be deleted/);
+    store.deleteProfile('ana');
+    expect(store.getProfile('ana')).toBeNull();
+    expect(store.getSessionWithMessages('ana-session')).toBeNull();
+    expect(store.getValue('conversation:currentSessionId', 'ana')).toBeNull();
+    expect(store.getValue('avatar.activeVrmId')).toBe('vrm-1');
+  });
+
+  it('moves history from before profiles into the default profile', async () => {
+    const filePath = await createFilePath();
+    const legacy = new DatabaseConstructor(filePath);
+    legacy.exec(`
+      CREATE TABLE sessions (id TEXT PRIMARY KEY, started_at INTEGER NOT NULL, title TEXT NULL);
+      CREATE TABLE messages (
+        id TEXT PRIMARY KEY, session_id TEXT NOT NULL, role TEXT NOT NULL, ts INTEGER NOT NULL,
+        content TEXT NOT NULL, audio_path TEXT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+      CREATE TABLE kv (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+      INSERT INTO sessions (id, started_at, title) VALUES ('session-1', 1, 'Before profiles');
+      INSERT INTO kv (key, value) VALUES ('conversation:currentSessionId', 'session-1'), ('avatar.activeVrmId', 'vrm-1');
+      PRAGMA user_version = 1;
+    `);
+    legacy.close();
+
+    const store = await createStore(undefined, filePath);
+
+    expect(store.listSessions({ profileId: 'default' }).map((session) => session.id)).toEqual(['session-1']);
+    expect(store.getValue('conversation:currentSessionId', 'default')).toBe('session-1');
+    expect(store.getValue('avatar.activeVrmId')).toBe('vrm-1');
+  });
+
+  it('snapshots an existing database before migrating it and drops the legacy face tables', async () => {
+    const filePath = await createFilePath();
+    const backupDirectory = path.join(path.dirname(filePath), 'backups');
+    const legacy = new DatabaseConstructor(filePath);
+    legacy.exec(`
+      CREATE TABLE sessions (id TEXT PRIMARY KEY, started_at INTEGER NOT NULL, title TEXT NULL);
+      CREATE TABLE messages (
+        id TEXT PRIMARY KEY, session_id TEXT NOT NULL, role TEXT NOT NULL, ts INTEGER NOT NULL,
+        content TEXT NOT NULL, audio_path TEXT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+      CREATE TABLE kv (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+      CREATE TABLE faces (id TEXT PRIMARY KEY, name TEXT NOT NULL, created_at INTEGER NOT NULL);
+      INSERT INTO sessions (id, started_at, title) VALUES ('session-1', 1, 'Before migrating');
+      PRAGMA user_version = 2;
+    `);
+    legacy.close();
+
+    const store = new MemoryStore({ filePath, preMigrationBackupDirectory: backupDirectory });
+    stores.push(store);
+
+    const snapshots = await readdir(backupDirectory);
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toMatch(/^pre-migration-v2-\d+\.db$/);
+    const snapshot = new DatabaseConstructor(path.join(backupDirectory, snapshots[0]), { readonly: true });
+    expect(snapshot.pragma('user_version', { simple: true })).toBe(2);
+    snapshot.close();
+
+    const schema = store.inspectSchema();
+    expect(schema.version).toBe(schema.latestVersion);
+    expect(schema.migrations.every((migration) => migration.status === 'applied')).toBe(true);
+    expect(schema.migrations[0].appliedAt).toBeNull();
+    expect(schema.migrations[schema.migrations.length - 1].appliedAt).toEqual(expect.any(Number));
+    expect(schema.tables.map((table) => table.name)).not.toContain('faces');
+    expect(schema.tables.map((table) => table.name)).not.toContain('messages_fts_data');
+    expect(schema.tables.find((table) => table.name === 'sessions')).toMatchObject({ rows: 1 });
+    expect(schema.tables.find((table) => table.name === 'messages')?.columns).toContain('status');
+
+    store.dispose();
+    stores.pop();
+    const reopened = await createStore(undefined, filePath);
+    expect(reopened.listSessions().map((session) => session.id)).toEqual(['session-1']);
+    expect(await readdir(backupDirectory)).toHaveLength(1);
+  });
+
+  it('refuses databases from a newer app version or with modified migrations', async () => {
+    const filePath = await createFilePath();
+    const store = await createStore(undefined, filePath);
+    const { latestVersion } = store.inspectSchema();
+    store.dispose();
+    stores.pop();
+
+    const db = new DatabaseConstructor(filePath);
+    db.prepare(`UPDATE schema_migrations SET checksum = 'edited' WHERE version = 3;`).run();
+    db.close();
+    expect(() => new MemoryStore({ filePath })).toThrow(MemorySchemaError);
+    expect(() => new MemoryStore({ filePath })).toThrow(/migration 3 differs/);
+
+    const newer = new DatabaseConstructor(filePath);
+    newer.pragma(`user_version = ${latestVersion + 1}`);
+    newer.close();
+    expect(() => new MemoryStore({ filePath })).toThrow(
+      new RegExp(`schema version ${latestVersion + 1}, but this app only supports up to version ${latestVersion}`),
+    );
+  });
+
+  it('lists message references for retention and reclaims space when compacted', async () => {
+    const store = await createStore();
+
+    store.createSession({ id: 'session-1', startedAt: 1, title: null });
+    store.createSession({ id: 'session-2', startedAt: 2, title: null });
+    store.appendMessage({ id: 'm1', sessionId: 'session-1', role: 'system', ts: 10, content: 'a', audioPath: '/a.wav' });
+    store.appendMessage({ id: 'm2', sessionId: 'session-1', role: 'user', ts: 20, content: 'b', audioPath: null });
+    store.appendMessage({ id: 'm3', sessionId: 'session-2', role: 'system', ts: 30, content: 'c'.repeat(200_000), audioPath: null });
+
+    expect(store.listMessageReferences({ role: 'system', before: 30 })).toEqual([
+      { id: 'm1', sessionId: 'session-1', role: 'system', ts: 10, audioPath: '/a.wav', status: 'complete' },
+    ]);
+    expect(store.listMessageReferences({ sessionId: 'session-2' }).map((message) => message.id)).toEqual(['m3']);
+
+    const before = store.getDatabaseSize();
+    store.deleteSession('session-2');
+    const afterDelete = store.getDatabaseSize();
+    expect(afterDelete.usedBytes).toBeLessThan(before.usedBytes);
+    expect(afterDelete.totalBytes).toBe(before.totalBytes);
+
+    store.compact();
+    expect(store.getDatabaseSize().totalBytes).toBeLessThan(before.totalBytes);
+    expect(store.listMessageReferences().map((message) => message.id)).toEqual(['m1', 'm2']);
+  });
+
+  it('clears summaries and facts older than a retention cutoff', async () => {
+    const store = await createStore();
+    store.createSession({ id: 'session-old', startedAt: 10, title: null });
+    store.createSession({ id: 'session-new', startedAt: 100, title: null });
+    store.updateSessionSummary('session-old', 'Talked about the old flat.');
+    store.updateSessionSummary('session-new', 'Talked about the new flat.');
+    store.upsertMemoryFact({ id: 'f1', subject: 'user', fact: 'User lived in Leeds.', sourceMessageId: null, confidence: 0.9, createdAt: 10, lastUsedAt: 200 });
+    store.upsertMemoryFact({ id: 'f2', subject: 'user', fact: 'User lives in York.', sourceMessageId: null, confidence: 0.9, createdAt: 100, lastUsedAt: null });
+
+    expect(store.clearSessionSummariesBefore(50)).toBe(1);
+    expect(store.deleteMemoryFactsBefore(50)).toBe(1);
+    expect(store.getSessionSummary('session-old')).toBeNull();
+    expect(store.getSessionSummary('session-new')).toBe('Talked about the new flat.');
+    expect(store.listMemoryFacts().map((fact) => fact.id)).toEqual(['f2']);
+  });
+
+  it('purges messages by time range, keyword and session with their facts and audio', async () => {
+    const store = await createStore(new MemoryCipher([MemoryCipher.generateKey()]), undefined, '/audio');
+    store.createProfile({ id: 'ana', name: 'Ana', createdAt: 1 });
+    store.createSession({ id: 'session-1', startedAt: 1, title: 'PIN talk' });
+    store.createSession({ id: 'session-2', startedAt: 2, title: null });
+    store.createSession({ id: 'ana-session', startedAt: 3, title: null, profileId: 'ana' });
+    store.appendMessage({ id: 'm1', sessionId: 'session-1', role: 'user', ts: 10, content: 'My PIN is 1234', audioPath: '/audio/m1.webm' });
+    store.appendMessage({ id: 'm2', sessionId: 'session-1', role: 'assistant', ts: 20, content: 'Noted.', audioPath: '/audio/../etc/m2.webm' });
+    store.appendMessage({ id: 'm3', sessionId: 'session-2', role: 'user', ts: 100, content: 'Book a table', audioPath: '/audio/m3.webm' });
+    store.appendMessage({ id: 'm4', sessionId: 'ana-session', role: 'user', ts: 110, content: 'My pin is secret', audioPath: null });
+    store.updateSessionSummary('session-1', 'The user shared a PIN.');
+    store.upsertMemoryFact({ id: 'f1', subject: 'user', fact: "User's PIN is 1234.", sourceMessageId: null, confidence: 0.9, createdAt: 15, lastUsedAt: null });
+    store.upsertMemoryFact({ id: 'f2', subject: 'user', fact: 'User eats out.', sourceMessageId: 'm3', confidence: 0.5, createdAt: 200, lastUsedAt: null });
+    store.upsertMemoryFact({ id: 'f3', subject: 'user', fact: 'User likes tea.', sourceMessageId: null, confidence: 0.5, createdAt: 300, lastUsedAt: null });
+    store.upsertMemoryFact({ id: 'f4', subject: 'user', fact: "User's pin is secret.", sourceMessageId: null, confidence: 0.4, createdAt: 100, lastUsedAt: null, profileId: 'ana' });
+    const removed: string[] = [];
+    const removeFile = async (filePath: string) => {
+      removed.push(filePath);
+    };
+
+    await expect(store.purge({})).rejects.toThrow(/needs a time range/);
+
+    const byKeyword = await store.purge({ containing: 'pin', profileId: 'default' }, { removeFile });
+    expect(byKeyword).toEqual({
+      messageIds: ['m1'],
+      sessionIds: [],
+      factIds: ['f1'],
+      audioPaths: ['/audio/m1.webm'],
+      failedAudioPaths: [],
+      clearedSessionIds: ['session-1'],
+    });
+    expect(store.getMessage('m4')).not.toBeNull();
+    expect(store.getSessionSummary('session-1')).toBeNull();
+    expect(store.getSessionWithMessages('session-1')?.title).toBeNull();
+    expect(store.searchMessages('1234')).toEqual([]);
+
+    const byRange = await store.purge({ from: 90, to: 105, profileId: 'default', keepSessionIds: ['session-1'] }, { removeFile });
+    expect(byRange).toMatchObject({ messageIds: ['m3'], sessionIds: ['session-2'], factIds: ['f2'] });
+    expect(store.getSessionWithMessages('session-2')).toBeNull();
+
+    const bySession = await store.purge({ sessionIds: ['session-1', 'ana-session'], profileId: 'default' }, { removeFile });
+    expect(bySession).toMatchObject({
+      messageIds: ['m2'],
+      sessionIds: ['session-1'],
+      factIds: [],
+      audioPaths: [],
+      failedAudioPaths: ['/audio/../etc/m2.webm'],
+    });
+    expect(store.getSessionWithMessages('ana-session')?.messages).toHaveLength(1);
+    expect(store.listMemoryFacts().map((fact) => fact.id)).toEqual(['f3', 'f4']);
+    expect(removed).toEqual(['/audio/m1.webm', '/audio/m3.webm']);
+  });
+
+  it('keeps imported audio paths only when they point inside the audio directory', async () => {
+    const source = await createStore();
+    source.createSession({ id: 'session-1', startedAt: 1, title: null });
+    source.appendMessage({ id: 'local', sessionId: 'session-1', role: 'user', ts: 1, content: 'One', audioPath: 'local.webm' });
+    source.appendMessage({ id: 'inside', sessionId: 'session-1', role: 'user', ts: 2, content: 'Two', audioPath: '/audio/inside.webm' });
+    source.appendMessage({ id: 'foreign', sessionId: 'session-1', role: 'user', ts: 3, content: 'Three', audioPath: '/home/user/.ssh/id_rsa' });
+    source.appendMessage({ id: 'escape', sessionId: 'session-1', role: 'user', ts: 4, content: 'Four', audioPath: '../memory.db' });
+    const exported = source.exportData();
+
+    const target = await createStore(undefined, undefined, '/audio');
+    target.importData(exported, { strategy: 'replace' });
+    expect(target.getSessionWithMessages('session-1')?.messages.map((message) => message.audioPath)).toEqual([
+      '/audio/local.webm',
+      '/audio/inside.webm',
+      null,
+      null,
+    ]);
+
+    const withoutDirectory = await createStore();
+    withoutDirectory.importData(exported, { strategy: 'replace' });
+    expect(withoutDirectory.getSessionWithMessages('session-1')?.messages.every((message) => message.audioPath === null)).toBe(true);
+  });
+
   it('exports and imports data using replace and merge strategies', async () => {
     const original = await createStore();
     const startedAt = Date.now();
@@ -180,6 +533,93 @@ describe('MemoryStore', () => {
     expect(mergeTarget.listVrmAnimations().map((item) => item.id)).toContain('vrma-1');
   });
 
+  it('rejects invalid exports before touching the database', async () => {
+    const store = await createStore();
+    store.createSession({ id: 'session-1', startedAt: 1, title: 'Keep' });
+
+    expect(() =>
+      store.importData({ sessions: [{ id: 'session-2', startedAt: 'yesterday' }], messages: [], kv: {} }),
+    ).toThrow(/Invalid memory export at sessions\.0\.startedAt/);
+    expect(() => store.importData(null)).toThrow(/Invalid memory export/);
+    expect(store.listSessions().map((session) => session.id)).toEqual(['session-1']);
+  });
+
+  it('plans merges as a dry run and resolves conflicts with the chosen policy', async () => {
+    const store = await createStore();
+    store.createSession({ id: 'same', startedAt: 10, title: 'Same' });
+    store.createSession({ id: 'changed', startedAt: 10, title: 'Local title' });
+    store.setValue('theme', 'dark');
+    store.setValue('volume', '5');
+
+    const incoming = {
+      sessions: [
+        { id: 'same', startedAt: 10, title: 'Same' },
+        { id: 'changed', startedAt: 20, title: 'Incoming title' },
+        { id: 'fresh', startedAt: 30, title: null },
+      ],
+      messages: [
+        { id: 'm-1', sessionId: 'fresh', role: 'user', ts: 31, content: 'Hi', audioPath: null },
+        { id: 'm-orphan', sessionId: 'unknown', role: 'user', ts: 32, content: 'Lost', audioPath: null },
+      ],
+      kv: { theme: 'light', volume: '5', language: 'en' },
+    };
+
+    const plan = store.importData(incoming, { strategy: 'merge', conflictPolicy: 'keep-local', dryRun: true });
+    expect(plan).toMatchObject({ strategy: 'merge', dryRun: true });
+    expect(plan.entities.sessions).toEqual({ new: ['fresh'], updated: [], conflicting: ['changed'], skipped: ['same'] });
+    expect(plan.entities.messages).toEqual({ new: ['m-1'], updated: [], conflicting: [], skipped: ['m-orphan'] });
+    expect(plan.entities.kv).toEqual({ new: ['language'], updated: [], conflicting: ['theme'], skipped: ['volume'] });
+    expect(store.listSessions()).toHaveLength(2);
+    expect(store.getValue('language')).toBeNull();
+
+    const newest = store.importData(incoming, {
+      strategy: 'merge',
+      conflictPolicy: { sessions: 'keep-newest', kv: 'keep-local' },
+    });
+    expect(newest.entities.sessions.updated).toEqual(['changed']);
+    expect(newest.entities.kv.conflicting).toEqual(['theme']);
+    expect(store.getSessionWithMessages('changed')?.title).toBe('Incoming title');
+    expect(store.listMessages('fresh').map((message) => message.id)).toEqual(['m-1']);
+    expect(store.getValue('theme')).toBe('dark');
+    expect(store.getValue('language')).toBe('en');
+
+    const older = store.importData(
+      { sessions: [{ id: 'changed', startedAt: 5, title: 'Stale' }], messages: [], kv: { theme: 'light' } },
+      { strategy: 'merge', conflictPolicy: 'keep-newest' },
+    );
+    expect(older.entities.sessions.conflicting).toEqual(['changed']);
+    expect(older.entities.kv.updated).toEqual(['theme']);
+    expect(store.getSessionWithMessages('changed')?.title).toBe('Incoming title');
+    expect(store.getValue('theme')).toBe('light');
+  });
+
+  it('skips re-imported messages whose metadata is unchanged', async () => {
+    const store = await createStore(new MemoryCipher([MemoryCipher.generateKey()]));
+    store.createSession({ id: 'session-1', startedAt: 1, title: 'Trip' });
+    store.appendMessage({
+      id: 'm-1',
+      sessionId: 'session-1',
+      role: 'assistant',
+      ts: 2,
+      content: 'Booked.',
+      audioPath: null,
+      metadata: { tool: { name: 'book', args: { city: 'Oslo', nights: 2 } }, tags: ['travel'] },
+    });
+    const exported = JSON.parse(JSON.stringify(store.exportData())) as MemoryStoreExport;
+
+    const plan = store.importData(exported, { strategy: 'merge', conflictPolicy: 'keep-incoming', dryRun: true });
+    expect(plan.entities.sessions).toEqual({ new: [], updated: [], conflicting: [], skipped: ['session-1'] });
+    expect(plan.entities.messages).toEqual({ new: [], updated: [], conflicting: [], skipped: ['m-1'] });
+
+    exported.messages[0]!.metadata = { tags: ['travel'], tool: { args: { nights: 2, city: 'Oslo' }, name: 'book' } };
+    const reordered = store.importData(exported, { strategy: 'merge', conflictPolicy: 'keep-incoming', dryRun: true });
+    expect(reordered.entities.messages.skipped).toEqual(['m-1']);
+
+    exported.messages[0]!.metadata = { tags: ['travel', 'work'] };
+    const changed = store.importData(exported, { strategy: 'merge', conflictPolicy: 'keep-incoming', dryRun: true });
+    expect(changed.entities.messages.updated).toEqual(['m-1']);
+  });
+
   it('stores VRM models and resets active model when deleted', async () => {
     const store = await createStore();
     const createdAt = Date.now();
@@ -230,4 +670,221 @@ describe('MemoryStore', () => {
     store.deleteVrmAnimation('vrma-42');
     expect(store.listVrmAnimations()).toHaveLength(0);
   });
+
+  it('searches message content with ranked snippets and filters', async () => {
+    const store = await createStore();
+    const base = Date.now();
+
+    store.createSession({ id: 'session-a', startedAt: base, title: null });
+    store.createSession({ id: 'session-b', startedAt: base + 1000, title: null });
+    store.appendMessage({
+      id: 'a-1',
+      sessionId: 'session-a',
+      role: 'user',
+      ts: base + 10,
+      content: 'Can you recommend a good pizza place downtown?',
+      audioPath: null,
+    });
+    store.appendMessage({
+      id: 'a-2',
+      sessionId: 'session-a',
+      role: 'assistant',
+      ts: base + 20,
+      content: 'The pizzeria on Main Street makes great pizza. Pizza lovers rate it highly.',
+      audioPath: null,
+    });
+    store.appendMessage({
+      id: 'b-1',
+      sessionId: 'session-b',
+      role: 'user',
+      ts: base + 1010,
+      content: 'What is the weather like today?',
+      audioPath: null,
+    });
+
+    const results = store.searchMessages('pizza');
+    expect(results.map((result) => result.message.id)).toEqual(['a-2', 'a-1']);
+    expect(results[0].snippet).toContain('[pizza');
+    expect(results[0].message).toMatchObject({ sessionId: 'session-a', role: 'assistant' });
+
+    expect(store.searchMessages('pizza', { role: 'user' }).map((result) => result.message.id)).toEqual(['a-1']);
+    expect(store.searchMessages('pizza', { sessionId: 'session-b' })).toEqual([]);
+    expect(store.searchMessages('pizza', { from: base + 15, to: base + 25 })).toHaveLength(1);
+    expect(store.searchMessages('pizza', { limit: 1 })).toHaveLength(1);
+    expect(store.searchMessages('"weather" (today?')).toHaveLength(1);
+    expect(store.searchMessages('   ')).toEqual([]);
+
+    store.deleteMessages(['a-2']);
+    expect(store.searchMessages('pizza').map((result) => result.message.id)).toEqual(['a-1']);
+
+    store.deleteSession('session-a');
+    expect(store.searchMessages('pizza')).toEqual([]);
+  });
+
+  it('deduplicates memory facts and orders them by relevance', async () => {
+    const store = await createStore();
+    store.createSession({ id: 'session-1', startedAt: 1, title: null });
+    store.appendMessage({
+      id: 'message-1',
+      sessionId: 'session-1',
+      role: 'user',
+      ts: 2,
+      content: 'My name is Sam.',
+      audioPath: null,
+    });
+
+    const first = store.upsertMemoryFact({
+      id: 'fact-1',
+      subject: 'user',
+      fact: "User's name is Sam.",
+      sourceMessageId: 'message-1',
+      confidence: 0.6,
+      createdAt: 10,
+      lastUsedAt: null,
+    });
+    const merged = store.upsertMemoryFact({
+      id: 'fact-duplicate',
+      subject: 'User',
+      fact: "user's name is sam.",
+      sourceMessageId: null,
+      confidence: 1.5,
+      createdAt: 20,
+      lastUsedAt: null,
+    });
+    store.upsertMemoryFact({
+      id: 'fact-2',
+      subject: 'user',
+      fact: 'User prefers metric units.',
+      sourceMessageId: null,
+      confidence: 0.5,
+      createdAt: 30,
+      lastUsedAt: null,
+    });
+
+    expect(first.id).toBe('fact-1');
+    expect(merged).toMatchObject({ id: 'fact-1', confidence: 1, sourceMessageId: 'message-1' });
+    expect(store.listMemoryFacts().map((fact) => fact.id)).toEqual(['fact-1', 'fact-2']);
+    expect(store.listMemoryFacts({ minConfidence: 0.7 }).map((fact) => fact.id)).toEqual(['fact-1']);
+
+    store.markMemoryFactsUsed(['fact-2'], 50);
+    expect(store.listMemoryFacts({ limit: 1, minConfidence: 0.5 })[0].id).toBe('fact-1');
+    expect(store.listMemoryFacts().find((fact) => fact.id === 'fact-2')?.lastUsedAt).toBe(50);
+
+    store.deleteMessages(['message-1']);
+    expect(store.listMemoryFacts()[0].sourceMessageId).toBeNull();
+
+    store.deleteMemoryFact('fact-1');
+    expect(store.listMemoryFacts().map((fact) => fact.id)).toEqual(['fact-2']);
+  });
+
+  it('encrypts titles, message content, kv values and facts at rest', async () => {
+    const cipher = new MemoryCipher([MemoryCipher.generateKey()]);
+    const filePath = await createFilePath();
+    const store = await createStore(cipher, filePath);
+
+    store.createSession({ id: 'session-1', startedAt: 1, title: 'Secret plans' });
+    store.appendMessage({
+      id: 'message-1',
+      sessionId: 'session-1',
+      role: 'user',
+      ts: 2,
+      content: 'The surprise party is on Friday.',
+      audioPath: null,
+    });
+    store.setValue('note', 'buy balloons');
+    store.upsertMemoryFact({
+      id: 'fact-1',
+      subject: 'user',
+      fact: 'User is planning a surprise party.',
+      sourceMessageId: 'message-1',
+      confidence: 0.8,
+      createdAt: 3,
+      lastUsedAt: null,
+    });
+
+    expect(store.getSessionWithMessages('session-1')).toMatchObject({
+      title: 'Secret plans',
+      messages: [expect.objectContaining({ content: 'The surprise party is on Friday.' })],
+    });
+    expect(store.getValue('note')).toBe('buy balloons');
+    expect(store.listMemoryFacts()[0].fact).toBe('User is planning a surprise party.');
+    expect(store.exportData().kv).toMatchObject({ note: 'buy balloons' });
+
+    const results = store.searchMessages('surprise');
+    expect(results.map((result) => result.message.id)).toEqual(['message-1']);
+    expect(results[0].snippet).toContain('[surprise]');
+
+    store.dispose();
+    stores.pop();
+
+    const raw = [
+      ...readRawColumn(filePath, 'SELECT title AS value FROM sessions'),
+      ...readRawColumn(filePath, 'SELECT content AS value FROM messages'),
+      ...readRawColumn(filePath, "SELECT value FROM kv WHERE key = 'note'"),
+      ...readRawColumn(filePath, 'SELECT fact AS value FROM memory_facts'),
+      ...readRawColumn(filePath, 'SELECT subject AS value FROM memory_facts'),
+    ];
+    expect(raw).toHaveLength(5);
+    for (const value of raw) {
+      expect(value.startsWith(`enc:v1:${cipher.keyId}:`)).toBe(true);
+      expect(value).not.toMatch(/surprise|Secret|balloons/i);
+    }
+    // The search index only holds keyed hashes of the words.
+    const file = readFileSync(filePath);
+    for (const word of ['surprise', 'Friday', 'party']) {
+      expect(file.includes(word)).toBe(false);
+    }
+
+    const withoutKey = await createStore(undefined, filePath);
+    expect(() => withoutKey.getValue('note')).toThrow(/no encryption key/);
+  });
+
+  it('encrypts existing plaintext rows and re-encrypts them on key rotation', async () => {
+    const filePath = await createFilePath();
+    const plainStore = await createStore(undefined, filePath);
+    plainStore.createSession({ id: 'session-1', startedAt: 1, title: 'Groceries' });
+    plainStore.appendMessage({
+      id: 'message-1',
+      sessionId: 'session-1',
+      role: 'user',
+      ts: 2,
+      content: 'Remember to buy oat milk.',
+      audioPath: null,
+    });
+    plainStore.dispose();
+    stores.pop();
+
+    const oldKey = MemoryCipher.generateKey();
+    const encrypted = new MemoryStore({ filePath, cipher: new MemoryCipher([oldKey]) });
+    stores.push(encrypted);
+    expect(readRawColumn(filePath, 'SELECT content AS value FROM messages')[0]).toMatch(
+      new RegExp(`^enc:v1:${oldKey.id}:`),
+    );
+    expect(encrypted.searchMessages('oat').map((result) => result.message.id)).toEqual(['message-1']);
+    // Freed pages are overwritten, so the plaintext rows do not linger in the file.
+    for (const word of ['Groceries', 'oat milk']) {
+      expect(readFileSync(filePath).includes(word)).toBe(false);
+    }
+
+    const newKey = MemoryCipher.generateKey();
+    encrypted.rotateEncryption(new MemoryCipher([newKey, oldKey]));
+    expect(encrypted.searchMessages('oat').map((result) => result.message.id)).toEqual(['message-1']);
+
+    for (const value of [
+      ...readRawColumn(filePath, 'SELECT title AS value FROM sessions'),
+      ...readRawColumn(filePath, 'SELECT content AS value FROM messages'),
+    ]) {
+      expect(value.startsWith(`enc:v1:${newKey.id}:`)).toBe(true);
+    }
+
+    encrypted.dispose();
+    stores.pop();
+
+    const reopened = new MemoryStore({ filePath, cipher: new MemoryCipher([newKey]) });
+    stores.push(reopened);
+    expect(reopened.getSessionWithMessages('session-1')).toMatchObject({
+      title: 'Groceries',
+      messages: [expect.objectContaining({ content: 'Remember to buy oat milk.' })],
+    });
+  });
 });
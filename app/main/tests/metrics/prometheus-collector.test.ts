@@ -16,6 +16,26 @@ describe('PrometheusCollector', () => {
     expect(metrics).toContain('aiembodied_wake_to_first_audio_seconds_count 1');
   });
 
+  it('counts assistant turns, token usage and avatar tags', async () => {
+    const collector = new PrometheusCollector({ host: '127.0.0.1', port: 0 });
+
+    collector.observeTurn({
+      usage: { inputTokens: 120, outputTokens: 30 },
+      interrupted: false,
+      avatarTags: ['animation:wave', 'pose:thinking'],
+    });
+    collector.observeTurn({ usage: { inputTokens: 80 }, interrupted: true });
+
+    const metrics = await collector.metrics();
+
+    expect(metrics).toContain('aiembodied_assistant_turns_total{interrupted="false"} 1');
+    expect(metrics).toContain('aiembodied_assistant_turns_total{interrupted="true"} 1');
+    expect(metrics).toContain('aiembodied_realtime_tokens_total{direction="input"} 200');
+    expect(metrics).toContain('aiembodied_realtime_tokens_total{direction="output"} 30');
+    expect(metrics).toContain('aiembodied_avatar_tags_total{kind="animation"} 1');
+    expect(metrics).toContain('aiembodied_avatar_tags_total{kind="pose"} 1');
+  });
+
   it('starts and stops an HTTP server when requested', async () => {
     const collector = new PrometheusCollector({ host: '127.0.0.1', port: 0 });
 
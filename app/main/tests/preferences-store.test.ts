@@ -31,4 +31,28 @@ describe('Preferences stores', () => {
     const contents = await readFile(filePath, 'utf8');
     expect(contents).toContain('mic-1');
   });
+
+  it('keeps a separate preferences file per profile', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'prefs-'));
+    const filePath = path.join(directory, 'preferences.json');
+    const store = new FilePreferencesStore(filePath);
+
+    await store.save({ realtimeVoice: 'alloy' });
+    store.switchProfile('ana');
+    await expect(store.load()).resolves.toEqual({});
+    await store.save({ realtimeVoice: 'verse', vadThreshold: 0.4 });
+
+    expect(JSON.parse(await readFile(path.join(directory, 'profiles', 'ana.json'), 'utf8'))).toEqual({
+      realtimeVoice: 'verse',
+      vadThreshold: 0.4,
+    });
+
+    store.switchProfile(null);
+    await expect(store.load()).resolves.toEqual({ realtimeVoice: 'alloy' });
+
+    await store.removeProfile('ana');
+    store.switchProfile('ana');
+    await expect(store.load()).resolves.toEqual({});
+    expect(() => store.switchProfile('../escape')).toThrow('Invalid preferences profile id');
+  });
 });
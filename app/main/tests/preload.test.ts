@@ -88,6 +88,162 @@ describe('preload bridge', () => {
     expect(removeListener).toHaveBeenCalledWith('wake-word:event', handler);
   });
 
+  it('routes conversation search through the bridge', async () => {
+    const [, api] = exposeInMainWorld.mock.calls[0];
+
+    invoke.mockResolvedValueOnce([]);
+    await expect(api.conversation.search('pizza', { role: 'user', limit: 5 })).resolves.toEqual([]);
+    expect(invoke).toHaveBeenCalledWith('conversation:search', {
+      query: 'pizza',
+      options: { role: 'user', limit: 5 },
+    });
+  });
+
+  it('routes conversation session management through the bridge', async () => {
+    const [, api] = exposeInMainWorld.mock.calls[0];
+
+    invoke.mockResolvedValueOnce({ currentSessionId: null, sessions: [], total: 0, offset: 10 });
+    await api.conversation.listSessions({ limit: 10, offset: 10 });
+    expect(invoke).toHaveBeenCalledWith('conversation:list-sessions', { limit: 10, offset: 10 });
+
+    invoke.mockResolvedValueOnce({ id: 'session-1', startedAt: 1, title: 'Trip planning' });
+    await api.conversation.renameSession('session-1', 'Trip planning');
+    expect(invoke).toHaveBeenCalledWith('conversation:rename-session', {
+      sessionId: 'session-1',
+      title: 'Trip planning',
+    });
+
+    invoke.mockResolvedValueOnce(undefined);
+    await api.conversation.deleteSession('session-1');
+    expect(invoke).toHaveBeenCalledWith('conversation:delete-session', { sessionId: 'session-1' });
+
+    invoke.mockResolvedValueOnce([]);
+    await api.conversation.getResumeMessages();
+    expect(invoke).toHaveBeenCalledWith('conversation:get-resume-messages');
+  });
+
+  it('routes profile management through the bridge', async () => {
+    const [, api] = exposeInMainWorld.mock.calls[0];
+
+    invoke.mockResolvedValueOnce({ activeProfileId: 'default', profiles: [] });
+    await api.profiles.list();
+    expect(invoke).toHaveBeenCalledWith('profile:list');
+
+    invoke.mockResolvedValueOnce({ id: 'ana', name: 'Ana', createdAt: 1 });
+    await api.profiles.create('Ana');
+    expect(invoke).toHaveBeenCalledWith('profile:create', { name: 'Ana' });
+
+    invoke.mockResolvedValueOnce({ profile: { id: 'ana', name: 'Ana', createdAt: 1 }, config: {} });
+    await api.profiles.switch('ana');
+    expect(invoke).toHaveBeenCalledWith('profile:switch', { profileId: 'ana' });
+
+    invoke.mockResolvedValueOnce(undefined);
+    await api.profiles.delete('ana');
+    expect(invoke).toHaveBeenCalledWith('profile:delete', { profileId: 'ana' });
+  });
+
+  it('routes conversation audio clips through the bridge', async () => {
+    const [, api] = exposeInMainWorld.mock.calls[0];
+    const data = new Uint8Array([1, 2, 3]);
+
+    invoke.mockResolvedValueOnce({ id: 'message-1', audioPath: '/audio/message-1.webm' });
+    await api.conversation.attachAudio({ messageId: 'message-1', mimeType: 'audio/webm', data });
+    expect(invoke).toHaveBeenCalledWith('conversation:attach-audio', {
+      messageId: 'message-1',
+      mimeType: 'audio/webm',
+      data,
+    });
+
+    invoke.mockResolvedValueOnce(null);
+    await expect(api.conversation.getAudio('message-1')).resolves.toBeNull();
+    expect(invoke).toHaveBeenCalledWith('conversation:get-audio', { messageId: 'message-1' });
+
+    invoke.mockResolvedValueOnce({ id: 'message-1', status: 'complete' });
+    await api.conversation.updateMessage({ messageId: 'message-1', delta: ' there', status: 'complete' });
+    expect(invoke).toHaveBeenCalledWith('conversation:update-message', {
+      messageId: 'message-1',
+      delta: ' there',
+      status: 'complete',
+    });
+
+    const purged = { messageIds: ['message-1'], sessionIds: [], removedFacts: 0, removedAudioFiles: 1 };
+    invoke.mockResolvedValueOnce(purged);
+    await expect(api.conversation.purge({ from: 1, to: 2 })).resolves.toEqual(purged);
+    expect(invoke).toHaveBeenCalledWith('conversation:purge', { from: 1, to: 2 });
+
+    invoke.mockResolvedValueOnce(null);
+    await api.conversation.exportTranscript({ sessionId: 'session-1', format: 'markdown' });
+    expect(invoke).toHaveBeenCalledWith('conversation:export-transcript', {
+      sessionId: 'session-1',
+      format: 'markdown',
+    });
+  });
+
+  it('exposes long-term memory context through the bridge', async () => {
+    const [, api] = exposeInMainWorld.mock.calls[0];
+
+    const context = { facts: [], instructions: '' };
+    invoke.mockResolvedValueOnce(context);
+    await expect(api.memory.getSessionContext()).resolves.toEqual(context);
+    expect(invoke).toHaveBeenCalledWith('memory:get-session-context');
+
+    invoke.mockResolvedValueOnce({ keyId: 'abcd1234' });
+    await expect(api.memory.rotateEncryptionKey()).resolves.toEqual({ keyId: 'abcd1234' });
+    expect(invoke).toHaveBeenCalledWith('memory:rotate-encryption-key');
+
+    invoke.mockResolvedValueOnce([]);
+    await expect(api.memory.listBackups()).resolves.toEqual([]);
+    expect(invoke).toHaveBeenCalledWith('memory:list-backups');
+
+    invoke.mockResolvedValueOnce(null);
+    await expect(api.memory.createBackup()).resolves.toBeNull();
+    expect(invoke).toHaveBeenCalledWith('memory:create-backup');
+
+    const snapshot = { id: 'memory-1.db', createdAt: 1, sizeBytes: 4096 };
+    invoke.mockResolvedValueOnce(snapshot);
+    await expect(api.memory.restoreBackup('memory-1.db')).resolves.toEqual(snapshot);
+    expect(invoke).toHaveBeenCalledWith('memory:restore-backup', 'memory-1.db');
+
+    const schema = { version: 14, latestVersion: 14, migrations: [], tables: [] };
+    invoke.mockResolvedValueOnce(schema);
+    await expect(api.memory.inspectSchema()).resolves.toEqual(schema);
+    expect(invoke).toHaveBeenCalledWith('memory:inspect-schema');
+  });
+
+  it('routes realtime tool calls through the bridge', async () => {
+    const [, api] = exposeInMainWorld.mock.calls[0];
+
+    invoke.mockResolvedValueOnce([{ name: 'get_current_time', description: 'Time', parameters: {} }]);
+    await expect(api.tools.list()).resolves.toHaveLength(1);
+    expect(invoke).toHaveBeenCalledWith('tools:list');
+
+    const request = { callId: 'call-1', name: 'get_current_time', arguments: '{}' };
+    invoke.mockResolvedValueOnce({ callId: 'call-1', name: 'get_current_time', output: '{}', isError: false });
+    await expect(api.tools.call(request)).resolves.toMatchObject({ isError: false });
+    expect(invoke).toHaveBeenCalledWith('tools:call', request);
+
+    const listener = vi.fn();
+    const dispose = api.tools.onAvatarTag(listener);
+    const handler = on.mock.calls.find(([channel]) => channel === 'tools:avatar-tag')?.[1];
+    handler?.({}, { type: 'anim', slug: 'wave' });
+    expect(listener).toHaveBeenCalledWith({ type: 'anim', slug: 'wave' });
+    dispose();
+    expect(removeListener).toHaveBeenCalledWith('tools:avatar-tag', handler);
+  });
+
+  it('routes library archive commands through the bridge', async () => {
+    const [, api] = exposeInMainWorld.mock.calls[0];
+
+    invoke.mockResolvedValueOnce(null);
+    await expect(api.library.exportArchive()).resolves.toBeNull();
+    expect(invoke).toHaveBeenCalledWith('library:export-archive', undefined);
+
+    const result = { sessions: 1, messages: 2, kvKeys: 0, vrmModels: 1, vrmaAnimations: 0, vrmPoses: 0, conflicts: [] };
+    invoke.mockResolvedValueOnce(result);
+    await expect(api.library.importArchive({ filePath: '/tmp/library.tar.gz', strategy: 'merge' })).resolves.toEqual(result);
+    expect(invoke).toHaveBeenCalledWith('library:import-archive', { filePath: '/tmp/library.tar.gz', strategy: 'merge' });
+  });
+
   it('exposes camera detection helpers through the bridge', async () => {
     const [, api] = exposeInMainWorld.mock.calls[0];
     const listener = vi.fn();
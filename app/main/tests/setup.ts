@@ -42,11 +42,36 @@ vi.mock('prom-client', () => {
     }
   }
 
+  class MockCounter {
+    public name: string;
+    private readonly values = new Map<string, number>();
+
+    constructor(configuration: { name: string; registers?: Array<{ registerMetric: (counter: MockCounter) => void }> }) {
+      this.name = configuration.name;
+      for (const registry of configuration.registers ?? []) {
+        registry.registerMetric(this);
+      }
+    }
+
+    inc(valueOrLabels?: number | Record<string, string>, maybeValue?: number): void {
+      const labels = typeof valueOrLabels === 'object' ? valueOrLabels : {};
+      const value = typeof valueOrLabels === 'number' ? valueOrLabels : (maybeValue ?? 1);
+      const key = Object.entries(labels)
+        .map(([label, labelValue]) => `${label}="${labelValue}"`)
+        .join(',');
+      this.values.set(key, (this.values.get(key) ?? 0) + value);
+    }
+
+    metrics(): string {
+      return Array.from(this.values, ([key, value]) => `${this.name}${key ? `{${key}}` : ''} ${value}`).join('\n');
+    }
+  }
+
   class MockRegistry {
     contentType = 'text/plain';
-    private readonly metricsList: MockHistogram[] = [];
+    private readonly metricsList: Array<MockHistogram | MockCounter> = [];
 
-    registerMetric(metric: MockHistogram): void {
+    registerMetric(metric: MockHistogram | MockCounter): void {
       this.metricsList.push(metric);
     }
 
@@ -58,6 +83,7 @@ vi.mock('prom-client', () => {
   const collectDefaultMetrics = vi.fn();
 
   return {
+    Counter: MockCounter,
     Histogram: MockHistogram,
     Registry: MockRegistry,
     collectDefaultMetrics,
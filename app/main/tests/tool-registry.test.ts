@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createBuiltinTools, toAvatarSlug } from '../src/tools/builtin-tools.js';
+import { ToolRegistry } from '../src/tools/tool-registry.js';
+import type { Tool } from '../src/tools/types.js';
+
+function createEchoTool(handler: Tool['handler'] = async (args) => args): Tool {
+  return {
+    name: 'echo',
+    description: 'Echoes its arguments.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string' },
+        count: { type: 'integer', minimum: 1, maximum: 3 },
+        mood: { type: 'string', enum: ['happy', 'sad'] },
+      },
+      required: ['text'],
+      additionalProperties: false,
+    },
+    handler,
+  };
+}
+
+function createRegistry(options: Parameters<typeof createBuiltinTools>[0] = {}) {
+  const registry = new ToolRegistry();
+  for (const tool of createBuiltinTools(options)) {
+    registry.register(tool);
+  }
+  return registry;
+}
+
+describe('ToolRegistry', () => {
+  it('lists registered tools without their handlers', () => {
+    const registry = new ToolRegistry();
+    registry.register(createEchoTool());
+
+    expect(registry.list()).toEqual([
+      expect.objectContaining({ name: 'echo', description: 'Echoes its arguments.' }),
+    ]);
+    expect(registry.list()[0]).not.toHaveProperty('handler');
+    expect(() => registry.register(createEchoTool())).toThrow('already registered');
+    expect(() => registry.register({ ...createEchoTool(), name: 'not valid' })).toThrow('Invalid tool name');
+
+    expect(registry.unregister('echo')).toBe(true);
+    expect(registry.has('echo')).toBe(false);
+  });
+
+  it('runs handlers with parsed arguments and serializes their result', async () => {
+    const handler = vi.fn(async (args: Record<string, unknown>) => ({ said: args.text }));
+    const registry = new ToolRegistry();
+    registry.register(createEchoTool(handler));
+
+    const result = await registry.call({ callId: 'call-1', name: 'echo', arguments: '{"text":"hi","count":2}' });
+
+    expect(handler).toHaveBeenCalledWith({ text: 'hi', count: 2 });
+    expect(result).toEqual({ callId: 'call-1', name: 'echo', output: '{"said":"hi"}', isError: false });
+  });
+
+  it('reports invalid calls and handler failures as error outputs', async () => {
+    const registry = new ToolRegistry();
+    registry.register(
+      createEchoTool(async () => {
+        throw new Error('boom');
+      }),
+    );
+
+    const call = (name: string, args: string) => registry.call({ callId: 'call-1', name, arguments: args });
+
+    await expect(call('missing', '{}')).resolves.toMatchObject({ isError: true, output: '{"error":"Unknown tool \\"missing\\"."}' });
+    await expect(call('echo', '{oops')).resolves.toMatchObject({ isError: true, output: expect.stringContaining('not valid JSON') });
+    await expect(call('echo', '{}')).resolves.toMatchObject({ output: expect.stringContaining('Missing required argument') });
+    await expect(call('echo', '{"text":1}')).resolves.toMatchObject({ output: expect.stringContaining('must be of type string') });
+    await expect(call('echo', '{"text":"a","count":1.5}')).resolves.toMatchObject({ output: expect.stringContaining('type integer') });
+    await expect(call('echo', '{"text":"a","count":9}')).resolves.toMatchObject({ output: expect.stringContaining('at most 3') });
+    await expect(call('echo', '{"text":"a","mood":"meh"}')).resolves.toMatchObject({ output: expect.stringContaining('one of') });
+    await expect(call('echo', '{"text":"a","extra":true}')).resolves.toMatchObject({ output: expect.stringContaining('Unexpected argument') });
+    await expect(call('echo', '{"text":"a"}')).resolves.toMatchObject({ isError: true, output: '{"error":"boom"}' });
+  });
+});
+
+describe('built-in tools', () => {
+  it('reports the current local time', async () => {
+    const registry = createRegistry({ now: () => Date.UTC(2024, 2, 15, 13, 5), timeZone: 'UTC' });
+
+    const result = await registry.call({ callId: 'call-1', name: 'get_current_time', arguments: '' });
+
+    expect(JSON.parse(result.output)).toEqual({
+      iso: '2024-03-15T13:05:00.000Z',
+      date: 'March 15, 2024',
+      time: '13:05',
+      weekday: 'Friday',
+      timeZone: 'UTC',
+    });
+  });
+
+  it('searches remembered facts and past messages', async () => {
+    const searchFacts = vi.fn(() => [{ id: 'fact-1', subject: 'user', fact: "User's dog is Rex.", confidence: 0.9 }]);
+    const searchMessages = vi.fn(() => [
+      {
+        message: {
+          id: 'm1',
+          sessionId: 's1',
+          role: 'user' as const,
+          ts: 0,
+          content: 'My dog Rex loves the park.',
+          audioPath: null,
+          metadata: null,
+          status: 'final' as const,
+        },
+        snippet: 'My [dog] Rex',
+        rank: 1,
+      },
+    ]);
+    const registry = createRegistry({ searchFacts, searchMessages });
+
+    const result = await registry.call({ callId: 'call-1', name: 'search_memory', arguments: '{"query":" dog ","limit":2}' });
+
+    expect(searchFacts).toHaveBeenCalledWith('dog', 2);
+    expect(searchMessages).toHaveBeenCalledWith('dog', 2);
+    expect(JSON.parse(result.output)).toEqual({
+      facts: [{ subject: 'user', fact: "User's dog is Rex." }],
+      messages: [{ role: 'user', at: '1970-01-01T00:00:00.000Z', excerpt: 'My [dog] Rex' }],
+    });
+  });
+
+  it('triggers known animations and poses on the avatar', async () => {
+    const emitAvatarTag = vi.fn(() => true);
+    const registry = createRegistry({
+      listAnimations: async () => [{ id: 'a1', name: 'Happy Wave', createdAt: 0, fileSha: 'x', duration: null, fps: null }],
+      listPoses: async () => [{ id: 'p1', name: 'Power Stance', createdAt: 0, fileSha: 'y' }],
+      emitAvatarTag,
+    });
+
+    await expect(
+      registry.call({ callId: 'call-1', name: 'play_animation', arguments: '{"slug":"happy-wave"}' }),
+    ).resolves.toMatchObject({ isError: false, output: '{"played":"happy-wave"}' });
+    await expect(
+      registry.call({ callId: 'call-2', name: 'apply_pose', arguments: '{"slug":"Power Stance"}' }),
+    ).resolves.toMatchObject({ isError: false });
+    await expect(
+      registry.call({ callId: 'call-3', name: 'play_animation', arguments: '{"slug":"moonwalk"}' }),
+    ).resolves.toMatchObject({ isError: true, output: '{"error":"No animation named \\"moonwalk\\"."}' });
+
+    expect(emitAvatarTag.mock.calls).toEqual([[{ type: 'anim', slug: 'happy-wave' }], [{ type: 'pose', slug: 'power-stance' }]]);
+  });
+
+  it('fails avatar tools when no window can play them', async () => {
+    const registry = createRegistry({
+      listAnimations: async () => [{ id: 'a1', name: 'wave', createdAt: 0, fileSha: 'x', duration: null, fps: null }],
+      emitAvatarTag: () => false,
+    });
+
+    const result = await registry.call({ callId: 'call-1', name: 'play_animation', arguments: '{"slug":"wave"}' });
+
+    expect(result).toMatchObject({ isError: true, output: '{"error":"The avatar is not available right now."}' });
+    expect(toAvatarSlug('  Happy  Wave! ')).toBe('happy-wave');
+  });
+});
@@ -17,14 +17,33 @@ import { flushSync } from 'react-dom';
 import { AvatarConfigurator } from './avatar/avatar-configurator.js';
 import { AudioGraph } from './audio/audio-graph.js';
 import { VisemeDriver, type VisemeFrame } from './audio/viseme-driver.js';
-import type { ConversationSessionWithMessages } from '../../main/src/conversation/types.js';
+import { TurnRecorder } from './audio/turn-recorder.js';
+import { ConversationHistoryBrowser } from './conversation/conversation-history-browser.js';
+import type {
+  ConversationMessage,
+  ConversationMessageMetadata,
+  ConversationMessageStatus,
+  ConversationSessionWithMessages,
+  ConversationTurnMetadata,
+} from '../../main/src/conversation/types.js';
+import { describeMessageMetadata } from './conversation/message-metadata.js';
+import { extractForgetMinutes, FORGET_INSTRUCTIONS } from './conversation/forget-intent.js';
 import { useAudioDevices } from './hooks/use-audio-devices.js';
 import { getPreloadApi, type PreloadApi } from './preload-api.js';
-import { RealtimeClient, type RealtimeClientState } from './realtime/realtime-client.js';
+import {
+  MOCK_REALTIME_ENDPOINT,
+  RealtimeClient,
+  type RealtimeClientCallbacks,
+  type RealtimeClientState,
+  type RealtimeHistoryMessage,
+  type RealtimeInterruption,
+  type RealtimeToolCall,
+  type RealtimeToolDefinition,
+} from './realtime/realtime-client.js';
 import { LatencyTracker, type LatencySnapshot } from './metrics/latency-tracker.js';
 import type { LatencyMetricName } from '../../main/src/metrics/types.js';
 import type { AvatarModelSummary, AvatarPoseSummary } from './avatar/types.js';
-import { extractAvatarTags, toAnimationSlug } from './avatar/animation-tags.js';
+import { extractAvatarTags, toAnimationSlug, type AvatarTag } from './avatar/animation-tags.js';
 import { Vector3 } from 'three';
 
 const CURSOR_IDLE_TIMEOUT_MS = 3000;
@@ -33,7 +52,7 @@ const MAX_TRANSCRIPT_ENTRIES = 200;
 
 type AudioGraphStatus = 'idle' | 'starting' | 'ready' | 'error';
 
-type TranscriptSpeaker = 'user' | 'assistant' | 'system';
+type TranscriptSpeaker = 'user' | 'assistant' | 'system' | 'tool' | 'event';
 
 interface AudioGraphState {
   level: number;
@@ -42,7 +61,7 @@ interface AudioGraphState {
   error: string | null;
 }
 
-type TabId = 'chatgpt' | 'character' | 'local';
+type TabId = 'chatgpt' | 'character' | 'local' | 'history';
 
 interface TabDefinition {
   id: TabId;
@@ -56,8 +75,24 @@ interface TranscriptEntry {
   speaker: TranscriptSpeaker;
   text: string;
   timestamp: number;
+  hasAudio?: boolean;
+  metadata?: ConversationMessageMetadata | null;
+  /** The text is still arriving, e.g. a live caption of the assistant's reply. */
+  streaming?: boolean;
 }
 
+type TurnAudioHandlers = Pick<
+  RealtimeClientCallbacks,
+  | 'onUserSpeechStarted'
+  | 'onUserSpeechStopped'
+  | 'onAssistantAudioStarted'
+  | 'onAssistantAudioStopped'
+  | 'onAssistantInterrupted'
+  | 'onTranscriptDelta'
+  | 'onUserTranscript'
+  | 'onResponseDone'
+>;
+
 type SecretKeyState<T> = Record<ConfigSecretKey, T>;
 
 const SECRET_KEYS: ConfigSecretKey[] = ['realtimeApiKey', 'wakeWordAccessKey'];
@@ -99,7 +134,7 @@ const DEFAULT_VOICE = 'shimmer';
 const ANIMATION_INSTRUCTION_PREFIX = 'Available animations:';
 
 function toTranscriptSpeaker(role: string): TranscriptSpeaker | null {
-  if (role === 'system' || role === 'user' || role === 'assistant') {
+  if (role === 'system' || role === 'user' || role === 'assistant' || role === 'tool' || role === 'event') {
     return role;
   }
 
@@ -139,15 +174,33 @@ function buildSessionInstructions(
   availableAnimations: string[],
   availablePoses: string[],
   activeVrmModel: AvatarModelSummary | null,
+  memoryContext = '',
 ): string {
   const trimmedBase = basePrompt.trim();
   const avatarDescription = buildAvatarDescription(activeVrmModel);
   const animationInstructions = buildAnimationInstructions(availableAnimations, availablePoses);
 
-  const parts = [trimmedBase, avatarDescription, animationInstructions].filter((s) => s.length > 0);
+  // Everything from the animation instructions on is stripped again when the base prompt is recovered.
+  const parts = [trimmedBase, avatarDescription, memoryContext.trim(), animationInstructions, FORGET_INSTRUCTIONS].filter(
+    (s) => s.length > 0,
+  );
   return parts.join('\n\n');
 }
 
+/** Replayed turns keep a note of where the user cut the assistant off. */
+function describeResumeText(message: ConversationMessage): string {
+  const metadata = message.metadata;
+  if (message.role !== 'assistant' || !metadata?.interrupted) {
+    return message.content;
+  }
+
+  const heard =
+    typeof metadata.interruptedAtMs === 'number'
+      ? ` after ${(metadata.interruptedAtMs / 1000).toFixed(1)} s of speech`
+      : '';
+  return `${message.content} [interrupted by the user${heard}]`;
+}
+
 function stripAnimationInstructions(instructions: string): string {
   const index = instructions.indexOf(ANIMATION_INSTRUCTION_PREFIX);
   if (index === -1) {
@@ -156,6 +209,14 @@ function stripAnimationInstructions(instructions: string): string {
   return instructions.slice(0, index).trim();
 }
 
+function stripMemoryContext(instructions: string, memoryContext: string): string {
+  const trimmed = memoryContext.trim();
+  if (!trimmed) {
+    return instructions;
+  }
+  return instructions.replace(trimmed, '').trim();
+}
+
 function useAudioGraphState(inputDeviceId?: string, enabled = true) {
   const [internalState, setInternalState] = useState<AudioGraphState>({
     level: 0,
@@ -577,8 +638,10 @@ function useIdleCursor(enabled: boolean) {
 
 function TranscriptOverlay({
   entries,
+  onReplay,
 }: {
   entries: TranscriptEntry[];
+  onReplay?: (entryId: string) => void;
 }) {
   if (entries.length === 0) {
     return (
@@ -596,13 +659,31 @@ function TranscriptOverlay({
         const minutes = time.getMinutes().toString().padStart(2, '0');
         const seconds = time.getSeconds().toString().padStart(2, '0');
         const label = `${hours}:${minutes}:${seconds}`;
+        const details = describeMessageMetadata(entry.speaker, entry.metadata);
         return (
-          <li key={entry.id} className={`transcript__item transcript__item--${entry.speaker}`}>
+          <li
+            key={entry.id}
+            className={`transcript__item transcript__item--${entry.speaker}${entry.streaming ? ' transcript__item--streaming' : ''}`}
+          >
             <div className="transcript__meta">
               <span className="transcript__speaker">{entry.speaker}</span>
               <span className="transcript__time">{label}</span>
             </div>
-            <p className="transcript__text">{entry.text}</p>
+            <p className="transcript__text">
+              {entry.text || <em className="transcript__placeholder">Voice input</em>}
+            </p>
+            {details ? <p className="transcript__details">{details}</p> : null}
+            {entry.hasAudio && onReplay ? (
+              <button
+                type="button"
+                className="transcript__replay"
+                onClick={() => onReplay(entry.id)}
+                aria-label={`Replay ${entry.speaker} audio from ${label}`}
+                data-testid="transcript-replay"
+              >
+                Replay
+              </button>
+            ) : null}
           </li>
         );
       })}
@@ -649,6 +730,14 @@ export default function App() {
   const activeSessionIdRef = useRef<string | null>(null);
   const messageIdsRef = useRef<Set<string>>(new Set());
   const latencyTrackerRef = useRef<LatencyTracker>(new LatencyTracker());
+  // Per-turn details collected while the assistant responds, attached to its message on response.done.
+  const turnLatencyRef = useRef<LatencySnapshot | null>(null);
+  const turnAvatarTagsRef = useRef<string[]>([]);
+  const turnInterruptionRef = useRef<RealtimeInterruption | null>(null);
+  // Resolves to the id of the streaming assistant message once it is stored; updates queue behind it.
+  const streamingReplyRef = useRef<Promise<string | null> | null>(null);
+  // User turns waiting for their transcript, keyed by realtime item id, resolving to the stored message id.
+  const userTurnsRef = useRef<Map<string, Promise<string | null>>>(new Map());
   const [latencySnapshot, setLatencySnapshot] = useState<LatencySnapshot | null>(null);
   const [activeVrmModel, setActiveVrmModel] = useState<AvatarModelSummary | null>(null);
   const [availableAnimationSlugs, setAvailableAnimationSlugs] = useState<string[]>([]);
@@ -659,6 +748,8 @@ export default function App() {
   const [jsonPoseError, setJsonPoseError] = useState<string | null>(null);
   const [animationListVersion, setAnimationListVersion] = useState(0);
   const [poseListVersion, setPoseListVersion] = useState(0);
+  const [realtimeTools, setRealtimeTools] = useState<RealtimeToolDefinition[]>([]);
+  const [typedMessage, setTypedMessage] = useState('');
   const animationBus = useMemo(() => createAvatarAnimationBus(), []);
   const [isListeningEnabled, setListeningEnabled] = useState(false);
   const [bonePositions, setBonePositions] = useState<{
@@ -682,6 +773,7 @@ export default function App() {
       { id: 'chatgpt', label: 'ChatGPT' },
       { id: 'character', label: 'Character' },
       { id: 'local', label: 'Local' },
+      { id: 'history', label: 'History' },
     ],
     [],
   );
@@ -690,6 +782,7 @@ export default function App() {
     chatgpt: null,
     character: null,
     local: null,
+    history: null,
   });
   const activeBridge = resolveApi();
 
@@ -731,6 +824,34 @@ export default function App() {
     setAnimationListVersion((v) => v + 1);
   }, []);
 
+  // Tools the main process can run for the model, advertised in the realtime session.
+  useEffect(() => {
+    const tools = resolveApi()?.tools;
+    if (!tools?.list) {
+      return;
+    }
+
+    let cancelled = false;
+    tools
+      .list()
+      .then((definitions) => {
+        if (!cancelled) {
+          setRealtimeTools(definitions);
+        }
+      })
+      .catch((error) => {
+        if (cancelled) {
+          return;
+        }
+        console.warn('Failed to load realtime tools.', error);
+        setRealtimeTools([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resolveApi]);
+
   // Load available poses for the test pose dropdown
   useEffect(() => {
     const bridge = resolveApi();
@@ -1089,6 +1210,9 @@ export default function App() {
         speaker,
         text: message.content,
         timestamp: message.ts,
+        hasAudio: Boolean(message.audioPath),
+        metadata: message.metadata,
+        streaming: message.status === 'streaming',
       });
       seen.add(message.id);
     }
@@ -1107,14 +1231,19 @@ export default function App() {
       text,
       timestamp = Date.now(),
       persist = true,
+      metadata = null,
+      status = 'complete',
     }: {
       speaker: TranscriptSpeaker;
       text: string;
       timestamp?: number;
       persist?: boolean;
-    }) => {
+      metadata?: ConversationMessageMetadata | null;
+      status?: ConversationMessageStatus;
+    }): Promise<string | null> => {
       const canPersist = Boolean(persist && api?.conversation && activeSessionIdRef.current);
       let entryId = `${timestamp}-${Math.random().toString(36).slice(2, 10)}`;
+      let persistedId: string | null = null;
 
       if (canPersist) {
         // We verified api.conversation exists in canPersist check, but TypeScript needs a direct check
@@ -1126,8 +1255,11 @@ export default function App() {
               role: speaker,
               content: text,
               ts: timestamp,
+              metadata,
+              status,
             });
             entryId = message.id;
+            persistedId = message.id;
             messageIdsRef.current.add(message.id);
           } catch (error) {
             console.error('Failed to persist conversation message', error);
@@ -1137,14 +1269,70 @@ export default function App() {
 
       setTranscriptEntries((previous) => {
         const filtered = previous.filter((entry) => entry.id !== entryId);
-        const next = [...filtered, { id: entryId, speaker, text, timestamp }];
+        const next = [...filtered, { id: entryId, speaker, text, timestamp, metadata, streaming: status === 'streaming' }];
         next.sort((a, b) => a.timestamp - b.timestamp);
         return next.slice(-MAX_TRANSCRIPT_ENTRIES);
       });
+
+      return persistedId;
     },
     [api],
   );
 
+  // Spoken "forget" requests erase the recent conversation, its recordings and anything learned from it.
+  const forgetRecentConversation = useCallback(
+    async (minutes: number) => {
+      const conversationApi = resolveApi()?.conversation;
+      if (!conversationApi?.purge) {
+        return;
+      }
+
+      const to = Date.now();
+      try {
+        const result = await conversationApi.purge({ from: to - minutes * 60_000, to });
+        void recordTranscriptEntry({
+          speaker: 'event',
+          text: `Forgot the last ${minutes} minute${minutes === 1 ? '' : 's'} of conversation.`,
+          metadata: { type: 'forget', minutes, removedMessages: result.messageIds.length, source: 'realtime-text' },
+        });
+      } catch (error) {
+        console.error('Failed to forget recent conversation', error);
+      }
+    },
+    [recordTranscriptEntry, resolveApi],
+  );
+
+  const turnRecorder = useMemo(() => {
+    if (!TurnRecorder.isSupported()) {
+      return null;
+    }
+
+    return new TurnRecorder({
+      saveClip: async (messageId, clip) => {
+        const conversationApi = resolveApi()?.conversation;
+        if (!conversationApi) {
+          return;
+        }
+
+        const message = await conversationApi.attachAudio({ messageId, mimeType: clip.mimeType, data: clip.data });
+        setTranscriptEntries((previous) =>
+          previous.map((entry) => (entry.id === message.id ? { ...entry, hasAudio: Boolean(message.audioPath) } : entry)),
+        );
+      },
+      onError: (error) => {
+        console.warn('Failed to record conversation turn audio', error);
+      },
+    });
+  }, [resolveApi]);
+
+  useEffect(() => {
+    return () => {
+      turnRecorder?.dispose();
+    };
+  }, [turnRecorder]);
+
+  const replayAudioRef = useRef<HTMLAudioElement | null>(null);
+
   const { inputs, outputs, error: deviceError, refresh: refreshDevices } = useAudioDevices();
 
   const [selectedInput, setSelectedInput] = useState('');
@@ -1160,6 +1348,10 @@ export default function App() {
   const [vadMinSpeechMs, setVadMinSpeechMs] = useState<number>(400);
   const stagedSessionConfigRef = useRef<SessionConfigUpdate | null>(null);
   const [isSessionConfigReady, setSessionConfigReady] = useState(false);
+  const [memoryContext, setMemoryContext] = useState('');
+  // Without a memory bridge there is no context to wait for.
+  const [isMemoryContextReady, setMemoryContextReady] = useState(() => !(api ?? getPreloadApi())?.memory);
+  const memoryContextRef = useRef('');
 
   const availableVoices = useMemo(() => {
     const base = [...STATIC_VOICE_OPTIONS];
@@ -1194,13 +1386,15 @@ export default function App() {
   const configInputDeviceId = config?.audioInputDeviceId ?? '';
   const configOutputDeviceId = config?.audioOutputDeviceId ?? '';
   const hasRealtimeSupport = typeof RTCPeerConnection === 'function';
-  const hasRealtimeApiKey = config?.hasRealtimeApiKey ?? false;
+  const isRealtimeMock = config?.realtimeMock ?? false;
+  // The mock realtime server accepts any token, so offline sessions connect without a key.
+  const hasRealtimeApiKey = (config?.hasRealtimeApiKey ?? false) || isRealtimeMock;
   const sessionInstructions = useMemo(
     () => {
       const poseSlugs = availablePoses.map((p) => toAnimationSlug(p.name)).filter((s) => s.length > 0);
-      return buildSessionInstructions(basePrompt, availableAnimationSlugs, poseSlugs, activeVrmModel);
+      return buildSessionInstructions(basePrompt, availableAnimationSlugs, poseSlugs, activeVrmModel, memoryContext);
     },
-    [basePrompt, availableAnimationSlugs, availablePoses, activeVrmModel],
+    [basePrompt, availableAnimationSlugs, availablePoses, activeVrmModel, memoryContext],
   );
   const availableAnimationSlugSet = useMemo(
     () => new Set(availableAnimationSlugs),
@@ -1211,45 +1405,78 @@ export default function App() {
     [availablePoses],
   );
   const animationTextHandlerRef = useRef<(text: string) => void>(() => undefined);
-  const handleRealtimeTextContent = useCallback(
-    (content: string) => {
-      if (!content) {
-        return;
-      }
-      const tags = extractAvatarTags(content, {
-        allowedAnimationSlugs: availableAnimationSlugSet,
-        allowedPoseSlugs: availablePoseSlugSet,
-      });
-      if (tags.length === 0) {
-        return;
-      }
+  const avatarTagHandlerRef = useRef<(tags: AvatarTag[], source: string) => void>(() => undefined);
+  const applyAvatarTags = useCallback(
+    (tags: AvatarTag[], source: string) => {
       for (const tag of tags) {
+        const avatarTag = `${tag.type}:${tag.slug}`;
+        if (!turnAvatarTagsRef.current.includes(avatarTag)) {
+          turnAvatarTagsRef.current.push(avatarTag);
+        }
         if (tag.type === 'pose') {
           // Find the pose by slug and load its data to apply
           const pose = availablePoses.find((p) => toAnimationSlug(p.name) === tag.slug);
           if (pose) {
+            void recordTranscriptEntry({
+              speaker: 'event',
+              text: `Pose applied: ${pose.name}`,
+              metadata: { type: 'pose', slug: tag.slug, poseId: pose.id, source },
+            });
             const bridge = resolveApi();
             bridge?.avatar?.loadPose(pose.id).then((poseData) => {
               if (poseData && typeof poseData === 'object') {
-                animationBus.applyPose(poseData as Record<string, { rotation: number[]; position?: number[] }>, 'realtime-text');
+                animationBus.applyPose(poseData as Record<string, { rotation: number[]; position?: number[] }>, source);
               }
             }).catch((error) => {
               console.error('[App] Failed to load pose from LLM tag', error);
             });
           }
         } else {
-          animationBus.enqueue({ slug: tag.slug, intent: 'play', source: 'realtime-text' });
+          animationBus.enqueue({ slug: tag.slug, intent: 'play', source });
+          void recordTranscriptEntry({
+            speaker: 'event',
+            text: `Animation triggered: ${tag.slug}`,
+            metadata: { type: 'animation', slug: tag.slug, source },
+          });
         }
       }
     },
-    [animationBus, availableAnimationSlugSet, availablePoseSlugSet, availablePoses, resolveApi],
+    [animationBus, availablePoses, recordTranscriptEntry, resolveApi],
+  );
+  const handleRealtimeTextContent = useCallback(
+    (content: string) => {
+      if (!content) {
+        return;
+      }
+      const tags = extractAvatarTags(content, {
+        allowedAnimationSlugs: availableAnimationSlugSet,
+        allowedPoseSlugs: availablePoseSlugSet,
+      });
+      if (tags.length > 0) {
+        applyAvatarTags(tags, 'realtime-text');
+      }
+    },
+    [applyAvatarTags, availableAnimationSlugSet, availablePoseSlugSet],
   );
 
   useEffect(() => {
     animationTextHandlerRef.current = handleRealtimeTextContent;
-  }, [handleRealtimeTextContent]);
+    avatarTagHandlerRef.current = applyAvatarTags;
+  }, [handleRealtimeTextContent, applyAvatarTags]);
+
+  // Tools validate the slug in the main process before asking the avatar to move.
+  useEffect(() => {
+    const unsubscribe = resolveApi()?.tools?.onAvatarTag?.((tag) => {
+      avatarTagHandlerRef.current([tag], 'realtime-tool');
+    });
+    return () => {
+      unsubscribe?.();
+    };
+  }, [resolveApi]);
 
   const remoteAudioRef = useRef<HTMLAudioElement>(null);
+  const turnAudioHandlersRef = useRef<TurnAudioHandlers>({});
+  const toolCallHandlerRef = useRef<(call: RealtimeToolCall) => void>(() => undefined);
   const visemeDriverRef = useRef<VisemeDriver | null>(null);
   const [playbackIssue, setPlaybackIssue] = useState<string | null>(null);
   const realtimeClient = useMemo(() => {
@@ -1259,6 +1486,7 @@ export default function App() {
 
     return new RealtimeClient({
       handshakeMode: 'sdp',
+      ...(isRealtimeMock ? { endpoint: MOCK_REALTIME_ENDPOINT } : {}),
       callbacks: {
         onStateChange: setRealtimeState,
         onSessionUpdated: (session) => {
@@ -1267,13 +1495,25 @@ export default function App() {
           }
 
           if (typeof session.instructions === 'string') {
-            const nextPrompt = stripAnimationInstructions(session.instructions);
+            const nextPrompt = stripMemoryContext(
+              stripAnimationInstructions(session.instructions),
+              memoryContextRef.current,
+            );
             setBasePrompt(nextPrompt.trim().length > 0 ? nextPrompt : DEFAULT_PROMPT);
           }
         },
         onTextContent: (content) => {
           animationTextHandlerRef.current?.(content);
         },
+        onUserSpeechStarted: () => turnAudioHandlersRef.current.onUserSpeechStarted?.(),
+        onUserSpeechStopped: (event) => turnAudioHandlersRef.current.onUserSpeechStopped?.(event),
+        onUserTranscript: (transcript) => turnAudioHandlersRef.current.onUserTranscript?.(transcript),
+        onAssistantAudioStarted: () => turnAudioHandlersRef.current.onAssistantAudioStarted?.(),
+        onAssistantAudioStopped: () => turnAudioHandlersRef.current.onAssistantAudioStopped?.(),
+        onAssistantInterrupted: (interruption) => turnAudioHandlersRef.current.onAssistantInterrupted?.(interruption),
+        onTranscriptDelta: (delta) => turnAudioHandlersRef.current.onTranscriptDelta?.(delta),
+        onResponseDone: (response) => turnAudioHandlersRef.current.onResponseDone?.(response),
+        onToolCall: (call) => toolCallHandlerRef.current(call),
         onRemoteStream: (stream) => {
           setRemoteStream(stream);
           const element = remoteAudioRef.current;
@@ -1300,6 +1540,7 @@ export default function App() {
           if (snapshot) {
             setLatencySnapshot((previous) => ({ ...(previous ?? {}), ...snapshot }));
             pushLatency(snapshot);
+            turnLatencyRef.current = latencyTrackerRef.current.getLastSnapshot();
           }
         },
         onLog: (entry) => {
@@ -1315,7 +1556,12 @@ export default function App() {
         },
       },
     });
-  }, [hasRealtimeSupport, pushLatency]);
+  }, [hasRealtimeSupport, isRealtimeMock, pushLatency]);
+
+  const realtimeTransport = config?.realtimeTransport ?? 'webrtc';
+  useEffect(() => {
+    realtimeClient?.setTransport(realtimeTransport);
+  }, [realtimeClient, realtimeTransport]);
 
   const mintEphemeralToken = useCallback(
     async (reason: string) => {
@@ -1386,6 +1632,32 @@ export default function App() {
     };
   }, [realtimeClient, resolveReconnectToken]);
 
+  const resolveResumeHistory = useCallback(async (): Promise<RealtimeHistoryMessage[]> => {
+    const conversation = resolveApi()?.conversation;
+    if (!conversation?.getResumeMessages) {
+      return [];
+    }
+
+    const messages = await conversation.getResumeMessages();
+    return messages.flatMap((message) =>
+      message.role === 'user' || message.role === 'assistant'
+        ? [{ id: message.id, role: message.role, text: describeResumeText(message) }]
+        : [],
+    );
+  }, [resolveApi]);
+
+  useEffect(() => {
+    if (!realtimeClient) {
+      return;
+    }
+
+    realtimeClient.setHistoryProvider(resolveResumeHistory);
+
+    return () => {
+      realtimeClient.setHistoryProvider(undefined);
+    };
+  }, [realtimeClient, resolveResumeHistory]);
+
   useEffect(() => {
     const driver = new VisemeDriver({
       onFrame: (frame) => {
@@ -1553,31 +1825,397 @@ export default function App() {
       messageIdsRef.current.add(message.id);
       setTranscriptEntries((previous) => {
         const filtered = previous.filter((entry) => entry.id !== message.id);
-        const next = [...filtered, { id: message.id, speaker, text: message.content, timestamp: message.ts }];
+        const next = [
+          ...filtered,
+          {
+            id: message.id,
+            speaker,
+            text: message.content,
+            timestamp: message.ts,
+            hasAudio: Boolean(message.audioPath),
+            metadata: message.metadata,
+            streaming: message.status === 'streaming',
+          },
+        ];
         next.sort((a, b) => a.timestamp - b.timestamp);
         return next.slice(-MAX_TRANSCRIPT_ENTRIES);
       });
     });
 
+    const unsubscribeMessageUpdate = conversationBridge.onMessageUpdated?.((message) => {
+      if (!activeSessionIdRef.current || message.sessionId !== activeSessionIdRef.current) {
+        return;
+      }
+
+      setTranscriptEntries((previous) =>
+        previous.map((entry) =>
+          entry.id === message.id
+            ? {
+                ...entry,
+                text: message.content,
+                metadata: message.metadata,
+                streaming: message.status === 'streaming',
+              }
+            : entry,
+        ),
+      );
+    });
+
+    const unsubscribePurge = conversationBridge.onMessagesPurged?.(({ messageIds }) => {
+      const purged = new Set(messageIds);
+      setTranscriptEntries((previous) => previous.filter((entry) => !purged.has(entry.id)));
+    });
+
     return () => {
       cancelled = true;
       unsubscribeSession();
       unsubscribeMessage();
+      unsubscribeMessageUpdate?.();
+      unsubscribePurge?.();
     };
   }, [api, resolveApi, applySessionHistory]);
 
+  useEffect(() => {
+    memoryContextRef.current = memoryContext;
+  }, [memoryContext]);
+
+  useEffect(() => {
+    const conversationBridge = resolveApi()?.conversation;
+    if (!realtimeClient || !conversationBridge?.onMessagesPurged) {
+      return;
+    }
+
+    // Forgotten turns leave the live session too, so the model cannot bring them back up.
+    return conversationBridge.onMessagesPurged(({ messageIds }) => {
+      realtimeClient.forgetMessages(messageIds);
+    });
+  }, [api, realtimeClient, resolveApi]);
+
+  useEffect(() => {
+    const bridge = resolveApi();
+    const memoryBridge = bridge?.memory;
+    if (!memoryBridge) {
+      return;
+    }
+
+    let cancelled = false;
+
+    // Facts from finished sessions are refreshed whenever a new conversation session starts, and the
+    // rolling summary whenever old turns are pruned, so the next connect (or the session.update
+    // pushed on change) carries what was learned.
+    const loadMemoryContext = () => {
+      memoryBridge
+        .getSessionContext()
+        .then((context) => {
+          if (!cancelled) {
+            setMemoryContext(context.instructions.trim());
+          }
+        })
+        .catch((error) => {
+          console.warn('Failed to load long-term memory context', error);
+        })
+        .finally(() => {
+          if (!cancelled) {
+            setMemoryContextReady(true);
+          }
+        });
+    };
+
+    loadMemoryContext();
+    const unsubscribeSession = bridge?.conversation?.onSessionStarted(() => {
+      loadMemoryContext();
+    });
+    const unsubscribeSummary = bridge?.conversation?.onSessionSummarized(() => {
+      loadMemoryContext();
+    });
+    const unsubscribePurge = bridge?.conversation?.onMessagesPurged?.(() => {
+      loadMemoryContext();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribeSession?.();
+      unsubscribeSummary?.();
+      unsubscribePurge?.();
+    };
+  }, [api, resolveApi]);
+
   useEffect(() => {
     setSelectedInput((previous) => (previous === configInputDeviceId ? previous : configInputDeviceId));
     setSelectedOutput((previous) => (previous === configOutputDeviceId ? previous : configOutputDeviceId));
   }, [configInputDeviceId, configOutputDeviceId]);
 
   const audioGraph = useAudioGraphState(selectedInput || undefined, isListeningEnabled && !loadingConfig);
+
+  useEffect(() => {
+    const upstreamStream = audioGraph.upstreamStream;
+    turnAudioHandlersRef.current = {
+      onUserSpeechStarted: () => {
+        if (turnRecorder && upstreamStream) {
+          turnRecorder.start('user', upstreamStream);
+        }
+      },
+      onUserSpeechStopped: ({ itemId }) => {
+        turnRecorder?.stop('user');
+        // The user turn is stored as soon as it ends, ahead of the reply, so its recording and transcript
+        // have a message to attach to and it keeps its place in the conversation.
+        const messageId = recordTranscriptEntry({
+          speaker: 'user',
+          text: '',
+          timestamp: Date.now(),
+          status: itemId ? 'streaming' : 'complete',
+        }).then((id) => {
+          if (id) {
+            turnRecorder?.linkMessage('user', id);
+            if (itemId) {
+              realtimeClient?.linkMessageItem(id, itemId);
+            }
+          }
+          return id;
+        });
+        if (itemId) {
+          userTurnsRef.current.set(itemId, messageId);
+        }
+      },
+      onUserTranscript: ({ itemId, text, final }) => {
+        const pending = itemId ? userTurnsRef.current.get(itemId) : undefined;
+        if (!itemId || !pending) {
+          if (final && text) {
+            void recordTranscriptEntry({ speaker: 'user', text, timestamp: Date.now() });
+          }
+          return;
+        }
+
+        const next = pending.then((messageId) => {
+          const conversationApi = resolveApi()?.conversation;
+          if (!messageId || !conversationApi) {
+            return messageId;
+          }
+          return conversationApi
+            .updateMessage(final ? { messageId, content: text, status: 'complete' } : { messageId, delta: text })
+            .then(
+              () => messageId,
+              (error) => {
+                console.error('Failed to store user transcript', error);
+                return messageId;
+              },
+            );
+        });
+        if (final) {
+          userTurnsRef.current.delete(itemId);
+        } else {
+          userTurnsRef.current.set(itemId, next);
+        }
+      },
+      onAssistantAudioStarted: () => {
+        if (turnRecorder && remoteStream) {
+          turnRecorder.start('assistant', remoteStream);
+        }
+      },
+      onAssistantAudioStopped: () => {
+        turnRecorder?.stop('assistant');
+      },
+      onAssistantInterrupted: (interruption) => {
+        turnInterruptionRef.current = interruption;
+        visemeDriverRef.current?.reset();
+      },
+      onTranscriptDelta: (delta) => {
+        const conversationApi = resolveApi()?.conversation;
+        const sessionId = activeSessionIdRef.current;
+        if (!conversationApi || !sessionId) {
+          return;
+        }
+        // The reply is stored as it arrives so the overlay can caption it and a crash keeps the partial text.
+        const pending = streamingReplyRef.current;
+        streamingReplyRef.current = pending
+          ? pending.then((messageId) =>
+              messageId
+                ? conversationApi.updateMessage({ messageId, delta }).then(
+                    () => messageId,
+                    (error) => {
+                      console.error('Failed to stream assistant transcript', error);
+                      return messageId;
+                    },
+                  )
+                : null,
+            )
+          : conversationApi
+              .appendMessage({ sessionId, role: 'assistant', content: delta, status: 'streaming' })
+              .then(
+                (message) => message.id,
+                (error) => {
+                  console.error('Failed to persist conversation message', error);
+                  return null;
+                },
+              );
+      },
+      onResponseDone: ({ transcript, itemId, usage, interrupted, voice, model }) => {
+        const latency = turnLatencyRef.current;
+        const avatarTags = turnAvatarTagsRef.current;
+        const streamingReply = streamingReplyRef.current;
+        const interruption = turnInterruptionRef.current;
+        turnLatencyRef.current = null;
+        turnAvatarTagsRef.current = [];
+        streamingReplyRef.current = null;
+        turnInterruptionRef.current = null;
+        const forgetMinutes = transcript ? extractForgetMinutes(transcript) : null;
+        const metadata: ConversationTurnMetadata = {
+          source: 'realtime',
+          model,
+          interrupted: interrupted || interruption !== null,
+          ...(interruption ? { interruptedAtMs: interruption.audioEndMs } : {}),
+          ...(voice ? { voice } : {}),
+          ...(usage ? { usage } : {}),
+          ...(latency ? { latency } : {}),
+          ...(avatarTags.length > 0 ? { avatarTags } : {}),
+        };
+        if (streamingReply) {
+          void streamingReply.then(async (messageId) => {
+            const conversationApi = resolveApi()?.conversation;
+            if (!messageId || !conversationApi) {
+              return;
+            }
+            try {
+              await conversationApi.updateMessage({
+                messageId,
+                ...(transcript ? { content: transcript } : {}),
+                metadata,
+                status: 'complete',
+              });
+              turnRecorder?.linkMessage('assistant', messageId);
+              if (itemId) {
+                realtimeClient?.linkMessageItem(messageId, itemId);
+              }
+            } catch (error) {
+              console.error('Failed to finalize assistant transcript', error);
+            }
+            if (forgetMinutes !== null) {
+              await forgetRecentConversation(forgetMinutes);
+            }
+          });
+          return;
+        }
+        if (!transcript) {
+          return;
+        }
+        void recordTranscriptEntry({ speaker: 'assistant', text: transcript, timestamp: Date.now(), metadata }).then(
+          async (messageId) => {
+            if (messageId) {
+              turnRecorder?.linkMessage('assistant', messageId);
+              if (itemId) {
+                realtimeClient?.linkMessageItem(messageId, itemId);
+              }
+            }
+            if (forgetMinutes !== null) {
+              await forgetRecentConversation(forgetMinutes);
+            }
+          },
+        );
+      },
+    };
+  }, [
+    audioGraph.upstreamStream,
+    remoteStream,
+    turnRecorder,
+    realtimeClient,
+    recordTranscriptEntry,
+    resolveApi,
+    forgetRecentConversation,
+  ]);
+
+  const replayTranscriptAudio = useCallback(
+    async (messageId: string) => {
+      const conversationApi = resolveApi()?.conversation;
+      if (!conversationApi) {
+        return;
+      }
+
+      try {
+        const clip = await conversationApi.getAudio(messageId);
+        if (!clip) {
+          return;
+        }
+
+        replayAudioRef.current?.pause();
+        const url = URL.createObjectURL(new Blob([new Uint8Array(clip.data)], { type: clip.mimeType }));
+        const audio = new Audio(url);
+        replayAudioRef.current = audio;
+        const release = () => URL.revokeObjectURL(url);
+        audio.addEventListener('ended', release, { once: true });
+        audio.addEventListener('error', release, { once: true });
+
+        const sinkTarget = audio as HTMLAudioElement & { setSinkId?: (sinkId: string) => Promise<void> };
+        if (selectedOutput && typeof sinkTarget.setSinkId === 'function') {
+          await sinkTarget.setSinkId(selectedOutput);
+        }
+        await audio.play();
+      } catch (error) {
+        console.error('Failed to replay conversation audio', error);
+      }
+    },
+    [resolveApi, selectedOutput],
+  );
   const previousSpeechActiveRef = useRef(audioGraph.isActive);
 
+  // Function calls run in the main process; their output goes back to the model and into the transcript.
+  const handleToolCall = useCallback(
+    async (call: RealtimeToolCall) => {
+      const tools = resolveApi()?.tools;
+      let output: string;
+      let isError: boolean;
+      if (!tools) {
+        output = JSON.stringify({ error: 'Tools are not available.' });
+        isError = true;
+      } else {
+        try {
+          ({ output, isError } = await tools.call(call));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          output = JSON.stringify({ error: message });
+          isError = true;
+        }
+      }
+
+      realtimeClient?.submitToolOutput(call.callId, output);
+      void recordTranscriptEntry({
+        speaker: 'tool',
+        text: output,
+        metadata: { name: call.name, arguments: call.arguments, callId: call.callId, ...(isError ? { isError } : {}) },
+      });
+    },
+    [realtimeClient, recordTranscriptEntry, resolveApi],
+  );
+
+  // Typed messages join the same realtime conversation as speech, for noisy venues or users who cannot speak.
+  const handleTypedMessageSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const text = typedMessage.trim();
+      const itemId = text ? realtimeClient?.sendText(text) : null;
+      if (!itemId) {
+        return;
+      }
+      setTypedMessage('');
+      void recordTranscriptEntry({ speaker: 'user', text, metadata: { source: 'keyboard' } }).then((messageId) => {
+        if (messageId) {
+          realtimeClient?.linkMessageItem(messageId, itemId);
+        }
+      });
+    },
+    [realtimeClient, recordTranscriptEntry, typedMessage, setTypedMessage],
+  );
+
+  useEffect(() => {
+    toolCallHandlerRef.current = (call) => {
+      void handleToolCall(call);
+    };
+  }, [handleToolCall]);
+
   useEffect(() => {
     const payload: SessionConfigUpdate = {
       voice: selectedVoice || undefined,
       instructions: sessionInstructions || undefined,
+      tools: realtimeTools.length > 0 ? realtimeTools : undefined,
       turnDetection: useServerVad ? 'server_vad' : 'none',
       vad: useServerVad
         ? { threshold: vadThreshold, silenceDurationMs: vadSilenceMs, minSpeechDurationMs: vadMinSpeechMs }
@@ -1606,6 +2244,7 @@ export default function App() {
     vadSilenceMs,
     vadMinSpeechMs,
     loadingConfig,
+    realtimeTools,
   ]);
 
   useEffect(() => {
@@ -1636,7 +2275,7 @@ export default function App() {
       return;
     }
 
-    if (loadingConfig || !isSessionConfigReady) {
+    if (loadingConfig || !isSessionConfigReady || !isMemoryContextReady) {
       return;
     }
 
@@ -1702,16 +2341,17 @@ export default function App() {
     isListeningEnabled,
     loadingConfig,
     isSessionConfigReady,
+    isMemoryContextReady,
     hasRealtimeApiKey,
     mintEphemeralToken,
   ]);
 
+  // Turns are still detected by the server; the local gate only cuts the assistant off when the user talks over it.
   useEffect(() => {
-    if (!realtimeClient || !hasRealtimeApiKey) {
+    if (!realtimeClient || !hasRealtimeApiKey || !audioGraph.isActive) {
       return;
     }
-    // With server-side VAD enabled, do not drive turns from the client
-    // If we add a toggle later, gate this based on config.
+    realtimeClient.notifySpeechActivity(true);
   }, [realtimeClient, hasRealtimeApiKey, audioGraph.isActive]);
 
   const previousRealtimeStatusRef = useRef<RealtimeClientState['status'] | null>(null);
@@ -1719,18 +2359,20 @@ export default function App() {
     const previous = previousRealtimeStatusRef.current;
     if (realtimeState.status === 'connected' && previous !== 'connected') {
       void recordTranscriptEntry({
-        speaker: 'system',
+        speaker: 'event',
         text: 'Realtime session connected.',
         timestamp: Date.now(),
+        metadata: { type: 'realtime-connected' },
       });
     }
 
     if (realtimeState.status === 'error' && previousRealtimeStatusRef.current !== 'error') {
       const errorMessage = realtimeState.error ? `Realtime error G�� ${realtimeState.error}` : 'Realtime session error';
       void recordTranscriptEntry({
-        speaker: 'system',
+        speaker: 'event',
         text: errorMessage,
         timestamp: Date.now(),
+        metadata: { type: 'realtime-error', error: realtimeState.error ?? null },
       });
     }
 
@@ -1752,9 +2394,10 @@ export default function App() {
       }
 
       void recordTranscriptEntry({
-        speaker: 'system',
+        speaker: 'event',
         text: `Wake word detected (${event.keywordLabel}) G�� confidence ${(event.confidence * 100).toFixed(0)}%`,
         timestamp: event.timestamp,
+        metadata: { type: 'wake-word', keyword: event.keywordLabel, confidence: event.confidence },
       });
       latencyTrackerRef.current.beginCycle(event.timestamp, event.sessionId ?? null);
       setLatencySnapshot(null);
@@ -2292,7 +2935,8 @@ export default function App() {
   }, [isTranscriptVisible]);
 
   const wakeStatusVariant = wakeState === 'awake' ? 'active' : 'idle';
-  const realtimeVariant = realtimeState.status === 'error' ? 'error' : realtimeState.status === 'connected' ? 'active' : 'idle';
+  const isRealtimeConnected = realtimeState.status === 'connected';
+  const realtimeVariant = realtimeState.status === 'error' ? 'error' : isRealtimeConnected ? 'active' : 'idle';
   const networkVariant = isOnline ? 'active' : 'error';
   const audioVariant =
     audioGraph.status === 'error'
@@ -2365,6 +3009,26 @@ export default function App() {
             </button>
           </header>
 
+          <form className="kiosk__textInput" onSubmit={handleTypedMessageSubmit} data-testid="typed-message-form">
+            <input
+              type="text"
+              className="kiosk__textInputField"
+              value={typedMessage}
+              onChange={(event) => setTypedMessage(event.target.value)}
+              placeholder={isRealtimeConnected ? 'Type a message' : 'Connect to the realtime session to type'}
+              aria-label="Type a message to the assistant"
+              disabled={!isRealtimeConnected}
+              data-testid="typed-message-input"
+            />
+            <button
+              type="submit"
+              className="kiosk__textInputSend"
+              disabled={!isRealtimeConnected || !typedMessage.trim()}
+              data-testid="typed-message-send"
+            >
+              Send
+            </button>
+          </form>
 
           <div className="kiosk__layout">
             <div className="kiosk__tablist" role="tablist" aria-label="Kiosk sections">
@@ -2786,6 +3450,19 @@ export default function App() {
                   </div>
                 </section>
               </section>
+
+              <section
+                role="tabpanel"
+                id="panel-history"
+                aria-labelledby="tab-history"
+                className="kiosk__tabPanel"
+                data-state={activeTab === 'history' ? 'active' : 'inactive'}
+              >
+                <ConversationHistoryBrowser
+                  conversationApi={activeBridge?.conversation}
+                  activeSessionId={activeSessionId}
+                />
+              </section>
             </div>
           </div>
 
@@ -2814,7 +3491,12 @@ export default function App() {
               aria-label="Transcript overlay"
               data-testid="transcript-overlay"
             >
-              <TranscriptOverlay entries={transcriptEntries} />
+              <TranscriptOverlay
+                entries={transcriptEntries}
+                onReplay={(entryId) => {
+                  void replayTranscriptAudio(entryId);
+                }}
+              />
             </aside>
           ) : null}
 
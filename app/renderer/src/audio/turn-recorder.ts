@@ -0,0 +1,167 @@
+export type TurnSpeaker = 'user' | 'assistant';
+
+export interface TurnClip {
+  speaker: TurnSpeaker;
+  mimeType: string;
+  data: Uint8Array;
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface TurnRecorderOptions {
+  /** Persists a finished clip once the message it belongs to is known. */
+  saveClip: (messageId: string, clip: TurnClip) => Promise<void>;
+  createMediaRecorder?: (stream: MediaStream, options: MediaRecorderOptions) => MediaRecorder;
+  isTypeSupported?: (mimeType: string) => boolean;
+  now?: () => number;
+  onError?: (error: unknown) => void;
+}
+
+interface ActiveRecording {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+}
+
+interface TurnSlot {
+  active: ActiveRecording | null;
+  clip: Promise<TurnClip | null> | null;
+  messageId: string | null;
+}
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm'];
+
+/**
+ * Records one clip per conversation turn and hands it to `saveClip` together with the id of the
+ * message it belongs to. The clip and the message id may arrive in either order; starting a new
+ * turn for a speaker drops whatever half of the previous pair was never matched.
+ */
+export class TurnRecorder {
+  private readonly options: TurnRecorderOptions;
+  private readonly now: () => number;
+  private readonly slots: Record<TurnSpeaker, TurnSlot> = {
+    user: { active: null, clip: null, messageId: null },
+    assistant: { active: null, clip: null, messageId: null },
+  };
+
+  constructor(options: TurnRecorderOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined';
+  }
+
+  start(speaker: TurnSpeaker, stream: MediaStream): void {
+    const slot = this.slots[speaker];
+    this.discardActive(slot);
+    slot.clip = null;
+    slot.messageId = null;
+
+    try {
+      const mimeType = this.pickMimeType();
+      const recorder = (this.options.createMediaRecorder ?? ((input, init) => new MediaRecorder(input, init)))(
+        stream,
+        mimeType ? { mimeType } : {},
+      );
+      const active: ActiveRecording = { recorder, chunks: [], startedAt: this.now() };
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          active.chunks.push(event.data);
+        }
+      };
+      recorder.start();
+      slot.active = active;
+    } catch (error) {
+      this.options.onError?.(error);
+    }
+  }
+
+  stop(speaker: TurnSpeaker): void {
+    const slot = this.slots[speaker];
+    const active = slot.active;
+    if (!active) {
+      return;
+    }
+
+    slot.active = null;
+    slot.clip = this.finish(speaker, active);
+    this.flush(speaker);
+  }
+
+  linkMessage(speaker: TurnSpeaker, messageId: string): void {
+    this.slots[speaker].messageId = messageId;
+    this.flush(speaker);
+  }
+
+  dispose(): void {
+    for (const slot of Object.values(this.slots)) {
+      this.discardActive(slot);
+      slot.clip = null;
+      slot.messageId = null;
+    }
+  }
+
+  private finish(speaker: TurnSpeaker, active: ActiveRecording): Promise<TurnClip | null> {
+    return new Promise<Blob>((resolve) => {
+      active.recorder.onstop = () => {
+        resolve(new Blob(active.chunks, { type: active.recorder.mimeType }));
+      };
+      active.recorder.stop();
+    }).then(async (blob) => {
+      if (blob.size === 0) {
+        return null;
+      }
+
+      return {
+        speaker,
+        mimeType: blob.type || 'audio/webm',
+        data: new Uint8Array(await blob.arrayBuffer()),
+        startedAt: active.startedAt,
+        durationMs: Math.max(0, this.now() - active.startedAt),
+      };
+    });
+  }
+
+  private flush(speaker: TurnSpeaker): void {
+    const slot = this.slots[speaker];
+    const { clip, messageId } = slot;
+    if (!clip || !messageId) {
+      return;
+    }
+
+    slot.clip = null;
+    slot.messageId = null;
+    clip
+      .then((finished) => (finished ? this.options.saveClip(messageId, finished) : undefined))
+      .catch((error: unknown) => {
+        this.options.onError?.(error);
+      });
+  }
+
+  private discardActive(slot: TurnSlot): void {
+    if (!slot.active) {
+      return;
+    }
+
+    const { recorder } = slot.active;
+    slot.active = null;
+    recorder.ondataavailable = null;
+    recorder.onstop = null;
+    try {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+    } catch (error) {
+      this.options.onError?.(error);
+    }
+  }
+
+  private pickMimeType(): string | null {
+    const isTypeSupported =
+      this.options.isTypeSupported ??
+      ((mimeType: string) => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType));
+    return PREFERRED_MIME_TYPES.find((mimeType) => isTypeSupported(mimeType)) ?? null;
+  }
+}
@@ -269,6 +269,19 @@ export class VisemeDriver {
     }
   }
 
+  /**
+   * Drops the smoothed intensity and closes the mouth at once, e.g. when the assistant is
+   * interrupted and its audio should not keep easing out over the release window.
+   */
+  reset(): void {
+    this.smoothedIntensity = 0;
+    if (!this.running) {
+      return;
+    }
+
+    this.callbacks.onFrame?.({ t: Math.max(0, this.now() - this.startTimestamp), index: 0, intensity: 0 });
+  }
+
   async destroy(): Promise<void> {
     this.stop();
     await this.cleanupAnalyser();
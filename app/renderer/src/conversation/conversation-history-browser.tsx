@@ -0,0 +1,396 @@
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  ConversationSession,
+  ConversationSessionPage,
+  ConversationTranscriptFormat,
+} from '../../../main/src/conversation/types.js';
+import type { ConversationBridge } from '../preload-api.js';
+import { describeMessageMetadata } from './message-metadata.js';
+
+const DEFAULT_PAGE_SIZE = 10;
+
+interface ConversationHistoryBrowserProps {
+  conversationApi?: ConversationBridge;
+  /** Session the live transcript belongs to. It is marked in the list and cannot be deleted. */
+  activeSessionId: string | null;
+  pageSize?: number;
+}
+
+function formatTimestamp(value: number): string {
+  try {
+    return new Date(value).toLocaleString();
+  } catch {
+    return new Date(value).toString();
+  }
+}
+
+function formatTime(value: number): string {
+  const time = new Date(value);
+  return [time.getHours(), time.getMinutes(), time.getSeconds()]
+    .map((part) => part.toString().padStart(2, '0'))
+    .join(':');
+}
+
+function sessionLabel(session: ConversationSession): string {
+  return session.title ?? `Conversation from ${formatTimestamp(session.startedAt)}`;
+}
+
+const EXPORT_FORMATS: { value: ConversationTranscriptFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'html', label: 'HTML' },
+  { value: 'json', label: 'JSON' },
+];
+
+export function ConversationHistoryBrowser({
+  conversationApi,
+  activeSessionId,
+  pageSize = DEFAULT_PAGE_SIZE,
+}: ConversationHistoryBrowserProps) {
+  const [page, setPage] = useState<ConversationSessionPage | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+  const [renamingTitle, setRenamingTitle] = useState('');
+  const [exportFormat, setExportFormat] = useState<ConversationTranscriptFormat>('markdown');
+  const [notice, setNotice] = useState<string | null>(null);
+  const isBridgeAvailable = Boolean(conversationApi?.listSessions);
+
+  const refreshSessions = useCallback(async () => {
+    if (!conversationApi?.listSessions) {
+      return;
+    }
+
+    try {
+      const next = await conversationApi.listSessions({ limit: pageSize, offset });
+      // Deleting the last session on a page leaves it empty; step back to the previous one.
+      if (next.sessions.length === 0 && next.offset > 0 && next.total > 0) {
+        setOffset(Math.max(0, next.offset - pageSize));
+        return;
+      }
+      setPage(next);
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load conversation history.';
+      setError(message);
+    }
+  }, [conversationApi, offset, pageSize]);
+
+  useEffect(() => {
+    (async () => {
+      await refreshSessions();
+    })();
+  }, [refreshSessions]);
+
+  useEffect(() => {
+    if (!conversationApi) {
+      return;
+    }
+
+    const unsubscribeStarted = conversationApi.onSessionStarted?.(() => {
+      void refreshSessions();
+    });
+    const unsubscribeUpdated = conversationApi.onSessionUpdated?.((session) => {
+      setPage((previous) =>
+        previous
+          ? {
+              ...previous,
+              sessions: previous.sessions.map((item) =>
+                item.id === session.id ? { ...item, title: session.title } : item,
+              ),
+            }
+          : previous,
+      );
+    });
+    const unsubscribePurged = conversationApi.onMessagesPurged?.(() => {
+      void refreshSessions();
+    });
+
+    return () => {
+      unsubscribeStarted?.();
+      unsubscribeUpdated?.();
+      unsubscribePurged?.();
+    };
+  }, [conversationApi, refreshSessions]);
+
+  const handleStartRename = useCallback((session: ConversationSession) => {
+    setRenamingSessionId(session.id);
+    setRenamingTitle(session.title ?? '');
+  }, []);
+
+  const handleCancelRename = useCallback(() => {
+    setRenamingSessionId(null);
+    setRenamingTitle('');
+  }, []);
+
+  const handleRename = useCallback(
+    async (sessionId: string) => {
+      if (!conversationApi?.renameSession) {
+        setError('Conversation history bridge is unavailable.');
+        return;
+      }
+
+      setBusySessionId(sessionId);
+      setError(null);
+      try {
+        const updated = await conversationApi.renameSession(sessionId, renamingTitle.trim() || null);
+        setPage((previous) =>
+          previous
+            ? {
+                ...previous,
+                sessions: previous.sessions.map((item) =>
+                  item.id === sessionId ? { ...item, title: updated.title } : item,
+                ),
+              }
+            : previous,
+        );
+        setRenamingSessionId(null);
+        setRenamingTitle('');
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to rename conversation.';
+        setError(message);
+      } finally {
+        setBusySessionId(null);
+      }
+    },
+    [conversationApi, renamingTitle],
+  );
+
+  const handleDelete = useCallback(
+    async (sessionId: string) => {
+      if (!conversationApi?.deleteSession) {
+        setError('Conversation history bridge is unavailable.');
+        return;
+      }
+
+      setBusySessionId(sessionId);
+      setError(null);
+      try {
+        await conversationApi.deleteSession(sessionId);
+        if (selectedSessionId === sessionId) {
+          setSelectedSessionId(null);
+        }
+        await refreshSessions();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete conversation.';
+        setError(message);
+      } finally {
+        setBusySessionId(null);
+      }
+    },
+    [conversationApi, refreshSessions, selectedSessionId],
+  );
+
+  const handleExport = useCallback(
+    async (sessionId: string) => {
+      if (!conversationApi?.exportTranscript) {
+        setError('Conversation history bridge is unavailable.');
+        return;
+      }
+
+      setBusySessionId(sessionId);
+      setError(null);
+      setNotice(null);
+      try {
+        const result = await conversationApi.exportTranscript({ sessionId, format: exportFormat });
+        if (result) {
+          setNotice(`Saved ${result.messages} messages to ${result.filePath}.`);
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to export conversation.';
+        setError(message);
+      } finally {
+        setBusySessionId(null);
+      }
+    },
+    [conversationApi, exportFormat],
+  );
+
+  if (!isBridgeAvailable) {
+    return (
+      <section className="history" aria-labelledby="history-title">
+        <h2 id="history-title">Conversation history</h2>
+        <p className="kiosk__info">Conversation history is unavailable.</p>
+      </section>
+    );
+  }
+
+  // The page in state belongs to the previous offset until the requested one arrives.
+  const loading = !error && (!page || page.offset !== offset);
+  const sessions = page?.sessions ?? [];
+  const total = page?.total ?? 0;
+  const selectedSession = sessions.find((session) => session.id === selectedSessionId) ?? null;
+  const pageOffset = page?.offset ?? offset;
+  const pageStart = total === 0 ? 0 : pageOffset + 1;
+  const pageEnd = pageOffset + sessions.length;
+
+  return (
+    <section className="history" aria-labelledby="history-title">
+      <h2 id="history-title">Conversation history</h2>
+
+      {error ? (
+        <p role="alert" className="kiosk__error">
+          {error}
+        </p>
+      ) : null}
+      {notice ? (
+        <p role="status" className="kiosk__info">
+          {notice}
+        </p>
+      ) : null}
+      {loading && !page ? <p className="kiosk__info">Loading conversations…</p> : null}
+      {!loading && page && total === 0 ? <p className="kiosk__info">No conversations stored yet.</p> : null}
+
+      <div className="history__layout">
+        <div className="history__sessions">
+          <label className="history__exportFormat">
+            Export as
+            <select
+              value={exportFormat}
+              onChange={(event) => setExportFormat(event.target.value as ConversationTranscriptFormat)}
+            >
+              {EXPORT_FORMATS.map((format) => (
+                <option key={format.value} value={format.value}>
+                  {format.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <ul className="history__list" aria-label="Conversation sessions">
+            {sessions.map((session) => {
+              const busy = busySessionId === session.id;
+              const isRenaming = renamingSessionId === session.id;
+              const isActive = session.id === activeSessionId;
+              const isSelected = session.id === selectedSessionId;
+
+              return (
+                <li
+                  key={session.id}
+                  className="faceCard history__session"
+                  data-active={isSelected ? 'true' : 'false'}
+                  data-testid="history-session"
+                >
+                  <div className="faceCard__info">
+                    {isRenaming ? (
+                      <input
+                        type="text"
+                        className="history__renameInput"
+                        aria-label="Conversation title"
+                        value={renamingTitle}
+                        onChange={(event) => setRenamingTitle(event.target.value)}
+                        placeholder="Conversation title"
+                        disabled={busy}
+                        onKeyDown={(event) => {
+                          if (event.key === 'Enter') {
+                            void handleRename(session.id);
+                          } else if (event.key === 'Escape') {
+                            handleCancelRename();
+                          }
+                        }}
+                      />
+                    ) : (
+                      <h3>{sessionLabel(session)}</h3>
+                    )}
+                    <p className="faceCard__meta">
+                      {formatTimestamp(session.startedAt)} · {session.messages.length} messages
+                      {isActive ? ' · Current' : ''}
+                    </p>
+                  </div>
+                  <div className="faceCard__actions">
+                    {isRenaming ? (
+                      <>
+                        <button type="button" onClick={() => void handleRename(session.id)} disabled={busy}>
+                          Save
+                        </button>
+                        <button type="button" onClick={handleCancelRename} disabled={busy}>
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => setSelectedSessionId(isSelected ? null : session.id)}
+                          aria-pressed={isSelected}
+                        >
+                          {isSelected ? 'Close' : 'Open'}
+                        </button>
+                        <button type="button" onClick={() => handleStartRename(session)} disabled={busy}>
+                          Rename
+                        </button>
+                        <button type="button" onClick={() => void handleExport(session.id)} disabled={busy}>
+                          Export
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleDelete(session.id)}
+                          disabled={busy || isActive}
+                          title={isActive ? 'The current conversation cannot be deleted.' : undefined}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          {total > 0 ? (
+            <div className="history__pagination">
+              <button
+                type="button"
+                onClick={() => setOffset(Math.max(0, offset - pageSize))}
+                disabled={loading || offset === 0}
+              >
+                Newer
+              </button>
+              <span aria-live="polite">
+                {pageStart}–{pageEnd} of {total}
+              </span>
+              <button
+                type="button"
+                onClick={() => setOffset(offset + pageSize)}
+                disabled={loading || pageEnd >= total}
+              >
+                Older
+              </button>
+            </div>
+          ) : null}
+        </div>
+
+        {selectedSession ? (
+          <section
+            className="history__transcript"
+            aria-label={`Transcript of ${sessionLabel(selectedSession)}`}
+            data-testid="history-transcript"
+          >
+            {selectedSession.messages.length === 0 ? (
+              <p className="kiosk__info">This conversation has no messages.</p>
+            ) : (
+              <ol className="transcript">
+                {selectedSession.messages.map((message) => {
+                  const details = describeMessageMetadata(message.role, message.metadata);
+                  return (
+                    <li key={message.id} className={`transcript__item transcript__item--${message.role}`}>
+                      <div className="transcript__meta">
+                        <span className="transcript__speaker">{message.role}</span>
+                        <span className="transcript__time">{formatTime(message.ts)}</span>
+                      </div>
+                      <p className="transcript__text">
+                        {message.content || <em className="transcript__placeholder">Voice input</em>}
+                      </p>
+                      {details ? <p className="transcript__details">{details}</p> : null}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </section>
+        ) : null}
+      </div>
+    </section>
+  );
+}
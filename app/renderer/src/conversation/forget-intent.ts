@@ -0,0 +1,26 @@
+/** Longest stretch of conversation a single spoken request can forget. */
+export const MAX_FORGET_MINUTES = 24 * 60;
+
+export const FORGET_INSTRUCTIONS = [
+  'If the user asks you to forget something they said recently (e.g. "forget the last five minutes"),',
+  'confirm briefly and include `{forget:<minutes>}` in your response with the number of minutes to erase',
+  '(e.g. `{forget:5}`). This deletes the recent conversation and anything remembered from it.',
+].join(' ');
+
+/**
+ * Finds a `{forget:<minutes>}` tag in an assistant reply and returns the minutes to forget, capped at
+ * {@link MAX_FORGET_MINUTES}. Returns null when the reply has no valid tag.
+ */
+export function extractForgetMinutes(text: string): number | null {
+  const match = /\{forget:\s*(\d+)\s*\}/i.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const minutes = Number.parseInt(match[1] ?? '', 10);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    return null;
+  }
+
+  return Math.min(minutes, MAX_FORGET_MINUTES);
+}
@@ -0,0 +1,77 @@
+import type {
+  ConversationMessageMetadata,
+  ConversationRole,
+  ConversationTurnMetadata,
+} from '../../../main/src/conversation/types.js';
+
+const MAX_VALUE_CHARACTERS = 80;
+
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  return text.length > MAX_VALUE_CHARACTERS ? `${text.slice(0, MAX_VALUE_CHARACTERS - 1)}…` : text;
+}
+
+/**
+ * Renders tool and event metadata as a single readable line, e.g.
+ * `name: get_weather · arguments: {"city":"Lisbon"}`. Long values are truncated.
+ */
+export function formatMessageMetadata(metadata: ConversationMessageMetadata | null | undefined): string {
+  if (!metadata) {
+    return '';
+  }
+
+  return Object.entries(metadata)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key}: ${formatValue(value)}`)
+    .join(' · ');
+}
+
+/**
+ * Summarises the quality details recorded with an assistant turn, e.g.
+ * `1.2 s to first audio · 150 tokens · alloy · gpt-realtime · interrupted · avatar: animation:wave`.
+ */
+export function formatTurnMetadata(metadata: ConversationTurnMetadata | null | undefined): string {
+  if (!metadata) {
+    return '';
+  }
+
+  const parts: string[] = [];
+  const firstAudioMs = metadata.latency?.wakeToFirstAudioMs ?? metadata.latency?.captureToFirstAudioMs;
+  if (typeof firstAudioMs === 'number') {
+    parts.push(`${(firstAudioMs / 1000).toFixed(1)} s to first audio`);
+  }
+  const usage = metadata.usage;
+  const totalTokens = usage?.totalTokens ?? ((usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0) || undefined);
+  if (typeof totalTokens === 'number') {
+    parts.push(`${totalTokens} tokens`);
+  }
+  if (metadata.voice) {
+    parts.push(metadata.voice);
+  }
+  if (metadata.model) {
+    parts.push(metadata.model);
+  }
+  if (metadata.interrupted) {
+    parts.push(
+      typeof metadata.interruptedAtMs === 'number'
+        ? `interrupted at ${(metadata.interruptedAtMs / 1000).toFixed(1)} s`
+        : 'interrupted',
+    );
+  }
+  if (metadata.avatarTags?.length) {
+    parts.push(`avatar: ${metadata.avatarTags.join(', ')}`);
+  }
+
+  return parts.join(' · ');
+}
+
+/** Picks the metadata summary that suits the message role. */
+export function describeMessageMetadata(
+  role: ConversationRole,
+  metadata: ConversationMessageMetadata | null | undefined,
+): string {
+  if (role === 'assistant') {
+    return formatTurnMetadata(metadata);
+  }
+  return role === 'tool' || role === 'event' ? formatMessageMetadata(metadata) : '';
+}
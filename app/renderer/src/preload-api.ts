@@ -2,13 +2,42 @@ import type { ConfigSecretKey, RendererConfig } from '../../main/src/config/conf
 import type { AudioDevicePreferences } from '../../main/src/config/preferences-store.js';
 import type {
   ConversationAppendMessagePayload,
+  ConversationAttachAudioPayload,
+  ConversationAudioClip,
   ConversationHistory,
   ConversationMessage,
+  ConversationProfile,
+  ConversationProfileList,
+  ConversationPurgeRequest,
+  ConversationPurgeResult,
+  ConversationSearchOptions,
+  ConversationSearchResult,
   ConversationSession,
+  ConversationSessionListOptions,
+  ConversationSessionPage,
+  ConversationSessionSummary,
+  ConversationTranscriptExportRequest,
+  ConversationTranscriptExportResult,
+  ConversationUpdateMessagePayload,
 } from '../../main/src/conversation/types.js';
+import type {
+  LibraryArchiveExportRequest,
+  LibraryArchiveExportResult,
+  LibraryArchiveImportRequest,
+  LibraryArchiveImportResult,
+  MemoryBackupSnapshot,
+  MemorySchemaInfo,
+  MemorySessionContext,
+} from '../../main/src/memory/types.js';
 import type { LatencyMetricName } from '../../main/src/metrics/types.js';
 import type { WakeWordDetectionEvent } from '../../main/src/wake-word/types.js';
 import type { RealtimeEphemeralTokenRequest, RealtimeEphemeralTokenResponse } from '../../main/src/realtime/types.js';
+import type {
+  ToolAvatarTag,
+  ToolCallRequest,
+  ToolCallResult,
+  ToolDefinition,
+} from '../../main/src/tools/types.js';
 import type { AvatarBridge } from './avatar/types.js';
 import type { CameraDetectionEvent } from './avatar/behavior-cues.js';
 
@@ -26,9 +55,71 @@ export interface WakeWordBridge {
 
 export interface ConversationBridge {
   getHistory(): Promise<ConversationHistory>;
+  /** Pages through stored sessions, newest first, with their transcripts. */
+  listSessions(options?: ConversationSessionListOptions): Promise<ConversationSessionPage>;
+  /** Resolves to the renamed session; an empty title clears it. */
+  renameSession(sessionId: string, title: string | null): Promise<ConversationSession>;
+  /** Rejects for the active session, which cannot be deleted. */
+  deleteSession(sessionId: string): Promise<void>;
+  /** Forgets matching messages with their audio and the memory facts learned from them. */
+  purge(request: ConversationPurgeRequest): Promise<ConversationPurgeResult>;
+  /** Recent messages of the current session, oldest first, trimmed to the configured resume budget. */
+  getResumeMessages(): Promise<ConversationMessage[]>;
   appendMessage(message: ConversationAppendMessagePayload): Promise<ConversationMessage>;
+  /** Adds text to a streaming message or finalizes it; resolves to the updated message. */
+  updateMessage(payload: ConversationUpdateMessagePayload): Promise<ConversationMessage>;
+  search(query: string, options?: ConversationSearchOptions): Promise<ConversationSearchResult[]>;
+  /** Stores a recorded turn clip and links it to the message; resolves to the updated message. */
+  attachAudio(payload: ConversationAttachAudioPayload): Promise<ConversationMessage>;
+  /** Resolves to null when the message has no recording or the file is missing. */
+  getAudio(messageId: string): Promise<ConversationAudioClip | null>;
+  /** Saves one session as Markdown, HTML or JSON; resolves to null when the save dialog is cancelled. */
+  exportTranscript(request: ConversationTranscriptExportRequest): Promise<ConversationTranscriptExportResult | null>;
   onSessionStarted(listener: (session: ConversationSession) => void): () => void;
   onMessageAppended(listener: (message: ConversationMessage) => void): () => void;
+  /** Fires as a streaming message receives text and when it is finalized. */
+  onMessageUpdated(listener: (message: ConversationMessage) => void): () => void;
+  /** Fires when pruned messages were folded into a session's rolling summary. */
+  onSessionSummarized(listener: (payload: ConversationSessionSummary) => void): () => void;
+  /** Fires when a session's metadata changes, such as when it is given a generated title. */
+  onSessionUpdated(listener: (session: ConversationSession) => void): () => void;
+  /** Fires after messages were forgotten, so views can drop them. */
+  onMessagesPurged(listener: (result: ConversationPurgeResult) => void): () => void;
+}
+
+export interface ProfileSwitchResult {
+  profile: ConversationProfile;
+  /** Config with the new profile's device, voice and VAD preferences applied. */
+  config: RendererConfig;
+}
+
+export interface ProfileBridge {
+  list(): Promise<ConversationProfileList>;
+  create(name: string): Promise<ConversationProfile>;
+  /** Makes the profile active; history and preferences are that profile's from then on. */
+  switch(profileId: string): Promise<ProfileSwitchResult>;
+  /** Rejects for the active and default profiles, which cannot be deleted. */
+  delete(profileId: string): Promise<void>;
+  onSwitched(listener: (profile: ConversationProfile) => void): () => void;
+}
+
+export interface MemoryBridge {
+  getSessionContext(): Promise<MemorySessionContext>;
+  rotateEncryptionKey(): Promise<{ keyId: string }>;
+  listBackups(): Promise<MemoryBackupSnapshot[]>;
+  /** Resolves to null when the backup or its integrity check failed. */
+  createBackup(): Promise<MemoryBackupSnapshot | null>;
+  /** Schedules the snapshot to replace the database on the next launch. */
+  restoreBackup(snapshotId: string): Promise<MemoryBackupSnapshot>;
+  /** Schema version, migration states and table sizes, for diagnostics. */
+  inspectSchema(): Promise<MemorySchemaInfo>;
+}
+
+export interface LibraryBridge {
+  /** Resolves to null when the save dialog is cancelled. */
+  exportArchive(request?: LibraryArchiveExportRequest): Promise<LibraryArchiveExportResult | null>;
+  /** Resolves to null when the open dialog is cancelled. */
+  importArchive(request?: LibraryArchiveImportRequest): Promise<LibraryArchiveImportResult | null>;
 }
 
 export interface MetricsBridge {
@@ -44,9 +135,13 @@ export interface PreloadApi {
   realtime: RealtimeBridge;
   wakeWord: WakeWordBridge;
   conversation?: ConversationBridge;
+  profiles?: ProfileBridge;
+  memory?: MemoryBridge;
+  library?: LibraryBridge;
   metrics?: MetricsBridge;
   avatar?: AvatarBridge;
   camera?: CameraBridge;
+  tools?: ToolsBridge;
   ping(): string;
   __bridgeReady?: boolean;
   __bridgeVersion?: string;
@@ -57,6 +152,15 @@ export interface CameraBridge {
   emitDetection(event: CameraDetectionEvent): Promise<void>;
 }
 
+export interface ToolsBridge {
+  /** Tools to advertise in the realtime session. */
+  list(): Promise<ToolDefinition[]>;
+  /** Runs a function call from the model; failures resolve to an error output instead of rejecting. */
+  call(request: ToolCallRequest): Promise<ToolCallResult>;
+  /** Fires when a tool plays an animation or pose on the avatar. */
+  onAvatarTag(listener: (tag: ToolAvatarTag) => void): () => void;
+}
+
 export function getPreloadApi(): PreloadApi | undefined {
   return (window as unknown as { aiembodied?: PreloadApi }).aiembodied;
 }
@@ -0,0 +1,623 @@
+import { PCM16_SAMPLE_RATE_HZ, encodePcm16 } from './pcm16.js';
+import type { RealtimeSocket } from './websocket-transport.js';
+
+/** One part of a scripted reply, played in order. */
+export type MockRealtimeStep =
+  | { type: 'text'; text: string }
+  /** Spoken reply: transcript deltas alongside canned audio lasting about as long as the text takes to say. */
+  | { type: 'transcript'; text: string }
+  | { type: 'audio'; durationMs: number }
+  | { type: 'function_call'; name: string; arguments: Record<string, unknown> }
+  | { type: 'error'; code: string; message: string };
+
+export type MockRealtimeReply = MockRealtimeStep[];
+
+export const DEFAULT_MOCK_REALTIME_SCRIPT: MockRealtimeReply[] = [
+  [{ type: 'transcript', text: 'Hello! {anim:wave} I am the offline mock realtime server.' }],
+  [
+    { type: 'transcript', text: 'Let me show you an animation.' },
+    { type: 'function_call', name: 'play_animation', arguments: { slug: 'wave' } },
+  ],
+  [{ type: 'text', text: 'Text-only replies stream as output text deltas. {anim:wave}' }],
+  [{ type: 'error', code: 'mock_error', message: 'Scripted error from the mock realtime server.' }],
+];
+
+// Answers the follow-up the client requests after submitting function call outputs, so tool calls do not use up
+// the script.
+const TOOL_FOLLOW_UP_REPLY: MockRealtimeReply = [{ type: 'transcript', text: 'Done.' }];
+
+const AUDIO_CHUNK_MS = 100;
+const SPOKEN_MS_PER_CHARACTER = 55;
+const TONE_FREQUENCY_HZ = 220;
+// Pulsing the tone at a syllable-like rate gives lip sync something to follow.
+const TONE_PULSE_HZ = 4;
+const TONE_LEVEL = 0.15;
+const ICE_GATHERING_TIMEOUT_MS = 2000;
+const API_KEY_PROTOCOL_PREFIX = 'openai-insecure-api-key.';
+
+export interface MockRealtimeServerOptions {
+  /** Replies played in turn for each `response.create`, starting over after the last one. */
+  script?: MockRealtimeReply[];
+  /** Pause between streamed text deltas. */
+  deltaIntervalMs?: number;
+  createPeerConnection?: () => RTCPeerConnection;
+  createAudioContext?: () => AudioContext;
+}
+
+type ServerEvent = Record<string, unknown>;
+
+interface MockTone {
+  track: MediaStreamTrack;
+  setActive: (active: boolean) => void;
+  stop: () => void;
+}
+
+/** How a session delivers reply audio. */
+type MockAudioOutput =
+  /** Base64 PCM16 deltas on the event channel; the WebSocket transport reports playback itself. */
+  | { kind: 'pcm16' }
+  /** A tone on the WebRTC track, reported with `output_audio_buffer.*` events like the API does. */
+  | { kind: 'media'; tone: MockTone | null };
+
+interface MockResponse {
+  id: string;
+  cancelled: boolean;
+  failed: boolean;
+}
+
+/**
+ * A local stand-in for the realtime API, so avatar reactions can be iterated on without a network connection or
+ * API credits. It answers the WebRTC handshake with a loopback peer connection and plays scripted replies over the
+ * `oai-events` data channel, or over a WebSocket-like object for the WebSocket transport.
+ */
+export class MockRealtimeServer {
+  private readonly script: MockRealtimeReply[];
+
+  private readonly deltaIntervalMs: number;
+
+  private readonly sessions = new Set<MockRealtimeSession>();
+
+  private readonly peers = new Set<RTCPeerConnection>();
+
+  private readonly tones = new Set<MockTone>();
+
+  private audioContext: AudioContext | null = null;
+
+  private nextReplyIndex = 0;
+
+  constructor(private readonly options: MockRealtimeServerOptions = {}) {
+    this.script = options.script?.length ? options.script : DEFAULT_MOCK_REALTIME_SCRIPT;
+    this.deltaIntervalMs = options.deltaIntervalMs ?? 60;
+  }
+
+  /** Answers the JSON or SDP handshake the WebRTC transport posts to the calls endpoint. */
+  async fetch(_input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (!headers.get('authorization')?.startsWith('Bearer ')) {
+      return this.errorResponse(401, 'Missing bearer token.');
+    }
+
+    const contentType = headers.get('content-type')?.toLowerCase() ?? '';
+    const body = typeof init.body === 'string' ? init.body : '';
+    let offerSdp = '';
+    let session: Record<string, unknown> = {};
+    if (contentType.includes('application/sdp')) {
+      offerSdp = body;
+    } else if (contentType.includes('application/json')) {
+      try {
+        const payload = JSON.parse(body) as { sdp?: unknown; session?: unknown };
+        offerSdp = typeof payload.sdp === 'string' ? payload.sdp : '';
+        session = payload.session && typeof payload.session === 'object' ? (payload.session as Record<string, unknown>) : {};
+      } catch {
+        return this.errorResponse(400, 'Handshake body is not valid JSON.');
+      }
+    } else {
+      return this.errorResponse(400, `Unsupported handshake content type "${contentType}".`);
+    }
+
+    if (!offerSdp) {
+      return this.errorResponse(400, 'Handshake is missing the offer SDP.');
+    }
+
+    const answerSdp = await this.answerOffer(offerSdp, session);
+    return new Response(answerSdp, { status: 201, headers: { 'Content-Type': 'application/sdp' } });
+  }
+
+  /** Opens a WebSocket-like connection that authenticates with the API key subprotocol like the API does. */
+  createWebSocket(url: string, protocols: string[]): RealtimeSocket {
+    return new MockRealtimeSocket(url, protocols, (deliver) => this.openSession(deliver, { kind: 'pcm16' }, {}));
+  }
+
+  close(): void {
+    for (const session of [...this.sessions]) {
+      session.close();
+    }
+    for (const peer of this.peers) {
+      peer.close();
+    }
+    this.peers.clear();
+    for (const tone of [...this.tones]) {
+      tone.stop();
+    }
+    void this.audioContext?.close().catch(() => undefined);
+    this.audioContext = null;
+  }
+
+  private takeReply(): MockRealtimeReply {
+    const reply = this.script[this.nextReplyIndex % this.script.length] ?? [];
+    this.nextReplyIndex += 1;
+    return reply;
+  }
+
+  private openSession(deliver: (event: ServerEvent) => void, audio: MockAudioOutput, session: Record<string, unknown>) {
+    const mockSession = new MockRealtimeSession({
+      deliver,
+      audio,
+      session,
+      deltaIntervalMs: this.deltaIntervalMs,
+      takeReply: () => this.takeReply(),
+      onClose: () => this.sessions.delete(mockSession),
+    });
+    this.sessions.add(mockSession);
+    mockSession.start();
+    return mockSession;
+  }
+
+  private async answerOffer(offerSdp: string, session: Record<string, unknown>): Promise<string> {
+    const peer = this.options.createPeerConnection?.() ?? new RTCPeerConnection();
+    this.peers.add(peer);
+    const tone = this.createTone();
+
+    peer.ondatachannel = (event) => {
+      const channel = event.channel;
+      if (channel.label !== 'oai-events') {
+        return;
+      }
+
+      let mockSession: MockRealtimeSession | null = null;
+      const open = () => {
+        mockSession ??= this.openSession(
+          (serverEvent) => {
+            if (channel.readyState === 'open') {
+              channel.send(JSON.stringify(serverEvent));
+            }
+          },
+          { kind: 'media', tone },
+          session,
+        );
+      };
+      channel.onmessage = (message) => mockSession?.receive(message.data);
+      channel.onclose = () => {
+        mockSession?.close();
+        tone?.stop();
+        peer.close();
+        this.peers.delete(peer);
+      };
+      if (channel.readyState === 'open') {
+        open();
+      } else {
+        channel.onopen = open;
+      }
+    };
+
+    await peer.setRemoteDescription({ type: 'offer', sdp: offerSdp });
+    const transceiver = peer.getTransceivers().find((candidate) => candidate.receiver.track.kind === 'audio');
+    if (transceiver && tone) {
+      transceiver.direction = 'sendrecv';
+      await transceiver.sender.replaceTrack(tone.track);
+    }
+    const answer = await peer.createAnswer();
+    await peer.setLocalDescription(answer);
+    // Nothing trickles candidates to the client, so the answer has to carry them all.
+    await this.waitForIceGathering(peer);
+    return peer.localDescription?.sdp ?? answer.sdp ?? '';
+  }
+
+  private waitForIceGathering(peer: RTCPeerConnection): Promise<void> {
+    if (peer.iceGatheringState === 'complete') {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ICE_GATHERING_TIMEOUT_MS);
+      peer.onicegatheringstatechange = () => {
+        if (peer.iceGatheringState === 'complete') {
+          clearTimeout(timer);
+          resolve();
+        }
+      };
+    });
+  }
+
+  /** Creates the canned audio track; without Web Audio the WebRTC replies stay silent. */
+  private createTone(): MockTone | null {
+    try {
+      const context = this.audioContext ?? (this.options.createAudioContext ?? (() => new AudioContext()))();
+      this.audioContext = context;
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = TONE_FREQUENCY_HZ;
+      const pulse = context.createOscillator();
+      pulse.frequency.value = TONE_PULSE_HZ;
+      const pulseDepth = context.createGain();
+      pulseDepth.gain.value = 0.5;
+      const envelope = context.createGain();
+      envelope.gain.value = 0.5;
+      const level = context.createGain();
+      level.gain.value = 0;
+      const destination = context.createMediaStreamDestination();
+
+      pulse.connect(pulseDepth).connect(envelope.gain);
+      oscillator.connect(envelope).connect(level).connect(destination);
+      oscillator.start();
+      pulse.start();
+
+      const [track] = destination.stream.getAudioTracks();
+      if (!track) {
+        return null;
+      }
+      const tone: MockTone = {
+        track,
+        setActive: (active) => level.gain.setTargetAtTime(active ? TONE_LEVEL : 0, context.currentTime, 0.01),
+        stop: () => {
+          oscillator.stop();
+          pulse.stop();
+          track.stop();
+          this.tones.delete(tone);
+        },
+      };
+      this.tones.add(tone);
+      return tone;
+    } catch {
+      return null;
+    }
+  }
+
+  private errorResponse(status: number, message: string): Response {
+    return new Response(JSON.stringify({ error: { type: 'invalid_request_error', message } }), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+interface MockRealtimeSessionOptions {
+  deliver: (event: ServerEvent) => void;
+  audio: MockAudioOutput;
+  session: Record<string, unknown>;
+  deltaIntervalMs: number;
+  takeReply: () => MockRealtimeReply;
+  onClose: () => void;
+}
+
+/** Plays scripted replies for one connection, reacting to client events the way the realtime API would. */
+class MockRealtimeSession {
+  private session: Record<string, unknown>;
+
+  private activeResponse: MockResponse | null = null;
+
+  /** The reply whose audio is playing; cleared when the client drops the rest of it. */
+  private playingAudio: MockResponse | null = null;
+
+  private toolOutputPending = false;
+
+  private nextId = 0;
+
+  private closed = false;
+
+  constructor(private readonly options: MockRealtimeSessionOptions) {
+    this.session = { ...options.session };
+  }
+
+  start(): void {
+    this.emit({ type: 'session.created', session: this.session });
+  }
+
+  receive(data: unknown): void {
+    let event: Record<string, unknown>;
+    try {
+      event = JSON.parse(String(data)) as Record<string, unknown>;
+    } catch {
+      this.emitError('invalid_json', 'Client event is not valid JSON.');
+      return;
+    }
+
+    switch (event.type) {
+      case 'session.update': {
+        const update = event.session && typeof event.session === 'object' ? event.session : {};
+        this.session = { ...this.session, ...update };
+        this.emit({ type: 'session.updated', session: this.session });
+        break;
+      }
+      case 'conversation.item.create': {
+        const item = event.item && typeof event.item === 'object' ? (event.item as Record<string, unknown>) : {};
+        if (item.type === 'function_call_output') {
+          this.toolOutputPending = true;
+        }
+        this.emit({ type: 'conversation.item.created', item: { id: this.createId('item'), ...item } });
+        break;
+      }
+      case 'response.create': {
+        if (this.activeResponse) {
+          this.emitError('conversation_already_has_active_response', 'A response is already in progress.');
+          break;
+        }
+        const reply = this.toolOutputPending ? TOOL_FOLLOW_UP_REPLY : this.options.takeReply();
+        this.toolOutputPending = false;
+        void this.playReply(reply);
+        break;
+      }
+      case 'response.cancel':
+        if (this.activeResponse) {
+          this.activeResponse.cancelled = true;
+        } else {
+          this.emitError('response_cancel_not_active', 'There is no active response to cancel.');
+        }
+        break;
+      case 'output_audio_buffer.clear':
+        this.stopAudio();
+        this.emit({ type: 'output_audio_buffer.cleared' });
+        break;
+      case 'conversation.item.truncate':
+        this.emit({
+          type: 'conversation.item.truncated',
+          item_id: event.item_id,
+          content_index: event.content_index,
+          audio_end_ms: event.audio_end_ms,
+        });
+        break;
+      default:
+        break;
+    }
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.activeResponse) {
+      this.activeResponse.cancelled = true;
+    }
+    this.stopAudio();
+    this.options.onClose();
+  }
+
+  private async playReply(steps: MockRealtimeReply): Promise<void> {
+    const response: MockResponse = { id: this.createId('resp'), cancelled: false, failed: false };
+    this.activeResponse = response;
+    this.emit({ type: 'response.created', response: { id: response.id, status: 'in_progress' } });
+
+    for (const [index, step] of steps.entries()) {
+      if (response.cancelled) {
+        break;
+      }
+      await this.playStep(response, step, index);
+    }
+
+    this.activeResponse = null;
+    const status = response.cancelled ? 'cancelled' : response.failed ? 'failed' : 'completed';
+    this.emit({
+      type: 'response.done',
+      response: {
+        id: response.id,
+        status,
+        ...(response.cancelled ? { status_details: { type: 'cancelled', reason: 'client_cancelled' } } : {}),
+        usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+      },
+    });
+  }
+
+  private async playStep(response: MockResponse, step: MockRealtimeStep, outputIndex: number): Promise<void> {
+    const responseId = response.id;
+    switch (step.type) {
+      case 'text':
+      case 'transcript': {
+        const itemId = this.createId('item');
+        this.emit({
+          type: 'response.output_item.added',
+          response_id: responseId,
+          output_index: outputIndex,
+          item: { id: itemId, type: 'message', role: 'assistant' },
+        });
+        if (step.type === 'text') {
+          await this.streamText(response, itemId, step.text, 'response.output_text');
+        } else {
+          await Promise.all([
+            this.streamText(response, itemId, step.text, 'response.output_audio_transcript'),
+            this.playAudio(response, itemId, step.text.length * SPOKEN_MS_PER_CHARACTER),
+          ]);
+        }
+        break;
+      }
+      case 'audio': {
+        const itemId = this.createId('item');
+        this.emit({
+          type: 'response.output_item.added',
+          response_id: responseId,
+          output_index: outputIndex,
+          item: { id: itemId, type: 'message', role: 'assistant' },
+        });
+        await this.playAudio(response, itemId, step.durationMs);
+        break;
+      }
+      case 'function_call': {
+        const itemId = this.createId('item');
+        const callId = this.createId('call');
+        this.emit({
+          type: 'response.output_item.added',
+          response_id: responseId,
+          output_index: outputIndex,
+          item: { id: itemId, type: 'function_call', call_id: callId, name: step.name },
+        });
+        await this.wait(this.options.deltaIntervalMs);
+        if (response.cancelled) {
+          break;
+        }
+        this.emit({
+          type: 'response.function_call_arguments.done',
+          response_id: responseId,
+          item_id: itemId,
+          call_id: callId,
+          name: step.name,
+          arguments: JSON.stringify(step.arguments),
+        });
+        break;
+      }
+      case 'error':
+        response.failed = true;
+        this.emitError(step.code, step.message);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private async streamText(response: MockResponse, itemId: string, text: string, eventPrefix: string): Promise<void> {
+    // Split after whitespace so every delta carries whole words, like the API's.
+    for (const delta of text.match(/\S+\s*/g) ?? []) {
+      await this.wait(this.options.deltaIntervalMs);
+      if (response.cancelled) {
+        return;
+      }
+      this.emit({ type: `${eventPrefix}.delta`, response_id: response.id, item_id: itemId, delta });
+    }
+    const done = eventPrefix === 'response.output_text' ? { text } : { transcript: text };
+    this.emit({ type: `${eventPrefix}.done`, response_id: response.id, item_id: itemId, ...done });
+  }
+
+  private async playAudio(response: MockResponse, itemId: string, durationMs: number): Promise<void> {
+    const { audio } = this.options;
+    this.playingAudio = response;
+    if (audio.kind === 'media') {
+      audio.tone?.setActive(true);
+      this.emit({ type: 'output_audio_buffer.started', response_id: response.id });
+    }
+
+    for (let elapsedMs = 0; elapsedMs < durationMs; elapsedMs += AUDIO_CHUNK_MS) {
+      if (response.cancelled || this.playingAudio !== response) {
+        break;
+      }
+      if (audio.kind === 'pcm16') {
+        const chunkMs = Math.min(AUDIO_CHUNK_MS, durationMs - elapsedMs);
+        const delta = encodePcm16(createToneSamples(elapsedMs, chunkMs));
+        this.emit({ type: 'response.output_audio.delta', response_id: response.id, item_id: itemId, delta });
+      }
+      await this.wait(AUDIO_CHUNK_MS);
+    }
+
+    this.emit({ type: 'response.output_audio.done', response_id: response.id, item_id: itemId });
+    if (this.playingAudio === response) {
+      this.playingAudio = null;
+      if (audio.kind === 'media') {
+        audio.tone?.setActive(false);
+        this.emit({ type: 'output_audio_buffer.stopped', response_id: response.id });
+      }
+    }
+  }
+
+  private stopAudio(): void {
+    if (this.playingAudio && this.options.audio.kind === 'media') {
+      this.options.audio.tone?.setActive(false);
+    }
+    this.playingAudio = null;
+  }
+
+  private emitError(code: string, message: string): void {
+    this.emit({ type: 'error', error: { type: 'invalid_request_error', code, message } });
+  }
+
+  private emit(event: ServerEvent): void {
+    if (!this.closed) {
+      this.options.deliver({ event_id: this.createId('event'), ...event });
+    }
+  }
+
+  private createId(prefix: string): string {
+    this.nextId += 1;
+    return `${prefix}_mock_${this.nextId}`;
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/** The PCM counterpart of the WebRTC tone, continuing its phase from `startMs`. */
+function createToneSamples(startMs: number, durationMs: number): Float32Array {
+  const samples = new Float32Array(Math.round((durationMs / 1000) * PCM16_SAMPLE_RATE_HZ));
+  const startSample = Math.round((startMs / 1000) * PCM16_SAMPLE_RATE_HZ);
+  for (let index = 0; index < samples.length; index += 1) {
+    const seconds = (startSample + index) / PCM16_SAMPLE_RATE_HZ;
+    const envelope = 0.5 + 0.5 * Math.sin(2 * Math.PI * TONE_PULSE_HZ * seconds);
+    samples[index] = TONE_LEVEL * envelope * Math.sin(2 * Math.PI * TONE_FREQUENCY_HZ * seconds);
+  }
+  return samples;
+}
+
+const SOCKET_CONNECTING = 0;
+const SOCKET_OPEN = 1;
+const SOCKET_CLOSED = 3;
+
+/** A {@link RealtimeSocket} backed by a local session. */
+class MockRealtimeSocket implements RealtimeSocket {
+  readyState = SOCKET_CONNECTING;
+
+  onopen: ((event: Event) => void) | null = null;
+
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  onerror: ((event: Event) => void) | null = null;
+
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  private session: MockRealtimeSession | null = null;
+
+  constructor(
+    readonly url: string,
+    private readonly protocols: string[],
+    private readonly openSession: (deliver: (event: ServerEvent) => void) => MockRealtimeSession,
+  ) {
+    // Like a real socket, it opens after the caller has attached its handlers.
+    setTimeout(() => this.accept(), 0);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== SOCKET_OPEN) {
+      throw new Error('Mock realtime socket is not open.');
+    }
+    this.session?.receive(data);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === SOCKET_CLOSED) {
+      return;
+    }
+    this.readyState = SOCKET_CLOSED;
+    this.session?.close();
+    this.session = null;
+    this.onclose?.(new CloseEvent('close', { code, reason, wasClean: true }));
+  }
+
+  private accept(): void {
+    if (this.readyState !== SOCKET_CONNECTING) {
+      return;
+    }
+    const hasApiKey = this.protocols.some(
+      (protocol) => protocol.startsWith(API_KEY_PROTOCOL_PREFIX) && protocol.length > API_KEY_PROTOCOL_PREFIX.length,
+    );
+    if (!hasApiKey) {
+      this.close(1008, 'Missing API key.');
+      return;
+    }
+
+    this.readyState = SOCKET_OPEN;
+    this.session = this.openSession((event) => {
+      // Deliver asynchronously, as a socket would, so replies never re-enter the sender.
+      queueMicrotask(() => {
+        if (this.readyState === SOCKET_OPEN) {
+          this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(event) }));
+        }
+      });
+    });
+    this.onopen?.(new Event('open'));
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * AudioWorklet processors for the WebSocket transport. `pcm16-capture` hands the microphone to the main thread
+ * in 100 ms blocks; `pcm16-playback` plays queued assistant audio and reports when a finished reply has played
+ * out. Worklets load as standalone modules, so this file must not import anything.
+ */
+
+declare const sampleRate: number;
+
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+declare function registerProcessor(name: string, processorCtor: new () => AudioWorkletProcessor): void;
+
+export type PcmPlaybackMessage =
+  | { type: 'audio'; samples: Float32Array }
+  /** No more audio follows for the current reply; play out what is queued even below the prebuffer. */
+  | { type: 'end' }
+  | { type: 'clear' }
+  | { type: 'prebuffer'; samples: number };
+
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  private readonly block = new Float32Array(Math.round(sampleRate / 10));
+
+  private filled = 0;
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    let offset = 0;
+    while (channel && offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.block.length - this.filled);
+      this.block.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.block.length) {
+        this.port.postMessage(this.block.slice());
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+class Pcm16PlaybackProcessor extends AudioWorkletProcessor {
+  private queue: Float32Array[] = [];
+
+  private readOffset = 0;
+
+  private queued = 0;
+
+  private prebufferSamples = 0;
+
+  private playing = false;
+
+  private ended = false;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<PcmPlaybackMessage>) => {
+      this.handleMessage(event.data);
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const output = outputs[0]?.[0];
+    if (!output) {
+      return true;
+    }
+
+    if (!this.playing) {
+      // Let the jitter buffer fill first, unless the reply is already complete.
+      if (this.queued === 0 || (this.queued < this.prebufferSamples && !this.ended)) {
+        return true;
+      }
+      this.playing = true;
+    }
+
+    let written = 0;
+    while (written < output.length && this.queue.length > 0) {
+      const chunk = this.queue[0];
+      const count = Math.min(output.length - written, chunk.length - this.readOffset);
+      output.set(chunk.subarray(this.readOffset, this.readOffset + count), written);
+      written += count;
+      this.readOffset += count;
+      this.queued -= count;
+      if (this.readOffset >= chunk.length) {
+        this.queue.shift();
+        this.readOffset = 0;
+      }
+    }
+
+    if (this.queue.length === 0) {
+      // An underrun mid-reply waits for the prebuffer again; a finished reply reports that it played out.
+      this.playing = false;
+      if (this.ended) {
+        this.ended = false;
+        this.port.postMessage({ type: 'drained' });
+      }
+    }
+    return true;
+  }
+
+  private handleMessage(message: PcmPlaybackMessage): void {
+    switch (message.type) {
+      case 'audio':
+        this.queue.push(message.samples);
+        this.queued += message.samples.length;
+        break;
+      case 'end':
+        if (this.queued === 0) {
+          this.port.postMessage({ type: 'drained' });
+        } else {
+          this.ended = true;
+        }
+        break;
+      case 'clear':
+        this.queue = [];
+        this.readOffset = 0;
+        this.queued = 0;
+        this.playing = false;
+        this.ended = false;
+        break;
+      case 'prebuffer':
+        this.prebufferSamples = Math.max(0, Math.round(message.samples));
+        break;
+    }
+  }
+}
+
+registerProcessor('pcm16-capture', Pcm16CaptureProcessor);
+registerProcessor('pcm16-playback', Pcm16PlaybackProcessor);
@@ -0,0 +1,33 @@
+/** Sample rate of the `pcm16` audio the realtime API streams over a WebSocket. */
+export const PCM16_SAMPLE_RATE_HZ = 24_000;
+
+// Converting a few thousand bytes per call keeps `String.fromCharCode` below argument count limits.
+const BASE64_CHUNK_BYTES = 0x2000;
+
+/** Encodes mono float samples in [-1, 1] as base64 little-endian 16-bit PCM. */
+export function encodePcm16(samples: Float32Array): string {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let index = 0; index < samples.length; index += 1) {
+    const sample = Math.max(-1, Math.min(1, samples[index] ?? 0));
+    view.setInt16(index * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_BYTES) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_BYTES));
+  }
+  return btoa(binary);
+}
+
+/** Decodes base64 little-endian 16-bit PCM into float samples in [-1, 1]. */
+export function decodePcm16(base64: string): Float32Array {
+  const binary = atob(base64);
+  const samples = new Float32Array(Math.floor(binary.length / 2));
+  for (let index = 0; index < samples.length; index += 1) {
+    const value = binary.charCodeAt(index * 2) | (binary.charCodeAt(index * 2 + 1) << 8);
+    // Sign-extend the 16-bit value before scaling.
+    samples[index] = ((value << 16) >> 16) / 0x8000;
+  }
+  return samples;
+}
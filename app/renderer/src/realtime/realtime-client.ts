@@ -1,3 +1,14 @@
+import type { MockRealtimeServer } from './mock-realtime-server.js';
+import { PCM16_SAMPLE_RATE_HZ } from './pcm16.js';
+import type {
+  RealtimeTransport,
+  RealtimeTransportConnectionState,
+  RealtimeTransportHandlers,
+  RealtimeTransportKind,
+} from './realtime-transport.js';
+import { WebRtcTransport } from './webrtc-transport.js';
+import { WebSocketTransport, type RealtimeSocket } from './websocket-transport.js';
+
 export type RealtimeClientStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'error';
 
 export interface RealtimeClientState {
@@ -18,13 +29,101 @@ export interface RealtimeClientCallbacks {
   onFirstAudioFrame?: () => void;
   onSessionUpdated?: (session: { voice?: string; instructions?: string; turnDetection?: string }) => void;
   onTextContent?: (content: string) => void;
+  /** Server VAD detected the start of a user turn. */
+  onUserSpeechStarted?: () => void;
+  /** Server VAD detected the end of a user turn; `itemId` names the conversation item it becomes. */
+  onUserSpeechStopped?: (event: { itemId: string | null }) => void;
+  /**
+   * Transcription of the user's speech: a `delta` while it is being transcribed, then the full text
+   * with `final: true`. `itemId` matches the one reported when the speech stopped.
+   */
+  onUserTranscript?: (transcript: RealtimeUserTranscript) => void;
+  /** The assistant's audio started playing out of the remote stream. */
+  onAssistantAudioStarted?: () => void;
+  /** The assistant's audio finished playing or was cleared. */
+  onAssistantAudioStopped?: () => void;
+  /** A piece of the assistant's reply text or audio transcript arrived while the response is still running. */
+  onTranscriptDelta?: (delta: string) => void;
+  /** A response completed; `transcript` is its final text or audio transcript when it produced one. */
+  onResponseDone?: (response: RealtimeResponseSummary) => void;
+  /**
+   * The model called one of the advertised tools. Answer with {@link RealtimeClient.submitToolOutput};
+   * the model continues once every call of the response has an output.
+   */
+  onToolCall?: (call: RealtimeToolCall) => void;
+  /** The user spoke over the assistant and its reply was cancelled and truncated to what was heard. */
+  onAssistantInterrupted?: (interruption: RealtimeInterruption) => void;
+}
+
+export interface RealtimeInterruption {
+  /** Assistant message item that was truncated, when the server had announced it. */
+  itemId: string | null;
+  /** Milliseconds of the reply's audio that played before the user cut in. */
+  audioEndMs: number;
+}
+
+/** A function the model may call, advertised in `session.update`. */
+export interface RealtimeToolDefinition {
+  name: string;
+  description: string;
+  /** JSON schema of the function's arguments. */
+  parameters: object;
+}
+
+export interface RealtimeToolCall {
+  callId: string;
+  name: string;
+  /** Arguments as the raw JSON string the model produced. */
+  arguments: string;
+}
+
+export interface RealtimeResponseUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
 }
 
+export interface RealtimeResponseSummary {
+  transcript: string | null;
+  /** Assistant message item of the response, when the server announced one. */
+  itemId: string | null;
+  /** Token usage reported by `response.done`, when the server included it. */
+  usage: RealtimeResponseUsage | null;
+  /** True when the response was cut short, e.g. because the user started speaking over it. */
+  interrupted: boolean;
+  voice: string | null;
+  model: string;
+}
+
+export interface RealtimeUserTranscript {
+  itemId: string | null;
+  text: string;
+  final: boolean;
+}
+
+/** A past conversation turn replayed into a new realtime session. */
+export interface RealtimeHistoryMessage {
+  /** Stored conversation message the turn came from, so it can be deleted from the session if forgotten. */
+  id?: string;
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/** Pass as the client's `endpoint` to talk to the local {@link MockRealtimeServer} instead of the realtime API. */
+export const MOCK_REALTIME_ENDPOINT = 'mock://realtime';
+
 export interface RealtimeClientOptions {
+  /** {@link MOCK_REALTIME_ENDPOINT} plays scripted replies from a local mock server, for either transport. */
   endpoint?: string;
   model?: string;
   fetchFn?: typeof fetch;
   createPeerConnection?: (config?: RTCConfiguration) => RTCPeerConnection;
+  /** `websocket` streams PCM16 over a WebSocket instead, for networks that block WebRTC's UDP traffic. */
+  transport?: RealtimeTransportKind;
+  /** WebSocket URL, defaulting to the realtime API for the configured model. */
+  websocketEndpoint?: string;
+  createWebSocket?: (url: string, protocols: string[]) => RealtimeSocket;
+  createAudioContext?: (options: AudioContextOptions) => AudioContext;
   callbacks?: RealtimeClientCallbacks;
   reconnectDelaysMs?: number[];
   jitterBufferMs?: number;
@@ -32,14 +131,19 @@ export interface RealtimeClientOptions {
   // Handshake content type: default JSON; some deployments require application/sdp
   handshakeMode?: 'json' | 'sdp';
   reconnectApiKeyProvider?: () => Promise<string | null>;
+  /** Supplies recent turns, oldest first, to replay whenever the control channel (re)opens. */
+  historyProvider?: () => Promise<RealtimeHistoryMessage[]>;
   sessionConfig?: {
     instructions?: string;
     turnDetection?: 'none' | 'server_vad';
     vad?: { threshold?: number; silenceDurationMs?: number; minSpeechDurationMs?: number };
     voice?: string;
     modalities?: string[];
+    /** Transcribes the user's speech with this model; `null` turns transcription off. */
+    inputAudioTranscription?: { model?: string; language?: string } | null;
     inputAudioFormat?: { type: string; sampleRateHz?: number; channels?: number };
     sessionParameters?: Record<string, unknown>;
+    tools?: RealtimeToolDefinition[];
   };
 }
 
@@ -51,6 +155,10 @@ export interface RealtimeClientConnectOptions {
 
 // Note: older code used a typed negotiation answer; currently unused.
 
+const DEFAULT_TRANSCRIPTION_MODEL = 'gpt-4o-mini-transcribe';
+const REMOTE_AUDIO_FADE_MS = 120;
+const REMOTE_AUDIO_FADE_STEP_MS = 16;
+
 function wait(durationMs: number): Promise<void> {
   return new Promise((resolve) => {
     window.setTimeout(resolve, durationMs);
@@ -80,6 +188,19 @@ export class RealtimeClient {
 
   private readonly createPeerConnectionFn: (config?: RTCConfiguration) => RTCPeerConnection;
 
+  private readonly websocketEndpoint: string;
+
+  private readonly createWebSocketFn: (url: string, protocols: string[]) => RealtimeSocket;
+
+  private readonly createAudioContextFn: (options: AudioContextOptions) => AudioContext;
+
+  /** Imported on first use, so the mock server is only bundled into a chunk loaded when it is enabled. */
+  private readonly mockServerReady: Promise<MockRealtimeServer> | null;
+
+  private mockServer: MockRealtimeServer | null = null;
+
+  private transportKind: RealtimeTransportKind;
+
   private readonly reconnectDelays: number[];
 
   private readonly callbacks: RealtimeClientCallbacks;
@@ -94,9 +215,7 @@ export class RealtimeClient {
 
   private currentIceServers: RTCIceServer[] | null = null;
 
-  private peer: RTCPeerConnection | null = null;
-
-  private controlChannel: RTCDataChannel | null = null;
+  private transport: RealtimeTransport | null = null;
 
   private remoteStream: MediaStream | null = null;
 
@@ -112,15 +231,62 @@ export class RealtimeClient {
 
   private disposed = false;
 
+  private responseTranscripts: string[] = [];
+
+  private responseInProgress = false;
+
+  /** Function calls from the model that still wait for their output. */
+  private pendingToolCalls = new Set<string>();
+
+  private submittedToolOutputs = 0;
+
+  private assistantItemId: string | null = null;
+
+  /** Conversation message ids mapped to the realtime items they became in the open session. */
+  private readonly messageItems = new Map<string, string>();
+
+  private itemSequence = 0;
+
+  /** Wall-clock time the assistant's current audio started playing, or null while it is silent. */
+  private assistantAudioStartedAt: number | null = null;
+
+  private remoteVolumeBeforeFade: number | null = null;
+
+  private remoteFadeTimer: number | null = null;
+
   private jitterBufferMs: number;
   private sessionConfig?: RealtimeClientOptions['sessionConfig'];
   private handshakeMode: 'json' | 'sdp';
   private reconnectApiKeyProvider: RealtimeClientOptions['reconnectApiKeyProvider'];
+  private historyProvider: RealtimeClientOptions['historyProvider'];
   constructor(options: RealtimeClientOptions = {}) {
     this.endpoint = options.endpoint ?? 'https://api.openai.com/v1/realtime/calls';
     this.model = options.model ?? 'gpt-4o-realtime-preview-2024-12-17';
-    this.fetchFn = options.fetchFn ?? window.fetch.bind(window);
     this.createPeerConnectionFn = options.createPeerConnection ?? ((config?: RTCConfiguration) => new RTCPeerConnection(config));
+    this.transportKind = options.transport ?? 'webrtc';
+    if (this.endpoint === MOCK_REALTIME_ENDPOINT) {
+      const mockServerReady = import('./mock-realtime-server.js').then(({ MockRealtimeServer }) => {
+        this.mockServer = new MockRealtimeServer();
+        return this.mockServer;
+      });
+      this.mockServerReady = mockServerReady;
+      this.fetchFn = async (input, init) => (await mockServerReady).fetch(input, init);
+      this.websocketEndpoint = MOCK_REALTIME_ENDPOINT;
+      // Connecting waits for the server, so it is loaded by the time the transport opens a socket.
+      this.createWebSocketFn = (url, protocols) => {
+        if (!this.mockServer) {
+          throw new Error('The mock realtime server has not loaded.');
+        }
+        return this.mockServer.createWebSocket(url, protocols);
+      };
+    } else {
+      this.mockServerReady = null;
+      this.fetchFn = options.fetchFn ?? window.fetch.bind(window);
+      this.websocketEndpoint =
+        options.websocketEndpoint ?? `wss://api.openai.com/v1/realtime?model=${encodeURIComponent(this.model)}`;
+      this.createWebSocketFn = options.createWebSocket ?? ((url, protocols) => new WebSocket(url, protocols));
+    }
+    this.createAudioContextFn = options.createAudioContext ?? ((contextOptions) => new AudioContext(contextOptions));
     this.reconnectDelays = options.reconnectDelaysMs ?? [750, 1500, 3000];
     this.callbacks = options.callbacks ?? {};
     this.maxReconnectAttempts = options.maxReconnectAttempts ?? Math.max(this.reconnectDelays.length, 3);
@@ -128,6 +294,7 @@ export class RealtimeClient {
     this.sessionConfig = options.sessionConfig;
     this.handshakeMode = options.handshakeMode ?? 'json';
     this.reconnectApiKeyProvider = options.reconnectApiKeyProvider;
+    this.historyProvider = options.historyProvider;
   }
 
   getState(): RealtimeClientState {
@@ -156,13 +323,22 @@ export class RealtimeClient {
 
   setJitterBufferMs(value: number): void {
     this.jitterBufferMs = value;
-    this.applyJitterBufferHint();
+    this.transport?.setJitterBufferMs(value);
+  }
+
+  /** Chooses how the next connection reaches the API; an open connection keeps its transport. */
+  setTransport(kind: RealtimeTransportKind): void {
+    this.transportKind = kind;
   }
 
   setReconnectApiKeyProvider(provider: RealtimeClientOptions['reconnectApiKeyProvider']): void {
     this.reconnectApiKeyProvider = provider;
   }
 
+  setHistoryProvider(provider: RealtimeClientOptions['historyProvider']): void {
+    this.historyProvider = provider;
+  }
+
   async connect(options: RealtimeClientConnectOptions): Promise<void> {
     if (this.disposed) {
       throw new Error('Realtime client has been disposed.');
@@ -213,347 +389,422 @@ export class RealtimeClient {
 
     this.disposed = true;
     await this.disconnect();
+    this.mockServer?.close();
   }
 
-  notifySpeechActivity(active: boolean): void {
-    if (!this.controlChannel || this.controlChannel.readyState !== 'open') {
-      return;
-    }
+  isAssistantSpeaking(): boolean {
+    return this.assistantAudioStartedAt !== null;
+  }
 
-    const payload = JSON.stringify({ type: active ? 'user_speech_start' : 'user_speech_stop' });
-    try {
-      this.controlChannel.send(payload);
-      this.log('info', 'Sent speech activity update to realtime API', { active, payload });
-    } catch (error) {
-      this.log('warn', 'Failed to send speech activity update', error);
-    }
+  /**
+   * Reports the local speech gate. Speech that starts while the assistant is talking interrupts it
+   * (barge-in); resolves to the interruption, or null when there was nothing to interrupt.
+   */
+  notifySpeechActivity(active: boolean): RealtimeInterruption | null {
+    return active ? this.interruptAssistant() : null;
   }
 
-  private async establishConnection(options: RealtimeClientConnectOptions): Promise<void> {
-    if (!this.currentStream) {
-      throw new Error('No microphone stream available for realtime connection.');
+  /**
+   * Stops the assistant mid-reply: cancels the response, drops its unplayed audio and truncates the
+   * stored item to the audio that was actually heard, so the model knows where it was cut off.
+   */
+  interruptAssistant(): RealtimeInterruption | null {
+    const startedAt = this.assistantAudioStartedAt;
+    const transport = this.transport;
+    if (startedAt === null || !transport?.isOpen()) {
+      return null;
     }
 
-    this.cleanupPeer();
-
-    const configuration: RTCConfiguration | undefined = options.iceServers?.length
-      ? { iceServers: options.iceServers }
-      : undefined;
-    const peer = this.createPeerConnectionFn(configuration);
-    this.peer = peer;
-
-    peer.onconnectionstatechange = (event) => {
-      this.log('info', 'Realtime peer connection state change event', {
-        state: peer.connectionState,
-        iceConnectionState: peer.iceConnectionState,
-        event,
-      });
-      this.handleConnectionStateChange();
-    };
-
-    peer.oniceconnectionstatechange = (event) => {
-      this.log('info', 'Realtime ICE connection state change', {
-        state: peer.iceConnectionState,
-        event,
-      });
+    const interruption: RealtimeInterruption = {
+      itemId: this.assistantItemId,
+      audioEndMs: Math.max(0, Date.now() - startedAt),
     };
+    this.assistantAudioStartedAt = null;
 
-    peer.onicegatheringstatechange = (event) => {
-      this.log('info', 'Realtime ICE gathering state change', {
-        state: peer.iceGatheringState,
-        event,
-      });
-    };
-
-    peer.onsignalingstatechange = (event) => {
-      this.log('info', 'Realtime signaling state change', {
-        state: peer.signalingState,
-        event,
+    const events: Record<string, unknown>[] = [];
+    if (this.responseInProgress) {
+      events.push({ type: 'response.cancel' });
+    }
+    // Unplayed audio waits in the session's output buffer (kept by the transport over WebSocket);
+    // clearing it stops playback at once.
+    events.push({ type: 'output_audio_buffer.clear' });
+    if (interruption.itemId) {
+      events.push({
+        type: 'conversation.item.truncate',
+        item_id: interruption.itemId,
+        content_index: 0,
+        audio_end_ms: interruption.audioEndMs,
       });
-    };
+    }
 
-    peer.onicecandidate = (event) => {
-      this.log('info', 'Realtime ICE candidate event', {
-        candidate: event.candidate,
-        event,
-      });
-      if (!event.candidate) {
-        this.log('info', 'ICE candidate gathering complete');
+    for (const event of events) {
+      try {
+        transport.send(event);
+      } catch (error) {
+        this.log('warn', 'Failed to send realtime interruption event', { type: event.type, error });
       }
-    };
+    }
 
-    peer.ontrack = (event) => {
-      this.log('info', 'Realtime track event received', event);
-      this.handleRemoteTrack(event);
-    };
+    this.fadeOutRemoteAudio();
+    this.log('info', 'Interrupted assistant speech', interruption);
+    this.callbacks.onAssistantInterrupted?.(interruption);
+    return interruption;
+  }
 
-    try {
-      for (const track of this.currentStream.getTracks()) {
-        peer.addTrack(track, this.currentStream);
-      }
-    } catch (error) {
-      this.log('warn', 'Failed to add input tracks to realtime peer connection', error);
+  /**
+   * Sends a typed user message into the live conversation and asks the model to answer it. A reply
+   * that is still playing is interrupted first, as if the user had spoken over it. Returns the id of the
+   * created item, or null when the text is blank or the control channel is not open.
+   */
+  sendText(text: string): string | null {
+    const trimmed = text.trim();
+    const transport = this.transport;
+    if (!trimmed || !transport?.isOpen()) {
+      return null;
     }
 
-    try {
-      peer.addTransceiver('audio', { direction: 'recvonly' });
-    } catch (error) {
-      this.log('info', 'Failed to add recvonly audio transceiver (may be unsupported)', error);
+    if (!this.interruptAssistant() && this.responseInProgress) {
+      try {
+        transport.send({ type: 'response.cancel' });
+      } catch (error) {
+        this.log('warn', 'Failed to cancel realtime response before typed input', error);
+      }
     }
 
+    const itemId = this.createItemId();
     try {
-      this.controlChannel = peer.createDataChannel('oai-events', { ordered: true });
-      this.controlChannel.onopen = (event) => {
-        this.log('info', 'Realtime control data channel opened', event);
-        this.sendSessionUpdate();
-      };
-      this.controlChannel.onclose = (event) => {
-        this.log('warn', 'Realtime control data channel closed', event);
-      };
-      this.controlChannel.onerror = (event) => {
-        this.log('warn', 'Realtime control data channel error', event);
-      };
-      this.controlChannel.onmessage = (event) => {
-        this.log('info', 'Realtime control channel message received', {
-          data: event.data as unknown,
-        });
-        try {
-          const payload: unknown = typeof event.data === 'string' ? JSON.parse(event.data) : null;
-          if (payload && typeof payload === 'object') {
-            const type = (payload as { type?: string }).type;
-            if (type === 'session.updated' || type === 'session.update') {
-              const session = (payload as { session?: Record<string, unknown> }).session ?? {};
-              const audio = session && typeof session === 'object' ? ((session as { audio?: unknown }).audio as unknown) : undefined;
-              const audioOutput =
-                audio && typeof audio === 'object'
-                  ? ((audio as { output?: unknown }).output as { voice?: unknown } | undefined)
-                  : undefined;
-              const sessionParameters =
-                session && typeof session === 'object'
-                  ? ((session as { session_parameters?: unknown }).session_parameters as Record<string, unknown> | undefined)
-                  : undefined;
-              const voiceFromSessionParameters =
-                typeof sessionParameters?.['voice'] === 'string'
-                  ? (sessionParameters['voice'] as string)
-                  : undefined;
-              const voiceFromSession =
-                typeof session['voice'] === 'string' ? (session['voice'] as string) : undefined;
-              const voiceFromAudioOutput =
-                typeof audioOutput?.voice === 'string' ? (audioOutput.voice as string) : undefined;
-              const voice = voiceFromSessionParameters ?? voiceFromSession ?? voiceFromAudioOutput;
-              const instructions =
-                typeof sessionParameters?.['instructions'] === 'string'
-                  ? (sessionParameters['instructions'] as string)
-                  : typeof session['instructions'] === 'string'
-                    ? (session['instructions'] as string)
-                    : undefined;
-              const td = (sessionParameters?.['turn_detection'] ?? session['turn_detection']) as { type?: string } | undefined;
-              const turnDetection = td && typeof td.type === 'string' ? td.type : undefined;
-              this.callbacks.onSessionUpdated?.({ voice, instructions, turnDetection });
-              this.log('info', 'Received session.updated from realtime API', { voice, turnDetection, hasInstructions: Boolean(instructions) });
-            }
-
-            const textContent = this.extractTextContent(payload as Record<string, unknown>);
-            if (textContent) {
-              this.callbacks.onTextContent?.(textContent);
-            }
-          }
-        } catch (error) {
-          this.log('warn', 'Failed to parse control channel message', error);
-        }
-      };
+      transport.send({
+        type: 'conversation.item.create',
+        item: {
+          id: itemId,
+          type: 'message',
+          role: 'user',
+          content: [{ type: 'input_text', text: trimmed }],
+        },
+      });
+      transport.send({ type: 'response.create' });
     } catch (error) {
-      this.log('warn', 'Failed to create realtime control data channel', error);
-      this.controlChannel = null;
+      this.log('warn', 'Failed to send typed realtime input', error);
+      return null;
     }
 
-    await this.exchangeOffer(peer, options.apiKey);
+    this.log('info', 'Sent typed realtime input', { length: trimmed.length });
+    return itemId;
   }
 
-  private async exchangeOffer(peer: RTCPeerConnection, apiKey: string): Promise<void> {
-    const offer = await peer.createOffer({ offerToReceiveAudio: true, offerToReceiveVideo: false });
-    await peer.setLocalDescription(offer);
-
-    const offerSdp = offer.sdp ?? '';
-
-    const answerSdp =
-      this.handshakeMode === 'sdp'
-        ? await this.performSdpHandshake(apiKey, offerSdp)
-        : await this.performJsonHandshake(apiKey, offerSdp);
-
-    await peer.setRemoteDescription({ type: 'answer', sdp: answerSdp });
-    if (this.controlChannel && this.controlChannel.readyState === 'open') {
-      this.sendSessionUpdate();
+  /** Records that a stored conversation message is the given item of the open realtime session. */
+  linkMessageItem(messageId: string, itemId: string): void {
+    if (this.transport?.isOpen()) {
+      this.messageItems.set(messageId, itemId);
     }
   }
 
-  private async performJsonHandshake(apiKey: string, offerSdp: string): Promise<string> {
-    const sessionConfig = this.buildInitialSessionConfiguration();
-    const requestBody: Record<string, unknown> = { sdp: offerSdp };
-
-    if (Object.keys(sessionConfig).length > 0) {
-      requestBody.session = sessionConfig;
+  /**
+   * Deletes the items of forgotten conversation messages from the open realtime session, so the model
+   * cannot repeat them. Returns how many delete events were sent.
+   */
+  forgetMessages(messageIds: readonly string[]): number {
+    const transport = this.transport;
+    let deleted = 0;
+    for (const messageId of messageIds) {
+      const itemId = this.messageItems.get(messageId);
+      if (!itemId) {
+        continue;
+      }
+      this.messageItems.delete(messageId);
+      if (!transport?.isOpen()) {
+        continue;
+      }
+      try {
+        transport.send({ type: 'conversation.item.delete', item_id: itemId });
+        deleted += 1;
+      } catch (error) {
+        this.log('warn', 'Failed to delete forgotten realtime item', { itemId, error });
+      }
     }
 
-    this.log('info', 'Realtime JSON handshake request', {
-      endpoint: this.endpoint,
-      body: requestBody,
-    });
+    if (deleted > 0) {
+      this.log('info', 'Deleted forgotten items from realtime session', { count: deleted });
+    }
+    return deleted;
+  }
 
-    const response = await this.fetchFn(this.endpoint, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+  private async establishConnection(options: RealtimeClientConnectOptions): Promise<void> {
+    if (!this.currentStream) {
+      throw new Error('No microphone stream available for realtime connection.');
+    }
+    await this.mockServerReady;
 
-    const contentTypeHeader = response.headers?.get?.('content-type') ?? '';
-    const normalizedContentType = contentTypeHeader.toLowerCase();
+    this.cleanupPeer();
 
-    this.log('info', 'Realtime JSON handshake response metadata', {
-      status: response.status,
-      contentType: normalizedContentType,
+    const transport = this.createTransport();
+    this.transport = transport;
+    await transport.connect({
+      apiKey: options.apiKey,
+      inputStream: this.currentStream,
+      iceServers: options.iceServers,
+      session: this.buildInitialSessionConfiguration(),
     });
 
-    if (response.status === 400) {
-      this.log('error', 'Realtime endpoint request failed with HTTP 400', {
-        endpoint: this.endpoint,
-        body: requestBody,
-      });
+    if (transport === this.transport && transport.isOpen()) {
+      this.sendSessionUpdate();
     }
+  }
 
-    if (!response.ok) {
-      const { detail } = await this.readHandshakeErrorDetail(response, normalizedContentType);
-      const message = `Realtime handshake failed: HTTP ${response.status}${detail ? `: ${detail}` : ''}`;
-      throw new Error(message);
-    }
+  private createTransport(): RealtimeTransport {
+    // Events from a transport that has since been replaced or closed are dropped.
+    const isCurrent = () => transport === this.transport;
+    const handlers: RealtimeTransportHandlers = {
+      onOpen: () => {
+        if (isCurrent()) {
+          this.sendSessionUpdate();
+          void this.replayHistory(transport);
+        }
+      },
+      onMessage: (data) => {
+        if (isCurrent()) {
+          this.handleServerMessage(data);
+        }
+      },
+      onConnectionStateChange: (state) => {
+        if (isCurrent()) {
+          this.handleConnectionStateChange(state);
+        }
+      },
+      onRemoteStream: (stream) => {
+        if (isCurrent()) {
+          this.handleRemoteStream(stream);
+        }
+      },
+      onFirstAudioFrame: () => {
+        if (isCurrent()) {
+          this.callbacks.onFirstAudioFrame?.();
+        }
+      },
+      onLog: (level, message, data) => this.log(level, message, data),
+    };
+
+    const transport: RealtimeTransport =
+      this.transportKind === 'websocket'
+        ? new WebSocketTransport({
+            endpoint: this.websocketEndpoint,
+            createWebSocket: this.createWebSocketFn,
+            createAudioContext: this.createAudioContextFn,
+            jitterBufferMs: this.jitterBufferMs,
+            handlers,
+          })
+        : new WebRtcTransport({
+            endpoint: this.endpoint,
+            fetchFn: this.fetchFn,
+            createPeerConnection: this.createPeerConnectionFn,
+            handshakeMode: this.handshakeMode,
+            jitterBufferMs: this.jitterBufferMs,
+            handlers,
+          });
+    this.log('info', 'Created realtime transport', { kind: transport.kind });
+    return transport;
+  }
 
-    if (normalizedContentType.includes('application/json')) {
-      const payload = (await response.json()) as
-        | { sdp?: unknown; rtc_connection?: { sdp?: unknown } | null }
-        | undefined
-        | null;
+  private handleServerMessage(data: unknown): void {
+    this.log('info', 'Realtime control channel message received', {
+      data,
+    });
+    try {
+      const payload: unknown = typeof data === 'string' ? JSON.parse(data) : null;
       if (payload && typeof payload === 'object') {
-        if (typeof payload.sdp === 'string') {
-          return payload.sdp;
+        const type = (payload as { type?: string }).type;
+        if (type === 'session.updated' || type === 'session.update') {
+          const session = (payload as { session?: Record<string, unknown> }).session ?? {};
+          const audio = session && typeof session === 'object' ? ((session as { audio?: unknown }).audio as unknown) : undefined;
+          const audioOutput =
+            audio && typeof audio === 'object'
+              ? ((audio as { output?: unknown }).output as { voice?: unknown } | undefined)
+              : undefined;
+          const sessionParameters =
+            session && typeof session === 'object'
+              ? ((session as { session_parameters?: unknown }).session_parameters as Record<string, unknown> | undefined)
+              : undefined;
+          const voiceFromSessionParameters =
+            typeof sessionParameters?.['voice'] === 'string'
+              ? (sessionParameters['voice'] as string)
+              : undefined;
+          const voiceFromSession =
+            typeof session['voice'] === 'string' ? (session['voice'] as string) : undefined;
+          const voiceFromAudioOutput =
+            typeof audioOutput?.voice === 'string' ? (audioOutput.voice as string) : undefined;
+          const voice = voiceFromSessionParameters ?? voiceFromSession ?? voiceFromAudioOutput;
+          const instructions =
+            typeof sessionParameters?.['instructions'] === 'string'
+              ? (sessionParameters['instructions'] as string)
+              : typeof session['instructions'] === 'string'
+                ? (session['instructions'] as string)
+                : undefined;
+          const td = (sessionParameters?.['turn_detection'] ?? session['turn_detection']) as { type?: string } | undefined;
+          const turnDetection = td && typeof td.type === 'string' ? td.type : undefined;
+          this.callbacks.onSessionUpdated?.({ voice, instructions, turnDetection });
+          this.log('info', 'Received session.updated from realtime API', { voice, turnDetection, hasInstructions: Boolean(instructions) });
         }
-        const rtcConnection = payload.rtc_connection;
-        if (rtcConnection && typeof rtcConnection === 'object' && typeof rtcConnection.sdp === 'string') {
-          return rtcConnection.sdp;
+
+        const textContent = this.extractTextContent(payload as Record<string, unknown>);
+        if (textContent) {
+          this.callbacks.onTextContent?.(textContent);
         }
+
+        this.handleTurnEvent(payload as Record<string, unknown>);
       }
-    } else {
-      const answerText = await response.text();
-      if (answerText) {
-        return answerText;
-      }
+    } catch (error) {
+      this.log('warn', 'Failed to parse control channel message', error);
     }
-
-    throw new Error('Realtime handshake failed: missing answer SDP in response.');
   }
 
-  private async performSdpHandshake(apiKey: string, offerSdp: string): Promise<string> {
-    this.log('info', 'Realtime SDP handshake request', {
-      endpoint: this.endpoint,
-    });
+  updateSessionConfig(next: RealtimeClientOptions['sessionConfig']): void {
+    this.sessionConfig = { ...(this.sessionConfig ?? {}), ...(next ?? {}) };
+    this.sendSessionUpdate();
+  }
 
-    const response = await this.fetchFn(this.endpoint, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/sdp',
-      },
-      body: offerSdp,
-    });
+  getSessionConfigSnapshot(): Record<string, unknown> {
+    return this.buildInitialSessionConfiguration();
+  }
 
-    const contentTypeHeader = response.headers?.get?.('content-type') ?? '';
-    const normalizedContentType = contentTypeHeader.toLowerCase();
+  /**
+   * Answers a function call from the model. Once every call of the finished response has its output,
+   * a new response is requested so the model can use the results.
+   */
+  submitToolOutput(callId: string, output: string): void {
+    if (!this.pendingToolCalls.delete(callId)) {
+      this.log('warn', 'Ignoring output for an unknown realtime tool call', { callId });
+      return;
+    }
 
-    this.log('info', 'Realtime SDP handshake response metadata', {
-      status: response.status,
-      contentType: normalizedContentType,
-    });
+    const transport = this.transport;
+    if (!transport?.isOpen()) {
+      this.log('warn', 'Dropped realtime tool output because the control channel is closed', { callId });
+      return;
+    }
 
-    if (response.status === 400) {
-      this.log('error', 'Realtime endpoint request failed with HTTP 400', {
-        endpoint: this.endpoint,
-        body: '<SDP omitted>',
+    try {
+      transport.send({
+        type: 'conversation.item.create',
+        item: { type: 'function_call_output', call_id: callId, output },
       });
+      this.submittedToolOutputs += 1;
+    } catch (error) {
+      this.log('warn', 'Failed to send realtime tool output', error);
+      return;
     }
 
-    if (!response.ok) {
-      const { detail } = await this.readHandshakeErrorDetail(response, normalizedContentType);
-      const message = `Realtime handshake failed: HTTP ${response.status}${detail ? `: ${detail}` : ''}`;
-      throw new Error(message);
+    this.requestToolFollowUp();
+  }
+
+  /**
+   * Seeds a freshly opened realtime session with recent conversation turns so the model does not
+   * lose its context when the connection drops and comes back. Items are created without asking for
+   * a response, so the model waits for the next user turn.
+   */
+  private async replayHistory(transport: RealtimeTransport): Promise<void> {
+    if (!this.historyProvider) {
+      return;
     }
 
-    if (normalizedContentType.includes('application/json')) {
-      const payload = (await response.json()) as
-        | { sdp?: unknown; rtc_connection?: { sdp?: unknown } | null }
-        | undefined
-        | null;
-      if (payload && typeof payload === 'object') {
-        if (typeof payload.sdp === 'string') {
-          return payload.sdp;
-        }
-        const rtcConnection = payload.rtc_connection;
-        if (rtcConnection && typeof rtcConnection === 'object' && typeof rtcConnection.sdp === 'string') {
-          return rtcConnection.sdp;
-        }
+    let messages: RealtimeHistoryMessage[];
+    try {
+      messages = await this.historyProvider();
+    } catch (error) {
+      this.log('warn', 'Failed to load conversation history for realtime replay', error);
+      return;
+    }
+
+    // The connection may have been replaced or closed while the history was loading.
+    if (transport !== this.transport || !transport.isOpen()) {
+      return;
+    }
+
+    let replayed = 0;
+    for (const message of messages) {
+      const text = message.text.trim();
+      if (!text) {
+        continue;
       }
-    } else {
-      const answerText = await response.text();
-      if (answerText) {
-        return answerText;
+
+      const itemId = this.createItemId();
+      const payload = {
+        type: 'conversation.item.create',
+        item: {
+          id: itemId,
+          type: 'message',
+          role: message.role,
+          content: [{ type: message.role === 'assistant' ? 'output_text' : 'input_text', text }],
+        },
+      };
+      try {
+        transport.send(payload);
+        if (message.id) {
+          this.messageItems.set(message.id, itemId);
+        }
+        replayed += 1;
+      } catch (error) {
+        this.log('warn', 'Failed to replay conversation history into realtime session', error);
+        return;
       }
     }
 
-    throw new Error('Realtime handshake failed: missing answer SDP in response.');
+    if (replayed > 0) {
+      this.log('info', 'Replayed conversation history into realtime session', { count: replayed });
+    }
   }
 
-  private async readHandshakeErrorDetail(
-    response: Response,
-    normalizedContentType: string,
-  ): Promise<{ detail?: string; code?: string }> {
-    let detail: string | undefined;
-    let code: string | undefined;
+  private fadeOutRemoteAudio(): void {
+    const element = this.remoteAudioElement;
+    if (!element) {
+      return;
+    }
 
-    try {
-      if (normalizedContentType.includes('application/json')) {
-        const errorPayload: unknown = await response.json();
-        if (errorPayload && typeof errorPayload === 'object') {
-          const errorField = (errorPayload as { error?: { code?: unknown } | null }).error;
-          if (errorField && typeof errorField === 'object') {
-            const codeValue = (errorField as { code?: unknown }).code;
-            if (typeof codeValue === 'string') {
-              code = codeValue;
-            }
-          }
-        }
-        detail = JSON.stringify(errorPayload);
-      } else {
-        detail = await response.text();
+    this.cancelRemoteAudioFade();
+    this.remoteVolumeBeforeFade ??= element.volume;
+    const from = element.volume;
+    const startedAt = Date.now();
+    this.remoteFadeTimer = window.setInterval(() => {
+      const progress = Math.min(1, (Date.now() - startedAt) / REMOTE_AUDIO_FADE_MS);
+      element.volume = from * (1 - progress);
+      if (progress >= 1) {
+        this.cancelRemoteAudioFade();
       }
-    } catch {
-      // ignore body read errors for diagnostics
-    }
+    }, REMOTE_AUDIO_FADE_STEP_MS);
+  }
 
-    return { detail, code };
+  private cancelRemoteAudioFade(): void {
+    if (this.remoteFadeTimer !== null) {
+      window.clearInterval(this.remoteFadeTimer);
+      this.remoteFadeTimer = null;
+    }
   }
 
-  updateSessionConfig(next: RealtimeClientOptions['sessionConfig']): void {
-    this.sessionConfig = { ...(this.sessionConfig ?? {}), ...(next ?? {}) };
-    this.sendSessionUpdate();
+  /** Brings the remote audio back to its volume from before a barge-in fade. */
+  private restoreRemoteAudio(): void {
+    this.cancelRemoteAudioFade();
+    if (this.remoteVolumeBeforeFade !== null && this.remoteAudioElement) {
+      this.remoteAudioElement.volume = this.remoteVolumeBeforeFade;
+    }
+    this.remoteVolumeBeforeFade = null;
   }
 
-  getSessionConfigSnapshot(): Record<string, unknown> {
-    return this.buildInitialSessionConfiguration();
+  private requestToolFollowUp(): void {
+    if (this.responseInProgress || this.pendingToolCalls.size > 0 || this.submittedToolOutputs === 0) {
+      return;
+    }
+
+    this.submittedToolOutputs = 0;
+    try {
+      this.transport?.send({ type: 'response.create' });
+      this.log('info', 'Requested realtime response after tool outputs');
+    } catch (error) {
+      this.log('warn', 'Failed to request realtime response after tool outputs', error);
+    }
   }
 
   private sendSessionUpdate(): void {
-    if (!this.controlChannel || this.controlChannel.readyState !== 'open') {
+    const transport = this.transport;
+    if (!transport?.isOpen()) {
       return;
     }
 
@@ -575,10 +826,22 @@ export class RealtimeClient {
       session.turn_detection = turnDetection;
     }
 
+    const transcription = this.buildInputAudioTranscriptionConfig();
+    if (transcription) {
+      sessionParameters.input_audio_transcription = transcription;
+      session.input_audio_transcription = transcription;
+    }
+
     if (Object.keys(sessionParameters).length > 0) {
       session.session_parameters = sessionParameters;
     }
 
+    const tools = this.buildToolsConfig();
+    if (tools) {
+      session.tools = tools;
+      session.tool_choice = 'auto';
+    }
+
     if (this.sessionConfig?.voice) {
       session.voice = this.sessionConfig.voice;
       const previousAudio = (session.audio as Record<string, unknown> | undefined) ?? {};
@@ -603,7 +866,7 @@ export class RealtimeClient {
         return;
       }
 
-      this.controlChannel.send(JSON.stringify(payload));
+      transport.send(payload);
       this.log('info', 'Sent session.update to realtime API', payload);
     } catch (error) {
       this.log('warn', 'Failed to send session.update', error);
@@ -636,6 +899,11 @@ export class RealtimeClient {
       session.turn_detection = turnDetection;
     }
 
+    const transcription = this.buildInputAudioTranscriptionConfig();
+    if (transcription) {
+      session.input_audio_transcription = transcription;
+    }
+
     const inputFormat = this.buildInputAudioFormat();
     const audio: Record<string, unknown> = {};
 
@@ -663,16 +931,54 @@ export class RealtimeClient {
       sessionParameters.turn_detection = turnDetection;
     }
 
+    if (transcription) {
+      sessionParameters.input_audio_transcription = transcription;
+    }
+
     if (Object.keys(sessionParameters).length > 0) {
       session.session_parameters = sessionParameters;
     }
 
+    const tools = this.buildToolsConfig();
+    if (tools) {
+      session.tools = tools;
+      session.tool_choice = 'auto';
+    }
+
     return session;
   }
 
+  private buildToolsConfig(): Record<string, unknown>[] | undefined {
+    const tools = this.sessionConfig?.tools;
+    if (!tools || tools.length === 0) {
+      return undefined;
+    }
+
+    return tools.map((tool) => ({
+      type: 'function',
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }));
+  }
+
+  private buildInputAudioTranscriptionConfig(): Record<string, unknown> | undefined {
+    const transcription = this.sessionConfig?.inputAudioTranscription;
+    if (transcription === null) {
+      return undefined;
+    }
+
+    return {
+      model: transcription?.model ?? DEFAULT_TRANSCRIPTION_MODEL,
+      ...(transcription?.language ? { language: transcription.language } : {}),
+    };
+  }
+
   private buildInputAudioFormat(): Record<string, unknown> | undefined {
     if (!this.sessionConfig?.inputAudioFormat) {
-      return { type: 'pcm16', sample_rate_hz: 16000, channels: 1 };
+      // The WebSocket transport streams the microphone at the API's PCM16 rate.
+      const sampleRate = this.transportKind === 'websocket' ? PCM16_SAMPLE_RATE_HZ : 16000;
+      return { type: 'pcm16', sample_rate_hz: sampleRate, channels: 1 };
     }
 
     const { type, sampleRateHz, channels } = this.sessionConfig.inputAudioFormat;
@@ -710,12 +1016,9 @@ export class RealtimeClient {
     return undefined;
   }
 
-  private handleRemoteTrack(event: RTCTrackEvent): void {
-    const stream = event.streams?.[0] ?? new MediaStream([event.track]);
+  private handleRemoteStream(stream: MediaStream): void {
     this.remoteStream = stream;
 
-    this.applyJitterBufferHint();
-
     const element = this.remoteAudioElement;
     if (element) {
       element.srcObject = stream;
@@ -726,27 +1029,9 @@ export class RealtimeClient {
     }
 
     this.callbacks.onRemoteStream?.(stream);
-
-    const track = event.track;
-    if (track) {
-      if (!track.muted) {
-        this.callbacks.onFirstAudioFrame?.();
-      } else {
-        const handleUnmute = () => {
-          track.removeEventListener('unmute', handleUnmute);
-          this.callbacks.onFirstAudioFrame?.();
-        };
-        track.addEventListener('unmute', handleUnmute, { once: true });
-      }
-    }
   }
 
-  private handleConnectionStateChange(): void {
-    if (!this.peer) {
-      return;
-    }
-
-    const state = this.peer.connectionState;
+  private handleConnectionStateChange(state: RealtimeTransportConnectionState): void {
     switch (state) {
       case 'connected':
         this.reconnectAttempts = 0;
@@ -765,7 +1050,7 @@ export class RealtimeClient {
         }
         break;
       default:
-        this.log('info', `Realtime peer connection state changed: ${state}`);
+        this.log('info', `Realtime connection state changed: ${state}`);
     }
   }
 
@@ -817,22 +1102,6 @@ export class RealtimeClient {
     this.reconnectInFlight = false;
   }
 
-  private applyJitterBufferHint(): void {
-    if (!this.peer) {
-      return;
-    }
-
-    const receivers = this.peer.getReceivers?.() ?? [];
-    for (const receiver of receivers) {
-      const withHint = receiver as RTCRtpReceiver & { playoutDelayHint?: number };
-      if (withHint.track?.kind === 'audio' && typeof withHint.playoutDelayHint === 'number') {
-        withHint.playoutDelayHint = this.jitterBufferMs / 1000;
-      }
-    }
-  }
-
-  // Removed JSON-based negotiation parsing in favor of application/sdp exchange
-
   private async applyOutputDevice(): Promise<void> {
     const element = this.remoteAudioElement;
     if (!element) {
@@ -851,22 +1120,19 @@ export class RealtimeClient {
   }
 
   private cleanupPeer(): void {
-    if (this.controlChannel) {
-      try {
-        this.controlChannel.close();
-      } catch (error) {
-        this.log('warn', 'Failed to close realtime control channel', error);
-      }
-      this.controlChannel = null;
-    }
-
-    if (this.peer) {
-      try {
-        this.peer.close();
-      } catch (error) {
-        this.log('warn', 'Error while closing realtime peer connection', error);
-      }
-      this.peer = null;
+    // Calls from a closed session cannot be answered on the next one, and its items are gone with it.
+    this.pendingToolCalls.clear();
+    this.messageItems.clear();
+    this.submittedToolOutputs = 0;
+    this.responseInProgress = false;
+    this.assistantItemId = null;
+    this.assistantAudioStartedAt = null;
+    this.restoreRemoteAudio();
+
+    if (this.transport) {
+      const transport = this.transport;
+      this.transport = null;
+      transport.close();
     }
   }
 
@@ -896,6 +1162,142 @@ export class RealtimeClient {
     }
   }
 
+  private handleTurnEvent(payload: Record<string, unknown>): void {
+    switch (payload.type) {
+      case 'input_audio_buffer.speech_started':
+        this.callbacks.onUserSpeechStarted?.();
+        break;
+      case 'input_audio_buffer.speech_stopped':
+        this.callbacks.onUserSpeechStopped?.({ itemId: typeof payload.item_id === 'string' ? payload.item_id : null });
+        break;
+      case 'conversation.item.input_audio_transcription.delta':
+        if (typeof payload.delta === 'string' && payload.delta) {
+          this.callbacks.onUserTranscript?.({
+            itemId: typeof payload.item_id === 'string' ? payload.item_id : null,
+            text: payload.delta,
+            final: false,
+          });
+        }
+        break;
+      case 'conversation.item.input_audio_transcription.completed':
+        this.callbacks.onUserTranscript?.({
+          itemId: typeof payload.item_id === 'string' ? payload.item_id : null,
+          text: typeof payload.transcript === 'string' ? payload.transcript.trim() : '',
+          final: true,
+        });
+        break;
+      case 'conversation.item.input_audio_transcription.failed':
+        this.log('warn', 'Realtime input audio transcription failed', payload.error);
+        // Still close the turn so it is not left waiting for text.
+        this.callbacks.onUserTranscript?.({
+          itemId: typeof payload.item_id === 'string' ? payload.item_id : null,
+          text: '',
+          final: true,
+        });
+        break;
+      case 'output_audio_buffer.started':
+        this.assistantAudioStartedAt = Date.now();
+        this.restoreRemoteAudio();
+        this.callbacks.onAssistantAudioStarted?.();
+        break;
+      case 'output_audio_buffer.stopped':
+      case 'output_audio_buffer.cleared':
+        this.assistantAudioStartedAt = null;
+        this.callbacks.onAssistantAudioStopped?.();
+        break;
+      case 'response.created':
+        this.responseTranscripts = [];
+        this.responseInProgress = true;
+        this.assistantItemId = null;
+        break;
+      case 'response.output_item.added': {
+        const item = payload.item && typeof payload.item === 'object' ? (payload.item as Record<string, unknown>) : {};
+        if (item.type === 'message' && item.role === 'assistant' && typeof item.id === 'string') {
+          this.assistantItemId = item.id;
+        }
+        break;
+      }
+      case 'response.output_text.delta':
+      case 'response.text.delta':
+      case 'response.output_audio_transcript.delta':
+        if (typeof payload.delta === 'string' && payload.delta) {
+          this.callbacks.onTranscriptDelta?.(payload.delta);
+        }
+        break;
+      case 'response.output_text.done':
+      case 'response.text.done':
+      case 'response.output_audio_transcript.done': {
+        const text = payload.text ?? payload.transcript;
+        if (typeof text === 'string' && text.trim()) {
+          this.responseTranscripts.push(text.trim());
+        }
+        break;
+      }
+      case 'response.function_call_arguments.done': {
+        const callId = typeof payload.call_id === 'string' ? payload.call_id : '';
+        const name = typeof payload.name === 'string' ? payload.name : '';
+        if (!callId || !name) {
+          this.log('warn', 'Ignoring realtime function call without id or name', payload);
+          break;
+        }
+        this.pendingToolCalls.add(callId);
+        this.callbacks.onToolCall?.({
+          callId,
+          name,
+          arguments: typeof payload.arguments === 'string' ? payload.arguments : '',
+        });
+        break;
+      }
+      case 'response.done': {
+        const transcript = this.responseTranscripts.join(' ');
+        this.responseTranscripts = [];
+        this.responseInProgress = false;
+        this.callbacks.onResponseDone?.(this.summarizeResponse(payload.response, transcript || null));
+        // Outputs answered while the response was still streaming are followed up now.
+        this.requestToolFollowUp();
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  /** Client-chosen item ids stay within the API's 32 character limit. */
+  private createItemId(): string {
+    this.itemSequence += 1;
+    return `item_local_${Date.now().toString(36)}_${this.itemSequence.toString(36)}`;
+  }
+
+  private summarizeResponse(response: unknown, transcript: string | null): RealtimeResponseSummary {
+    const record = response && typeof response === 'object' ? (response as Record<string, unknown>) : {};
+    const statusDetails =
+      record.status_details && typeof record.status_details === 'object'
+        ? (record.status_details as Record<string, unknown>)
+        : {};
+    const rawUsage = record.usage && typeof record.usage === 'object' ? (record.usage as Record<string, unknown>) : null;
+    const readCount = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+    const audio = record.audio && typeof record.audio === 'object' ? (record.audio as { output?: { voice?: unknown } }) : {};
+
+    return {
+      transcript,
+      itemId: this.assistantItemId,
+      usage: rawUsage
+        ? {
+            inputTokens: readCount(rawUsage.input_tokens),
+            outputTokens: readCount(rawUsage.output_tokens),
+            totalTokens: readCount(rawUsage.total_tokens),
+          }
+        : null,
+      // Barge-in cancels the response with reason `turn_detected`; a truncated reply reports `incomplete`.
+      interrupted:
+        record.status === 'cancelled' ||
+        record.status === 'incomplete' ||
+        statusDetails.reason === 'turn_detected',
+      voice: typeof audio.output?.voice === 'string' ? audio.output.voice : (this.sessionConfig?.voice ?? null),
+      model: this.model,
+    };
+  }
+
   private extractTextContent(payload: Record<string, unknown>): string | null {
     const type = typeof payload.type === 'string' ? payload.type : null;
     if (!type) {
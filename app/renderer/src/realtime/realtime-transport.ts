@@ -0,0 +1,42 @@
+/** How {@link RealtimeTransport} carries audio: WebRTC media, or PCM16 over a WebSocket for networks that block UDP. */
+export type RealtimeTransportKind = 'webrtc' | 'websocket';
+
+/** Connection states reported by a transport; `disconnected` and `failed` make the client reconnect. */
+export type RealtimeTransportConnectionState = RTCPeerConnectionState;
+
+export interface RealtimeTransportHandlers {
+  /** The event channel opened, so session updates and conversation items can be sent. */
+  onOpen: () => void;
+  /** Raw data of a server event, as it arrived on the event channel. */
+  onMessage: (data: unknown) => void;
+  onConnectionStateChange: (state: RealtimeTransportConnectionState) => void;
+  /** The assistant's audio is available as a playable stream. */
+  onRemoteStream: (stream: MediaStream) => void;
+  /** The first assistant audio reached the remote stream. */
+  onFirstAudioFrame: () => void;
+  onLog: (level: 'info' | 'warn' | 'error', message: string, data?: unknown) => void;
+}
+
+export interface RealtimeTransportConnectOptions {
+  apiKey: string;
+  inputStream: MediaStream;
+  iceServers?: RTCIceServer[];
+  /** Session configuration to apply while the connection is set up. */
+  session: Record<string, unknown>;
+}
+
+/**
+ * Carries realtime events and audio for a single connection. The client creates a new transport for every
+ * connect or reconnect and closes the previous one, so a transport never has to reopen itself.
+ */
+export interface RealtimeTransport {
+  readonly kind: RealtimeTransportKind;
+  /** Resolves once the connection is negotiated; the event channel may open later, see `onOpen`. */
+  connect(options: RealtimeTransportConnectOptions): Promise<void>;
+  /** True while client events can be sent. */
+  isOpen(): boolean;
+  /** Sends a client event. Throws when the event channel cannot take it. */
+  send(event: Record<string, unknown>): void;
+  setJitterBufferMs(value: number): void;
+  close(): void;
+}
@@ -0,0 +1,372 @@
+import type {
+  RealtimeTransport,
+  RealtimeTransportConnectOptions,
+  RealtimeTransportHandlers,
+} from './realtime-transport.js';
+
+export interface WebRtcTransportOptions {
+  endpoint: string;
+  fetchFn: typeof fetch;
+  createPeerConnection: (config?: RTCConfiguration) => RTCPeerConnection;
+  // Handshake content type: default JSON; some deployments require application/sdp
+  handshakeMode: 'json' | 'sdp';
+  jitterBufferMs: number;
+  handlers: RealtimeTransportHandlers;
+}
+
+/** Sends the microphone as a WebRTC track and exchanges events over the `oai-events` data channel. */
+export class WebRtcTransport implements RealtimeTransport {
+  readonly kind = 'webrtc' as const;
+
+  private readonly handlers: RealtimeTransportHandlers;
+
+  private peer: RTCPeerConnection | null = null;
+
+  private controlChannel: RTCDataChannel | null = null;
+
+  private jitterBufferMs: number;
+
+  constructor(private readonly options: WebRtcTransportOptions) {
+    this.handlers = options.handlers;
+    this.jitterBufferMs = options.jitterBufferMs;
+  }
+
+  async connect(options: RealtimeTransportConnectOptions): Promise<void> {
+    const configuration: RTCConfiguration | undefined = options.iceServers?.length
+      ? { iceServers: options.iceServers }
+      : undefined;
+    const peer = this.options.createPeerConnection(configuration);
+    this.peer = peer;
+
+    peer.onconnectionstatechange = (event) => {
+      this.log('info', 'Realtime peer connection state change event', {
+        state: peer.connectionState,
+        iceConnectionState: peer.iceConnectionState,
+        event,
+      });
+      this.handlers.onConnectionStateChange(peer.connectionState);
+    };
+
+    peer.oniceconnectionstatechange = (event) => {
+      this.log('info', 'Realtime ICE connection state change', {
+        state: peer.iceConnectionState,
+        event,
+      });
+    };
+
+    peer.onicegatheringstatechange = (event) => {
+      this.log('info', 'Realtime ICE gathering state change', {
+        state: peer.iceGatheringState,
+        event,
+      });
+    };
+
+    peer.onsignalingstatechange = (event) => {
+      this.log('info', 'Realtime signaling state change', {
+        state: peer.signalingState,
+        event,
+      });
+    };
+
+    peer.onicecandidate = (event) => {
+      this.log('info', 'Realtime ICE candidate event', {
+        candidate: event.candidate,
+        event,
+      });
+      if (!event.candidate) {
+        this.log('info', 'ICE candidate gathering complete');
+      }
+    };
+
+    peer.ontrack = (event) => {
+      this.log('info', 'Realtime track event received', event);
+      this.handleRemoteTrack(event);
+    };
+
+    try {
+      for (const track of options.inputStream.getTracks()) {
+        peer.addTrack(track, options.inputStream);
+      }
+    } catch (error) {
+      this.log('warn', 'Failed to add input tracks to realtime peer connection', error);
+    }
+
+    try {
+      peer.addTransceiver('audio', { direction: 'recvonly' });
+    } catch (error) {
+      this.log('info', 'Failed to add recvonly audio transceiver (may be unsupported)', error);
+    }
+
+    try {
+      const controlChannel = peer.createDataChannel('oai-events', { ordered: true });
+      this.controlChannel = controlChannel;
+      controlChannel.onopen = (event) => {
+        this.log('info', 'Realtime control data channel opened', event);
+        this.handlers.onOpen();
+      };
+      controlChannel.onclose = (event) => {
+        this.log('warn', 'Realtime control data channel closed', event);
+      };
+      controlChannel.onerror = (event) => {
+        this.log('warn', 'Realtime control data channel error', event);
+      };
+      controlChannel.onmessage = (event) => {
+        this.handlers.onMessage(event.data);
+      };
+    } catch (error) {
+      this.log('warn', 'Failed to create realtime control data channel', error);
+      this.controlChannel = null;
+    }
+
+    await this.exchangeOffer(peer, options);
+  }
+
+  isOpen(): boolean {
+    return this.controlChannel?.readyState === 'open';
+  }
+
+  send(event: Record<string, unknown>): void {
+    if (!this.controlChannel) {
+      throw new Error('Realtime control channel is not available.');
+    }
+    this.controlChannel.send(JSON.stringify(event));
+  }
+
+  setJitterBufferMs(value: number): void {
+    this.jitterBufferMs = value;
+    this.applyJitterBufferHint();
+  }
+
+  close(): void {
+    if (this.controlChannel) {
+      try {
+        this.controlChannel.close();
+      } catch (error) {
+        this.log('warn', 'Failed to close realtime control channel', error);
+      }
+      this.controlChannel = null;
+    }
+
+    if (this.peer) {
+      try {
+        this.peer.close();
+      } catch (error) {
+        this.log('warn', 'Error while closing realtime peer connection', error);
+      }
+      this.peer = null;
+    }
+  }
+
+  private async exchangeOffer(peer: RTCPeerConnection, options: RealtimeTransportConnectOptions): Promise<void> {
+    const offer = await peer.createOffer({ offerToReceiveAudio: true, offerToReceiveVideo: false });
+    await peer.setLocalDescription(offer);
+
+    const offerSdp = offer.sdp ?? '';
+
+    const answerSdp =
+      this.options.handshakeMode === 'sdp'
+        ? await this.performSdpHandshake(options.apiKey, offerSdp)
+        : await this.performJsonHandshake(options.apiKey, offerSdp, options.session);
+
+    await peer.setRemoteDescription({ type: 'answer', sdp: answerSdp });
+  }
+
+  private async performJsonHandshake(
+    apiKey: string,
+    offerSdp: string,
+    sessionConfig: Record<string, unknown>,
+  ): Promise<string> {
+    const endpoint = this.options.endpoint;
+    const requestBody: Record<string, unknown> = { sdp: offerSdp };
+
+    if (Object.keys(sessionConfig).length > 0) {
+      requestBody.session = sessionConfig;
+    }
+
+    this.log('info', 'Realtime JSON handshake request', {
+      endpoint,
+      body: requestBody,
+    });
+
+    const response = await this.options.fetchFn(endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    const contentTypeHeader = response.headers?.get?.('content-type') ?? '';
+    const normalizedContentType = contentTypeHeader.toLowerCase();
+
+    this.log('info', 'Realtime JSON handshake response metadata', {
+      status: response.status,
+      contentType: normalizedContentType,
+    });
+
+    if (response.status === 400) {
+      this.log('error', 'Realtime endpoint request failed with HTTP 400', {
+        endpoint,
+        body: requestBody,
+      });
+    }
+
+    if (!response.ok) {
+      const { detail } = await this.readHandshakeErrorDetail(response, normalizedContentType);
+      const message = `Realtime handshake failed: HTTP ${response.status}${detail ? `: ${detail}` : ''}`;
+      throw new Error(message);
+    }
+
+    if (normalizedContentType.includes('application/json')) {
+      const payload = (await response.json()) as
+        | { sdp?: unknown; rtc_connection?: { sdp?: unknown } | null }
+        | undefined
+        | null;
+      if (payload && typeof payload === 'object') {
+        if (typeof payload.sdp === 'string') {
+          return payload.sdp;
+        }
+        const rtcConnection = payload.rtc_connection;
+        if (rtcConnection && typeof rtcConnection === 'object' && typeof rtcConnection.sdp === 'string') {
+          return rtcConnection.sdp;
+        }
+      }
+    } else {
+      const answerText = await response.text();
+      if (answerText) {
+        return answerText;
+      }
+    }
+
+    throw new Error('Realtime handshake failed: missing answer SDP in response.');
+  }
+
+  private async performSdpHandshake(apiKey: string, offerSdp: string): Promise<string> {
+    const endpoint = this.options.endpoint;
+    this.log('info', 'Realtime SDP handshake request', {
+      endpoint,
+    });
+
+    const response = await this.options.fetchFn(endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/sdp',
+      },
+      body: offerSdp,
+    });
+
+    const contentTypeHeader = response.headers?.get?.('content-type') ?? '';
+    const normalizedContentType = contentTypeHeader.toLowerCase();
+
+    this.log('info', 'Realtime SDP handshake response metadata', {
+      status: response.status,
+      contentType: normalizedContentType,
+    });
+
+    if (response.status === 400) {
+      this.log('error', 'Realtime endpoint request failed with HTTP 400', {
+        endpoint,
+        body: '<SDP omitted>',
+      });
+    }
+
+    if (!response.ok) {
+      const { detail } = await this.readHandshakeErrorDetail(response, normalizedContentType);
+      const message = `Realtime handshake failed: HTTP ${response.status}${detail ? `: ${detail}` : ''}`;
+      throw new Error(message);
+    }
+
+    if (normalizedContentType.includes('application/json')) {
+      const payload = (await response.json()) as
+        | { sdp?: unknown; rtc_connection?: { sdp?: unknown } | null }
+        | undefined
+        | null;
+      if (payload && typeof payload === 'object') {
+        if (typeof payload.sdp === 'string') {
+          return payload.sdp;
+        }
+        const rtcConnection = payload.rtc_connection;
+        if (rtcConnection && typeof rtcConnection === 'object' && typeof rtcConnection.sdp === 'string') {
+          return rtcConnection.sdp;
+        }
+      }
+    } else {
+      const answerText = await response.text();
+      if (answerText) {
+        return answerText;
+      }
+    }
+
+    throw new Error('Realtime handshake failed: missing answer SDP in response.');
+  }
+
+  private async readHandshakeErrorDetail(
+    response: Response,
+    normalizedContentType: string,
+  ): Promise<{ detail?: string; code?: string }> {
+    let detail: string | undefined;
+    let code: string | undefined;
+
+    try {
+      if (normalizedContentType.includes('application/json')) {
+        const errorPayload: unknown = await response.json();
+        if (errorPayload && typeof errorPayload === 'object') {
+          const errorField = (errorPayload as { error?: { code?: unknown } | null }).error;
+          if (errorField && typeof errorField === 'object') {
+            const codeValue = (errorField as { code?: unknown }).code;
+            if (typeof codeValue === 'string') {
+              code = codeValue;
+            }
+          }
+        }
+        detail = JSON.stringify(errorPayload);
+      } else {
+        detail = await response.text();
+      }
+    } catch {
+      // ignore body read errors for diagnostics
+    }
+
+    return { detail, code };
+  }
+
+  private handleRemoteTrack(event: RTCTrackEvent): void {
+    const stream = event.streams?.[0] ?? new MediaStream([event.track]);
+
+    this.applyJitterBufferHint();
+    this.handlers.onRemoteStream(stream);
+
+    const track = event.track;
+    if (track) {
+      if (!track.muted) {
+        this.handlers.onFirstAudioFrame();
+      } else {
+        const handleUnmute = () => {
+          track.removeEventListener('unmute', handleUnmute);
+          this.handlers.onFirstAudioFrame();
+        };
+        track.addEventListener('unmute', handleUnmute, { once: true });
+      }
+    }
+  }
+
+  private applyJitterBufferHint(): void {
+    if (!this.peer) {
+      return;
+    }
+
+    const receivers = this.peer.getReceivers?.() ?? [];
+    for (const receiver of receivers) {
+      const withHint = receiver as RTCRtpReceiver & { playoutDelayHint?: number };
+      if (withHint.track?.kind === 'audio' && typeof withHint.playoutDelayHint === 'number') {
+        withHint.playoutDelayHint = this.jitterBufferMs / 1000;
+      }
+    }
+  }
+
+  private log(level: 'info' | 'warn' | 'error', message: string, data?: unknown): void {
+    this.handlers.onLog(level, message, data);
+  }
+}
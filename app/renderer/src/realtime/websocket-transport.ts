@@ -0,0 +1,296 @@
+import pcmWorkletUrl from './pcm-worklet.js?worker&url';
+import type { PcmPlaybackMessage } from './pcm-worklet.js';
+import { PCM16_SAMPLE_RATE_HZ, decodePcm16, encodePcm16 } from './pcm16.js';
+import type {
+  RealtimeTransport,
+  RealtimeTransportConnectOptions,
+  RealtimeTransportHandlers,
+} from './realtime-transport.js';
+
+const WEBSOCKET_OPEN = 1;
+
+/** The part of `WebSocket` the transport uses, so a local stand-in such as the mock server can take its place. */
+export interface RealtimeSocket {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface WebSocketTransportOptions {
+  endpoint: string;
+  createWebSocket: (url: string, protocols: string[]) => RealtimeSocket;
+  createAudioContext: (options: AudioContextOptions) => AudioContext;
+  jitterBufferMs: number;
+  handlers: RealtimeTransportHandlers;
+}
+
+/**
+ * Streams the microphone as PCM16 `input_audio_buffer.append` events over a WebSocket and plays the
+ * `response.output_audio.delta` chunks through an AudioWorklet. Everything runs over one TCP connection, so it
+ * works on networks that block the UDP traffic WebRTC needs.
+ *
+ * The API only reports playback (`output_audio_buffer.*`) for WebRTC sessions, so this transport reports it
+ * for its own player in the same shape and handles `output_audio_buffer.clear` locally.
+ */
+export class WebSocketTransport implements RealtimeTransport {
+  readonly kind = 'websocket' as const;
+
+  private readonly handlers: RealtimeTransportHandlers;
+
+  private socket: RealtimeSocket | null = null;
+
+  private context: AudioContext | null = null;
+
+  private captureSource: MediaStreamAudioSourceNode | null = null;
+
+  private captureNode: AudioWorkletNode | null = null;
+
+  private playbackNode: AudioWorkletNode | null = null;
+
+  private jitterBufferMs: number;
+
+  private assistantAudioActive = false;
+
+  /** Set once a reply is cleared, so audio still in flight for it is not played. */
+  private discardResponseAudio = false;
+
+  private receivedAudio = false;
+
+  private closed = false;
+
+  constructor(private readonly options: WebSocketTransportOptions) {
+    this.handlers = options.handlers;
+    this.jitterBufferMs = options.jitterBufferMs;
+  }
+
+  async connect(options: RealtimeTransportConnectOptions): Promise<void> {
+    const context = this.options.createAudioContext({ sampleRate: PCM16_SAMPLE_RATE_HZ });
+    this.context = context;
+    await context.audioWorklet.addModule(pcmWorkletUrl);
+    if (this.closed) {
+      return;
+    }
+
+    const playbackNode = new AudioWorkletNode(context, 'pcm16-playback', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+    });
+    playbackNode.port.onmessage = (event: MessageEvent<{ type?: string }>) => {
+      if (event.data?.type === 'drained') {
+        this.handlePlaybackDrained();
+      }
+    };
+    const destination = context.createMediaStreamDestination();
+    playbackNode.connect(destination);
+    this.playbackNode = playbackNode;
+    this.postPlayback({ type: 'prebuffer', samples: this.prebufferSamples() });
+
+    const captureSource = context.createMediaStreamSource(options.inputStream);
+    const captureNode = new AudioWorkletNode(context, 'pcm16-capture', { numberOfInputs: 1, numberOfOutputs: 0 });
+    captureNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      this.sendAudio(event.data);
+    };
+    captureSource.connect(captureNode);
+    this.captureSource = captureSource;
+    this.captureNode = captureNode;
+
+    this.handlers.onRemoteStream(destination.stream);
+
+    await this.openSocket(options);
+  }
+
+  isOpen(): boolean {
+    return this.socket?.readyState === WEBSOCKET_OPEN;
+  }
+
+  send(event: Record<string, unknown>): void {
+    if (event.type === 'output_audio_buffer.clear') {
+      this.clearPlayback();
+      return;
+    }
+
+    if (!this.socket || this.socket.readyState !== WEBSOCKET_OPEN) {
+      throw new Error('Realtime WebSocket is not open.');
+    }
+    this.socket.send(JSON.stringify(event));
+  }
+
+  setJitterBufferMs(value: number): void {
+    this.jitterBufferMs = value;
+    this.postPlayback({ type: 'prebuffer', samples: this.prebufferSamples() });
+  }
+
+  close(): void {
+    this.closed = true;
+
+    if (this.socket) {
+      try {
+        this.socket.close();
+      } catch (error) {
+        this.log('warn', 'Failed to close realtime WebSocket', error);
+      }
+      this.socket = null;
+    }
+
+    for (const node of [this.captureSource, this.captureNode, this.playbackNode]) {
+      node?.disconnect();
+    }
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+    }
+    if (this.playbackNode) {
+      this.playbackNode.port.onmessage = null;
+    }
+    this.captureSource = null;
+    this.captureNode = null;
+    this.playbackNode = null;
+
+    if (this.context) {
+      void this.context.close().catch((error: unknown) => {
+        this.log('warn', 'Failed to close realtime audio context', error);
+      });
+      this.context = null;
+    }
+  }
+
+  private openSocket(options: RealtimeTransportConnectOptions): Promise<void> {
+    const endpoint = this.options.endpoint;
+    this.log('info', 'Realtime WebSocket connecting', { endpoint });
+    // Browsers cannot set headers on a WebSocket, so the (ephemeral) key travels as a subprotocol.
+    const socket = this.options.createWebSocket(endpoint, ['realtime', `openai-insecure-api-key.${options.apiKey}`]);
+    this.socket = socket;
+    this.handlers.onConnectionStateChange('connecting');
+
+    return new Promise((resolve, reject) => {
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        this.log('info', 'Realtime WebSocket opened', { endpoint });
+        // There is no HTTP handshake to carry the session, so it is applied first thing instead.
+        if (Object.keys(options.session).length > 0) {
+          socket.send(JSON.stringify({ type: 'session.update', session: options.session }));
+        }
+        resolve();
+        this.handlers.onConnectionStateChange('connected');
+        this.handlers.onOpen();
+      };
+
+      socket.onerror = (event) => {
+        this.log('warn', 'Realtime WebSocket error', event);
+      };
+
+      socket.onclose = (event) => {
+        this.log(this.closed ? 'info' : 'warn', 'Realtime WebSocket closed', { code: event.code, reason: event.reason });
+        if (!opened) {
+          const detail = event.reason ? `: ${event.reason}` : '';
+          reject(new Error(`Realtime WebSocket closed before opening (code ${event.code}${detail}).`));
+          return;
+        }
+        this.handlers.onConnectionStateChange(this.closed ? 'closed' : 'disconnected');
+      };
+
+      socket.onmessage = (event: MessageEvent) => {
+        this.handleMessage(event.data);
+      };
+    });
+  }
+
+  private handleMessage(data: unknown): void {
+    let payload: Record<string, unknown> | null = null;
+    try {
+      const parsed: unknown = typeof data === 'string' ? JSON.parse(data) : null;
+      payload = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+    } catch {
+      // Malformed events are passed on and reported by the client.
+    }
+
+    switch (payload?.type) {
+      case 'response.output_audio.delta':
+      case 'response.audio.delta':
+        // Audio chunks are played here rather than handed on, which also keeps them out of the event log.
+        if (typeof payload.delta === 'string' && payload.delta && !this.discardResponseAudio) {
+          this.playAudio(payload.delta);
+        }
+        return;
+      case 'response.created':
+        this.discardResponseAudio = false;
+        break;
+      case 'response.output_audio.done':
+      case 'response.audio.done':
+      case 'response.done':
+        if (this.assistantAudioActive) {
+          this.postPlayback({ type: 'end' });
+        }
+        break;
+      default:
+        break;
+    }
+
+    this.handlers.onMessage(data);
+  }
+
+  private playAudio(base64: string): void {
+    const samples = decodePcm16(base64);
+    this.postPlayback({ type: 'audio', samples }, [samples.buffer]);
+
+    if (!this.assistantAudioActive) {
+      this.assistantAudioActive = true;
+      this.emitServerEvent({ type: 'output_audio_buffer.started' });
+    }
+    if (!this.receivedAudio) {
+      this.receivedAudio = true;
+      this.handlers.onFirstAudioFrame();
+    }
+  }
+
+  private handlePlaybackDrained(): void {
+    if (!this.assistantAudioActive) {
+      return;
+    }
+    this.assistantAudioActive = false;
+    this.emitServerEvent({ type: 'output_audio_buffer.stopped' });
+  }
+
+  private clearPlayback(): void {
+    this.postPlayback({ type: 'clear' });
+    this.discardResponseAudio = true;
+    if (this.assistantAudioActive) {
+      this.assistantAudioActive = false;
+      this.emitServerEvent({ type: 'output_audio_buffer.cleared' });
+    }
+  }
+
+  private sendAudio(samples: Float32Array): void {
+    if (!this.socket || this.socket.readyState !== WEBSOCKET_OPEN) {
+      return;
+    }
+
+    try {
+      this.socket.send(JSON.stringify({ type: 'input_audio_buffer.append', audio: encodePcm16(samples) }));
+    } catch (error) {
+      this.log('warn', 'Failed to stream microphone audio over the realtime WebSocket', error);
+    }
+  }
+
+  private postPlayback(message: PcmPlaybackMessage, transfer: Transferable[] = []): void {
+    this.playbackNode?.port.postMessage(message, transfer);
+  }
+
+  private prebufferSamples(): number {
+    return Math.round((this.jitterBufferMs / 1000) * PCM16_SAMPLE_RATE_HZ);
+  }
+
+  private emitServerEvent(event: Record<string, unknown>): void {
+    this.handlers.onMessage(JSON.stringify(event));
+  }
+
+  private log(level: 'info' | 'warn' | 'error', message: string, data?: unknown): void {
+    this.handlers.onLog(level, message, data);
+  }
+}
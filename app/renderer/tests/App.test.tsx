@@ -1,8 +1,9 @@
-import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type {
   ConversationAppendMessagePayload,
   ConversationMessage,
+  ConversationPurgeResult,
   ConversationSession,
 } from '../../main/src/conversation/types.js';
 import type { RendererConfig } from '../../main/src/config/config-manager.js';
@@ -16,6 +17,19 @@ type MockRealtimeInstance = {
       instructions?: string;
       turnDetection?: string;
     }) => void;
+    onUserSpeechStopped?: (event: { itemId: string | null }) => void;
+    onUserTranscript?: (transcript: { itemId: string | null; text: string; final: boolean }) => void;
+    onResponseDone?: (response: {
+      transcript: string | null;
+      itemId?: string | null;
+      usage: null;
+      interrupted: boolean;
+      voice: string | null;
+      model: string;
+    }) => void;
+    onToolCall?: (call: { callId: string; name: string; arguments: string }) => void;
+    onAssistantInterrupted?: (interruption: { itemId: string | null; audioEndMs: number }) => void;
+    onStateChange?: (state: { status: 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'error' }) => void;
   };
   connect: ReturnType<typeof vi.fn>;
   disconnect: ReturnType<typeof vi.fn>;
@@ -23,8 +37,15 @@ type MockRealtimeInstance = {
   bindRemoteAudioElement: ReturnType<typeof vi.fn>;
   setJitterBufferMs: ReturnType<typeof vi.fn>;
   setReconnectApiKeyProvider: ReturnType<typeof vi.fn>;
+  setHistoryProvider: ReturnType<typeof vi.fn>;
   updateSessionConfig: ReturnType<typeof vi.fn>;
   getSessionConfigSnapshot: ReturnType<typeof vi.fn>;
+  submitToolOutput: ReturnType<typeof vi.fn>;
+  notifySpeechActivity: ReturnType<typeof vi.fn>;
+  sendText: ReturnType<typeof vi.fn>;
+  linkMessageItem: ReturnType<typeof vi.fn>;
+  forgetMessages: ReturnType<typeof vi.fn>;
+  setTransport: ReturnType<typeof vi.fn>;
 };
 
 const realtimeClientInstances: MockRealtimeInstance[] = [];
@@ -38,7 +59,14 @@ vi.mock('../src/realtime/realtime-client.js', () => {
     bindRemoteAudioElement = vi.fn();
     setJitterBufferMs = vi.fn();
     setReconnectApiKeyProvider = vi.fn();
+    setHistoryProvider = vi.fn();
     updateSessionConfig = vi.fn();
+    submitToolOutput = vi.fn();
+    notifySpeechActivity = vi.fn().mockReturnValue(null);
+    sendText = vi.fn().mockReturnValue('item-typed');
+    linkMessageItem = vi.fn();
+    forgetMessages = vi.fn().mockReturnValue(0);
+    setTransport = vi.fn();
     getSessionConfigSnapshot = vi.fn().mockReturnValue({
       type: 'realtime',
       model: 'gpt-4o-realtime-preview-2024-12-17',
@@ -227,6 +255,8 @@ describe('App component', () => {
     rendererConfig = {
       audioInputDeviceId: 'mic-1',
       audioOutputDeviceId: '',
+      realtimeTransport: 'webrtc',
+      realtimeMock: false,
       featureFlags: { transcriptOverlay: true },
       hasRealtimeApiKey: true,
       realtimeVoice: 'shimmer',
@@ -236,6 +266,15 @@ describe('App component', () => {
         port: 9090,
         path: '/metrics',
       },
+      conversationRetention: {
+        roleRules: [],
+        intervalMs: 3_600_000,
+      },
+      conversationResume: {
+        windowMs: 600_000,
+        maxMessages: 20,
+        maxTokens: 2_000,
+      },
       wakeWord: {
         keywordPath: '',
         keywordLabel: '',
@@ -324,6 +363,7 @@ describe('App component', () => {
       'ChatGPT',
       'Character',
       'Local',
+      'History',
     ]);
 
     const chatPanel = await screen.findByRole('tabpanel', { name: /ChatGPT/i });
@@ -339,6 +379,10 @@ describe('App component', () => {
     const localPanel = await screen.findByRole('tabpanel', { name: /Local/i });
     expect(within(localPanel).getByLabelText('Microphone')).toBeInTheDocument();
 
+    await openTab(/History/i);
+    const historyPanel = await screen.findByRole('tabpanel', { name: /History/i });
+    expect(within(historyPanel).getByText('Conversation history is unavailable.')).toBeInTheDocument();
+
     await openTab(/ChatGPT/i);
     expect(await screen.findByText(/Speech gate:/i)).toBeInTheDocument();
   }, 15000);
@@ -604,6 +648,67 @@ describe('App component', () => {
     expect(stagedOrder).toBeLessThan(connectOrder);
   });
 
+  it('injects remembered facts into the session instructions before connecting', async () => {
+    (window as { RTCPeerConnection?: typeof RTCPeerConnection }).RTCPeerConnection = vi
+      .fn()
+      .mockReturnValue({
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        close: vi.fn(),
+      }) as unknown as typeof RTCPeerConnection;
+
+    const memoryInstructions = "Things you remember from earlier conversations:\n- User's name is Sam.";
+    const getSessionContext = vi.fn().mockResolvedValue({
+      facts: [{ id: 'fact-1', subject: 'user', fact: "User's name is Sam.", confidence: 0.8 }],
+      instructions: memoryInstructions,
+    });
+
+    (window as PreloadWindow).aiembodied = {
+      ping: () => 'pong',
+      config: {
+        get: vi.fn().mockResolvedValue({ ...rendererConfig, sessionInstructions: 'Base prompt.' }),
+        getSecret: vi.fn().mockResolvedValue('secret'),
+        setAudioDevicePreferences: setAudioDevicePreferencesMock,
+        setSecret: setSecretMock,
+        testSecret: testSecretMock,
+      },
+      realtime: { mintEphemeralToken: mintEphemeralTokenMock },
+      wakeWord: { onWake: () => () => { } },
+      memory: { getSessionContext },
+      avatar: createAvatarBridgeMock(),
+      __bridgeReady: true,
+      __bridgeVersion: '1.0.0',
+    } as unknown as PreloadWindow['aiembodied'];
+
+    render(<App />);
+
+    const listeningToggle = await screen.findByTestId('listening-toggle');
+    fireEvent.click(listeningToggle);
+
+    await waitFor(() => {
+      expect(realtimeClientInstances.length).toBeGreaterThan(0);
+    });
+    const client = realtimeClientInstances[realtimeClientInstances.length - 1];
+
+    await waitFor(() => {
+      expect(client.connect).toHaveBeenCalled();
+    });
+
+    expect(getSessionContext).toHaveBeenCalled();
+    const stagedIndex = client.updateSessionConfig.mock.calls.findIndex(([payload]) => {
+      const instructions = (payload as { instructions?: string } | undefined)?.instructions;
+      return (
+        typeof instructions === 'string' &&
+        instructions.startsWith('Base prompt.') &&
+        instructions.includes(memoryInstructions)
+      );
+    });
+    expect(stagedIndex).toBeGreaterThanOrEqual(0);
+    expect(client.updateSessionConfig.mock.invocationCallOrder[stagedIndex]).toBeLessThan(
+      client.connect.mock.invocationCallOrder[0],
+    );
+  });
+
   it('renders kiosk UI, toggles transcript overlay, and persists device preferences', async () => {
     (window as PreloadWindow).aiembodied = {
       ping: () => 'pong',
@@ -893,11 +998,14 @@ describe('App component', () => {
         content: payload.content,
         ts: payload.ts ?? Date.now(),
         audioPath: payload.audioPath ?? null,
+        metadata: payload.metadata ?? null,
+        status: payload.status ?? 'complete',
       }),
     );
 
     let sessionListener: ((session: ConversationSession) => void) | undefined;
     let messageListener: ((message: ConversationMessage) => void) | undefined;
+    let messageUpdateListener: ((message: ConversationMessage) => void) | undefined;
 
     (window as PreloadWindow).aiembodied = {
       ping: () => 'pong',
@@ -971,6 +1079,16 @@ describe('App component', () => {
             }
           };
         },
+        onMessageUpdated: (listener: (message: ConversationMessage) => void) => {
+          messageUpdateListener = listener;
+          return () => {
+            if (messageUpdateListener === listener) {
+              messageUpdateListener = undefined;
+            }
+          };
+        },
+        onSessionSummarized: () => () => undefined,
+        onSessionUpdated: () => () => undefined,
       },
       __bridgeReady: true,
       __bridgeVersion: '1.0.0',
@@ -1000,8 +1118,9 @@ describe('App component', () => {
 
     const recordedPayload = appendMessageMock.mock.calls[0]?.[0];
     expect(recordedPayload?.sessionId).toBe('session-2');
-    expect(recordedPayload?.role).toBe('system');
+    expect(recordedPayload?.role).toBe('event');
     expect(recordedPayload?.content).toMatch(/Wake word detected/i);
+    expect(recordedPayload?.metadata).toEqual({ type: 'wake-word', keyword: 'Picovoice', confidence: 0.94 });
 
     expect(await screen.findByText(/Wake word detected/i)).toBeInTheDocument();
 
@@ -1012,10 +1131,29 @@ describe('App component', () => {
       ts: 1_700_000_011_000,
       content: 'Hello again! 😄',
       audioPath: null,
+      metadata: null,
+      status: 'complete',
     });
 
     expect(await screen.findByText('Hello again! 😄')).toBeInTheDocument();
 
+    const streamingReply: ConversationMessage = {
+      id: 'message-streaming',
+      sessionId: 'session-2',
+      role: 'assistant',
+      ts: 1_700_000_011_500,
+      content: 'The weather',
+      audioPath: null,
+      metadata: null,
+      status: 'streaming',
+    };
+    messageListener?.(streamingReply);
+    expect(await screen.findByText('The weather')).toBeInTheDocument();
+
+    messageUpdateListener?.({ ...streamingReply, content: 'The weather is sunny.', status: 'complete' });
+    expect(await screen.findByText('The weather is sunny.')).toBeInTheDocument();
+    expect(screen.queryByText('The weather')).not.toBeInTheDocument();
+
     messageListener?.({
       id: 'message-old',
       sessionId: 'session-1',
@@ -1023,6 +1161,8 @@ describe('App component', () => {
       ts: 1_700_000_012_000,
       content: 'Should stay hidden',
       audioPath: null,
+      metadata: null,
+      status: 'complete',
     });
 
     await waitFor(() => {
@@ -1030,6 +1170,527 @@ describe('App component', () => {
     });
   });
 
+  it('stores user speech as a message that its transcript fills in', async () => {
+    const appendMessageMock = vi.fn(
+      async (payload: ConversationAppendMessagePayload): Promise<ConversationMessage> => ({
+        id: 'message-user',
+        sessionId: payload.sessionId ?? 'missing-session',
+        role: payload.role,
+        content: payload.content,
+        ts: payload.ts ?? Date.now(),
+        audioPath: null,
+        metadata: null,
+        status: payload.status ?? 'complete',
+      }),
+    );
+    const updateMessageMock = vi.fn().mockResolvedValue(undefined);
+    (window as { RTCPeerConnection?: typeof RTCPeerConnection }).RTCPeerConnection =
+      vi.fn() as unknown as typeof RTCPeerConnection;
+
+    (window as PreloadWindow).aiembodied = {
+      ping: () => 'pong',
+      config: {
+        get: vi.fn().mockResolvedValue(rendererConfig),
+        getSecret: vi.fn().mockResolvedValue('secret'),
+        setAudioDevicePreferences: setAudioDevicePreferencesMock,
+        setSecret: setSecretMock,
+        testSecret: testSecretMock,
+      },
+      realtime: { mintEphemeralToken: mintEphemeralTokenMock },
+      wakeWord: { onWake: () => () => undefined },
+      avatar: createAvatarBridgeMock(),
+      conversation: {
+        getHistory: vi.fn().mockResolvedValue({
+          currentSessionId: 'session-1',
+          sessions: [
+            {
+              id: 'session-1',
+              startedAt: 1_700_000_000_000,
+              title: null,
+              messages: [
+                {
+                  id: 'message-earlier',
+                  sessionId: 'session-1',
+                  role: 'assistant',
+                  ts: 1_700_000_001_000,
+                  content: 'What can I do for you?',
+                  audioPath: null,
+                  metadata: null,
+                  status: 'complete',
+                },
+              ],
+            },
+          ],
+        }),
+        appendMessage: appendMessageMock,
+        updateMessage: updateMessageMock,
+        onSessionStarted: () => () => undefined,
+        onMessageAppended: () => () => undefined,
+        onMessageUpdated: () => () => undefined,
+        onSessionSummarized: () => () => undefined,
+        onSessionUpdated: () => () => undefined,
+      },
+      __bridgeReady: true,
+      __bridgeVersion: '1.0.0',
+    } as unknown as PreloadWindow['aiembodied'];
+
+    render(<App />);
+
+    expect(await screen.findByText('What can I do for you?')).toBeInTheDocument();
+    // Let the effects that track the active session run before the turn starts.
+    await act(async () => undefined);
+    const client = realtimeClientInstances[realtimeClientInstances.length - 1];
+
+    client.callbacks.onUserSpeechStopped?.({ itemId: 'item-1' });
+    await waitFor(() =>
+      expect(appendMessageMock).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'session-1', role: 'user', content: '', status: 'streaming' }),
+      ),
+    );
+
+    client.callbacks.onUserTranscript?.({ itemId: 'item-1', text: 'Book a', final: false });
+    client.callbacks.onUserTranscript?.({ itemId: 'item-1', text: 'Book a table.', final: true });
+
+    await waitFor(() => expect(updateMessageMock).toHaveBeenCalledTimes(2));
+    expect(updateMessageMock.mock.calls).toEqual([
+      [{ messageId: 'message-user', delta: 'Book a' }],
+      [{ messageId: 'message-user', content: 'Book a table.', status: 'complete' }],
+    ]);
+  });
+
+  it('forgets the recent conversation when the reply carries a forget tag', async () => {
+    let messageCount = 0;
+    const appendMessageMock = vi.fn(
+      async (payload: ConversationAppendMessagePayload): Promise<ConversationMessage> => ({
+        id: `message-${(messageCount += 1)}`,
+        sessionId: payload.sessionId ?? 'missing-session',
+        role: payload.role,
+        content: payload.content,
+        ts: payload.ts ?? Date.now(),
+        audioPath: null,
+        metadata: payload.metadata ?? null,
+        status: payload.status ?? 'complete',
+      }),
+    );
+    const purgeListeners = new Set<(result: ConversationPurgeResult) => void>();
+    const purgeMock = vi.fn(async (): Promise<ConversationPurgeResult> => {
+      const result = { messageIds: ['message-earlier', 'message-1'], sessionIds: [], removedFacts: 1, removedAudioFiles: 0 };
+      purgeListeners.forEach((listener) => listener(result));
+      return result;
+    });
+    (window as { RTCPeerConnection?: typeof RTCPeerConnection }).RTCPeerConnection =
+      vi.fn() as unknown as typeof RTCPeerConnection;
+
+    (window as PreloadWindow).aiembodied = {
+      ping: () => 'pong',
+      config: {
+        get: vi.fn().mockResolvedValue({ ...rendererConfig, featureFlags: { transcriptOverlay: true } }),
+        getSecret: vi.fn().mockResolvedValue('secret'),
+        setAudioDevicePreferences: setAudioDevicePreferencesMock,
+        setSecret: setSecretMock,
+        testSecret: testSecretMock,
+      },
+      realtime: { mintEphemeralToken: mintEphemeralTokenMock },
+      wakeWord: { onWake: () => () => undefined },
+      avatar: createAvatarBridgeMock(),
+      conversation: {
+        getHistory: vi.fn().mockResolvedValue({
+          currentSessionId: 'session-1',
+          sessions: [
+            {
+              id: 'session-1',
+              startedAt: 1_700_000_000_000,
+              title: null,
+              messages: [
+                {
+                  id: 'message-earlier',
+                  sessionId: 'session-1',
+                  role: 'user',
+                  ts: 1_700_000_001_000,
+                  content: 'My PIN is 1234.',
+                  audioPath: null,
+                  metadata: null,
+                  status: 'complete',
+                },
+              ],
+            },
+          ],
+        }),
+        appendMessage: appendMessageMock,
+        purge: purgeMock,
+        onSessionStarted: () => () => undefined,
+        onMessageAppended: () => () => undefined,
+        onMessageUpdated: () => () => undefined,
+        onSessionSummarized: () => () => undefined,
+        onSessionUpdated: () => () => undefined,
+        onMessagesPurged: (listener: (result: ConversationPurgeResult) => void) => {
+          purgeListeners.add(listener);
+          return () => {
+            purgeListeners.delete(listener);
+          };
+        },
+      },
+      __bridgeReady: true,
+      __bridgeVersion: '1.0.0',
+    } as unknown as PreloadWindow['aiembodied'];
+
+    render(<App />);
+
+    expect(await screen.findByText('My PIN is 1234.')).toBeInTheDocument();
+    await act(async () => undefined);
+    const client = realtimeClientInstances[realtimeClientInstances.length - 1];
+
+    client.callbacks.onResponseDone?.({
+      transcript: 'Done, I have forgotten that. {forget:5}',
+      itemId: 'item-assistant-1',
+      usage: null,
+      interrupted: false,
+      voice: null,
+      model: 'gpt-realtime',
+    });
+
+    await waitFor(() => expect(purgeMock).toHaveBeenCalledTimes(1));
+    const [{ from, to }] = purgeMock.mock.calls[0] as unknown as [{ from: number; to: number }];
+    expect(to - from).toBe(5 * 60_000);
+    expect(await screen.findByText('Forgot the last 5 minutes of conversation.')).toBeInTheDocument();
+    expect(screen.queryByText('My PIN is 1234.')).not.toBeInTheDocument();
+    expect(screen.queryByText(/Done, I have forgotten that/)).not.toBeInTheDocument();
+    expect(client.linkMessageItem).toHaveBeenCalledWith('message-1', 'item-assistant-1');
+    expect(client.forgetMessages).toHaveBeenCalledWith(['message-earlier', 'message-1']);
+  });
+
+  it('advertises main-process tools and answers the model\'s function calls', async () => {
+    const appendMessageMock = vi.fn(
+      async (payload: ConversationAppendMessagePayload): Promise<ConversationMessage> => ({
+        id: `message-${payload.role}`,
+        sessionId: payload.sessionId ?? 'missing-session',
+        role: payload.role,
+        content: payload.content,
+        ts: payload.ts ?? Date.now(),
+        audioPath: null,
+        metadata: payload.metadata ?? null,
+        status: payload.status ?? 'complete',
+      }),
+    );
+    const toolDefinitions = [
+      { name: 'play_animation', description: 'Plays an animation', parameters: { type: 'object', properties: {} } },
+    ];
+    const callToolMock = vi.fn().mockResolvedValue({
+      callId: 'call-1',
+      name: 'play_animation',
+      output: '{"played":"wave"}',
+      isError: false,
+    });
+    let avatarTagListener: ((tag: { type: 'anim' | 'pose'; slug: string }) => void) | undefined;
+    (window as { RTCPeerConnection?: typeof RTCPeerConnection }).RTCPeerConnection =
+      vi.fn() as unknown as typeof RTCPeerConnection;
+
+    (window as PreloadWindow).aiembodied = {
+      ping: () => 'pong',
+      config: {
+        get: vi.fn().mockResolvedValue({ ...rendererConfig, featureFlags: { transcriptOverlay: true } }),
+        getSecret: vi.fn().mockResolvedValue('secret'),
+        setAudioDevicePreferences: setAudioDevicePreferencesMock,
+        setSecret: setSecretMock,
+        testSecret: testSecretMock,
+      },
+      realtime: { mintEphemeralToken: mintEphemeralTokenMock },
+      wakeWord: { onWake: () => () => undefined },
+      avatar: createAvatarBridgeMock(),
+      conversation: {
+        getHistory: vi.fn().mockResolvedValue({
+          currentSessionId: 'session-1',
+          sessions: [{ id: 'session-1', startedAt: 1_700_000_000_000, title: null, messages: [] }],
+        }),
+        appendMessage: appendMessageMock,
+        onSessionStarted: () => () => undefined,
+        onMessageAppended: () => () => undefined,
+        onMessageUpdated: () => () => undefined,
+        onSessionSummarized: () => () => undefined,
+        onSessionUpdated: () => () => undefined,
+      },
+      tools: {
+        list: vi.fn().mockResolvedValue(toolDefinitions),
+        call: callToolMock,
+        onAvatarTag: (listener: (tag: { type: 'anim' | 'pose'; slug: string }) => void) => {
+          avatarTagListener = listener;
+          return () => {
+            avatarTagListener = undefined;
+          };
+        },
+      },
+      __bridgeReady: true,
+      __bridgeVersion: '1.0.0',
+    } as unknown as PreloadWindow['aiembodied'];
+
+    render(<App />);
+
+    await waitFor(() => expect(realtimeClientInstances.length).toBeGreaterThan(0));
+    const client = realtimeClientInstances[realtimeClientInstances.length - 1];
+    await waitFor(() =>
+      expect(client.updateSessionConfig).toHaveBeenCalledWith(expect.objectContaining({ tools: toolDefinitions })),
+    );
+    await act(async () => undefined);
+
+    const call = { callId: 'call-1', name: 'play_animation', arguments: '{"slug":"wave"}' };
+    await act(async () => {
+      client.callbacks.onToolCall?.(call);
+    });
+
+    await waitFor(() => expect(client.submitToolOutput).toHaveBeenCalledWith('call-1', '{"played":"wave"}'));
+    expect(callToolMock).toHaveBeenCalledWith(call);
+    await waitFor(() =>
+      expect(appendMessageMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          role: 'tool',
+          content: '{"played":"wave"}',
+          metadata: { name: 'play_animation', arguments: '{"slug":"wave"}', callId: 'call-1' },
+        }),
+      ),
+    );
+
+    act(() => {
+      avatarTagListener?.({ type: 'anim', slug: 'wave' });
+    });
+    await waitFor(() =>
+      expect(appendMessageMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          role: 'event',
+          content: 'Animation triggered: wave',
+          metadata: { type: 'animation', slug: 'wave', source: 'realtime-tool' },
+        }),
+      ),
+    );
+  });
+
+  it('records where the user cut the assistant off and replays it as a note', async () => {
+    const appendMessageMock = vi.fn(
+      async (payload: ConversationAppendMessagePayload): Promise<ConversationMessage> => ({
+        id: `message-${payload.role}`,
+        sessionId: payload.sessionId ?? 'missing-session',
+        role: payload.role,
+        content: payload.content,
+        ts: payload.ts ?? Date.now(),
+        audioPath: null,
+        metadata: payload.metadata ?? null,
+        status: payload.status ?? 'complete',
+      }),
+    );
+    const resumeMessages: ConversationMessage[] = [
+      {
+        id: 'message-earlier',
+        sessionId: 'session-1',
+        role: 'assistant',
+        ts: 1_700_000_001_000,
+        content: 'Let me tell you a long story.',
+        audioPath: null,
+        metadata: { interrupted: true, interruptedAtMs: 2400 },
+        status: 'complete',
+      },
+    ];
+    (window as { RTCPeerConnection?: typeof RTCPeerConnection }).RTCPeerConnection =
+      vi.fn() as unknown as typeof RTCPeerConnection;
+
+    (window as PreloadWindow).aiembodied = {
+      ping: () => 'pong',
+      config: {
+        get: vi.fn().mockResolvedValue({ ...rendererConfig, featureFlags: { transcriptOverlay: true } }),
+        getSecret: vi.fn().mockResolvedValue('secret'),
+        setAudioDevicePreferences: setAudioDevicePreferencesMock,
+        setSecret: setSecretMock,
+        testSecret: testSecretMock,
+      },
+      realtime: { mintEphemeralToken: mintEphemeralTokenMock },
+      wakeWord: { onWake: () => () => undefined },
+      avatar: createAvatarBridgeMock(),
+      conversation: {
+        getHistory: vi.fn().mockResolvedValue({
+          currentSessionId: 'session-1',
+          sessions: [{ id: 'session-1', startedAt: 1_700_000_000_000, title: null, messages: [] }],
+        }),
+        getResumeMessages: vi.fn().mockResolvedValue(resumeMessages),
+        appendMessage: appendMessageMock,
+        onSessionStarted: () => () => undefined,
+        onMessageAppended: () => () => undefined,
+        onMessageUpdated: () => () => undefined,
+        onSessionSummarized: () => () => undefined,
+        onSessionUpdated: () => () => undefined,
+      },
+      __bridgeReady: true,
+      __bridgeVersion: '1.0.0',
+    } as unknown as PreloadWindow['aiembodied'];
+
+    render(<App />);
+
+    await waitFor(() => expect(realtimeClientInstances.length).toBeGreaterThan(0));
+    const client = realtimeClientInstances[realtimeClientInstances.length - 1];
+    await waitFor(() => expect(client.setHistoryProvider).toHaveBeenCalledWith(expect.any(Function)));
+    await act(async () => undefined);
+
+    const historyProvider: unknown = client.setHistoryProvider.mock.lastCall?.[0];
+    await expect((historyProvider as () => Promise<unknown>)()).resolves.toEqual([
+      { id: 'message-earlier', role: 'assistant', text: 'Let me tell you a long story. [interrupted by the user after 2.4 s of speech]' },
+    ]);
+
+    act(() => {
+      client.callbacks.onAssistantInterrupted?.({ itemId: 'item-assistant-1', audioEndMs: 1250 });
+      client.callbacks.onResponseDone?.({
+        transcript: 'Once upon a time',
+        usage: null,
+        interrupted: false,
+        voice: null,
+        model: 'gpt-realtime',
+      });
+    });
+
+    await waitFor(() =>
+      expect(appendMessageMock).toHaveBeenCalledWith(
+        expect.objectContaining({ role: 'assistant', content: 'Once upon a time' }),
+      ),
+    );
+    const reply = appendMessageMock.mock.calls.find(([payload]) => payload.role === 'assistant')?.[0];
+    expect(reply?.metadata).toMatchObject({ interrupted: true, interruptedAtMs: 1250 });
+  });
+
+  it('sends typed messages into the realtime conversation once connected', async () => {
+    const appendMessageMock = vi.fn(
+      async (payload: ConversationAppendMessagePayload): Promise<ConversationMessage> => ({
+        id: `message-${payload.role}`,
+        sessionId: payload.sessionId ?? 'missing-session',
+        role: payload.role,
+        content: payload.content,
+        ts: payload.ts ?? Date.now(),
+        audioPath: null,
+        metadata: payload.metadata ?? null,
+        status: payload.status ?? 'complete',
+      }),
+    );
+    (window as { RTCPeerConnection?: typeof RTCPeerConnection }).RTCPeerConnection =
+      vi.fn() as unknown as typeof RTCPeerConnection;
+
+    (window as PreloadWindow).aiembodied = {
+      ping: () => 'pong',
+      config: {
+        get: vi.fn().mockResolvedValue({ ...rendererConfig, featureFlags: { transcriptOverlay: true } }),
+        getSecret: vi.fn().mockResolvedValue('secret'),
+        setAudioDevicePreferences: setAudioDevicePreferencesMock,
+        setSecret: setSecretMock,
+        testSecret: testSecretMock,
+      },
+      realtime: { mintEphemeralToken: mintEphemeralTokenMock },
+      wakeWord: { onWake: () => () => undefined },
+      avatar: createAvatarBridgeMock(),
+      conversation: {
+        getHistory: vi.fn().mockResolvedValue({
+          currentSessionId: 'session-1',
+          sessions: [{ id: 'session-1', startedAt: 1_700_000_000_000, title: null, messages: [] }],
+        }),
+        appendMessage: appendMessageMock,
+        onSessionStarted: () => () => undefined,
+        onMessageAppended: () => () => undefined,
+        onMessageUpdated: () => () => undefined,
+        onSessionSummarized: () => () => undefined,
+        onSessionUpdated: () => () => undefined,
+      },
+      __bridgeReady: true,
+      __bridgeVersion: '1.0.0',
+    } as unknown as PreloadWindow['aiembodied'];
+
+    render(<App />);
+
+    await waitFor(() => expect(realtimeClientInstances.length).toBeGreaterThan(0));
+    const client = realtimeClientInstances[realtimeClientInstances.length - 1];
+    await act(async () => undefined);
+
+    const input = screen.getByTestId('typed-message-input');
+    expect(input).toBeDisabled();
+
+    act(() => {
+      client.callbacks.onStateChange?.({ status: 'connected' });
+    });
+    expect(input).toBeEnabled();
+
+    fireEvent.change(input, { target: { value: '  What time is it?  ' } });
+    fireEvent.click(screen.getByTestId('typed-message-send'));
+
+    expect(client.sendText).toHaveBeenCalledWith('What time is it?');
+    expect(input).toHaveValue('');
+    await waitFor(() => expect(appendMessageMock).toHaveBeenCalledTimes(2));
+    const typed = appendMessageMock.mock.calls.find(([payload]) => payload.role === 'user')?.[0];
+    expect(typed).toMatchObject({ content: 'What time is it?', metadata: { source: 'keyboard' } });
+    await waitFor(() => expect(client.linkMessageItem).toHaveBeenCalledWith(expect.any(String), 'item-typed'));
+  });
+
+  it('offers replay for transcript entries with recorded audio', async () => {
+    const getAudioMock = vi.fn().mockResolvedValue(null);
+
+    (window as PreloadWindow).aiembodied = {
+      ping: () => 'pong',
+      config: {
+        get: vi.fn().mockResolvedValue({ ...rendererConfig, featureFlags: { transcriptOverlay: true } }),
+        getSecret: vi.fn().mockResolvedValue('secret'),
+        setAudioDevicePreferences: setAudioDevicePreferencesMock,
+        setSecret: setSecretMock,
+        testSecret: testSecretMock,
+      },
+      realtime: { mintEphemeralToken: mintEphemeralTokenMock },
+      wakeWord: { onWake: () => () => undefined },
+      avatar: createAvatarBridgeMock(),
+      conversation: {
+        getHistory: vi.fn().mockResolvedValue({
+          currentSessionId: 'session-1',
+          sessions: [
+            {
+              id: 'session-1',
+              startedAt: 1_700_000_000_000,
+              title: null,
+              messages: [
+                {
+                  id: 'message-voice',
+                  sessionId: 'session-1',
+                  role: 'user',
+                  ts: 1_700_000_001_000,
+                  content: '',
+                  audioPath: '/audio/message-voice.webm',
+                },
+                {
+                  id: 'message-text',
+                  sessionId: 'session-1',
+                  role: 'assistant',
+                  ts: 1_700_000_002_000,
+                  content: 'No recording here.',
+                  audioPath: null,
+                },
+              ],
+            },
+          ],
+        }),
+        appendMessage: vi.fn(),
+        attachAudio: vi.fn(),
+        getAudio: getAudioMock,
+        onSessionStarted: () => () => undefined,
+        onMessageAppended: () => () => undefined,
+        onSessionSummarized: () => () => undefined,
+        onSessionUpdated: () => () => undefined,
+      },
+      __bridgeReady: true,
+      __bridgeVersion: '1.0.0',
+    } as unknown as PreloadWindow['aiembodied'];
+
+    render(<App />);
+
+    expect(await screen.findByText('No recording here.')).toBeInTheDocument();
+    expect(screen.getByText('Voice input')).toBeInTheDocument();
+
+    const replayButtons = screen.getAllByTestId('transcript-replay');
+    expect(replayButtons).toHaveLength(1);
+
+    fireEvent.click(replayButtons[0]);
+    await waitFor(() => {
+      expect(getAudioMock).toHaveBeenCalledWith('message-voice');
+    });
+  });
+
   it('updates realtime api key via configuration form', async () => {
     (window as PreloadWindow).aiembodied = {
       ping: () => 'pong',
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TurnRecorder, type TurnClip } from '../../src/audio/turn-recorder.js';
+
+class FakeMediaRecorder {
+  state: RecordingState = 'inactive';
+  ondataavailable: ((event: BlobEvent) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(readonly mimeType: string, private readonly payload: number[]) {}
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob([new Uint8Array(this.payload)], { type: this.mimeType }) } as BlobEvent);
+    this.onstop?.();
+  }
+}
+
+function createRecorder() {
+  const saveClip = vi.fn<(messageId: string, clip: TurnClip) => Promise<void>>().mockResolvedValue(undefined);
+  const recorders: FakeMediaRecorder[] = [];
+  let payload = 0;
+  const recorder = new TurnRecorder({
+    saveClip,
+    isTypeSupported: (mimeType) => mimeType === 'audio/webm',
+    createMediaRecorder: (_stream, options) => {
+      payload += 1;
+      const fake = new FakeMediaRecorder(options.mimeType ?? '', [payload]);
+      recorders.push(fake);
+      return fake as unknown as MediaRecorder;
+    },
+    now: () => 1_000,
+  });
+  return { recorder, recorders, saveClip };
+}
+
+const stream = {} as MediaStream;
+
+async function flushPromises() {
+  for (let index = 0; index < 5; index += 1) {
+    await Promise.resolve();
+  }
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('TurnRecorder', () => {
+  it('saves a clip once both the recording and its message id are known', async () => {
+    const { recorder, saveClip } = createRecorder();
+
+    recorder.start('user', stream);
+    recorder.stop('user');
+    await flushPromises();
+    expect(saveClip).not.toHaveBeenCalled();
+
+    recorder.linkMessage('user', 'message-1');
+    await flushPromises();
+
+    expect(saveClip).toHaveBeenCalledTimes(1);
+    const [messageId, clip] = saveClip.mock.calls[0];
+    expect(messageId).toBe('message-1');
+    expect(clip).toMatchObject({ speaker: 'user', mimeType: 'audio/webm', startedAt: 1_000 });
+    expect([...clip.data]).toEqual([1]);
+  });
+
+  it('accepts the message id before the recording finishes', async () => {
+    const { recorder, saveClip } = createRecorder();
+
+    recorder.start('assistant', stream);
+    recorder.linkMessage('assistant', 'message-2');
+    recorder.stop('assistant');
+    await flushPromises();
+
+    expect(saveClip).toHaveBeenCalledWith('message-2', expect.objectContaining({ speaker: 'assistant' }));
+  });
+
+  it('drops unmatched halves when the next turn starts', async () => {
+    const { recorder, recorders, saveClip } = createRecorder();
+
+    recorder.start('assistant', stream);
+    recorder.linkMessage('assistant', 'text-only');
+    recorder.start('assistant', stream);
+    expect(recorders[0].state).toBe('inactive');
+
+    recorder.stop('assistant');
+    recorder.linkMessage('assistant', 'message-3');
+    await flushPromises();
+
+    expect(saveClip).toHaveBeenCalledTimes(1);
+    expect(saveClip.mock.calls[0][0]).toBe('message-3');
+    expect([...saveClip.mock.calls[0][1].data]).toEqual([2]);
+  });
+});
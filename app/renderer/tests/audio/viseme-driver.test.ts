@@ -184,4 +184,36 @@ describe('VisemeDriver', () => {
 
     await driver.destroy();
   });
+
+  it('closes the mouth at once when reset', async () => {
+    const scheduler = createScheduler();
+    let current = 0;
+    const analyser = new StubAnalyser([new Array(64).fill(0.5), new Array(64).fill(0)]);
+
+    const frames: VisemeFrame[] = [];
+    const driver = new VisemeDriver(
+      {
+        onFrame: (frame) => {
+          frames.push(frame);
+        },
+      },
+      { scheduler, now: () => current, noiseFloor: 0, intensityExponent: 1, attackMs: 10, releaseMs: 500 },
+    );
+
+    await driver.setAnalyser(analyser);
+    driver.start();
+    current += 16;
+    scheduler.flush(current);
+    expect(frames[0]?.intensity ?? 0).toBeGreaterThan(0.5);
+
+    driver.reset();
+    expect(frames[1]).toEqual({ t: 16, index: 0, intensity: 0 });
+
+    // The long release window would otherwise keep the mouth open on the following silent frame.
+    current += 16;
+    scheduler.flush(current);
+    expect(frames[2]?.intensity).toBe(0);
+
+    await driver.destroy();
+  });
 });
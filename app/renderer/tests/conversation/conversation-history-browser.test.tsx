@@ -0,0 +1,216 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConversationHistoryBrowser } from '../../src/conversation/conversation-history-browser.js';
+import type { ConversationBridge } from '../../src/preload-api.js';
+import type {
+  ConversationSessionListOptions,
+  ConversationSessionPage,
+  ConversationSessionWithMessages,
+} from '../../../main/src/conversation/types.js';
+
+function createSession(index: number, title: string | null = null): ConversationSessionWithMessages {
+  const id = `session-${index}`;
+  return {
+    id,
+    startedAt: Date.UTC(2024, 0, index),
+    title,
+    messages: [
+      { id: `${id}-user`, sessionId: id, role: 'user', ts: Date.UTC(2024, 0, index), content: `Question ${index}`, audioPath: null, metadata: null, status: 'complete' },
+      {
+        id: `${id}-assistant`,
+        sessionId: id,
+        role: 'assistant',
+        ts: Date.UTC(2024, 0, index) + 1_000,
+        content: `Answer ${index}`,
+        audioPath: null,
+        metadata: null,
+        status: 'complete',
+      },
+    ],
+  };
+}
+
+function createConversationBridgeStub(
+  sessions: ConversationSessionWithMessages[],
+  overrides: Partial<ConversationBridge> = {},
+): ConversationBridge {
+  const stored = [...sessions];
+  const bridge: ConversationBridge = {
+    getHistory: vi.fn().mockResolvedValue({ currentSessionId: null, sessions: [] }),
+    listSessions: vi.fn(async ({ limit = 10, offset = 0 }: ConversationSessionListOptions = {}) => ({
+      currentSessionId: stored[0]?.id ?? null,
+      sessions: stored.slice(offset, offset + limit),
+      total: stored.length,
+      offset,
+    }) satisfies ConversationSessionPage),
+    renameSession: vi.fn(async (sessionId: string, title: string | null) => {
+      const session = stored.find((item) => item.id === sessionId);
+      if (!session) {
+        throw new Error('not found');
+      }
+      session.title = title;
+      return { id: session.id, startedAt: session.startedAt, title };
+    }),
+    deleteSession: vi.fn(async (sessionId: string) => {
+      stored.splice(
+        stored.findIndex((item) => item.id === sessionId),
+        1,
+      );
+    }),
+    appendMessage: vi.fn(),
+    updateMessage: vi.fn(),
+    search: vi.fn().mockResolvedValue([]),
+    attachAudio: vi.fn(),
+    getAudio: vi.fn().mockResolvedValue(null),
+    onSessionStarted: () => () => undefined,
+    onMessageAppended: () => () => undefined,
+    onMessageUpdated: () => () => undefined,
+    onSessionSummarized: () => () => undefined,
+    onSessionUpdated: () => () => undefined,
+    onMessagesPurged: () => () => undefined,
+    purge: vi.fn(),
+    getResumeMessages: vi.fn().mockResolvedValue([]),
+    exportTranscript: vi.fn().mockResolvedValue(null),
+    ...overrides,
+  };
+  return bridge;
+}
+
+describe('ConversationHistoryBrowser', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('pages through stored sessions and opens a transcript', async () => {
+    const bridge = createConversationBridgeStub([createSession(3, 'Trip planning'), createSession(2), createSession(1)]);
+
+    render(<ConversationHistoryBrowser conversationApi={bridge} activeSessionId="session-3" pageSize={2} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('history-session')).toHaveLength(2));
+    expect(screen.getByText('Trip planning')).toBeInTheDocument();
+    expect(screen.getByText('1–2 of 3')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Older' }));
+    await waitFor(() => expect(screen.getByText('3–3 of 3')).toBeInTheDocument());
+    expect(bridge.listSessions).toHaveBeenLastCalledWith({ limit: 2, offset: 2 });
+
+    const [session] = screen.getAllByTestId('history-session');
+    fireEvent.click(within(session).getByRole('button', { name: 'Open' }));
+
+    const transcript = screen.getByTestId('history-transcript');
+    expect(within(transcript).getByText('Question 1')).toBeInTheDocument();
+    expect(within(transcript).getByText('Answer 1')).toBeInTheDocument();
+  });
+
+  it('renames and deletes sessions but keeps the active one', async () => {
+    const bridge = createConversationBridgeStub([createSession(2), createSession(1)]);
+
+    render(<ConversationHistoryBrowser conversationApi={bridge} activeSessionId="session-2" />);
+
+    await waitFor(() => expect(screen.getAllByTestId('history-session')).toHaveLength(2));
+    const [active, past] = screen.getAllByTestId('history-session');
+    expect(within(active).getByRole('button', { name: 'Delete' })).toBeDisabled();
+
+    fireEvent.click(within(past).getByRole('button', { name: 'Rename' }));
+    fireEvent.change(within(past).getByLabelText('Conversation title'), { target: { value: 'Lisbon trip' } });
+    fireEvent.click(within(past).getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(within(past).getByText('Lisbon trip')).toBeInTheDocument());
+    expect(bridge.renameSession).toHaveBeenCalledWith('session-1', 'Lisbon trip');
+
+    fireEvent.click(within(past).getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(screen.getAllByTestId('history-session')).toHaveLength(1));
+    expect(bridge.deleteSession).toHaveBeenCalledWith('session-1');
+  });
+
+  it('exports a session transcript in the chosen format through the main process', async () => {
+    const exportTranscript = vi.fn().mockResolvedValue({
+      filePath: '/exports/conversation-2024-01-01-trip-planning.html',
+      format: 'html',
+      messages: 2,
+    });
+    const bridge = createConversationBridgeStub([createSession(1, 'Trip planning')], { exportTranscript });
+
+    render(<ConversationHistoryBrowser conversationApi={bridge} activeSessionId={null} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('history-session')).toHaveLength(1));
+    fireEvent.change(screen.getByLabelText('Export as'), { target: { value: 'html' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+
+    await waitFor(() =>
+      expect(screen.getByRole('status')).toHaveTextContent(
+        'Saved 2 messages to /exports/conversation-2024-01-01-trip-planning.html.',
+      ),
+    );
+    expect(exportTranscript).toHaveBeenCalledWith({ sessionId: 'session-1', format: 'html' });
+  });
+
+  it('shows what tool calls and events did in the transcript', async () => {
+    const session = createSession(1);
+    session.messages.push(
+      {
+        id: 'session-1-tool',
+        sessionId: 'session-1',
+        role: 'tool',
+        ts: Date.UTC(2024, 0, 1) + 2_000,
+        content: 'get_weather',
+        audioPath: null,
+        metadata: { name: 'get_weather', arguments: { city: 'Lisbon' } },
+        status: 'complete',
+      },
+      {
+        id: 'session-1-event',
+        sessionId: 'session-1',
+        role: 'event',
+        ts: Date.UTC(2024, 0, 1) + 3_000,
+        content: 'Animation triggered: wave',
+        audioPath: null,
+        metadata: { type: 'animation', slug: 'wave' },
+        status: 'complete',
+      },
+    );
+    const bridge = createConversationBridgeStub([session]);
+
+    render(<ConversationHistoryBrowser conversationApi={bridge} activeSessionId={null} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('history-session')).toHaveLength(1));
+    fireEvent.click(screen.getByRole('button', { name: 'Open' }));
+
+    const transcript = screen.getByTestId('history-transcript');
+    expect(within(transcript).getByText('name: get_weather · arguments: {"city":"Lisbon"}')).toBeInTheDocument();
+    expect(within(transcript).getByText('type: animation · slug: wave')).toBeInTheDocument();
+  });
+
+  it('reports per-turn quality for assistant messages', async () => {
+    const session = createSession(1);
+    session.messages[1].metadata = {
+      source: 'realtime',
+      latency: { wakeToFirstAudioMs: 1_240 },
+      usage: { inputTokens: 120, outputTokens: 30, totalTokens: 150 },
+      voice: 'alloy',
+      model: 'gpt-realtime',
+      interrupted: true,
+      avatarTags: ['animation:wave'],
+    };
+    const bridge = createConversationBridgeStub([session]);
+
+    render(<ConversationHistoryBrowser conversationApi={bridge} activeSessionId={null} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('history-session')).toHaveLength(1));
+    fireEvent.click(screen.getByRole('button', { name: 'Open' }));
+
+    const transcript = screen.getByTestId('history-transcript');
+    expect(
+      within(transcript).getByText(
+        '1.2 s to first audio · 150 tokens · alloy · gpt-realtime · interrupted · avatar: animation:wave',
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it('explains when the history bridge is unavailable', () => {
+    render(<ConversationHistoryBrowser activeSessionId={null} />);
+
+    expect(screen.getByText('Conversation history is unavailable.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { extractForgetMinutes, MAX_FORGET_MINUTES } from '../../src/conversation/forget-intent.js';
+
+describe('extractForgetMinutes', () => {
+  it('reads the minutes from a forget tag', () => {
+    expect(extractForgetMinutes('Okay, forgotten. {forget:5}')).toBe(5);
+    expect(extractForgetMinutes('{FORGET: 10 }')).toBe(10);
+  });
+
+  it('ignores replies without a valid tag and caps long ranges', () => {
+    expect(extractForgetMinutes('Sure {anim:wave}')).toBeNull();
+    expect(extractForgetMinutes('{forget:0} {forget:soon}')).toBeNull();
+    expect(extractForgetMinutes('{forget:99999}')).toBe(MAX_FORGET_MINUTES);
+  });
+});
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockRealtimeServer, type MockRealtimeReply } from '../../src/realtime/mock-realtime-server.js';
+import { decodePcm16 } from '../../src/realtime/pcm16.js';
+import { MOCK_REALTIME_ENDPOINT } from '../../src/realtime/realtime-client.js';
+
+type ServerEvent = Record<string, unknown> & { type: string };
+
+class FakeDataChannel {
+  readonly label = 'oai-events';
+  readyState: RTCDataChannelState = 'open';
+  readonly send = vi.fn();
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  receivedEvents() {
+    return this.send.mock.calls.map((call) => JSON.parse(String(call[0])) as ServerEvent);
+  }
+}
+
+class FakeAnsweringPeer {
+  iceGatheringState: RTCIceGatheringState = 'complete';
+  localDescription: RTCSessionDescriptionInit | null = null;
+  ondatachannel: ((event: RTCDataChannelEvent) => void) | null = null;
+  onicegatheringstatechange: (() => void) | null = null;
+  readonly setRemoteDescription = vi.fn(async () => undefined);
+  readonly createAnswer = vi.fn(async (): Promise<RTCSessionDescriptionInit> => ({ type: 'answer', sdp: 'mock-answer' }));
+  readonly setLocalDescription = vi.fn(async (description: RTCSessionDescriptionInit) => {
+    this.localDescription = description;
+  });
+  readonly getTransceivers = vi.fn(() => []);
+  readonly close = vi.fn();
+
+  openChannel() {
+    const channel = new FakeDataChannel();
+    this.ondatachannel?.({ channel } as unknown as RTCDataChannelEvent);
+    return channel;
+  }
+}
+
+describe('MockRealtimeServer', () => {
+  const peers: FakeAnsweringPeer[] = [];
+  let server: MockRealtimeServer;
+
+  const createServer = (script: MockRealtimeReply[]) => {
+    server = new MockRealtimeServer({
+      script,
+      deltaIntervalMs: 10,
+      createPeerConnection: () => {
+        const peer = new FakeAnsweringPeer();
+        peers.push(peer);
+        return peer as unknown as RTCPeerConnection;
+      },
+    });
+    return server;
+  };
+
+  const connectSocket = async (protocols = ['realtime', 'openai-insecure-api-key.mock-token']) => {
+    const socket = server.createWebSocket(MOCK_REALTIME_ENDPOINT, protocols);
+    const received: ServerEvent[] = [];
+    const onClose = vi.fn();
+    socket.onmessage = (event) => {
+      received.push(JSON.parse(String(event.data)) as ServerEvent);
+    };
+    socket.onclose = onClose;
+    await vi.advanceTimersByTimeAsync(0);
+    const send = (event: Record<string, unknown>) => socket.send(JSON.stringify(event));
+    return { socket, received, onClose, send };
+  };
+
+  const ofType = (events: ServerEvent[], type: string) => events.filter((event) => event.type === type);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    peers.length = 0;
+  });
+
+  afterEach(() => {
+    server.close();
+    vi.useRealTimers();
+  });
+
+  it('refuses WebSocket connections without an API key subprotocol', async () => {
+    createServer([]);
+    const { socket, onClose } = await connectSocket(['realtime']);
+
+    expect(socket.readyState).toBe(3);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect((onClose.mock.calls[0]?.[0] as CloseEvent).code).toBe(1008);
+  });
+
+  it('streams a spoken reply as transcript deltas and PCM16 audio over the WebSocket', async () => {
+    createServer([[{ type: 'transcript', text: 'Hi there' }]]);
+    const { received, send } = await connectSocket();
+
+    send({ type: 'session.update', session: { instructions: 'Be brief.' } });
+    send({ type: 'response.create' });
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(received[0]?.type).toBe('session.created');
+    expect(ofType(received, 'session.updated')[0]?.session).toEqual({ instructions: 'Be brief.' });
+    expect(ofType(received, 'response.output_audio_transcript.delta').map((event) => event.delta)).toEqual([
+      'Hi ',
+      'there',
+    ]);
+    expect(ofType(received, 'response.output_audio_transcript.done')[0]?.transcript).toBe('Hi there');
+
+    const audioDeltas = ofType(received, 'response.output_audio.delta');
+    expect(audioDeltas).toHaveLength(5);
+    expect(decodePcm16(String(audioDeltas[0]?.delta))).toHaveLength(2400);
+    expect(ofType(received, 'response.output_audio.done')).toHaveLength(1);
+    expect(ofType(received, 'output_audio_buffer.started')).toHaveLength(0);
+
+    const done = received.at(-1);
+    expect(done?.type).toBe('response.done');
+    expect(done?.response).toMatchObject({ status: 'completed' });
+  });
+
+  it('plays function calls and answers the tool follow-up without advancing the script', async () => {
+    createServer([
+      [{ type: 'function_call', name: 'play_animation', arguments: { slug: 'wave' } }],
+      [{ type: 'text', text: 'Second reply.' }],
+    ]);
+    const { received, send } = await connectSocket();
+
+    send({ type: 'response.create' });
+    await vi.advanceTimersByTimeAsync(500);
+    const [call] = ofType(received, 'response.function_call_arguments.done');
+    expect(call).toMatchObject({ name: 'play_animation', arguments: '{"slug":"wave"}' });
+
+    send({ type: 'conversation.item.create', item: { type: 'function_call_output', call_id: call?.call_id, output: '{}' } });
+    send({ type: 'response.create' });
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(ofType(received, 'response.output_audio_transcript.done').at(-1)?.transcript).toBe('Done.');
+
+    send({ type: 'response.create' });
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(ofType(received, 'response.output_text.done').at(-1)?.text).toBe('Second reply.');
+  });
+
+  it('reports scripted errors and fails the response', async () => {
+    createServer([[{ type: 'error', code: 'rate_limit_exceeded', message: 'Slow down.' }]]);
+    const { received, send } = await connectSocket();
+
+    send({ type: 'response.create' });
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(ofType(received, 'error')[0]?.error).toMatchObject({ code: 'rate_limit_exceeded', message: 'Slow down.' });
+    expect(received.at(-1)?.response).toMatchObject({ status: 'failed' });
+  });
+
+  it('stops a cancelled reply and rejects a second concurrent response', async () => {
+    createServer([[{ type: 'text', text: 'one two three four five six' }]]);
+    const { received, send } = await connectSocket();
+
+    send({ type: 'response.create' });
+    await vi.advanceTimersByTimeAsync(25);
+    send({ type: 'response.create' });
+    send({ type: 'response.cancel' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(ofType(received, 'error')[0]?.error).toMatchObject({ code: 'conversation_already_has_active_response' });
+    expect(ofType(received, 'response.output_text.delta')).toHaveLength(2);
+    expect(ofType(received, 'response.output_text.done')).toHaveLength(0);
+    expect(received.at(-1)?.response).toMatchObject({ status: 'cancelled' });
+  });
+
+  it('answers the SDP handshake and plays replies over the data channel', async () => {
+    createServer([[{ type: 'audio', durationMs: 200 }]]);
+
+    const response = await server.fetch(MOCK_REALTIME_ENDPOINT, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer mock-token', 'Content-Type': 'application/sdp' },
+      body: 'client-offer',
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('content-type')).toBe('application/sdp');
+    await expect(response.text()).resolves.toBe('mock-answer');
+    expect(peers[0]?.setRemoteDescription).toHaveBeenCalledWith({ type: 'offer', sdp: 'client-offer' });
+
+    const channel = peers[0]?.openChannel();
+    if (!channel) {
+      throw new Error('No answering peer was created.');
+    }
+    channel.onmessage?.(new MessageEvent('message', { data: JSON.stringify({ type: 'response.create' }) }));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(channel.receivedEvents().map((event) => event.type)).toEqual([
+      'session.created',
+      'response.created',
+      'response.output_item.added',
+      'output_audio_buffer.started',
+      'response.output_audio.done',
+      'output_audio_buffer.stopped',
+      'response.done',
+    ]);
+  });
+
+  it('applies the session from a JSON handshake and rejects malformed ones', async () => {
+    createServer([]);
+    const post = (headers: Record<string, string>, body: string) =>
+      server.fetch(MOCK_REALTIME_ENDPOINT, { method: 'POST', headers, body });
+
+    const response = await post(
+      { Authorization: 'Bearer mock-token', 'Content-Type': 'application/json' },
+      JSON.stringify({ sdp: 'client-offer', session: { voice: 'verse' } }),
+    );
+    expect(response.status).toBe(201);
+    const channel = peers[0]?.openChannel();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(channel?.receivedEvents()[0]).toMatchObject({ type: 'session.created', session: { voice: 'verse' } });
+
+    expect((await post({ 'Content-Type': 'application/sdp' }, 'client-offer')).status).toBe(401);
+    expect((await post({ Authorization: 'Bearer mock-token', 'Content-Type': 'text/plain' }, 'offer')).status).toBe(400);
+    expect((await post({ Authorization: 'Bearer mock-token', 'Content-Type': 'application/json' }, '{}')).status).toBe(400);
+  });
+});
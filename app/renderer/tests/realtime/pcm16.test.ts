@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { decodePcm16, encodePcm16 } from '../../src/realtime/pcm16.js';
+
+describe('pcm16', () => {
+  it('encodes samples as little-endian 16-bit PCM', () => {
+    const encoded = encodePcm16(new Float32Array([0, 1, -1, 2]));
+    const bytes = Array.from(atob(encoded), (character) => character.charCodeAt(0));
+
+    expect(bytes).toEqual([0x00, 0x00, 0xff, 0x7f, 0x00, 0x80, 0xff, 0x7f]);
+  });
+
+  it('decodes what it encodes', () => {
+    const samples = new Float32Array([0, 0.5, -0.5, -1]);
+    const decoded = decodePcm16(encodePcm16(samples));
+
+    expect(decoded).toHaveLength(samples.length);
+    decoded.forEach((value, index) => {
+      expect(value).toBeCloseTo(samples[index] ?? 0, 3);
+    });
+  });
+
+  it('encodes blocks larger than one conversion chunk', () => {
+    const samples = new Float32Array(24_000).fill(0.25);
+
+    expect(decodePcm16(encodePcm16(samples))).toHaveLength(24_000);
+  });
+});
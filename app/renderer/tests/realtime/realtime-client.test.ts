@@ -106,6 +106,8 @@ describe('RealtimeClient', () => {
   const sessionUpdateHandler = vi.fn();
   const logHandler = vi.fn();
   const textHandler = vi.fn();
+  const toolCallHandler = vi.fn();
+  const interruptedHandler = vi.fn();
 
   beforeEach(() => {
     peers.length = 0;
@@ -113,6 +115,8 @@ describe('RealtimeClient', () => {
     remoteStreamHandler.mockReset();
     logHandler.mockReset();
     textHandler.mockReset();
+    toolCallHandler.mockReset();
+    interruptedHandler.mockReset();
 
     fetchMock = (vi.fn().mockResolvedValue({
         ok: true,
@@ -143,6 +147,8 @@ describe('RealtimeClient', () => {
         onSessionUpdated: sessionUpdateHandler,
         onLog: logHandler,
         onTextContent: textHandler,
+        onToolCall: toolCallHandler,
+        onAssistantInterrupted: interruptedHandler,
       },
       jitterBufferMs: 80,
     });
@@ -178,6 +184,7 @@ describe('RealtimeClient', () => {
       model: 'gpt-4o-realtime-preview-2024-12-17',
     });
     expect(parsedBody.session.output_modalities).toEqual(['audio']);
+    expect(parsedBody.session.input_audio_transcription).toEqual({ model: 'gpt-4o-mini-transcribe' });
 
     const audioConfig = (parsedBody.session.audio ?? {}) as Record<string, unknown>;
     const inputConfig = (audioConfig.input ?? {}) as { format?: Record<string, unknown> };
@@ -323,6 +330,246 @@ describe('RealtimeClient', () => {
     expect(textHandler).toHaveBeenCalledWith('{wave} Hello there.');
   });
 
+  it('reports turn boundaries and the final response transcript', async () => {
+    const callbacks = {
+      onUserSpeechStarted: vi.fn(),
+      onUserSpeechStopped: vi.fn(),
+      onAssistantAudioStarted: vi.fn(),
+      onAssistantAudioStopped: vi.fn(),
+      onTranscriptDelta: vi.fn(),
+      onUserTranscript: vi.fn(),
+      onResponseDone: vi.fn(),
+    };
+    const turnClient = new RealtimeClient({
+      fetchFn: (input, init) => fetchMock(input, init),
+      createPeerConnection: () => {
+        const peer = new FakePeerConnection();
+        peers.push(peer);
+        return peer as unknown as RTCPeerConnection;
+      },
+      callbacks,
+    });
+
+    await turnClient.connect({ apiKey: 'test-key', inputStream: new FakeMediaStream() as unknown as MediaStream });
+    const dataChannel = peers[0].dataChannel;
+    const send = (payload: Record<string, unknown>) =>
+      dataChannel.onmessage?.call(dataChannel as unknown as RTCDataChannel, {
+        data: JSON.stringify(payload),
+      } as MessageEvent);
+
+    send({ type: 'input_audio_buffer.speech_started' });
+    send({ type: 'input_audio_buffer.speech_stopped', item_id: 'item-user-1' });
+    send({ type: 'response.created' });
+    send({ type: 'response.output_item.added', item: { id: 'item-assistant-1', type: 'message', role: 'assistant' } });
+    send({ type: 'conversation.item.input_audio_transcription.delta', item_id: 'item-user-1', delta: 'Hi' });
+    send({ type: 'conversation.item.input_audio_transcription.completed', item_id: 'item-user-1', transcript: 'Hi there ' });
+    send({ type: 'output_audio_buffer.started' });
+    send({ type: 'response.output_audio_transcript.delta', delta: 'Hello' });
+    send({ type: 'response.output_audio_transcript.delta', delta: ' there.' });
+    send({ type: 'response.output_audio_transcript.done', transcript: 'Hello there.' });
+    send({
+      type: 'response.done',
+      response: {
+        status: 'completed',
+        usage: { input_tokens: 120, output_tokens: 30, total_tokens: 150 },
+        audio: { output: { voice: 'alloy' } },
+      },
+    });
+    send({ type: 'output_audio_buffer.stopped' });
+    send({ type: 'response.created' });
+    send({
+      type: 'response.done',
+      response: { status: 'cancelled', status_details: { type: 'cancelled', reason: 'turn_detected' } },
+    });
+
+    expect(callbacks.onUserSpeechStarted).toHaveBeenCalledTimes(1);
+    expect(callbacks.onUserSpeechStopped).toHaveBeenCalledWith({ itemId: 'item-user-1' });
+    expect(callbacks.onUserTranscript.mock.calls).toEqual([
+      [{ itemId: 'item-user-1', text: 'Hi', final: false }],
+      [{ itemId: 'item-user-1', text: 'Hi there', final: true }],
+    ]);
+    expect(callbacks.onAssistantAudioStarted).toHaveBeenCalledTimes(1);
+    expect(callbacks.onAssistantAudioStopped).toHaveBeenCalledTimes(1);
+    expect(callbacks.onTranscriptDelta.mock.calls).toEqual([['Hello'], [' there.']]);
+    expect(callbacks.onResponseDone).toHaveBeenNthCalledWith(1, {
+      transcript: 'Hello there.',
+      itemId: 'item-assistant-1',
+      usage: { inputTokens: 120, outputTokens: 30, totalTokens: 150 },
+      interrupted: false,
+      voice: 'alloy',
+      model: 'gpt-4o-realtime-preview-2024-12-17',
+    });
+    expect(callbacks.onResponseDone).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      transcript: null,
+      itemId: null,
+      usage: null,
+      interrupted: true,
+    }));
+
+    await turnClient.destroy();
+  });
+
+  it('advertises tools and answers function calls before asking for a new response', async () => {
+    const tool = { name: 'get_current_time', description: 'Current time', parameters: { type: 'object', properties: {} } };
+    client.updateSessionConfig({ tools: [tool] });
+    expect(client.getSessionConfigSnapshot()).toMatchObject({
+      tools: [{ type: 'function', ...tool }],
+      tool_choice: 'auto',
+    });
+
+    await client.connect({ apiKey: 'test-key', inputStream: new FakeMediaStream() as unknown as MediaStream });
+    const dataChannel = peers[0].dataChannel;
+    dataChannel.onopen?.call(dataChannel as unknown as RTCDataChannel, new Event('open'));
+    const sent = () => dataChannel.send.mock.calls.map((call) => JSON.parse(String(call[0])) as Record<string, unknown>);
+    expect(sent().find((payload) => payload.type === 'session.update')).toMatchObject({
+      session: { tools: [expect.objectContaining({ name: 'get_current_time' })], tool_choice: 'auto' },
+    });
+    const send = (payload: Record<string, unknown>) =>
+      dataChannel.onmessage?.call(
+        dataChannel as unknown as RTCDataChannel,
+        new MessageEvent('message', { data: JSON.stringify(payload) }),
+      );
+
+    send({ type: 'response.created' });
+    send({ type: 'response.function_call_arguments.done', call_id: 'call-1', name: 'get_current_time', arguments: '{}' });
+    send({ type: 'response.function_call_arguments.done', call_id: 'call-2', name: 'get_current_time', arguments: '' });
+    expect(toolCallHandler.mock.calls).toEqual([
+      [{ callId: 'call-1', name: 'get_current_time', arguments: '{}' }],
+      [{ callId: 'call-2', name: 'get_current_time', arguments: '' }],
+    ]);
+
+    dataChannel.send.mockClear();
+    client.submitToolOutput('call-1', '{"time":"13:05"}');
+    send({ type: 'response.done', response: { status: 'completed' } });
+    client.submitToolOutput('unknown-call', '{}');
+    expect(sent()).toEqual([
+      {
+        type: 'conversation.item.create',
+        item: { type: 'function_call_output', call_id: 'call-1', output: '{"time":"13:05"}' },
+      },
+    ]);
+
+    client.submitToolOutput('call-2', '{"time":"13:05"}');
+    expect(sent().map((payload) => payload.type)).toEqual([
+      'conversation.item.create',
+      'conversation.item.create',
+      'response.create',
+    ]);
+  });
+
+  it('cancels and truncates the assistant reply when the user barges in', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    vi.setSystemTime(10_000);
+    const audioElement = document.createElement('audio');
+    audioElement.volume = 0.8;
+    client.bindRemoteAudioElement(audioElement);
+
+    await client.connect({ apiKey: 'test-key', inputStream: new FakeMediaStream() as unknown as MediaStream });
+    const dataChannel = peers[0].dataChannel;
+    const send = (payload: Record<string, unknown>) =>
+      dataChannel.onmessage?.call(
+        dataChannel as unknown as RTCDataChannel,
+        new MessageEvent('message', { data: JSON.stringify(payload) }),
+      );
+    const sent = () => dataChannel.send.mock.calls.map((call) => JSON.parse(String(call[0])) as Record<string, unknown>);
+
+    expect(client.notifySpeechActivity(true)).toBeNull();
+
+    send({ type: 'response.created' });
+    send({ type: 'response.output_item.added', item: { id: 'item-assistant-1', type: 'message', role: 'assistant' } });
+    send({ type: 'output_audio_buffer.started' });
+    expect(client.isAssistantSpeaking()).toBe(true);
+    vi.setSystemTime(11_250);
+    dataChannel.send.mockClear();
+
+    expect(client.notifySpeechActivity(false)).toBeNull();
+    const interruption = client.notifySpeechActivity(true);
+
+    expect(interruption).toEqual({ itemId: 'item-assistant-1', audioEndMs: 1250 });
+    expect(interruptedHandler).toHaveBeenCalledWith(interruption);
+    expect(sent()).toEqual([
+      { type: 'response.cancel' },
+      { type: 'output_audio_buffer.clear' },
+      { type: 'conversation.item.truncate', item_id: 'item-assistant-1', content_index: 0, audio_end_ms: 1250 },
+    ]);
+    expect(client.isAssistantSpeaking()).toBe(false);
+    expect(client.interruptAssistant()).toBeNull();
+
+    vi.advanceTimersByTime(200);
+    expect(audioElement.volume).toBe(0);
+
+    // The next reply plays at the volume from before the fade.
+    send({ type: 'output_audio_buffer.started' });
+    expect(audioElement.volume).toBe(0.8);
+  });
+
+  it('sends typed text as a user message and asks for a reply', async () => {
+    expect(client.sendText('hello')).toBeNull();
+
+    await client.connect({ apiKey: 'test-key', inputStream: new FakeMediaStream() as unknown as MediaStream });
+    const dataChannel = peers[0].dataChannel;
+    const send = (payload: Record<string, unknown>) =>
+      dataChannel.onmessage?.call(
+        dataChannel as unknown as RTCDataChannel,
+        new MessageEvent('message', { data: JSON.stringify(payload) }),
+      );
+    const sent = () => dataChannel.send.mock.calls.map((call) => JSON.parse(String(call[0])) as Record<string, unknown>);
+    dataChannel.send.mockClear();
+
+    expect(client.sendText('   ')).toBeNull();
+    const itemId = client.sendText('  What time is it?  ');
+    // The API caps item ids at 32 characters.
+    expect(itemId).toMatch(/^item_local_[a-z0-9_]{1,21}$/);
+    expect(sent()).toEqual([
+      {
+        type: 'conversation.item.create',
+        item: { id: itemId, type: 'message', role: 'user', content: [{ type: 'input_text', text: 'What time is it?' }] },
+      },
+      { type: 'response.create' },
+    ]);
+
+    // A reply that is still being generated is cancelled so the typed message gets its own answer.
+    send({ type: 'response.created' });
+    dataChannel.send.mockClear();
+    client.sendText('Never mind');
+    expect(sent().map((payload) => payload.type)).toEqual([
+      'response.cancel',
+      'conversation.item.create',
+      'response.create',
+    ]);
+  });
+
+  it('deletes the items of forgotten messages from the live session', async () => {
+    client.linkMessageItem('message-early', 'item-early');
+
+    await client.connect({ apiKey: 'test-key', inputStream: new FakeMediaStream() as unknown as MediaStream });
+    const dataChannel = peers[0].dataChannel;
+    const sent = () => dataChannel.send.mock.calls.map((call) => JSON.parse(String(call[0])) as Record<string, unknown>);
+    const typedItemId = client.sendText('My PIN is 1234') ?? '';
+    client.linkMessageItem('message-typed', typedItemId);
+    client.linkMessageItem('message-spoken', 'item-user-1');
+    dataChannel.send.mockClear();
+
+    expect(client.forgetMessages(['message-typed', 'message-spoken', 'message-early', 'unknown'])).toBe(2);
+    expect(sent()).toEqual([
+      { type: 'conversation.item.delete', item_id: typedItemId },
+      { type: 'conversation.item.delete', item_id: 'item-user-1' },
+    ]);
+    expect(client.forgetMessages(['message-typed'])).toBe(0);
+  });
+
+  it('declares 24 kHz PCM16 input when switched to the WebSocket transport', () => {
+    expect(client.getSessionConfigSnapshot()).toMatchObject({
+      audio: { input: { format: { type: 'pcm16', sample_rate_hz: 16000, channels: 1 } } },
+    });
+
+    client.setTransport('websocket');
+
+    expect(client.getSessionConfigSnapshot()).toMatchObject({
+      audio: { input: { format: { type: 'pcm16', sample_rate_hz: 24000, channels: 1 } } },
+    });
+  });
+
   it('retries connection when the peer disconnects', async () => {
     vi.useFakeTimers();
     const stream = new FakeMediaStream() as unknown as MediaStream;
@@ -359,6 +606,58 @@ describe('RealtimeClient', () => {
     });
   });
 
+  it('replays conversation history whenever the control channel opens', async () => {
+    vi.useFakeTimers();
+    const stream = new FakeMediaStream() as unknown as MediaStream;
+    const historyProvider = vi.fn(async () => [
+      { id: 'message-1', role: 'user' as const, text: 'Plan a trip to Lisbon' },
+      { role: 'assistant' as const, text: '  ' },
+      { role: 'assistant' as const, text: 'Spring is a lovely time to go.' },
+    ]);
+    client.setHistoryProvider(historyProvider);
+
+    const replayedItems = (peer: FakePeerConnection) =>
+      peer.dataChannel.send.mock.calls
+        .map((call) => JSON.parse(call[0] as string) as { type: string; item?: unknown })
+        .filter((payload) => payload.type === 'conversation.item.create')
+        .map((payload) => payload.item);
+
+    await client.connect({ apiKey: 'test-key', inputStream: stream });
+    const firstPeer = peers[0];
+    firstPeer.dataChannel.onopen?.call(firstPeer.dataChannel as unknown as RTCDataChannel, new Event('open'));
+    await vi.runAllTimersAsync();
+
+    const firstItems = replayedItems(firstPeer) as Array<{ id?: string }>;
+    expect(firstItems.every((item) => item.id?.startsWith('item_local_'))).toBe(true);
+    expect(firstItems.map((item) => ({ ...item, id: undefined }))).toEqual([
+      { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Plan a trip to Lisbon' }] },
+      {
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'output_text', text: 'Spring is a lovely time to go.' }],
+      },
+    ]);
+
+    firstPeer.emitConnectionState('connected');
+    firstPeer.emitConnectionState('disconnected');
+    await vi.runAllTimersAsync();
+
+    const secondPeer = peers[1];
+    secondPeer.dataChannel.onopen?.call(secondPeer.dataChannel as unknown as RTCDataChannel, new Event('open'));
+    await vi.runAllTimersAsync();
+
+    expect(historyProvider).toHaveBeenCalledTimes(2);
+    expect(replayedItems(secondPeer)).toHaveLength(2);
+
+    const [replayedUser] = replayedItems(secondPeer) as Array<{ id: string }>;
+    secondPeer.dataChannel.send.mockClear();
+    expect(client.forgetMessages(['message-1'])).toBe(1);
+    expect(JSON.parse(secondPeer.dataChannel.send.mock.calls[0]?.[0] as string)).toEqual({
+      type: 'conversation.item.delete',
+      item_id: replayedUser.id,
+    });
+  });
+
   it('surfaces errors when negotiation fails', async () => {
     fetchMock.mockResolvedValueOnce({
       ok: false,
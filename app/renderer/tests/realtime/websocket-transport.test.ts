@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { encodePcm16 } from '../../src/realtime/pcm16.js';
+import type { RealtimeTransportHandlers } from '../../src/realtime/realtime-transport.js';
+import { WebSocketTransport } from '../../src/realtime/websocket-transport.js';
+
+class FakePort {
+  readonly postMessage = vi.fn();
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  emit(data: unknown) {
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+}
+
+const workletNodes: FakeAudioWorkletNode[] = [];
+
+class FakeAudioWorkletNode {
+  readonly port = new FakePort();
+  readonly connect = vi.fn();
+  readonly disconnect = vi.fn();
+
+  constructor(
+    readonly context: unknown,
+    readonly name: string,
+  ) {
+    workletNodes.push(this);
+  }
+}
+
+class FakeAudioContext {
+  readonly audioWorklet = { addModule: vi.fn(async () => undefined) };
+  readonly remoteStream = { id: 'remote-stream' } as unknown as MediaStream;
+  readonly createMediaStreamDestination = vi.fn(() => ({ stream: this.remoteStream }));
+  readonly createMediaStreamSource = vi.fn(() => ({ connect: vi.fn(), disconnect: vi.fn() }));
+  readonly close = vi.fn(async () => undefined);
+}
+
+class FakeWebSocket {
+  readyState = 0;
+  readonly send = vi.fn();
+  readonly close = vi.fn();
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(
+    readonly url: string,
+    readonly protocols: string[],
+  ) {}
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.(new Event('open'));
+  }
+
+  drop(code = 1006) {
+    this.readyState = 3;
+    this.onclose?.(new CloseEvent('close', { code }));
+  }
+
+  receive(payload: Record<string, unknown>) {
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(payload) }));
+  }
+
+  sentEvents() {
+    return this.send.mock.calls.map((call) => JSON.parse(String(call[0])) as Record<string, unknown>);
+  }
+}
+
+describe('WebSocketTransport', () => {
+  const inputStream = { id: 'microphone' } as unknown as MediaStream;
+  const sockets: FakeWebSocket[] = [];
+  let context: FakeAudioContext;
+  let handlers: { [K in keyof RealtimeTransportHandlers]: ReturnType<typeof vi.fn> };
+  let transport: WebSocketTransport;
+
+  const receivedEventTypes = () =>
+    handlers.onMessage.mock.calls.map((call) => (JSON.parse(String(call[0])) as { type: string }).type);
+  const workletPort = (name: string) => {
+    const node = workletNodes.find((candidate) => candidate.name === name);
+    if (!node) {
+      throw new Error(`No ${name} worklet node was created.`);
+    }
+    return node.port;
+  };
+  const playbackPort = () => workletPort('pcm16-playback');
+  const capturePort = () => workletPort('pcm16-capture');
+
+  const connect = async () => {
+    const connecting = transport.connect({
+      apiKey: 'ephemeral-key',
+      inputStream,
+      session: { type: 'realtime', instructions: 'Be brief.' },
+    });
+    await vi.waitFor(() => expect(sockets).toHaveLength(1));
+    sockets[0].open();
+    await connecting;
+    return sockets[0];
+  };
+
+  beforeEach(() => {
+    sockets.length = 0;
+    workletNodes.length = 0;
+    vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+    context = new FakeAudioContext();
+    handlers = {
+      onOpen: vi.fn(),
+      onMessage: vi.fn(),
+      onConnectionStateChange: vi.fn(),
+      onRemoteStream: vi.fn(),
+      onFirstAudioFrame: vi.fn(),
+      onLog: vi.fn(),
+    };
+    transport = new WebSocketTransport({
+      endpoint: 'wss://realtime.test/v1/realtime?model=test-model',
+      createWebSocket: (url, protocols) => {
+        const socket = new FakeWebSocket(url, protocols);
+        sockets.push(socket);
+        return socket;
+      },
+      createAudioContext: () => context as unknown as AudioContext,
+      jitterBufferMs: 100,
+      handlers,
+    });
+  });
+
+  afterEach(() => {
+    transport.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('authenticates with a subprotocol and applies the session once the socket opens', async () => {
+    const socket = await connect();
+
+    expect(socket.url).toBe('wss://realtime.test/v1/realtime?model=test-model');
+    expect(socket.protocols).toEqual(['realtime', 'openai-insecure-api-key.ephemeral-key']);
+    expect(socket.sentEvents()).toEqual([
+      { type: 'session.update', session: { type: 'realtime', instructions: 'Be brief.' } },
+    ]);
+    expect(handlers.onConnectionStateChange.mock.calls).toEqual([['connecting'], ['connected']]);
+    expect(handlers.onOpen).toHaveBeenCalledTimes(1);
+    expect(handlers.onRemoteStream).toHaveBeenCalledWith(context.remoteStream);
+    expect(transport.isOpen()).toBe(true);
+    expect(playbackPort().postMessage).toHaveBeenCalledWith({ type: 'prebuffer', samples: 2400 }, []);
+  });
+
+  it('streams captured microphone blocks as PCM16', async () => {
+    const socket = await connect();
+    socket.send.mockClear();
+
+    const block = new Float32Array([0, 0.5, -0.5]);
+    capturePort().emit(block);
+
+    expect(socket.sentEvents()).toEqual([{ type: 'input_audio_buffer.append', audio: encodePcm16(block) }]);
+  });
+
+  it('plays audio deltas and reports playback like a WebRTC session', async () => {
+    const socket = await connect();
+
+    socket.receive({ type: 'response.created' });
+    socket.receive({ type: 'response.output_audio.delta', delta: encodePcm16(new Float32Array([0.25, -0.25])) });
+    socket.receive({ type: 'response.output_audio.delta', delta: encodePcm16(new Float32Array([0.5])) });
+
+    const queued = playbackPort().postMessage.mock.calls.filter(
+      (call) => (call[0] as { type: string }).type === 'audio',
+    );
+    expect(queued).toHaveLength(2);
+    expect(handlers.onFirstAudioFrame).toHaveBeenCalledTimes(1);
+    expect(receivedEventTypes()).toEqual(['response.created', 'output_audio_buffer.started']);
+
+    socket.receive({ type: 'response.output_audio.done' });
+    expect(playbackPort().postMessage).toHaveBeenLastCalledWith({ type: 'end' }, []);
+
+    playbackPort().emit({ type: 'drained' });
+    expect(receivedEventTypes()).toEqual([
+      'response.created',
+      'output_audio_buffer.started',
+      'response.output_audio.done',
+      'output_audio_buffer.stopped',
+    ]);
+  });
+
+  it('clears queued audio locally and drops the rest of the cleared reply', async () => {
+    const socket = await connect();
+    socket.receive({ type: 'response.created' });
+    socket.receive({ type: 'response.output_audio.delta', delta: encodePcm16(new Float32Array([0.25])) });
+    socket.send.mockClear();
+    handlers.onMessage.mockClear();
+
+    transport.send({ type: 'output_audio_buffer.clear' });
+    transport.send({ type: 'response.cancel' });
+
+    expect(playbackPort().postMessage).toHaveBeenLastCalledWith({ type: 'clear' }, []);
+    expect(receivedEventTypes()).toEqual(['output_audio_buffer.cleared']);
+    expect(socket.sentEvents()).toEqual([{ type: 'response.cancel' }]);
+
+    const audioPosts = () =>
+      playbackPort().postMessage.mock.calls.filter((call) => (call[0] as { type: string }).type === 'audio').length;
+    socket.receive({ type: 'response.output_audio.delta', delta: encodePcm16(new Float32Array([0.25])) });
+    expect(audioPosts()).toBe(1);
+
+    socket.receive({ type: 'response.created' });
+    socket.receive({ type: 'response.output_audio.delta', delta: encodePcm16(new Float32Array([0.25])) });
+    expect(audioPosts()).toBe(2);
+  });
+
+  it('reports a dropped socket so the client can reconnect', async () => {
+    const socket = await connect();
+
+    socket.drop();
+
+    expect(handlers.onConnectionStateChange).toHaveBeenLastCalledWith('disconnected');
+    expect(transport.isOpen()).toBe(false);
+    expect(() => transport.send({ type: 'response.create' })).toThrow('Realtime WebSocket is not open.');
+  });
+
+  it('fails to connect when the socket closes before opening', async () => {
+    const connecting = transport.connect({ apiKey: 'bad-key', inputStream, session: {} });
+    await vi.waitFor(() => expect(sockets).toHaveLength(1));
+
+    sockets[0].drop(4001);
+
+    await expect(connecting).rejects.toThrow('Realtime WebSocket closed before opening (code 4001).');
+  });
+});
@@ -15,7 +15,11 @@ export default defineConfig(({ mode }) => ({
     globals: true,
     setupFiles: './vitest.setup.ts',
     include: ['tests/**/*.test.ts', 'tests/**/*.test.tsx'],
-    environmentMatchGlobs: [['tests/vite-config.test.ts', 'node']],
+    environmentMatchGlobs: [
+      ['tests/vite-config.test.ts', 'node'],
+      // jsdom's Blob lacks arrayBuffer(), which the recorder uses to hand clips to the bridge.
+      ['tests/audio/turn-recorder.test.ts', 'node'],
+    ],
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],